@@ -10,6 +10,7 @@ import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/AppSidebar";
 import { ThemeSwitcher } from "@/components/ui/theme-switcher";
 import ErrorBoundary from "@/components/ErrorBoundary";
+import { useAutoBackup } from "@/hooks/useAutoBackup";
 import { 
   Analytics,
   Reports,
@@ -20,6 +21,7 @@ import {
   CreditCards,
   Transactions,
   Accounts,
+  Categories,
   PageLoadingSkeleton,
   preloadCriticalComponents
 } from "@/components/LazyComponents";
@@ -47,6 +49,8 @@ const App = () => {
     preloadCriticalComponents();
   }, []);
 
+  useAutoBackup();
+
   return (
     <ErrorBoundary showDetails={process.env.NODE_ENV === 'development'}>
       <QueryClientProvider client={queryClient}>
@@ -82,6 +86,7 @@ const App = () => {
                             <Route path="/credit-cards" element={<CreditCards />} />
                             <Route path="/goals" element={<FinancialGoals />} />
                             <Route path="/budgets" element={<BudgetTracker />} />
+                            <Route path="/categories" element={<Categories />} />
                             <Route path="/reports" element={<Reports />} />
                             <Route path="/analytics" element={<Analytics />} />
                             <Route path="/notifications" element={<NotificationCenter />} />
@@ -3,11 +3,11 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useFinancial } from '@/contexts/FinancialContext';
 import { formatCurrency } from '@/lib/utils';
-import { Plus, Wallet, Edit, Trash2 } from 'lucide-react';
+import { Plus, Wallet, Edit, Trash2, Scale } from 'lucide-react';
 import { AccountForm } from './forms/AccountForm';
 
 const Accounts: React.FC = () => {
-  const { accounts, deleteAccount } = useFinancial();
+  const { accounts, deleteAccount, getBalanceDiscrepancies, reconcileAccount } = useFinancial();
   const [showForm, setShowForm] = useState(false);
   const [editingAccount, setEditingAccount] = useState<string | null>(null);
 
@@ -23,6 +23,7 @@ const Accounts: React.FC = () => {
   };
 
   const totalBalance = accounts.reduce((sum, account) => sum + account.balance, 0);
+  const discrepancies = getBalanceDiscrepancies();
 
   return (
     <div className="p-6 space-y-6">
@@ -65,6 +66,48 @@ const Accounts: React.FC = () => {
         </CardContent>
       </Card>
 
+      {/* Balance Reconciliation */}
+      {discrepancies.length > 0 && (
+        <Card className="border-yellow-500/50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Scale className="h-5 w-5" />
+              Conciliação de Saldos
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              O saldo registrado destas contas não confere com o calculado a partir das transações
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {discrepancies.map(({ account, storedBalance, ledgerBalance, difference }) => (
+              <div
+                key={account.id}
+                className="flex flex-col md:flex-row md:items-center justify-between gap-3 border-b pb-4 last:border-b-0 last:pb-0"
+              >
+                <div className="space-y-1">
+                  <p className="font-medium text-foreground">{account.name}</p>
+                  <div className="flex flex-wrap gap-x-4 text-sm text-muted-foreground">
+                    <span>Registrado: {formatCurrency(storedBalance)}</span>
+                    <span>Calculado: {formatCurrency(ledgerBalance)}</span>
+                    <span className={difference >= 0 ? 'text-income' : 'text-expense'}>
+                      Diferença: {formatCurrency(difference)}
+                    </span>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => reconcileAccount(account.id, 'ledger')}>
+                    Usar calculado
+                  </Button>
+                  <Button size="sm" onClick={() => reconcileAccount(account.id, 'stored')}>
+                    Manter registrado
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Accounts Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {accounts.map((account) => (
@@ -5,6 +5,8 @@ import { useFinancial } from '@/contexts/FinancialContext';
 import { formatCurrency } from '@/lib/utils';
 import { LineChart, Line, BarChart, Bar, AreaChart, Area, ResponsiveContainer, XAxis, YAxis, Tooltip, Legend, PieChart, Pie, Cell } from 'recharts';
 import { TrendingUp, TrendingDown, BarChart3, PieChart as PieChartIcon, Activity } from 'lucide-react';
+import { buildCategoryTree, getRootCategory } from '@/utils/categories';
+import { getCategoryAllocations } from '@/utils/splits';
 
 const Analytics: React.FC = () => {
   const { transactions, categories, accounts } = useFinancial();
@@ -51,7 +53,7 @@ const Analytics: React.FC = () => {
       
       if (transaction.type === 'income') {
         monthlyData[monthKey].income += transaction.amount;
-      } else {
+      } else if (transaction.type === 'expense') {
         monthlyData[monthKey].expense += transaction.amount;
       }
     });
@@ -69,18 +71,21 @@ const Analytics: React.FC = () => {
   const categoryTrends = useMemo(() => {
     const categoryData: { [category: string]: { [month: string]: number } } = {};
     
-    filteredData.forEach(transaction => {
+    filteredData.filter(t => t.type !== 'transfer').forEach(transaction => {
       const monthKey = new Date(transaction.date).toLocaleDateString('pt-BR', { 
         year: 'numeric', 
         month: 'short' 
       });
       
-      if (!categoryData[transaction.category]) {
-        categoryData[transaction.category] = {};
-      }
-      
-      categoryData[transaction.category][monthKey] = 
-        (categoryData[transaction.category][monthKey] || 0) + transaction.amount;
+      getCategoryAllocations(transaction).forEach(split => {
+        const category = getRootCategory(categories, split.category)?.name || split.category;
+        if (!categoryData[category]) {
+          categoryData[category] = {};
+        }
+        
+        categoryData[category][monthKey] = 
+          (categoryData[category][monthKey] || 0) + split.amount;
+      });
     });
 
     const months = Array.from(new Set(filteredData.map(t => 
@@ -94,7 +99,7 @@ const Analytics: React.FC = () => {
       });
       return monthData;
     });
-  }, [filteredData]);
+  }, [filteredData, categories]);
 
   const savingsRateData = useMemo(() => {
     return cashFlowData.map(item => ({
@@ -105,8 +110,11 @@ const Analytics: React.FC = () => {
 
   const accountGrowth = useMemo(() => {
     return accounts.map(account => {
-      const accountTransactions = transactions.filter(t => t.account === account.name);
+      const accountTransactions = transactions.filter(t => t.account === account.id || t.toAccount === account.id);
       const growth = accountTransactions.reduce((sum, t) => {
+        if (t.type === 'transfer') {
+          return sum + (t.toAccount === account.id ? t.amount : -t.amount);
+        }
         return sum + (t.type === 'income' ? t.amount : -t.amount);
       }, 0);
       
@@ -166,7 +174,7 @@ const Analytics: React.FC = () => {
               <YAxis />
               <Tooltip formatter={(value: number) => formatCurrency(value)} />
               <Legend />
-              {categories.slice(0, 6).map((category, index) => (
+              {buildCategoryTree(categories).slice(0, 6).map(({ category }) => (
                 <Line
                   key={category.name}
                   type="monotone"
@@ -9,7 +9,8 @@ import {
   BarChart3, 
   Bell, 
   Settings,
-  CreditCard
+  CreditCard,
+  Tags
 } from "lucide-react"
 import { NavLink, useLocation } from "react-router-dom"
 
@@ -36,6 +37,7 @@ const mainItems = [
 const planningItems = [
   { title: "Metas", url: "/goals", icon: Target },
   { title: "Orçamentos", url: "/budgets", icon: TrendingUp },
+  { title: "Categorias", url: "/categories", icon: Tags },
 ]
 
 const analyticsItems = [
@@ -0,0 +1,240 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useSettings, type AppSettings } from '@/hooks/useSettings';
+import { format } from 'date-fns';
+import { History, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  createLocalBackup,
+  deleteLocalBackup,
+  getKeptByRestore,
+  listLocalBackups,
+  restoreLocalBackup,
+  verifyLocalBackup,
+  type LocalBackupInfo,
+} from '@/utils/localBackups';
+
+const FREQUENCY_OPTIONS: { value: AppSettings['backup']['backupFrequency']; label: string }[] = [
+  { value: 'daily', label: 'Diário' },
+  { value: 'weekly', label: 'Semanal' },
+  { value: 'monthly', label: 'Mensal' },
+];
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const BackupManager: React.FC = () => {
+  const { settings, updateNestedSettings } = useSettings();
+  const [backups, setBackups] = useState<LocalBackupInfo[]>([]);
+  const [verified, setVerified] = useState<Record<string, boolean>>({});
+  const [isCreating, setIsCreating] = useState(false);
+
+  const refresh = useCallback(async () => {
+    const list = await listLocalBackups();
+    setBackups(list);
+    const results = await Promise.all(list.map(backup => verifyLocalBackup(backup)));
+    setVerified(Object.fromEntries(list.map((backup, index) => [backup.id, results[index]])));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      await createLocalBackup({ trigger: 'manual', ...settings.backup });
+      toast.success('Backup criado');
+      await refresh();
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      toast.error('Erro ao criar backup');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRestore = async (backup: LocalBackupInfo) => {
+    const date = format(new Date(backup.createdAt), 'dd/MM/yyyy HH:mm');
+    const kept = getKeptByRestore(backup);
+    const keptNote = kept.length > 0 ? ` As ${kept.join(' e ')} atuais serão mantidas, pois não fazem parte do backup.` : '';
+    if (!confirm(`Restaurar o backup de ${date}? Os dados atuais serão substituídos.${keptNote}`)) return;
+
+    try {
+      await restoreLocalBackup(backup);
+      toast.success('Backup restaurado. Recarregando...');
+      setTimeout(() => window.location.reload(), 1500);
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      toast.error(error instanceof Error ? error.message : 'Erro ao restaurar backup');
+    }
+  };
+
+  const handleDelete = async (backup: LocalBackupInfo) => {
+    try {
+      await deleteLocalBackup(backup.id);
+    } catch (error) {
+      console.error('Error deleting backup:', error);
+      toast.error('Erro ao excluir backup');
+    }
+    await refresh();
+  };
+
+  return (
+    <Card className="animate-fade-in">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Backups Locais
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="auto-backup" className="text-sm font-medium">
+              Backup Automático
+            </Label>
+            <Switch
+              id="auto-backup"
+              checked={settings.backup.autoBackup}
+              onCheckedChange={(checked) => updateNestedSettings('backup', { autoBackup: checked })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="backup-frequency" className="text-sm font-medium">
+              Frequência
+            </Label>
+            <Select
+              value={settings.backup.backupFrequency}
+              onValueChange={(value: AppSettings['backup']['backupFrequency']) =>
+                updateNestedSettings('backup', { backupFrequency: value })
+              }
+            >
+              <SelectTrigger id="backup-frequency" className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FREQUENCY_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="include-categories" className="text-sm font-medium">
+              Incluir categorias
+            </Label>
+            <Switch
+              id="include-categories"
+              checked={settings.backup.includeCategories}
+              onCheckedChange={(checked) => updateNestedSettings('backup', { includeCategories: checked })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="max-backups" className="text-sm font-medium">
+              Manter até
+            </Label>
+            <Input
+              id="max-backups"
+              type="number"
+              min={1}
+              max={50}
+              className="w-32"
+              value={settings.backup.maxBackups}
+              onChange={(e) => {
+                const value = parseInt(e.target.value);
+                if (value > 0) updateNestedSettings('backup', { maxBackups: value });
+              }}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="include-settings" className="text-sm font-medium">
+              Incluir configurações
+            </Label>
+            <Switch
+              id="include-settings"
+              checked={settings.backup.includeSettings}
+              onCheckedChange={(checked) => updateNestedSettings('backup', { includeSettings: checked })}
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={handleCreate} disabled={isCreating} variant="outline" className="flex items-center gap-2">
+              <Save className="h-4 w-4" />
+              {isCreating ? 'Salvando...' : 'Fazer backup agora'}
+            </Button>
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Data</TableHead>
+              <TableHead>Origem</TableHead>
+              <TableHead>Transações</TableHead>
+              <TableHead>Tamanho</TableHead>
+              <TableHead>Integridade</TableHead>
+              <TableHead className="text-right">Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {backups.map(backup => (
+              <TableRow key={backup.id}>
+                <TableCell>{format(new Date(backup.createdAt), 'dd/MM/yyyy HH:mm')}</TableCell>
+                <TableCell>{backup.trigger === 'auto' ? 'Automático' : 'Manual'}</TableCell>
+                <TableCell>{backup.transactionCount}</TableCell>
+                <TableCell>{formatSize(backup.size)}</TableCell>
+                <TableCell>
+                  {backup.id in verified ? (
+                    <Badge variant={verified[backup.id] ? 'secondary' : 'destructive'}>
+                      {verified[backup.id] ? 'Íntegro' : 'Corrompido'}
+                    </Badge>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">Verificando...</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRestore(backup)}
+                      disabled={verified[backup.id] === false}
+                      className="flex items-center gap-1"
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                      Restaurar
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleDelete(backup)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+            {backups.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  Nenhum backup salvo neste navegador
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BackupManager;
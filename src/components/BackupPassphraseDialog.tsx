@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { MIN_PASSPHRASE_LENGTH } from '@/utils/backupFile';
+
+interface BackupPassphraseDialogProps {
+  mode: 'export' | 'import' | null;
+  onCancel: () => void;
+  onConfirm: (passphrase: string) => Promise<void>;
+}
+
+const BackupPassphraseDialog: React.FC<BackupPassphraseDialogProps> = ({ mode, onCancel, onConfirm }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    setPassphrase('');
+    setConfirmation('');
+  }, [mode]);
+
+  const isExport = mode === 'export';
+  const error = !isExport
+    ? null
+    : passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? `Use pelo menos ${MIN_PASSPHRASE_LENGTH} caracteres`
+      : passphrase !== confirmation
+        ? 'As senhas não conferem'
+        : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (error || !passphrase) return;
+
+    setIsWorking(true);
+    try {
+      await onConfirm(passphrase);
+    } catch {
+      // The hook already reported the error; keep the dialog open to retry
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={mode !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{isExport ? 'Proteger backup com senha' : 'Backup protegido por senha'}</DialogTitle>
+            <DialogDescription>
+              {isExport
+                ? 'O arquivo será criptografado. Guarde a senha: sem ela não é possível restaurar o backup.'
+                : 'Informe a senha usada ao exportar este backup.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="backup-passphrase">Senha</Label>
+            <Input
+              id="backup-passphrase"
+              type="password"
+              autoFocus
+              autoComplete={isExport ? 'new-password' : 'current-password'}
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+          </div>
+
+          {isExport && (
+            <div className="space-y-2">
+              <Label htmlFor="backup-passphrase-confirmation">Confirmar senha</Label>
+              <Input
+                id="backup-passphrase-confirmation"
+                type="password"
+                autoComplete="new-password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+              {passphrase && error && <p className="text-xs text-destructive">{error}</p>}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={isWorking || !passphrase || !!error}>
+              {isWorking ? 'Processando...' : isExport ? 'Exportar' : 'Importar'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BackupPassphraseDialog;
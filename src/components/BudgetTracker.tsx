@@ -1,48 +1,47 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
 import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useFinancial } from '@/contexts/FinancialContext';
+import { useSettings } from '@/hooks/useSettings';
 import { formatCurrency } from '@/lib/utils';
-import { PiggyBank, Plus, AlertTriangle, CheckCircle, TrendingUp } from 'lucide-react';
-import { Budget } from '@/types/goals';
+import { PiggyBank, Plus, AlertTriangle, CheckCircle, History } from 'lucide-react';
+import { BarChart, Bar, ResponsiveContainer, XAxis, YAxis, Tooltip, Legend } from 'recharts';
 import { BudgetForm } from './forms/BudgetForm';
+import { getCategoryLabel } from '@/utils/categories';
+import { BUDGET_PERIOD_LABELS, BudgetPeriodSummary, getBudgetHistory } from '@/utils/budgets';
+
+const BUDGET_DAYS = Array.from({ length: 28 }, (_, i) => i + 1);
+const HISTORY_PERIODS = 12;
 
 const BudgetTracker: React.FC = () => {
-  const { budgets = [], transactions, addBudget, updateBudget, deleteBudget } = useFinancial();
+  const { budgets = [], transactions, categories, deleteBudget } = useFinancial();
+  const { settings, updateSettings } = useSettings();
   const [showForm, setShowForm] = useState(false);
   const [editingBudget, setEditingBudget] = useState<string | null>(null);
+  const [historyBudget, setHistoryBudget] = useState<string | null>(null);
+
+  const budgetDay = settings.monthlyBudgetDay;
+
+  // Last periods of every budget; the current period is the last entry
+  const histories = useMemo(() => {
+    const result = new Map<string, BudgetPeriodSummary[]>();
+    budgets.forEach(budget => {
+      result.set(budget.id, getBudgetHistory(budget, transactions, categories, budgetDay, HISTORY_PERIODS));
+    });
+    return result;
+  }, [budgets, transactions, categories, budgetDay]);
 
-  const calculateSpent = (budget: Budget) => {
-    const now = new Date();
-    let startDate = new Date();
-    
-    switch (budget.period) {
-      case 'weekly':
-        startDate.setDate(now.getDate() - 7);
-        break;
-      case 'monthly':
-        startDate.setMonth(now.getMonth() - 1);
-        break;
-      case 'yearly':
-        startDate.setFullYear(now.getFullYear() - 1);
-        break;
-    }
-
-    return transactions
-      .filter(t => 
-        t.type === 'expense' && 
-        t.category === budget.category &&
-        new Date(t.date) >= startDate
-      )
-      .reduce((sum, t) => sum + t.amount, 0);
+  const getCurrentPeriod = (budgetId: string) => {
+    const history = histories.get(budgetId) || [];
+    return history[history.length - 1];
   };
 
-  const getBudgetStatus = (budget: Budget, spent: number) => {
-    const percentage = (spent / budget.limit) * 100;
-    
-    if (percentage >= 100) return { status: 'exceeded', color: 'text-destructive', icon: AlertTriangle };
-    if (percentage >= 80) return { status: 'warning', color: 'text-yellow-500', icon: AlertTriangle };
+  const getStatusDisplay = (current: BudgetPeriodSummary) => {
+    if (current.percentage >= 100) return { status: 'exceeded', color: 'text-destructive', icon: AlertTriangle };
+    if (current.percentage >= 80) return { status: 'warning', color: 'text-yellow-500', icon: AlertTriangle };
     return { status: 'good', color: 'text-income', icon: CheckCircle };
   };
 
@@ -51,8 +50,8 @@ const BudgetTracker: React.FC = () => {
     setShowForm(true);
   };
 
-  const totalBudgeted = budgets?.reduce((sum, budget) => sum + budget.limit, 0) || 0;
-  const totalSpent = budgets?.reduce((sum, budget) => sum + calculateSpent(budget), 0) || 0;
+  const totalBudgeted = budgets.reduce((sum, budget) => sum + (getCurrentPeriod(budget.id)?.available || 0), 0);
+  const totalSpent = budgets.reduce((sum, budget) => sum + (getCurrentPeriod(budget.id)?.spent || 0), 0);
 
   return (
     <div className="p-6 space-y-6">
@@ -67,6 +66,25 @@ const BudgetTracker: React.FC = () => {
         </Button>
       </div>
 
+      <div className="flex items-center gap-3">
+        <Label htmlFor="budget-day" className="text-sm">Dia de início do orçamento mensal</Label>
+        <Select
+          value={String(budgetDay)}
+          onValueChange={(value) => updateSettings({ monthlyBudgetDay: parseInt(value) })}
+        >
+          <SelectTrigger id="budget-day" className="w-20">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {BUDGET_DAYS.map((day) => (
+              <SelectItem key={day} value={String(day)}>
+                {day}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
       {/* Summary */}
       <Card>
         <CardHeader>
@@ -97,22 +115,23 @@ const BudgetTracker: React.FC = () => {
 
       {/* Budgets Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {budgets?.map((budget) => {
-          const spent = calculateSpent(budget);
-          const percentage = Math.min((spent / budget.limit) * 100, 100);
-          const remaining = Math.max(budget.limit - spent, 0);
-          const { status, color, icon: StatusIcon } = getBudgetStatus(budget, spent);
+        {budgets.map((budget) => {
+          const current = getCurrentPeriod(budget.id);
+          if (!current) return null;
+          const { spent, available, remaining, carriedOver } = current;
+          const percentage = Math.min(current.percentage, 100);
+          const { status, color, icon: StatusIcon } = getStatusDisplay(current);
+          const showHistory = historyBudget === budget.id;
 
           return (
             <Card key={budget.id} className="animate-fade-in">
               <CardHeader className="pb-3">
                 <div className="flex items-center justify-between">
-                  <CardTitle className="text-lg">{budget.category}</CardTitle>
+                  <CardTitle className="text-lg">{getCategoryLabel(categories, budget.category)}</CardTitle>
                   <StatusIcon className={`h-5 w-5 ${color}`} />
                 </div>
-                <p className="text-sm text-muted-foreground capitalize">
-                  {budget.period === 'monthly' ? 'Mensal' : 
-                   budget.period === 'weekly' ? 'Semanal' : 'Anual'}
+                <p className="text-sm text-muted-foreground">
+                  {BUDGET_PERIOD_LABELS[budget.period]} · {current.label}
                 </p>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -132,21 +151,29 @@ const BudgetTracker: React.FC = () => {
                       {formatCurrency(spent)}
                     </span>
                     <span className="text-muted-foreground">
-                      {formatCurrency(budget.limit)}
+                      {formatCurrency(available)}
                     </span>
                   </div>
                 </div>
 
                 <div className="space-y-2">
+                  {budget.rollover && (
+                    <div className="flex justify-between text-sm">
+                      <span>Saldo do período anterior:</span>
+                      <span className={carriedOver >= 0 ? 'text-income' : 'text-destructive'}>
+                        {formatCurrency(carriedOver)}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-sm">
                     <span>Restante:</span>
                     <span className={remaining > 0 ? 'text-income' : 'text-destructive'}>
-                      {formatCurrency(remaining)}
+                      {formatCurrency(Math.max(remaining, 0))}
                     </span>
                   </div>
-                  {status === 'exceeded' && (
+                  {status === 'exceeded' && remaining < 0 && (
                     <p className="text-xs text-destructive">
-                      ⚠️ Orçamento excedido em {formatCurrency(spent - budget.limit)}
+                      ⚠️ Orçamento excedido em {formatCurrency(-remaining)}
                     </p>
                   )}
                   {status === 'warning' && (
@@ -156,7 +183,28 @@ const BudgetTracker: React.FC = () => {
                   )}
                 </div>
 
+                {showHistory && (
+                  <ResponsiveContainer width="100%" height={200}>
+                    <BarChart data={histories.get(budget.id)}>
+                      <XAxis dataKey="label" fontSize={10} />
+                      <YAxis fontSize={10} />
+                      <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                      <Legend />
+                      <Bar dataKey="available" name="Disponível" fill="hsl(var(--primary))" />
+                      <Bar dataKey="spent" name="Gasto" fill="hsl(var(--expense))" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                )}
+
                 <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setHistoryBudget(showHistory ? null : budget.id)}
+                    title="Histórico dos últimos 12 períodos"
+                  >
+                    <History className="h-4 w-4" />
+                  </Button>
                   <Button
                     size="sm"
                     variant="outline"
@@ -183,7 +231,7 @@ const BudgetTracker: React.FC = () => {
           );
         })}
 
-        {(!budgets || budgets.length === 0) && (
+        {budgets.length === 0 && (
           <div className="col-span-full text-center py-12">
             <PiggyBank className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
             <h3 className="text-lg font-medium text-foreground mb-2">
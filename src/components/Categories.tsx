@@ -0,0 +1,231 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useFinancial } from '@/contexts/FinancialContext';
+import { Category } from '@/types/financial';
+import { buildCategoryTree, findCategory, getCategoryLabel } from '@/utils/categories';
+import { Plus, Edit, Archive, ArchiveRestore, GitMerge, Tags, X } from 'lucide-react';
+import { CategoryForm } from './forms/CategoryForm';
+
+const Categories: React.FC = () => {
+  const { categories, transactions, budgets = [], archiveCategory, mergeCategories } = useFinancial();
+  const [showForm, setShowForm] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<string | null>(null);
+  const [parentForNew, setParentForNew] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [mergingCategory, setMergingCategory] = useState<Category | null>(null);
+  const [mergeTarget, setMergeTarget] = useState('');
+
+  // Transactions per category id, counting legacy name references too
+  const usage = useMemo(() => {
+    const counts = new Map<string, number>();
+    transactions.forEach(transaction => {
+      const category = findCategory(categories, transaction.category);
+      if (category) counts.set(category.id, (counts.get(category.id) || 0) + 1);
+    });
+    return counts;
+  }, [transactions, categories]);
+
+  const handleAdd = (parentId: string | null = null) => {
+    setEditingCategory(null);
+    setParentForNew(parentId);
+    setShowForm(true);
+  };
+
+  const handleEdit = (categoryId: string) => {
+    setEditingCategory(categoryId);
+    setParentForNew(null);
+    setShowForm(true);
+  };
+
+  const handleMerge = () => {
+    if (!mergingCategory || !mergeTarget) return;
+    const target = categories.find(c => c.id === mergeTarget);
+    const message = `Mesclar "${mergingCategory.name}" em "${target?.name}"? ` +
+      'Transações e orçamentos serão movidos e a categoria será removida.';
+    if (confirm(message)) {
+      mergeCategories(mergingCategory.id, mergeTarget);
+      setMergingCategory(null);
+      setMergeTarget('');
+    }
+  };
+
+  const mergeOptions = mergingCategory
+    ? categories.filter(c =>
+        c.id !== mergingCategory.id &&
+        c.parentId !== mergingCategory.id &&
+        c.type === mergingCategory.type &&
+        !c.archived
+      )
+    : [];
+
+  const renderRow = (category: Category, isChild: boolean) => {
+    const budgetCount = budgets.filter(b => b.category === category.id).length;
+
+    return (
+      <div
+        key={category.id}
+        className={`flex items-center justify-between p-3 border rounded-lg ${isChild ? 'ml-8' : ''} ${
+          category.archived ? 'opacity-60' : ''
+        }`}
+      >
+        <div className="flex items-center gap-3">
+          <div
+            className="h-9 w-9 rounded-full flex items-center justify-center text-lg"
+            style={{ backgroundColor: `${category.color}33` }}
+          >
+            {category.icon}
+          </div>
+          <div>
+            <p className="font-medium">{category.name}</p>
+            <p className="text-xs text-muted-foreground">
+              {usage.get(category.id) || 0} transação(ões)
+              {budgetCount > 0 && ` · ${budgetCount} orçamento(s)`}
+            </p>
+          </div>
+          {category.archived && <Badge variant="outline">Arquivada</Badge>}
+        </div>
+        <div className="flex items-center gap-1">
+          {!isChild && !category.archived && (
+            <Button variant="ghost" size="sm" onClick={() => handleAdd(category.id)} title="Nova subcategoria">
+              <Plus className="h-4 w-4" />
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => handleEdit(category.id)} title="Editar">
+            <Edit className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setMergingCategory(category)}
+            title="Mesclar em outra categoria"
+          >
+            <GitMerge className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => archiveCategory(category.id, !category.archived)}
+            title={category.archived ? 'Restaurar' : 'Arquivar'}
+          >
+            {category.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderSection = (type: Category['type'], title: string) => {
+    const tree = buildCategoryTree(categories, { type, includeArchived: showArchived });
+
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">{title}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {tree.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Nenhuma categoria</p>
+          ) : (
+            tree.map(({ category, children }) => (
+              <React.Fragment key={category.id}>
+                {renderRow(category, false)}
+                {children.map(child => renderRow(child, true))}
+              </React.Fragment>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Categorias</h1>
+          <p className="text-muted-foreground">Organize receitas e despesas em categorias e subcategorias</p>
+        </div>
+        <Button onClick={() => handleAdd()} className="flex items-center gap-2">
+          <Plus className="h-4 w-4" />
+          Nova Categoria
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+        <Label htmlFor="show-archived">Mostrar arquivadas</Label>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {renderSection('expense', 'Despesas')}
+        {renderSection('income', 'Receitas')}
+      </div>
+
+      {/* Merge Dialog */}
+      {mergingCategory && (
+        <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <Card className="w-full max-w-md">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <Tags className="h-5 w-5" />
+                Mesclar Categoria
+              </CardTitle>
+              <Button variant="ghost" size="sm" onClick={() => setMergingCategory(null)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Todas as transações e orçamentos de <strong>{getCategoryLabel(categories, mergingCategory.id)}</strong> serão
+                movidos para a categoria escolhida.
+              </p>
+              <div>
+                <Label>Mesclar em</Label>
+                <Select value={mergeTarget} onValueChange={setMergeTarget}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione a categoria de destino" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {mergeOptions.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.icon} {getCategoryLabel(categories, category.id)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex gap-2 pt-2">
+                <Button variant="outline" onClick={() => setMergingCategory(null)} className="flex-1">
+                  Cancelar
+                </Button>
+                <Button onClick={handleMerge} disabled={!mergeTarget} className="flex-1">
+                  Mesclar
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Form Modal */}
+      {showForm && (
+        <CategoryForm
+          categoryId={editingCategory}
+          parentId={parentForNew}
+          onClose={() => {
+            setShowForm(false);
+            setEditingCategory(null);
+            setParentForNew(null);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Categories;
@@ -0,0 +1,274 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { User } from '@supabase/supabase-js';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { useSettings } from '@/hooks/useSettings';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  SYNC_FINISHED_EVENT,
+  getCloudSyncStatus,
+  getSyncAccount,
+  hasLocalData,
+  hasUnsyncedChanges,
+  linkSyncAccount,
+  runCloudSync,
+  unlinkSyncAccount,
+} from '@/utils/cloudSync';
+import { SYNC_QUEUED_EVENT } from '@/utils/syncQueue';
+import { format } from 'date-fns';
+import { Cloud, LogOut, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+
+const CloudSyncManager: React.FC = () => {
+  const { settings, updateNestedSettings } = useSettings();
+  const [user, setUser] = useState<User | null>(null);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [status, setStatus] = useState<{ lastSyncAt: string | null; pending: number }>({ lastSyncAt: null, pending: 0 });
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => setUser(data.session?.user ?? null));
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUser(session?.user ?? null);
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const refreshStatus = useCallback(() => {
+    getCloudSyncStatus()
+      .then(setStatus)
+      .catch(error => console.error('Error reading sync status:', error));
+  }, []);
+
+  useEffect(() => {
+    refreshStatus();
+    window.addEventListener(SYNC_FINISHED_EVENT, refreshStatus);
+    window.addEventListener(SYNC_QUEUED_EVENT, refreshStatus);
+    return () => {
+      window.removeEventListener(SYNC_FINISHED_EVENT, refreshStatus);
+      window.removeEventListener(SYNC_QUEUED_EVENT, refreshStatus);
+    };
+  }, [refreshStatus]);
+
+  const handleAuth = async (mode: 'signIn' | 'signUp') => {
+    if (!email || !password) {
+      toast.error('Informe email e senha');
+      return;
+    }
+    setIsWorking(true);
+    try {
+      const { data, error } = mode === 'signIn'
+        ? await supabase.auth.signInWithPassword({ email, password })
+        : await supabase.auth.signUp({ email, password });
+      if (error) throw error;
+      setPassword('');
+      toast.success(data.session ? 'Conectado à nuvem' : 'Conta criada. Confirme o email para entrar.');
+    } catch (error) {
+      console.error('Error authenticating:', error);
+      toast.error(error instanceof Error ? error.message : 'Erro ao entrar');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    // The account's data leaves the device with it; data never linked to it stays
+    const linked = !!user && getSyncAccount() === user.id;
+    if (
+      linked &&
+      (await hasUnsyncedChanges()) &&
+      !confirm('Sair apaga os dados da conta deste dispositivo, incluindo alterações ainda não enviadas para a nuvem. Sair mesmo assim?')
+    ) {
+      return;
+    }
+    setIsWorking(true);
+    try {
+      const { error } = await supabase.auth.signOut();
+      if (error) throw error;
+      updateNestedSettings('advanced', { syncEnabled: false });
+      if (linked) await unlinkSyncAccount();
+      toast.success('Desconectado da nuvem');
+    } catch (error) {
+      console.error('Error signing out:', error);
+      toast.error('Erro ao sair');
+    } finally {
+      setIsWorking(false);
+      refreshStatus();
+    }
+  };
+
+  const handleSyncEnabledChange = async (checked: boolean) => {
+    if (!checked || !user) {
+      updateNestedSettings('advanced', { syncEnabled: false });
+      return;
+    }
+    setIsWorking(true);
+    try {
+      if (getSyncAccount() !== user.id) {
+        // First sync with this account: the user decides what happens to the data here
+        let mode: 'upload' | 'discard' = 'upload';
+        if (await hasLocalData()) {
+          if (confirm('Enviar os dados deste dispositivo para a conta? Eles serão somados aos que já estão na nuvem.')) {
+            mode = 'upload';
+          } else if (confirm('Apagar os dados deste dispositivo e usar apenas os da conta?')) {
+            mode = 'discard';
+          } else {
+            return;
+          }
+        }
+        await linkSyncAccount(user.id, mode);
+      }
+      // Turning sync on also leaves offline mode, which would otherwise hold every change
+      updateNestedSettings('advanced', { syncEnabled: true, offlineMode: false });
+    } catch (error) {
+      console.error('Error enabling sync:', error);
+      toast.error(error instanceof Error ? error.message : 'Erro ao ativar a sincronização');
+    } finally {
+      setIsWorking(false);
+      refreshStatus();
+    }
+  };
+
+  const handleSyncNow = async () => {
+    setIsWorking(true);
+    try {
+      const result = await runCloudSync();
+      if (result) {
+        toast.success(`Sincronizado: ${result.pushed} enviado(s), ${result.pulled} recebido(s)`);
+        if (result.conflicts > 0) {
+          toast.warning(`${result.conflicts} conflito(s) resolvido(s). A versão substituída foi isolada.`);
+        }
+      } else {
+        toast.info('A sincronização já está em andamento em outra aba');
+      }
+    } catch (error) {
+      console.error('Error syncing with the cloud:', error);
+      toast.error(error instanceof Error ? error.message : 'Erro ao sincronizar');
+    } finally {
+      setIsWorking(false);
+      refreshStatus();
+    }
+  };
+
+  const { syncEnabled, offlineMode } = settings.advanced;
+
+  return (
+    <Card className="animate-fade-in">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Cloud className="h-5 w-5" />
+          Sincronização na Nuvem
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {user ? (
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm">
+              Conectado como <span className="font-medium">{user.email}</span>
+            </p>
+            <Button variant="outline" size="sm" onClick={handleSignOut} disabled={isWorking} className="flex items-center gap-2">
+              <LogOut className="h-4 w-4" />
+              Sair
+            </Button>
+          </div>
+        ) : (
+          <form
+            className="grid grid-cols-1 md:grid-cols-2 gap-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleAuth('signIn');
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="sync-email">Email</Label>
+              <Input
+                id="sync-email"
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sync-password">Senha</Label>
+              <Input
+                id="sync-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <div className="flex gap-2 md:col-span-2 justify-end">
+              <Button type="button" variant="outline" disabled={isWorking} onClick={() => handleAuth('signUp')}>
+                Criar conta
+              </Button>
+              <Button type="submit" disabled={isWorking}>
+                Entrar
+              </Button>
+            </div>
+          </form>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="sync-enabled" className="text-sm font-medium">
+                Sincronizar dados
+              </Label>
+              <p className="text-xs text-muted-foreground">Mantém seus dados iguais em todos os dispositivos</p>
+            </div>
+            <Switch
+              id="sync-enabled"
+              checked={syncEnabled}
+              disabled={!user || isWorking}
+              onCheckedChange={handleSyncEnabledChange}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="offline-mode" className="text-sm font-medium">
+                Modo offline
+              </Label>
+              <p className="text-xs text-muted-foreground">Pausa a sincronização; as alterações ficam na fila</p>
+            </div>
+            <Switch
+              id="offline-mode"
+              checked={offlineMode}
+              onCheckedChange={(checked) => updateNestedSettings('advanced', { offlineMode: checked })}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1 text-sm text-muted-foreground">
+            <p>
+              Última sincronização:{' '}
+              {status.lastSyncAt ? format(new Date(status.lastSyncAt), 'dd/MM/yyyy HH:mm') : 'nunca'}
+            </p>
+            <p className="flex items-center gap-2">
+              Alterações na fila: <Badge variant={status.pending > 0 ? 'secondary' : 'outline'}>{status.pending}</Badge>
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleSyncNow}
+            disabled={!user || !syncEnabled || isWorking}
+            className="flex items-center gap-2"
+          >
+            <RefreshCw className={`h-4 w-4 ${isWorking ? 'animate-spin' : ''}`} />
+            Sincronizar agora
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CloudSyncManager;
@@ -4,13 +4,37 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { Plus, CreditCard as CreditCardIcon, Calendar, DollarSign, AlertTriangle } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, CreditCard as CreditCardIcon, Calendar, DollarSign, AlertTriangle, Receipt } from 'lucide-react';
 import CreditCardForm from '@/components/forms/CreditCardForm';
+import StatementPaymentForm from '@/components/forms/StatementPaymentForm';
 import { CreditCard } from '@/types/financial';
+import {
+  CardStatement,
+  STATEMENT_STATUS_LABELS,
+  getInstallmentPurchases,
+  getOpeningBalanceRemaining,
+} from '@/utils/creditCard';
+import { differenceInCalendarDays, format } from 'date-fns';
+
+const STATUS_VARIANTS: Record<CardStatement['status'], 'default' | 'secondary' | 'outline'> = {
+  open: 'secondary',
+  closed: 'default',
+  paid: 'outline',
+};
+
+const formatCurrency = (value: number) => `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}`;
 
 const CreditCards = () => {
-  const { creditCards } = useFinancial();
+  const { creditCards, transactions, getCardStatements } = useFinancial();
   const [showForm, setShowForm] = useState(false);
+  const [selectedCardId, setSelectedCardId] = useState<string | null>(null);
+  const [payment, setPayment] = useState<{ cardId: string; statementKey: string | null } | null>(null);
+
+  const selectedCard = creditCards.find(card => card.id === selectedCardId);
+  const selectedStatements = selectedCard ? getCardStatements(selectedCard.id) : [];
+  const selectedOpeningRemaining = selectedCard ? getOpeningBalanceRemaining(selectedCard, transactions) : 0;
+  const selectedInstallments = selectedCard ? getInstallmentPurchases(selectedCard, transactions) : [];
 
   const getUsagePercentage = (card: CreditCard) => {
     return (card.currentBalance / card.limit) * 100;
@@ -28,25 +52,10 @@ const CreditCards = () => {
     return 'bg-success';
   };
 
-  const getDaysUntilDue = (dueDate: number) => {
-    const today = new Date();
-    const currentMonth = today.getMonth();
-    const currentYear = today.getFullYear();
-    
-    let dueMonth = currentMonth;
-    let dueYear = currentYear;
-    
-    // Se já passou do vencimento neste mês, usar o próximo mês
-    if (today.getDate() > dueDate) {
-      dueMonth = currentMonth === 11 ? 0 : currentMonth + 1;
-      dueYear = currentMonth === 11 ? currentYear + 1 : currentYear;
-    }
-    
-    const dueDateObj = new Date(dueYear, dueMonth, dueDate);
-    const diffTime = dueDateObj.getTime() - today.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    
-    return diffDays;
+  // Oldest unpaid closed statement, or the one currently collecting purchases
+  const getNextDueStatement = (statements: CardStatement[]) => {
+    const unpaid = statements.filter(s => s.status === 'closed');
+    return unpaid.length > 0 ? unpaid[unpaid.length - 1] : statements.find(s => s.status === 'open');
   };
 
   const totalLimit = creditCards.reduce((sum, card) => sum + card.limit, 0);
@@ -123,7 +132,8 @@ const CreditCards = () => {
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {creditCards.map((card) => {
             const usagePercentage = getUsagePercentage(card);
-            const daysUntilDue = getDaysUntilDue(card.dueDate);
+            const nextStatement = getNextDueStatement(getCardStatements(card.id));
+            const daysUntilDue = nextStatement ? differenceInCalendarDays(nextStatement.dueDate, new Date()) : 0;
             
             return (
               <Card key={card.id} className="relative overflow-hidden">
@@ -151,7 +161,7 @@ const CreditCards = () => {
                       </span>
                     </div>
                     <Progress 
-                      value={usagePercentage} 
+                      value={Math.min(usagePercentage, 100)} 
                       className="h-2"
                     />
                     <div className="flex justify-between text-sm text-muted-foreground">
@@ -184,10 +194,29 @@ const CreditCards = () => {
                       variant={daysUntilDue <= 5 ? 'destructive' : daysUntilDue <= 10 ? 'secondary' : 'default'}
                       className="text-xs"
                     >
-                      {daysUntilDue <= 0 ? 'Vencido' : `${daysUntilDue} dias`}
+                      {daysUntilDue < 0 ? 'Vencido' : daysUntilDue === 0 ? 'Hoje' : `${daysUntilDue} dias`}
                     </Badge>
                   </div>
 
+                  {nextStatement && (
+                    <div className="flex justify-between items-center text-sm">
+                      <span className="text-muted-foreground">
+                        Fatura {format(nextStatement.closingDate, 'MM/yyyy')} ({STATEMENT_STATUS_LABELS[nextStatement.status].toLowerCase()}):
+                      </span>
+                      <span className="font-semibold">{formatCurrency(nextStatement.remaining)}</span>
+                    </div>
+                  )}
+
+                  <Button
+                    variant={selectedCardId === card.id ? 'secondary' : 'outline'}
+                    size="sm"
+                    className="w-full"
+                    onClick={() => setSelectedCardId(selectedCardId === card.id ? null : card.id)}
+                  >
+                    <Receipt className="h-4 w-4 mr-2" />
+                    Faturas
+                  </Button>
+
                   {/* Alerta de limite alto */}
                   {usagePercentage >= 90 && (
                     <div className="flex items-center gap-2 p-2 bg-destructive/10 rounded-lg">
@@ -204,6 +233,130 @@ const CreditCards = () => {
         </div>
       )}
 
+      {/* Faturas do cartão selecionado */}
+      {selectedCard && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Faturas - {selectedCard.name}</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Fecha dia {selectedCard.closingDate}, vence dia {selectedCard.dueDate}
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {selectedOpeningRemaining > 0 && (
+              <div className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <p className="font-medium">Saldo anterior ao cadastro</p>
+                  <p className="text-sm text-muted-foreground">{formatCurrency(selectedOpeningRemaining)} em aberto</p>
+                </div>
+                <Button size="sm" onClick={() => setPayment({ cardId: selectedCard.id, statementKey: null })}>
+                  Pagar
+                </Button>
+              </div>
+            )}
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fatura</TableHead>
+                    <TableHead>Período</TableHead>
+                    <TableHead>Vencimento</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="text-right">Pago</TableHead>
+                    <TableHead className="text-right">Em aberto</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selectedStatements.map((statement) => (
+                    <TableRow key={statement.key}>
+                      <TableCell className="font-medium">
+                        {format(statement.closingDate, 'MM/yyyy')}
+                        <span className="block text-xs text-muted-foreground">
+                          {statement.charges.length} lançamento(s)
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        {format(statement.periodStart, 'dd/MM')} - {format(statement.closingDate, 'dd/MM')}
+                      </TableCell>
+                      <TableCell>{format(statement.dueDate, 'dd/MM/yyyy')}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Badge variant={STATUS_VARIANTS[statement.status]}>
+                            {STATEMENT_STATUS_LABELS[statement.status]}
+                          </Badge>
+                          {statement.overdue && <Badge variant="destructive">Vencida</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(statement.total)}</TableCell>
+                      <TableCell className="text-right text-success">{formatCurrency(statement.paid)}</TableCell>
+                      <TableCell className="text-right font-semibold">{formatCurrency(statement.remaining)}</TableCell>
+                      <TableCell>
+                        {statement.remaining > 0 && (
+                          <Button
+                            size="sm"
+                            variant={statement.status === 'open' ? 'outline' : 'default'}
+                            onClick={() => setPayment({ cardId: selectedCard.id, statementKey: statement.key })}
+                          >
+                            Pagar
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {selectedInstallments.length > 0 && (
+              <div className="space-y-3 pt-4 border-t">
+                <h3 className="font-semibold">Compras Parceladas</h3>
+                {selectedInstallments.map(({ transaction, installments, billedCount, remainingAmount }) => {
+                  const nextInstallment = installments[billedCount];
+                  return (
+                    <div key={transaction.id} className="space-y-2 p-3 border rounded-lg">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="font-medium">{transaction.description}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {format(new Date(transaction.date), 'dd/MM/yyyy')} · {installments.length}x de {formatCurrency(installments[installments.length - 1].amount)}
+                          </p>
+                        </div>
+                        <Badge variant="secondary">{billedCount}/{installments.length}</Badge>
+                      </div>
+                      <Progress value={(billedCount / installments.length) * 100} className="h-2" />
+                      <div className="flex justify-between text-sm text-muted-foreground">
+                        <span>
+                          {nextInstallment
+                            ? `Próxima: parcela ${nextInstallment.number} em ${format(nextInstallment.dueDate, 'dd/MM/yyyy')}`
+                            : 'Todas as parcelas faturadas'}
+                        </span>
+                        <span>A faturar: {formatCurrency(remainingAmount)}</span>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Modal de Pagamento */}
+      {payment && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+          <div className="bg-background rounded-lg shadow-lg max-w-md w-full max-h-[90vh] overflow-y-auto">
+            <StatementPaymentForm
+              cardId={payment.cardId}
+              statementKey={payment.statementKey}
+              onClose={() => setPayment(null)}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Modal do Formulário */}
       {showForm && (
         <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
@@ -1,9 +1,10 @@
 import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useFinancial } from '@/contexts/FinancialContext';
-import { formatCurrency } from '@/lib/utils';
-import { Wallet, TrendingUp, TrendingDown, PiggyBank } from 'lucide-react';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { Wallet, TrendingUp, TrendingDown, PiggyBank, Repeat } from 'lucide-react';
 import { Bar, BarChart, ResponsiveContainer, XAxis, YAxis, Tooltip, Cell, PieChart, Pie } from 'recharts';
+import { getCategoryAmount } from '@/utils/splits';
 
 const Dashboard: React.FC = () => {
   const { 
@@ -12,21 +13,23 @@ const Dashboard: React.FC = () => {
     getMonthlyExpenses, 
     transactions, 
     accounts,
-    categories 
+    categories,
+    getUpcomingRecurring
   } = useFinancial();
 
   const totalBalance = getTotalBalance();
   const monthlyIncome = getMonthlyIncome();
   const monthlyExpenses = getMonthlyExpenses();
   const monthlySavings = monthlyIncome - monthlyExpenses;
+  const upcomingRecurring = getUpcomingRecurring(30).slice(0, 5);
 
   // Data for expense categories chart
   const expensesByCategory = categories
-    .filter(cat => cat.type === 'expense')
+    .filter(cat => cat.type === 'expense' && !cat.parentId)
     .map(category => {
       const total = transactions
-        .filter(t => t.type === 'expense' && t.category === category.name)
-        .reduce((sum, t) => sum + t.amount, 0);
+        .filter(t => t.type === 'expense')
+        .reduce((sum, t) => sum + getCategoryAmount(categories, t, category.id), 0);
       return {
         name: category.name,
         value: total,
@@ -197,6 +200,37 @@ const Dashboard: React.FC = () => {
         </Card>
       </div>
 
+      {/* Upcoming Recurring Transactions */}
+      {upcomingRecurring.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Repeat className="h-5 w-5" />
+              Próximos Lançamentos Recorrentes
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {upcomingRecurring.map(({ template, index, date }) => (
+                <div key={`${template.id}-${index}`} className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-foreground">{template.description}</p>
+                    <p className="text-sm text-muted-foreground">{formatDate(date)}</p>
+                  </div>
+                  <div className={`font-bold ${
+                    template.type === 'income' ? 'text-income' : 
+                    template.type === 'expense' ? 'text-expense' : 'text-muted-foreground'
+                  }`}>
+                    {template.type === 'income' ? '+' : template.type === 'expense' ? '-' : ''}
+                    {formatCurrency(template.amount)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Recent Transactions */}
       <Card>
         <CardHeader>
@@ -211,7 +245,8 @@ const Dashboard: React.FC = () => {
                 <div key={transaction.id} className="flex items-center justify-between">
                   <div className="flex items-center space-x-3">
                     <div className={`w-3 h-3 rounded-full ${
-                      transaction.type === 'income' ? 'bg-income' : 'bg-expense'
+                      transaction.type === 'income' ? 'bg-income' : 
+                      transaction.type === 'expense' ? 'bg-expense' : 'bg-muted-foreground'
                     }`} />
                     <div>
                       <p className="font-medium text-foreground">{transaction.description}</p>
@@ -221,9 +256,10 @@ const Dashboard: React.FC = () => {
                     </div>
                   </div>
                   <div className={`font-bold ${
-                    transaction.type === 'income' ? 'text-income' : 'text-expense'
+                    transaction.type === 'income' ? 'text-income' : 
+                    transaction.type === 'expense' ? 'text-expense' : 'text-muted-foreground'
                   }`}>
-                    {transaction.type === 'income' ? '+' : '-'}
+                    {transaction.type === 'income' ? '+' : transaction.type === 'expense' ? '-' : ''}
                     {formatCurrency(transaction.amount)}
                   </div>
                 </div>
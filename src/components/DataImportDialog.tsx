@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useFinancial } from '@/contexts/FinancialContext';
+import type { FinancialCollection } from '@/utils/storage';
+import {
+  IMPORT_COLLECTION_LABELS,
+  IMPORT_STATUS_LABELS,
+  ImportMode,
+  ImportRecordIssue,
+  ImportReport,
+} from '@/utils/importValidation';
+
+interface DataImportDialogProps {
+  content: string | null; // Backup JSON to import; the dialog is open while it is set
+  onClose: () => void;
+}
+
+const ISSUE_VARIANTS: Record<ImportRecordIssue['status'], 'secondary' | 'destructive' | 'outline'> = {
+  fixed: 'secondary',
+  rejected: 'destructive',
+  skipped: 'outline',
+  conflict: 'destructive',
+};
+
+// Keeps the dialog responsive for files with thousands of problems
+const MAX_ISSUES_SHOWN = 200;
+
+const DataImportDialog: React.FC<DataImportDialogProps> = ({ content, onClose }) => {
+  const { importData } = useFinancial();
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  useEffect(() => {
+    setMode('merge');
+    setReport(null);
+  }, [content]);
+
+  const handleImport = () => {
+    if (!content) return;
+    const result = importData(content, { mode });
+    if (result) {
+      setReport(result);
+    } else {
+      onClose();
+    }
+  };
+
+  const collections = report ? (Object.keys(report.totals) as FinancialCollection[]) : [];
+  const issues = report ? report.issues : [];
+
+  return (
+    <Dialog open={content !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{report ? 'Resultado da importação' : 'Importar backup'}</DialogTitle>
+          <DialogDescription>
+            {report
+              ? 'Cada registro foi validado antes de entrar nos seus dados.'
+              : 'Escolha como os dados do arquivo devem ser combinados com os atuais.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!report ? (
+          <RadioGroup value={mode} onValueChange={(value: ImportMode) => setMode(value)} className="space-y-3">
+            <div className="flex items-start gap-3 rounded-lg border p-3">
+              <RadioGroupItem value="merge" id="import-merge" className="mt-1" />
+              <Label htmlFor="import-merge" className="space-y-1 font-normal">
+                <span className="block font-medium">Mesclar</span>
+                <span className="block text-sm text-muted-foreground">
+                  Adiciona os registros do arquivo. Registros que já existem são mantidos como estão, e os que
+                  diferem do arquivo aparecem como conflito.
+                </span>
+              </Label>
+            </div>
+            <div className="flex items-start gap-3 rounded-lg border p-3">
+              <RadioGroupItem value="replace" id="import-replace" className="mt-1" />
+              <Label htmlFor="import-replace" className="space-y-1 font-normal">
+                <span className="block font-medium">Substituir</span>
+                <span className="block text-sm text-muted-foreground">
+                  Apaga os dados atuais de cada tipo presente no arquivo e usa somente os do backup.
+                </span>
+              </Label>
+            </div>
+          </RadioGroup>
+        ) : (
+          <div className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead className="text-right">Aceitos</TableHead>
+                  <TableHead className="text-right">Corrigidos</TableHead>
+                  <TableHead className="text-right">Rejeitados</TableHead>
+                  {report.mode === 'merge' && <TableHead className="text-right">Já existentes</TableHead>}
+                  {report.mode === 'merge' && <TableHead className="text-right">Conflitos</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {collections.map(collection => {
+                  const totals = report.totals[collection];
+                  return (
+                    <TableRow key={collection}>
+                      <TableCell>{IMPORT_COLLECTION_LABELS[collection]}</TableCell>
+                      <TableCell className="text-right">{totals.accepted}</TableCell>
+                      <TableCell className="text-right">{totals.fixed}</TableCell>
+                      <TableCell className="text-right">{totals.rejected}</TableCell>
+                      {report.mode === 'merge' && <TableCell className="text-right">{totals.skipped}</TableCell>}
+                      {report.mode === 'merge' && <TableCell className="text-right">{totals.conflict}</TableCell>}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            {issues.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium">Detalhes</h3>
+                <ul className="space-y-2">
+                  {issues.slice(0, MAX_ISSUES_SHOWN).map((issue, index) => (
+                    <li key={index} className="rounded-md border p-2 text-sm">
+                      <div className="flex items-center gap-2">
+                        <Badge variant={ISSUE_VARIANTS[issue.status]}>{IMPORT_STATUS_LABELS[issue.status]}</Badge>
+                        <span className="text-muted-foreground">{IMPORT_COLLECTION_LABELS[issue.collection]}</span>
+                        <span className="font-medium truncate">{issue.label}</span>
+                      </div>
+                      <ul className="mt-1 list-disc pl-5 text-muted-foreground">
+                        {issue.messages.map(message => (
+                          <li key={message}>{message}</li>
+                        ))}
+                      </ul>
+                    </li>
+                  ))}
+                </ul>
+                {issues.length > MAX_ISSUES_SHOWN && (
+                  <p className="text-xs text-muted-foreground">
+                    E mais {issues.length - MAX_ISSUES_SHOWN} registro(s) não listados.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {report ? (
+            <Button onClick={onClose}>Fechar</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose}>Cancelar</Button>
+              <Button onClick={handleImport} variant={mode === 'replace' ? 'destructive' : 'default'}>
+                Importar
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DataImportDialog;
@@ -3,25 +3,97 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { useFinancial } from '@/contexts/FinancialContext';
-import { formatCurrency } from '@/lib/utils';
-import { Target, Plus, Calendar, Trophy, AlertCircle } from 'lucide-react';
-import { FinancialGoal } from '@/types/goals';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { Target, Plus, Calendar, Trophy, History, Trash2, ArrowLeftRight } from 'lucide-react';
+import { AreaChart, Area, ResponsiveContainer, XAxis, YAxis, Tooltip } from 'recharts';
+import { FinancialGoal, GoalContribution } from '@/types/goals';
 import { GoalForm } from './forms/GoalForm';
+import { GoalContributionForm } from './forms/GoalContributionForm';
+import {
+  GOAL_CONTRIBUTION_LABELS,
+  getAverageMonthlyContribution,
+  getGoalContributions,
+  getGoalHistory,
+  getRequiredMonthlyPace,
+  getSignedAmount,
+} from '@/utils/goals';
+
+const RECENT_CONTRIBUTIONS = 5;
 
 const FinancialGoals: React.FC = () => {
-  const { goals = [], addGoal, updateGoal, deleteGoal } = useFinancial();
+  const { goals = [], goalContributions, deleteGoalContribution } = useFinancial();
   const [showForm, setShowForm] = useState(false);
   const [editingGoal, setEditingGoal] = useState<string | null>(null);
+  const [contributing, setContributing] = useState<{ goalId: string; type: GoalContribution['type'] } | null>(null);
+  const [historyGoal, setHistoryGoal] = useState<string | null>(null);
 
   const handleEdit = (goalId: string) => {
     setEditingGoal(goalId);
     setShowForm(true);
   };
 
-  const handleAddAmount = (goal: FinancialGoal, amount: number) => {
-    const newAmount = Math.min(goal.currentAmount + amount, goal.targetAmount);
-    const completed = newAmount >= goal.targetAmount;
-    updateGoal?.(goal.id, { ...goal, currentAmount: newAmount, completed });
+  const handleDeleteContribution = (contribution: GoalContribution) => {
+    const message = contribution.transactionId
+      ? 'Excluir esta movimentação? A transferência vinculada também será excluída.'
+      : 'Excluir esta movimentação?';
+    if (confirm(message)) deleteGoalContribution(contribution.id);
+  };
+
+  const renderHistory = (goal: FinancialGoal) => {
+    const history = getGoalHistory(goal, goalContributions);
+    const recent = getGoalContributions(goal.id, goalContributions).slice(-RECENT_CONTRIBUTIONS).reverse();
+
+    return (
+      <div className="space-y-3">
+        <ResponsiveContainer width="100%" height={160}>
+          <AreaChart data={history}>
+            <XAxis dataKey="month" fontSize={10} />
+            <YAxis fontSize={10} />
+            <Tooltip formatter={(value: number) => formatCurrency(value)} />
+            <Area
+              type="monotone"
+              dataKey="balance"
+              name="Acumulado"
+              stroke={goal.color}
+              fill={goal.color}
+              fillOpacity={0.2}
+            />
+          </AreaChart>
+        </ResponsiveContainer>
+        {recent.length === 0 ? (
+          <p className="text-xs text-muted-foreground text-center">Nenhuma movimentação registrada</p>
+        ) : (
+          recent.map((contribution) => (
+            <div key={contribution.id} className="flex items-center justify-between text-sm">
+              <div className="flex items-center gap-2">
+                {contribution.transactionId && (
+                  <ArrowLeftRight className="h-3 w-3 text-muted-foreground" />
+                )}
+                <span>{GOAL_CONTRIBUTION_LABELS[contribution.type]}</span>
+                <span className="text-xs text-muted-foreground">
+                  {formatDate(contribution.date)}
+                  {contribution.note && ` · ${contribution.note}`}
+                </span>
+              </div>
+              <div className="flex items-center gap-1">
+                <span className={contribution.type === 'withdrawal' ? 'text-expense' : 'text-income'}>
+                  {formatCurrency(getSignedAmount(contribution))}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => handleDeleteContribution(contribution)}
+                  title="Excluir movimentação"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    );
   };
 
   const getProgressPercentage = (goal: FinancialGoal) => {
@@ -65,6 +137,9 @@ const FinancialGoals: React.FC = () => {
           const daysRemaining = getDaysRemaining(goal.deadline);
           const isOverdue = daysRemaining < 0;
           const isCompleted = goal.completed;
+          const requiredPace = getRequiredMonthlyPace(goal, goal.currentAmount);
+          const averagePace = getAverageMonthlyContribution(goal, goalContributions);
+          const showHistory = historyGoal === goal.id;
 
           return (
             <Card key={goal.id} className="relative animate-fade-in">
@@ -110,13 +185,38 @@ const FinancialGoals: React.FC = () => {
                   </span>
                 </div>
 
+                {!isCompleted && !isOverdue && (
+                  <div className="space-y-1 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Aporte mensal necessário:</span>
+                      <span className="font-medium">{formatCurrency(requiredPace)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Média dos últimos meses:</span>
+                      <span className={averagePace >= requiredPace ? 'text-income' : 'text-expense'}>
+                        {formatCurrency(averagePace)}
+                      </span>
+                    </div>
+                  </div>
+                )}
+
                 {goal.description && (
                   <p className="text-sm text-muted-foreground">
                     {goal.description}
                   </p>
                 )}
 
+                {showHistory && renderHistory(goal)}
+
                 <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setHistoryGoal(showHistory ? null : goal.id)}
+                    title="Histórico de aportes"
+                  >
+                    <History className="h-4 w-4" />
+                  </Button>
                   <Button
                     size="sm"
                     variant="outline"
@@ -125,16 +225,23 @@ const FinancialGoals: React.FC = () => {
                   >
                     Editar
                   </Button>
+                  {goal.currentAmount > 0 && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setContributing({ goalId: goal.id, type: 'withdrawal' })}
+                      className="flex-1"
+                    >
+                      Resgatar
+                    </Button>
+                  )}
                   {!isCompleted && (
                     <Button
                       size="sm"
-                      onClick={() => {
-                        const amount = parseFloat(prompt('Quanto deseja adicionar?') || '0');
-                        if (amount > 0) handleAddAmount(goal, amount);
-                      }}
+                      onClick={() => setContributing({ goalId: goal.id, type: 'contribution' })}
                       className="flex-1"
                     >
-                      Adicionar
+                      Aportar
                     </Button>
                   )}
                 </div>
@@ -160,6 +267,14 @@ const FinancialGoals: React.FC = () => {
         )}
       </div>
 
+      {contributing && (
+        <GoalContributionForm
+          goalId={contributing.goalId}
+          type={contributing.type}
+          onClose={() => setContributing(null)}
+        />
+      )}
+
       {showForm && (
         <GoalForm
           goalId={editingGoal}
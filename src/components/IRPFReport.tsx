@@ -0,0 +1,236 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { useFinancial } from '@/contexts/FinancialContext';
+import { formatCurrency } from '@/lib/utils';
+import { Download, FileText, Landmark } from 'lucide-react';
+import { toast } from 'sonner';
+import { downloadFile } from '@/utils/dataExport';
+import { downloadIRPFReportPDF } from '@/utils/pdfReport';
+import {
+  buildIRPFReport,
+  EDUCATION_DEDUCTION_LIMIT,
+  exportIRPFReportToCSV,
+  getIRPFFilename,
+  IRPF_DEDUCTION_LABELS,
+  IRPF_INCOME_KIND_LABELS,
+} from '@/utils/irpf';
+
+// The declaration filed this year covers last year, so that is the default
+const REPORT_YEARS = Array.from({ length: 6 }, (_, index) => new Date().getFullYear() - index);
+
+const IRPFReport: React.FC = () => {
+  const { transactions, accounts, categories } = useFinancial();
+  const [year, setYear] = useState(new Date().getFullYear() - 1);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const report = useMemo(
+    () => buildIRPFReport(year, transactions, accounts, categories),
+    [year, transactions, accounts, categories]
+  );
+
+  const exportCSV = () => {
+    try {
+      downloadFile(exportIRPFReportToCSV(report), getIRPFFilename(report, 'csv'), 'text/csv');
+      toast.success('Relatório IRPF exportado em CSV');
+    } catch (error) {
+      console.error('Error exporting IRPF report:', error);
+      toast.error('Erro ao exportar relatório IRPF');
+    }
+  };
+
+  const exportPDF = async () => {
+    setIsExporting(true);
+    try {
+      await downloadIRPFReportPDF(report);
+      toast.success('Relatório IRPF exportado em PDF');
+    } catch (error) {
+      console.error('Error exporting IRPF report:', error);
+      toast.error('Erro ao exportar relatório IRPF');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const summary = [
+    { label: 'Rendimentos tributáveis', value: report.totals.taxableIncome },
+    { label: 'Rendimentos isentos', value: report.totals.exemptIncome },
+    { label: 'Tributação exclusiva', value: report.totals.exclusiveIncome },
+    { label: 'Deduções', value: report.totals.health + report.totals.education + report.totals.pension },
+  ];
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Landmark className="h-5 w-5" />
+            Imposto de Renda (IRPF {year + 1})
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Ano-calendário {year}. Valores de apoio para preencher a declaração; confira com seus informes.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={String(year)} onValueChange={(value) => setYear(Number(value))}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REPORT_YEARS.map(option => (
+                <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={exportCSV} className="flex items-center gap-2">
+            <Download className="h-4 w-4" />
+            CSV
+          </Button>
+          <Button variant="outline" onClick={exportPDF} disabled={isExporting} className="flex items-center gap-2">
+            <FileText className="h-4 w-4" />
+            {isExporting ? 'Gerando...' : 'PDF'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {summary.map(item => (
+            <div key={item.label} className="rounded-lg border p-3">
+              <p className="text-xs text-muted-foreground">{item.label}</p>
+              <p className="text-lg font-semibold">{formatCurrency(item.value)}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <h3 className="font-medium mb-2">Rendimentos por fonte</h3>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Fonte</TableHead>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead className="text-right">Valor</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.income.map(item => (
+                  <TableRow key={`${item.kind}-${item.category}-${item.source}`}>
+                    <TableCell>
+                      <div>{item.source}</div>
+                      <div className="text-xs text-muted-foreground">{item.category} · {item.count} lançamento(s)</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={item.kind === 'taxable' ? 'default' : 'secondary'}>
+                        {IRPF_INCOME_KIND_LABELS[item.kind]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(item.amount)}</TableCell>
+                  </TableRow>
+                ))}
+                {report.investmentIncome.map(item => (
+                  <TableRow key={`${item.accountId}-${item.kind}`}>
+                    <TableCell>
+                      <div>Aplicações em {item.account}</div>
+                      <div className="text-xs text-muted-foreground">Rendimentos de investimentos</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{IRPF_INCOME_KIND_LABELS[item.kind]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(item.amount)}</TableCell>
+                  </TableRow>
+                ))}
+                {report.income.length === 0 && report.investmentIncome.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center text-muted-foreground">
+                      Nenhuma receita em {year}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div>
+            <h3 className="font-medium mb-2">Pagamentos dedutíveis</h3>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Prestador</TableHead>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead className="text-right">Valor</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.deductions.map(item => (
+                  <TableRow key={`${item.kind}-${item.provider}`}>
+                    <TableCell>
+                      <div>{item.provider}</div>
+                      <div className="text-xs text-muted-foreground">{item.count} lançamento(s)</div>
+                    </TableCell>
+                    <TableCell>{IRPF_DEDUCTION_LABELS[item.kind]}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(item.amount)}</TableCell>
+                  </TableRow>
+                ))}
+                {report.deductions.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center text-muted-foreground">
+                      Nenhuma despesa com saúde, educação ou previdência em {year}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+            <p className="text-xs text-muted-foreground mt-2">
+              Educação é limitada a {formatCurrency(EDUCATION_DEDUCTION_LIMIT)} por pessoa. Use as tags
+              "saúde", "educação" ou "previdência" para incluir despesas de outras categorias, e "isento" para receitas isentas.
+            </p>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="font-medium mb-2">Bens e Direitos</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Código</TableHead>
+                <TableHead>Discriminação</TableHead>
+                <TableHead className="text-right">31/12/{year - 1}</TableHead>
+                <TableHead className="text-right">31/12/{year}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.assets.map(asset => (
+                <TableRow key={asset.accountId}>
+                  <TableCell>{asset.code}</TableCell>
+                  <TableCell>
+                    <div>{asset.name}</div>
+                    <div className="text-xs text-muted-foreground">{asset.description} · {asset.bank}</div>
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(asset.previousBalance)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(asset.currentBalance)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={2}>Total</TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(report.assets.reduce((sum, asset) => sum + asset.previousBalance, 0))}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(report.assets.reduce((sum, asset) => sum + asset.currentBalance, 0))}
+                </TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default IRPFReport;
@@ -13,6 +13,7 @@ export const NotificationCenter = lazy(() => import('./NotificationCenter'));
 export const CreditCards = lazy(() => import('./CreditCards'));
 export const Transactions = lazy(() => import('./Transactions'));
 export const Accounts = lazy(() => import('./Accounts'));
+export const Categories = lazy(() => import('./Categories'));
 
 // Loading fallback components
 export const PageLoadingSkeleton = () => (
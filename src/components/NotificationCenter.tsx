@@ -5,9 +5,13 @@ import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { useFinancial } from '@/contexts/FinancialContext';
-import { formatCurrency } from '@/lib/utils';
+import { formatCurrency, formatDate } from '@/lib/utils';
 import { Bell, AlertTriangle, CheckCircle, Target, CreditCard, Calendar, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/useSettings';
+import { getBudgetStatus } from '@/utils/budgets';
+import { getCategoryLabel } from '@/utils/categories';
+import { differenceInCalendarDays } from 'date-fns';
 
 interface Notification {
   id: string;
@@ -20,13 +24,16 @@ interface Notification {
 }
 
 const NotificationCenter: React.FC = () => {
-  const { transactions, accounts, creditCards, goals = [], budgets = [] } = useFinancial();
+  const { transactions, accounts, creditCards, categories, goals = [], budgets = [], getUpcomingRecurring, getCardStatements } = useFinancial();
   const { toast } = useToast();
+  const { settings: appSettings } = useSettings();
+  const budgetDay = appSettings.monthlyBudgetDay;
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [settings, setSettings] = useState({
     budgetAlerts: true,
     goalDeadlines: true,
     creditCardDue: true,
+    billReminders: true,
     lowBalance: true,
     unusualSpending: true,
   });
@@ -39,18 +46,15 @@ const NotificationCenter: React.FC = () => {
     // Budget alerts
     if (settings.budgetAlerts) {
       budgets.forEach(budget => {
-        const spent = transactions
-          .filter(t => t.type === 'expense' && t.category === budget.category)
-          .reduce((sum, t) => sum + t.amount, 0);
-        
-        const percentage = (spent / budget.limit) * 100;
+        const { remaining, percentage } = getBudgetStatus(budget, transactions, categories, budgetDay);
+        const categoryName = getCategoryLabel(categories, budget.category);
         
         if (percentage >= 100) {
           alerts.push({
             id: `budget-exceeded-${budget.id}`,
             type: 'error',
             title: 'Orçamento Excedido',
-            message: `Você excedeu o orçamento de ${budget.category} em ${formatCurrency(spent - budget.limit)}`,
+            message: `Você excedeu o orçamento de ${categoryName} em ${formatCurrency(Math.abs(remaining))}`,
             timestamp: new Date(),
             read: false,
             actionable: true
@@ -60,7 +64,7 @@ const NotificationCenter: React.FC = () => {
             id: `budget-warning-${budget.id}`,
             type: 'warning',
             title: 'Orçamento Próximo do Limite',
-            message: `Você já gastou ${percentage.toFixed(1)}% do orçamento de ${budget.category}`,
+            message: `Você já gastou ${percentage.toFixed(1)}% do orçamento de ${categoryName}`,
             timestamp: new Date(),
             read: false
           });
@@ -126,21 +130,42 @@ const NotificationCenter: React.FC = () => {
     // Credit card due alerts
     if (settings.creditCardDue) {
       creditCards.forEach(card => {
-        const today = now.getDate();
-        const daysUntilDue = card.dueDate - today;
-        
-        if (daysUntilDue <= 3 && daysUntilDue >= 0 && card.currentBalance > 0) {
+        getCardStatements(card.id)
+          .filter(statement => statement.status === 'closed')
+          .forEach(statement => {
+            const daysUntilDue = differenceInCalendarDays(statement.dueDate, now);
+            if (!statement.overdue && daysUntilDue > 3) return;
+
+            alerts.push({
+              id: `card-due-${card.id}-${statement.key}`,
+              type: statement.overdue ? 'error' : 'warning',
+              title: statement.overdue ? 'Fatura Vencida' : 'Fatura do Cartão',
+              message: statement.overdue
+                ? `Fatura do ${card.name} venceu em ${formatDate(statement.dueDate)} - ${formatCurrency(statement.remaining)}`
+                : `Fatura do ${card.name} vence em ${daysUntilDue} dias - ${formatCurrency(statement.remaining)}`,
+              timestamp: new Date(),
+              read: false,
+              actionable: true
+            });
+          });
+      });
+    }
+
+    // Recurring bill reminders
+    if (settings.billReminders) {
+      getUpcomingRecurring(3)
+        .filter(({ template }) => template.type === 'expense')
+        .forEach(({ template, index, date }) => {
           alerts.push({
-            id: `card-due-${card.id}`,
-            type: 'warning',
-            title: 'Fatura do Cartão',
-            message: `Fatura do ${card.name} vence em ${daysUntilDue} dias - ${formatCurrency(card.currentBalance)}`,
+            id: `recurring-bill-${template.id}-${index}`,
+            type: 'info',
+            title: 'Conta Recorrente',
+            message: `${template.description} será lançada em ${formatDate(date)} - ${formatCurrency(template.amount)}`,
             timestamp: new Date(),
             read: false,
             actionable: true
           });
-        }
-      });
+        });
     }
 
     // Unusual spending alerts
@@ -177,7 +202,7 @@ const NotificationCenter: React.FC = () => {
     }
 
     return alerts;
-  }, [transactions, accounts, creditCards, goals, budgets, settings]);
+  }, [transactions, accounts, creditCards, categories, goals, budgets, settings, budgetDay, getUpcomingRecurring, getCardStatements]);
 
   useEffect(() => {
     setNotifications(prev => {
@@ -344,6 +369,19 @@ const NotificationCenter: React.FC = () => {
                 />
               </div>
 
+              <div className="flex items-center justify-between">
+                <Label htmlFor="bill-reminders" className="text-sm">
+                  Contas Recorrentes
+                </Label>
+                <Switch
+                  id="bill-reminders"
+                  checked={settings.billReminders}
+                  onCheckedChange={(checked) => 
+                    setSettings(prev => ({ ...prev, billReminders: checked }))
+                  }
+                />
+              </div>
+
               <div className="flex items-center justify-between">
                 <Label htmlFor="low-balance" className="text-sm">
                   Saldo Baixo
@@ -6,9 +6,17 @@ import { useFinancial } from '@/contexts/FinancialContext';
 import { formatCurrency } from '@/lib/utils';
 import { BarChart, Bar, LineChart, Line, PieChart, Pie, Cell, ResponsiveContainer, XAxis, YAxis, Tooltip, Legend } from 'recharts';
 import { FileText, Download, Calendar, TrendingUp, TrendingDown, DollarSign } from 'lucide-react';
+import IRPFReport from '@/components/IRPFReport';
+import { getInstallmentPurchases, getStatementKey } from '@/utils/creditCard';
+import { getAccountBalanceDistribution, getCategoryBreakdown, getMonthlyTrends } from '@/utils/reportData';
+import { addMonths, differenceInCalendarDays, endOfMonth, format, startOfMonth } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+
+// Months ahead covered by the cash-flow projection, current month included
+const PROJECTION_MONTHS = 6;
 
 const Reports: React.FC = () => {
-  const { transactions, accounts, categories } = useFinancial();
+  const { transactions, accounts, creditCards, categories, getUpcomingRecurring } = useFinancial();
   const [selectedPeriod, setSelectedPeriod] = useState('6months');
 
   const periodData = useMemo(() => {
@@ -33,62 +41,46 @@ const Reports: React.FC = () => {
     return transactions.filter(t => new Date(t.date) >= startDate);
   }, [transactions, selectedPeriod]);
 
-  const monthlyTrends = useMemo(() => {
-    const monthlyData: { [key: string]: { income: number; expense: number } } = {};
-    
-    periodData.forEach(transaction => {
-      const monthKey = new Date(transaction.date).toLocaleDateString('pt-BR', { 
-        year: 'numeric', 
-        month: 'short' 
-      });
-      
-      if (!monthlyData[monthKey]) {
-        monthlyData[monthKey] = { income: 0, expense: 0 };
-      }
-      
-      if (transaction.type === 'income') {
-        monthlyData[monthKey].income += transaction.amount;
-      } else {
-        monthlyData[monthKey].expense += transaction.amount;
-      }
-    });
+  const monthlyTrends = useMemo(() => getMonthlyTrends(periodData), [periodData]);
 
-    return Object.entries(monthlyData)
-      .map(([month, data]) => ({
-        month,
-        receitas: data.income,
-        despesas: data.expense,
-        saldo: data.income - data.expense
-      }))
-      .sort((a, b) => new Date(a.month).getTime() - new Date(b.month).getTime());
-  }, [periodData]);
+  const categoryBreakdown = useMemo(() => getCategoryBreakdown(periodData, categories), [periodData, categories]);
 
-  const categoryBreakdown = useMemo(() => {
-    const categoryData: { [key: string]: number } = {};
-    
-    periodData.forEach(transaction => {
-      categoryData[transaction.category] = (categoryData[transaction.category] || 0) + transaction.amount;
+  const accountBalanceDistribution = useMemo(() => getAccountBalanceDistribution(accounts), [accounts]);
+
+  // Expected money in and out per month: recurring series plus card installments by due date
+  const cashFlowProjection = useMemo(() => {
+    const now = new Date();
+    const months = Array.from({ length: PROJECTION_MONTHS }, (_, index) => {
+      const month = startOfMonth(addMonths(now, index));
+      return { key: format(month, 'yyyy-MM'), month: format(month, 'MMM yyyy', { locale: ptBR }), receitas: 0, despesas: 0, parcelas: 0 };
     });
+    const byKey = new Map(months.map(month => [month.key, month]));
 
-    return Object.entries(categoryData)
-      .map(([category, amount]) => {
-        const categoryInfo = categories.find(c => c.name === category);
-        return {
-          name: category,
-          value: amount,
-          color: categoryInfo?.color || '#8884d8'
-        };
-      })
-      .sort((a, b) => b.value - a.value);
-  }, [periodData, categories]);
+    const horizon = differenceInCalendarDays(endOfMonth(addMonths(now, PROJECTION_MONTHS - 1)), now);
+    getUpcomingRecurring(horizon).forEach(({ template, date }) => {
+      const month = byKey.get(format(date, 'yyyy-MM'));
+      if (!month || template.type === 'transfer') return;
+      if (template.type === 'income') month.receitas += Math.abs(template.amount);
+      else month.despesas += Math.abs(template.amount);
+    });
+
+    creditCards.forEach(card => {
+      const currentKey = getStatementKey(card, now);
+      getInstallmentPurchases(card, transactions, now).forEach(purchase => {
+        purchase.installments
+          .filter(installment => installment.key >= currentKey)
+          .forEach(installment => {
+            const month = byKey.get(format(installment.dueDate, 'yyyy-MM'));
+            if (month) month.parcelas += installment.amount;
+          });
+      });
+    });
 
-  const accountBalanceDistribution = useMemo(() => {
-    return accounts.map(account => ({
-      name: account.name,
-      value: Math.max(account.balance, 0),
-      color: account.color
+    return months.map(({ key, ...month }) => ({
+      ...month,
+      saldo: month.receitas - month.despesas - month.parcelas,
     }));
-  }, [accounts]);
+  }, [transactions, creditCards, getUpcomingRecurring]);
 
   const totalIncome = periodData.filter(t => t.type === 'income').reduce((sum, t) => sum + t.amount, 0);
   const totalExpense = periodData.filter(t => t.type === 'expense').reduce((sum, t) => sum + t.amount, 0);
@@ -107,6 +99,7 @@ const Reports: React.FC = () => {
       monthlyTrends,
       categoryBreakdown,
       accountBalances: accountBalanceDistribution,
+      cashFlowProjection,
       transactions: periodData
     };
     
@@ -282,6 +275,34 @@ const Reports: React.FC = () => {
             </ResponsiveContainer>
           </CardContent>
         </Card>
+
+        {/* Cash-flow Projection */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Calendar className="h-5 w-5" />
+              Projeção de Fluxo de Caixa
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Lançamentos recorrentes e parcelas de cartão previstas para os próximos {PROJECTION_MONTHS} meses
+            </p>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={cashFlowProjection}>
+                <XAxis dataKey="month" />
+                <YAxis />
+                <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                <Legend />
+                <Bar dataKey="receitas" name="Receitas Recorrentes" fill="hsl(var(--income))" />
+                <Bar dataKey="despesas" name="Despesas Recorrentes" stackId="saidas" fill="hsl(var(--expense))" />
+                <Bar dataKey="parcelas" name="Parcelas de Cartão" stackId="saidas" fill="hsl(var(--savings))" />
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+
+        <IRPFReport />
       </div>
     </div>
   );
@@ -7,6 +7,11 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useFinancial } from '@/contexts/FinancialContext';
 import { useBackupRestore } from '@/hooks/useBackupRestore';
+import BackupManager from '@/components/BackupManager';
+import CloudSyncManager from '@/components/CloudSyncManager';
+import BackupPassphraseDialog from '@/components/BackupPassphraseDialog';
+import DataImportDialog from '@/components/DataImportDialog';
+import { isEncryptedBackupFile } from '@/utils/backupFile';
 import { useTheme } from '@/components/ui/theme-provider';
 import { formatCurrency } from '@/lib/utils';
 import { 
@@ -25,17 +30,19 @@ import { useToast } from '@/hooks/use-toast';
 
 const Settings: React.FC = () => {
   const { getTotalBalance } = useFinancial();
-  const { exportBackup, importBackup, clearAllData } = useBackupRestore();
+  const { exportBackup, readBackupFile, clearAllData } = useBackupRestore();
   const { theme, setTheme } = useTheme();
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [passphraseMode, setPassphraseMode] = useState<'export' | 'import' | null>(null);
+  const [pendingImport, setPendingImport] = useState<File | null>(null);
+  const [importContent, setImportContent] = useState<string | null>(null);
 
   const [settings, setSettings] = useState({
     currency: 'BRL',
     dateFormat: 'dd/MM/yyyy',
     notifications: true,
     darkMode: false,
-    autoBackup: false,
     language: 'pt-BR',
   });
 
@@ -45,16 +52,37 @@ const Settings: React.FC = () => {
 
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    event.target.value = '';
     if (file) {
+      if (isEncryptedBackupFile(await file.text())) {
+        setPendingImport(file);
+        setPassphraseMode('import');
+        return;
+      }
       try {
-        await importBackup(file);
-        setTimeout(() => window.location.reload(), 2000);
+        setImportContent(await readBackupFile(file));
       } catch (error) {
         console.error('Import failed:', error);
       }
     }
   };
 
+  const closePassphraseDialog = () => {
+    setPassphraseMode(null);
+    setPendingImport(null);
+  };
+
+  const handlePassphrase = async (passphrase: string) => {
+    if (passphraseMode === 'export') {
+      await exportBackup(passphrase);
+      closePassphraseDialog();
+    } else if (pendingImport) {
+      const content = await readBackupFile(pendingImport, passphrase);
+      closePassphraseDialog();
+      setImportContent(content);
+    }
+  };
+
   const handleClearData = () => {
     if (confirm('Tem certeza que deseja limpar todos os dados? Esta ação não pode ser desfeita.')) {
       clearAllData();
@@ -68,7 +96,6 @@ const Settings: React.FC = () => {
       dateFormat: 'dd/MM/yyyy',
       notifications: true,
       darkMode: false,
-      autoBackup: false,
       language: 'pt-BR',
     });
     toast({
@@ -112,19 +139,6 @@ const Settings: React.FC = () => {
               />
             </div>
 
-            <div className="flex items-center justify-between">
-              <Label htmlFor="auto-backup" className="text-sm font-medium">
-                Backup Automático
-              </Label>
-              <Switch
-                id="auto-backup"
-                checked={settings.autoBackup}
-                onCheckedChange={(checked) => 
-                  setSettings(prev => ({ ...prev, autoBackup: checked }))
-                }
-              />
-            </div>
-
             <div className="space-y-2">
               <Label htmlFor="currency" className="text-sm font-medium">
                 Moeda
@@ -216,7 +230,7 @@ const Settings: React.FC = () => {
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="flex flex-col sm:flex-row gap-4">
-            <Button onClick={exportBackup} variant="outline" className="flex items-center gap-2 hover-scale">
+            <Button onClick={() => setPassphraseMode('export')} variant="outline" className="flex items-center gap-2 hover-scale">
               <Download className="h-4 w-4" />
               Exportar Backup
             </Button>
@@ -241,18 +255,30 @@ const Settings: React.FC = () => {
             onChange={handleFileChange}
             style={{ display: 'none' }}
           />
+
+          <BackupPassphraseDialog
+            mode={passphraseMode}
+            onCancel={closePassphraseDialog}
+            onConfirm={handlePassphrase}
+          />
+
+          <DataImportDialog content={importContent} onClose={() => setImportContent(null)} />
           
           <div className="p-4 bg-muted rounded-lg shadow-elegant">
             <p className="text-sm text-muted-foreground">
               <strong>Saldo Total:</strong> {formatCurrency(getTotalBalance())}
             </p>
             <p className="text-xs text-muted-foreground mt-1">
-              Mantenha sempre um backup dos seus dados importantes.
+              Mantenha sempre um backup dos seus dados importantes. Os arquivos exportados são protegidos por senha.
             </p>
           </div>
         </CardContent>
       </Card>
 
+      <BackupManager />
+
+      <CloudSyncManager />
+
       {/* App Info */}
       <Card className="animate-fade-in">
         <CardHeader>
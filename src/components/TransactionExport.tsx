@@ -1,5 +1,5 @@
 import React, { useState, useMemo } from 'react';
-import { format, startOfMonth, endOfMonth, subMonths } from 'date-fns';
+import { format, startOfMonth, endOfMonth, startOfYear, endOfYear, subMonths } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -14,7 +14,14 @@ import { Separator } from '@/components/ui/separator';
 import { CalendarIcon, Download, FileText, Table, PieChart, X, Filter } from 'lucide-react';
 import { toast } from 'sonner';
 import { Transaction } from '@/types/financial';
-import { exportData, ExportOptions, generateSummaryReport } from '@/utils/dataExport';
+import { useFinancial } from '@/contexts/FinancialContext';
+import { exportData, ExportData, ExportOptions, generateSummaryReport } from '@/utils/dataExport';
+import { getTransactionCategories } from '@/utils/splits';
+import { getCategoryLabel } from '@/utils/categories';
+import { getAccountBalanceAt } from '@/utils/ledger';
+import { downloadPDFReport, REPORT_SECTION_LABELS, REPORT_SECTIONS, ReportSection } from '@/utils/pdfReport';
+import { downloadXLSXWorkbook } from '@/utils/xlsxExport';
+import { useSettings } from '@/hooks/useSettings';
 import { cn } from '@/lib/utils';
 
 interface TransactionExportProps {
@@ -30,7 +37,7 @@ interface ExportFilters {
   } | null;
   categories: string[];
   accounts: string[];
-  type: 'all' | 'income' | 'expense';
+  type: 'all' | 'income' | 'expense' | 'transfer';
   amountRange: {
     min: number;
     max: number;
@@ -38,10 +45,16 @@ interface ExportFilters {
 }
 
 const EXPORT_FORMATS = [
+  {
+    value: 'excel',
+    label: 'Excel (XLSX)',
+    description: 'Planilha com uma aba por tipo de dado',
+    icon: Table,
+  },
   {
     value: 'csv',
-    label: 'CSV (Excel)',
-    description: 'Formato ideal para planilhas',
+    label: 'CSV',
+    description: 'Texto simples, um arquivo por tipo de dado',
     icon: Table,
   },
   {
@@ -52,13 +65,17 @@ const EXPORT_FORMATS = [
   },
   {
     value: 'pdf',
-    label: 'PDF (Em breve)',
+    label: 'PDF',
     description: 'Relatório visual formatado',
     icon: PieChart,
-    disabled: true,
+    disabled: false,
   },
 ];
 
+// Months offered for a monthly PDF report, newest first
+const REPORT_MONTHS = Array.from({ length: 24 }, (_, index) => startOfMonth(subMonths(new Date(), index)));
+const REPORT_YEARS = Array.from({ length: 5 }, (_, index) => new Date().getFullYear() - index);
+
 const PREDEFINED_PERIODS = [
   {
     label: 'Este mês',
@@ -109,8 +126,10 @@ export const TransactionExport: React.FC<TransactionExportProps> = ({
   categories,
   accounts,
 }) => {
+  const { accounts: allAccounts, categories: allCategories, creditCards, goals, budgets } = useFinancial();
+  const { settings } = useSettings();
   const [isOpen, setIsOpen] = useState(false);
-  const [exportFormat, setExportFormat] = useState<'csv' | 'json' | 'pdf'>('csv');
+  const [exportFormat, setExportFormat] = useState<'csv' | 'json' | 'pdf' | 'excel'>('excel');
   const [filters, setFilters] = useState<ExportFilters>({
     dateRange: {
       from: startOfMonth(new Date()),
@@ -122,6 +141,7 @@ export const TransactionExport: React.FC<TransactionExportProps> = ({
     amountRange: null,
   });
   const [isExporting, setIsExporting] = useState(false);
+  const [reportSections, setReportSections] = useState<ReportSection[]>(REPORT_SECTIONS);
 
   // Filter transactions based on current filters
   const filteredTransactions = useMemo(() => {
@@ -140,7 +160,8 @@ export const TransactionExport: React.FC<TransactionExportProps> = ({
       }
 
       // Categories filter
-      if (filters.categories.length > 0 && !filters.categories.includes(transaction.category)) {
+      if (filters.categories.length > 0 &&
+          !getTransactionCategories(transaction).some(category => filters.categories.includes(category))) {
         return false;
       }
 
@@ -187,6 +208,23 @@ export const TransactionExport: React.FC<TransactionExportProps> = ({
     setIsExporting(true);
 
     try {
+      if (exportFormat === 'pdf') {
+        await exportPDFReport();
+        return;
+      }
+
+      if (exportFormat === 'excel') {
+        await downloadXLSXWorkbook(buildExportData(), {
+          dateFormat: settings.dateFormat,
+          numberFormat: settings.numberFormat,
+          currencySymbol: settings.currencySymbol,
+          budgetTransactions: transactions,
+        });
+        toast.success(`${filteredTransactions.length} transações exportadas com sucesso!`);
+        setIsOpen(false);
+        return;
+      }
+
       const exportOptions: ExportOptions = {
         format: exportFormat,
         dateRange: filters.dateRange || undefined,
@@ -229,6 +267,61 @@ export const TransactionExport: React.FC<TransactionExportProps> = ({
     }
   };
 
+  // Everything a workbook or report needs, with account balances as of the end of the
+  // period computed over the full ledger rather than the filtered list
+  const buildExportData = (): ExportData => {
+    const balanceDate = filters.dateRange?.to || new Date();
+    const exportAccounts = allAccounts
+      .filter(account => filters.accounts.length === 0 || filters.accounts.includes(account.id))
+      .map(account => ({ ...account, balance: getAccountBalanceAt(account, transactions, balanceDate) }));
+
+    return {
+      transactions: filteredTransactions,
+      accounts: exportAccounts,
+      creditCards,
+      goals,
+      budgets,
+      categories: allCategories,
+      metadata: {
+        exportDate: new Date().toISOString(),
+        version: '2.0',
+        totalAccounts: exportAccounts.length,
+        totalTransactions: filteredTransactions.length,
+        dateRange: {
+          from: filters.dateRange?.from.toISOString() || '',
+          to: filters.dateRange?.to.toISOString() || '',
+        },
+      },
+    };
+  };
+
+  const exportPDFReport = async () => {
+    if (reportSections.length === 0) {
+      toast.error('Selecione ao menos uma seção do relatório');
+      return;
+    }
+
+    await downloadPDFReport(buildExportData(), { period: filters.dateRange, sections: reportSections });
+    toast.success('Relatório PDF gerado com sucesso!');
+    setIsOpen(false);
+  };
+
+  const setReportMonth = (value: string) => {
+    const month = new Date(value);
+    setFilters(prev => ({ ...prev, dateRange: { from: startOfMonth(month), to: endOfMonth(month) } }));
+  };
+
+  const setReportYear = (value: string) => {
+    const year = new Date(Number(value), 0, 1);
+    setFilters(prev => ({ ...prev, dateRange: { from: startOfYear(year), to: endOfYear(year) } }));
+  };
+
+  const toggleReportSection = (section: ReportSection) => {
+    setReportSections(prev => prev.includes(section)
+      ? prev.filter(s => s !== section)
+      : REPORT_SECTIONS.filter(s => s === section || prev.includes(s)));
+  };
+
   const handleGenerateReport = () => {
     const reportData = {
       transactions: filteredTransactions,
@@ -285,6 +378,8 @@ export const TransactionExport: React.FC<TransactionExportProps> = ({
     }));
   };
 
+  const getAccountName = (accountId: string) => allAccounts.find(a => a.id === accountId)?.name || accountId;
+
   const clearFilters = () => {
     setFilters({
       dateRange: {
@@ -403,7 +498,7 @@ export const TransactionExport: React.FC<TransactionExportProps> = ({
               <CardContent>
                 <Select
                   value={filters.type}
-                  onValueChange={(value: 'all' | 'income' | 'expense') => 
+                  onValueChange={(value: 'all' | 'income' | 'expense' | 'transfer') => 
                     setFilters(prev => ({ ...prev, type: value }))
                   }
                 >
@@ -414,6 +509,7 @@ export const TransactionExport: React.FC<TransactionExportProps> = ({
                     <SelectItem value="all">Todas</SelectItem>
                     <SelectItem value="income">Receitas</SelectItem>
                     <SelectItem value="expense">Despesas</SelectItem>
+                    <SelectItem value="transfer">Transferências</SelectItem>
                   </SelectContent>
                 </Select>
               </CardContent>
@@ -440,7 +536,7 @@ export const TransactionExport: React.FC<TransactionExportProps> = ({
                         htmlFor={`category-${category}`}
                         className="text-sm cursor-pointer"
                       >
-                        {category}
+                        {getCategoryLabel(allCategories, category)}
                       </Label>
                     </div>
                   ))}
@@ -449,7 +545,7 @@ export const TransactionExport: React.FC<TransactionExportProps> = ({
                   <div className="mt-3 flex flex-wrap gap-1">
                     {filters.categories.map(category => (
                       <Badge key={category} variant="secondary" className="text-xs">
-                        {category}
+                        {getCategoryLabel(allCategories, category)}
                         <X 
                           className="h-3 w-3 ml-1 cursor-pointer" 
                           onClick={() => toggleCategory(category)}
@@ -482,7 +578,7 @@ export const TransactionExport: React.FC<TransactionExportProps> = ({
                         htmlFor={`account-${account}`}
                         className="text-sm cursor-pointer"
                       >
-                        {account}
+                        {getAccountName(account)}
                       </Label>
                     </div>
                   ))}
@@ -491,7 +587,7 @@ export const TransactionExport: React.FC<TransactionExportProps> = ({
                   <div className="mt-3 flex flex-wrap gap-1">
                     {filters.accounts.map(account => (
                       <Badge key={account} variant="secondary" className="text-xs">
-                        {account}
+                        {getAccountName(account)}
                         <X 
                           className="h-3 w-3 ml-1 cursor-pointer" 
                           onClick={() => toggleAccount(account)}
@@ -579,6 +675,62 @@ export const TransactionExport: React.FC<TransactionExportProps> = ({
               </CardContent>
             </Card>
 
+            {exportFormat === 'pdf' && (
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base">Relatório PDF</CardTitle>
+                  <CardDescription>
+                    Escolha um mês ou ano, ou use o período acima
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-2 gap-2">
+                    <Select onValueChange={setReportMonth}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Mensal" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {REPORT_MONTHS.map(month => (
+                          <SelectItem key={month.toISOString()} value={month.toISOString()}>
+                            {format(month, 'MMM yyyy', { locale: ptBR })}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select onValueChange={setReportYear}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Anual" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {REPORT_YEARS.map(year => (
+                          <SelectItem key={year} value={String(year)}>
+                            {year}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <Separator />
+
+                  <div className="space-y-2">
+                    {REPORT_SECTIONS.map(section => (
+                      <div key={section} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`section-${section}`}
+                          checked={reportSections.includes(section)}
+                          onCheckedChange={() => toggleReportSection(section)}
+                        />
+                        <Label htmlFor={`section-${section}`} className="text-sm cursor-pointer">
+                          {REPORT_SECTION_LABELS[section]}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Ações */}
             <div className="space-y-3">
               <Button
@@ -591,7 +743,7 @@ export const TransactionExport: React.FC<TransactionExportProps> = ({
                 ) : (
                   <>
                     <Download className="h-4 w-4 mr-2" />
-                    Exportar ({stats.total} itens)
+                    {exportFormat === 'pdf' ? 'Gerar PDF' : `Exportar (${stats.total} itens)`}
                   </>
                 )}
               </Button>
@@ -0,0 +1,833 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, ArrowRight, Save, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { useFinancial } from '@/contexts/FinancialContext';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import {
+  BankDataImporter,
+  BankMapping,
+  AUTO_ENCODING,
+  CSVParser,
+  DATE_FORMATS,
+  IMPORT_PRESETS_STORAGE_KEY,
+  ImportPreviewRow,
+  STATEMENT_ROW_MAPPING,
+  detectDelimiter,
+  getMappingPresets,
+  readCSVRecords,
+  suggestMapping,
+} from '@/utils/bankImport';
+import { decodeOFX } from '@/utils/ofx';
+import {
+  DUPLICATE_RESOLUTION_LABELS,
+  DuplicateResolution,
+  buildMergeChanges,
+  getDefaultResolution,
+} from '@/utils/duplicates';
+import { buildCategoryTree, getCategoryLabel, normalizeCategoryReference } from '@/utils/categories';
+import { formatCurrency } from '@/lib/utils';
+
+type ImportStep = 'upload' | 'mapping' | 'review';
+type FileFormat = 'csv' | 'ofx' | 'qif' | 'camt';
+
+// Select values cannot be empty, so optional columns use a sentinel
+const NO_COLUMN = 'none';
+const AUTO_SEPARATOR = 'auto';
+
+const DELIMITERS = [
+  { value: ';', label: 'Ponto e vírgula (;)' },
+  { value: ',', label: 'Vírgula (,)' },
+  { value: '\t', label: 'Tabulação' },
+];
+
+const ENCODINGS = [
+  { value: AUTO_ENCODING, label: 'Detectar automaticamente' },
+  { value: 'UTF-8', label: 'UTF-8' },
+  { value: 'ISO-8859-1', label: 'ISO-8859-1 (Latin-1)' },
+  { value: 'windows-1252', label: 'Windows-1252' },
+];
+
+const RAW_PREVIEW_LINES = 10;
+// CSV files are parsed as they are read; only their start is kept as text, to detect the layout
+const CSV_HEAD_BYTES = 64 * 1024;
+
+// Formats with a fixed layout skip the column mapping step
+const STATEMENT_FORMAT_LABELS: Record<Exclude<FileFormat, 'csv'>, string> = {
+  ofx: 'OFX',
+  qif: 'QIF',
+  camt: 'CAMT.053',
+};
+
+const detectFileFormat = (file: File, content: string): FileFormat => {
+  if (/\.(ofx|qfx)$/i.test(file.name) || /<OFX[\s>]/i.test(content)) return 'ofx';
+  if (/\.qif$/i.test(file.name) || /^\s*!(Type|Account)/i.test(content)) return 'qif';
+  if (/\.xml$/i.test(file.name) || /<(\w+:)?BkToCstmrStmt/.test(content)) return 'camt';
+  return 'csv';
+};
+
+export const TransactionImport: React.FC = () => {
+  const { transactions, accounts, categories, importTransactions } = useFinancial();
+  const [customPresets, setCustomPresets] = useLocalStorage<Record<string, BankMapping>>(IMPORT_PRESETS_STORAGE_KEY, {});
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [file, setFile] = useState<File | null>(null);
+  const [content, setContent] = useState(''); // Whole text of statement files, first bytes of CSV files
+  const [records, setRecords] = useState<string[][]>([]);
+  const [fileFormat, setFileFormat] = useState<FileFormat>('csv');
+  const [encoding, setEncoding] = useState(AUTO_ENCODING);
+  const [mapping, setMapping] = useState<BankMapping>(suggestMapping([], ','));
+  const [presetName, setPresetName] = useState('');
+  const [newPresetName, setNewPresetName] = useState('');
+  const [targetAccount, setTargetAccount] = useState('');
+  // App account chosen for each account found in a statement file; unassigned ones use targetAccount
+  const [accountMap, setAccountMap] = useState<Record<string, string>>({});
+  // Per-line choices made during review; rows without one use the defaults
+  const [included, setIncluded] = useState<Record<number, boolean>>({});
+  const [categoryOverrides, setCategoryOverrides] = useState<Record<number, string>>({});
+  const [resolutions, setResolutions] = useState<Record<number, DuplicateResolution>>({});
+
+  const presets = useMemo(() => getMappingPresets(customPresets), [customPresets]);
+  const importer = useMemo(() => new BankDataImporter(transactions, accounts), [transactions, accounts]);
+
+  useEffect(() => {
+    if (!file || fileFormat !== 'csv') {
+      setRecords([]);
+      return;
+    }
+    let cancelled = false;
+    readCSVRecords(file, mapping.delimiter, encoding)
+      .then(parsed => {
+        if (!cancelled) setRecords(parsed);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        toast.error('Erro ao ler arquivo');
+        console.error('Error parsing CSV file:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file, fileFormat, mapping.delimiter, encoding]);
+
+  const headers = useMemo(() => {
+    const columns = records[0] || [];
+    return mapping.hasHeaders === false ? columns.map((_, index) => String(index)) : columns;
+  }, [records, mapping.hasHeaders]);
+
+  const parsedRows = useMemo(() => {
+    return new CSVParser(mapping.delimiter, mapping.hasHeaders !== false).toRows(records);
+  }, [records, mapping.delimiter, mapping.hasHeaders]);
+
+  // Debit and credit in separate columns instead of one signed amount
+  const splitAmounts = !mapping.amountColumn && (mapping.debitColumn !== undefined || mapping.creditColumn !== undefined);
+
+  const statementAccounts = useMemo(() => {
+    if (fileFormat === 'csv' || !content) return [];
+    try {
+      return importer.getStatementAccounts(content, fileFormat);
+    } catch (error) {
+      // Reported by the statement preview
+      return [];
+    }
+  }, [fileFormat, content, importer]);
+
+  // Statement formats are converted as a whole; OFX drops FITIDs repeated in the file and reports them as messages
+  const statementPreview = useMemo(() => {
+    if (fileFormat === 'csv' || step !== 'review' || !targetAccount) return null;
+    try {
+      if (fileFormat === 'ofx') {
+        const result = importer.processOFX(content, targetAccount, accountMap);
+        const candidates = result.duplicateCandidates || [];
+        return {
+          rows: [
+            ...result.transactions.map(transaction => ({ transaction, duplicate: false })),
+            ...candidates.map(candidate => ({ transaction: candidate.incoming, duplicate: true, candidate })),
+          ].map((row, index): ImportPreviewRow => ({ ...row, line: index + 1, raw: {} })),
+          messages: [...result.errors, ...result.warnings],
+          duplicates: result.duplicates - candidates.length,
+        };
+      }
+
+      const statementRows = importer.mapStatementAccounts(
+        fileFormat === 'qif' ? importer.getQIFRows(content) : importer.getCAMTRows(content),
+        targetAccount,
+        accountMap
+      );
+      return {
+        rows: importer.previewRows(
+          statementRows.rows,
+          STATEMENT_ROW_MAPPING,
+          targetAccount,
+          fileFormat,
+          statementRows.lineNumbers
+        ),
+        messages: statementRows.warnings,
+        duplicates: 0,
+      };
+    } catch (error) {
+      console.error('Error parsing statement file:', error);
+      return { rows: [], messages: [error instanceof Error ? error.message : String(error)], duplicates: 0 };
+    }
+  }, [fileFormat, step, targetAccount, accountMap, importer, content]);
+
+  const previewRows = useMemo<ImportPreviewRow[]>(() => {
+    if (step !== 'review' || !targetAccount) return [];
+    if (statementPreview) return statementPreview.rows;
+    return importer.previewRows(parsedRows, mapping, targetAccount);
+  }, [step, targetAccount, statementPreview, importer, parsedRows, mapping]);
+
+  const getResolution = (row: ImportPreviewRow): DuplicateResolution | undefined =>
+    row.candidate ? (resolutions[row.line] ?? getDefaultResolution(row.candidate)) : undefined;
+
+  // Duplicate candidates are handled by their resolution; other rows by their checkbox
+  const isIncluded = (row: ImportPreviewRow) => {
+    if (row.error) return false;
+    if (row.candidate) return getResolution(row) !== 'skip';
+    return included[row.line] ?? !row.duplicate;
+  };
+
+  const getRowCategory = (row: ImportPreviewRow) =>
+    categoryOverrides[row.line] ?? normalizeCategoryReference(categories, row.transaction?.category || '');
+
+  const selectedRows = previewRows.filter(isIncluded);
+  const mergeCount = selectedRows.filter(row => getResolution(row) === 'merge').length;
+  const duplicateCount = previewRows.filter(row => row.duplicate).length + (statementPreview?.duplicates || 0);
+  const errorCount = previewRows.filter(row => row.error).length;
+
+  const resetWizard = () => {
+    setStep('upload');
+    setFile(null);
+    setContent('');
+    setRecords([]);
+    setFileFormat('csv');
+    setPresetName('');
+    setNewPresetName('');
+    setAccountMap({});
+    setIncluded({});
+    setCategoryOverrides({});
+    setResolutions({});
+  };
+
+  const loadFile = async (selected: File, selectedEncoding: string) => {
+    const validation = BankDataImporter.validateFile(selected);
+    if (!validation.valid) {
+      toast.error(validation.error);
+      return;
+    }
+
+    try {
+      let text = await importer.readFile(selected.slice(0, CSV_HEAD_BYTES), selectedEncoding);
+      const detectedFormat = detectFileFormat(selected, text);
+      if (detectedFormat === 'ofx') {
+        // OFX declares its own charset in the header
+        text = decodeOFX(await selected.arrayBuffer());
+      } else if (detectedFormat !== 'csv' && selected.size > CSV_HEAD_BYTES) {
+        text = await importer.readFile(selected, selectedEncoding);
+      }
+
+      setFile(selected);
+      setContent(text);
+      setFileFormat(detectedFormat);
+      setAccountMap({});
+      setIncluded({});
+      setResolutions({});
+      setCategoryOverrides({});
+
+      if (detectedFormat === 'csv') {
+        const detected = importer.detectBankFormat(selected.name, text);
+        if (detected && presets[detected]) {
+          setPresetName(detected);
+          setMapping({ ...presets[detected], encoding: selectedEncoding });
+        } else {
+          const delimiter = detectDelimiter(text);
+          const columns = new CSVParser(delimiter, false).parse(text)[0] || [];
+          setPresetName('');
+          setMapping({ ...suggestMapping(columns, delimiter), encoding: selectedEncoding });
+        }
+      }
+    } catch (error) {
+      toast.error('Erro ao ler arquivo');
+      console.error('Error reading import file:', error);
+    }
+  };
+
+  const updateMapping = (changes: Partial<BankMapping>) => {
+    setMapping(prev => ({ ...prev, ...changes }));
+    setIncluded({});
+    setResolutions({});
+    setCategoryOverrides({});
+  };
+
+  const applyPreset = (name: string) => {
+    setPresetName(name);
+    updateMapping({ ...presets[name], encoding });
+  };
+
+  const savePreset = () => {
+    const name = newPresetName.trim();
+    if (!name) {
+      toast.error('Informe um nome para a predefinição');
+      return;
+    }
+    setCustomPresets(prev => ({ ...prev, [name]: mapping }));
+    setPresetName(name);
+    setNewPresetName('');
+    toast.success('Predefinição salva com sucesso!');
+  };
+
+  const deletePreset = (name: string) => {
+    setCustomPresets(prev => {
+      const { [name]: _removed, ...rest } = prev;
+      return rest;
+    });
+    setPresetName('');
+    toast.success('Predefinição excluída');
+  };
+
+  const handleImport = () => {
+    try {
+      const merges = selectedRows
+        .filter(row => row.candidate && getResolution(row) === 'merge')
+        .map(row => ({ id: row.candidate!.existing.id, changes: buildMergeChanges(row.candidate!) }));
+      const newTransactions = selectedRows
+        .filter(row => !(row.candidate && getResolution(row) === 'merge'))
+        .map(row => {
+          const { id: _id, ...transaction } = row.transaction!;
+          return { ...transaction, category: getRowCategory(row) };
+        });
+      // Saved in a single update, so a failure leaves none of the statement behind
+      if (!importTransactions(newTransactions, merges)) return;
+
+      toast.success(merges.length > 0
+        ? `${newTransactions.length} transações importadas e ${merges.length} mescladas com sucesso!`
+        : `${newTransactions.length} transações importadas com sucesso!`);
+      setIsOpen(false);
+      resetWizard();
+    } catch (error) {
+      toast.error('Erro ao importar transações');
+      console.error('Error importing transactions:', error);
+    }
+  };
+
+  const isMappingComplete = !!mapping.dateColumn && !!mapping.descriptionColumn &&
+    (splitAmounts ? !!(mapping.debitColumn || mapping.creditColumn) : !!mapping.amountColumn);
+
+  const getColumnLabel = (column: string) =>
+    mapping.hasHeaders === false ? `Coluna ${Number(column) + 1}` : column;
+
+  const renderColumnSelect = (field: keyof BankMapping, label: string, optional = false) => (
+    <div>
+      <Label>{label}</Label>
+      <Select
+        value={(mapping[field] as string) || (optional ? NO_COLUMN : undefined)}
+        onValueChange={(value) => updateMapping({ [field]: value === NO_COLUMN ? '' : value })}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Selecione a coluna" />
+        </SelectTrigger>
+        <SelectContent>
+          {optional && <SelectItem value={NO_COLUMN}>Não usar</SelectItem>}
+          {headers.filter(Boolean).map((header) => (
+            <SelectItem key={header} value={header}>
+              {getColumnLabel(header)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const renderCategorySelect = (row: ImportPreviewRow) => {
+    const tree = buildCategoryTree(categories, { type: row.transaction!.type === 'income' ? 'income' : 'expense' });
+    const value = getRowCategory(row);
+    return (
+      <Select
+        value={value}
+        onValueChange={(categoryId) => setCategoryOverrides(prev => ({ ...prev, [row.line]: categoryId }))}
+      >
+        <SelectTrigger className="h-8 w-44">
+          <SelectValue placeholder="Categoria">{getCategoryLabel(categories, value)}</SelectValue>
+        </SelectTrigger>
+        <SelectContent>
+          {tree.map(({ category, children }) => (
+            <React.Fragment key={category.id}>
+              <SelectItem value={category.id}>
+                {category.icon} {category.name}
+              </SelectItem>
+              {children.map((child) => (
+                <SelectItem key={child.id} value={child.id} className="pl-10">
+                  {child.icon} {child.name}
+                </SelectItem>
+              ))}
+            </React.Fragment>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  };
+
+  const renderUploadStep = () => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="import-file">Arquivo (CSV, TXT, OFX, QFX, QIF ou CAMT.053)</Label>
+          <Input
+            id="import-file"
+            type="file"
+            accept=".csv,.txt,.ofx,.qfx,.qif,.xml"
+            onChange={(e) => {
+              const selected = e.target.files?.[0];
+              if (selected) loadFile(selected, encoding);
+            }}
+          />
+        </div>
+        {fileFormat !== 'ofx' && (
+          <div>
+            <Label>Codificação</Label>
+            <Select
+              value={encoding}
+              onValueChange={(value) => {
+                setEncoding(value);
+                if (file) loadFile(file, value);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ENCODINGS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      {content && (
+        <div>
+          <Label>Primeiras linhas do arquivo</Label>
+          <pre className="mt-2 max-h-64 overflow-auto rounded-md bg-muted p-3 text-xs">
+            {content.split('\n').slice(0, RAW_PREVIEW_LINES).join('\n')}
+          </pre>
+          {fileFormat !== 'csv' && (
+            <p className="text-sm text-muted-foreground mt-2">
+              Arquivo {STATEMENT_FORMAT_LABELS[fileFormat]} detectado: as colunas são lidas automaticamente.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderMappingStep = () => (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label>Predefinição</Label>
+          <Select value={presetName || undefined} onValueChange={applyPreset}>
+            <SelectTrigger>
+              <SelectValue placeholder="Mapeamento personalizado" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.keys(presets).map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}{customPresets[name] ? '' : ' (padrão)'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="preset-name">Salvar mapeamento como</Label>
+          <div className="flex gap-2">
+            <Input
+              id="preset-name"
+              value={newPresetName}
+              onChange={(e) => setNewPresetName(e.target.value)}
+              placeholder="Ex: Meu banco"
+            />
+            <Button type="button" variant="outline" size="icon" onClick={savePreset} disabled={!isMappingComplete}>
+              <Save className="h-4 w-4" />
+            </Button>
+            {customPresets[presetName] && (
+              <Button type="button" variant="outline" size="icon" onClick={() => deletePreset(presetName)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <Label>Separador</Label>
+          <Select value={mapping.delimiter || ','} onValueChange={(value) => updateMapping({ delimiter: value })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DELIMITERS.map((option) => (
+                <SelectItem key={option.label} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Formato da data</Label>
+          <Select value={mapping.dateFormat} onValueChange={(value) => updateMapping({ dateFormat: value })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DATE_FORMATS.map((dateFormat) => (
+                <SelectItem key={dateFormat} value={dateFormat}>
+                  {dateFormat.toLowerCase()}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center justify-between pt-6">
+          <Label htmlFor="has-headers">Primeira linha é cabeçalho</Label>
+          <Switch
+            id="has-headers"
+            checked={mapping.hasHeaders !== false}
+            onCheckedChange={(checked) => updateMapping({
+              hasHeaders: checked,
+              dateColumn: '',
+              descriptionColumn: '',
+              amountColumn: '',
+              typeColumn: undefined,
+              categoryColumn: undefined,
+              accountColumn: undefined,
+            })}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {renderColumnSelect('dateColumn', 'Coluna da data')}
+        {renderColumnSelect('descriptionColumn', 'Coluna da descrição')}
+        {renderColumnSelect('typeColumn', 'Coluna do tipo', true)}
+        {renderColumnSelect('categoryColumn', 'Coluna da categoria', true)}
+        {renderColumnSelect('accountColumn', 'Coluna da conta', true)}
+        <div>
+          <Label>Valores</Label>
+          <Select
+            value={splitAmounts ? 'split' : 'single'}
+            onValueChange={(value) => updateMapping(value === 'split'
+              ? { amountColumn: '', debitColumn: '', creditColumn: '' }
+              : { debitColumn: undefined, creditColumn: undefined })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="single">Uma coluna de valor</SelectItem>
+              <SelectItem value="split">Colunas de débito e crédito</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {splitAmounts ? (
+          <>
+            {renderColumnSelect('debitColumn', 'Coluna de débito', true)}
+            {renderColumnSelect('creditColumn', 'Coluna de crédito', true)}
+          </>
+        ) : (
+          renderColumnSelect('amountColumn', 'Coluna do valor')
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label>Separador decimal</Label>
+          <Select
+            value={mapping.decimalSeparator || AUTO_SEPARATOR}
+            onValueChange={(value) => updateMapping({
+              decimalSeparator: value === AUTO_SEPARATOR ? undefined : value as BankMapping['decimalSeparator'],
+            })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO_SEPARATOR}>Automático</SelectItem>
+              <SelectItem value=",">Vírgula (1.234,56)</SelectItem>
+              <SelectItem value=".">Ponto (1,234.56)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Sinal dos valores</Label>
+          <Select
+            value={mapping.signConvention || 'signed'}
+            onValueChange={(value) => updateMapping({ signConvention: value as BankMapping['signConvention'] })}
+            disabled={!!mapping.typeColumn}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="signed">Negativos são despesas</SelectItem>
+              <SelectItem value="inverted">Positivos são despesas (fatura de cartão)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div>
+        <Label>Prévia das colunas</Label>
+        <div className="mt-2 max-h-48 overflow-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {headers.map((header) => (
+                  <TableHead key={header}>{getColumnLabel(header)}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {parsedRows.slice(0, 5).map((row, index) => (
+                <TableRow key={index}>
+                  {headers.map((header) => (
+                    <TableCell key={header} className="whitespace-nowrap text-xs">
+                      {row[header]}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderReviewStep = () => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label>{fileFormat === 'csv' && mapping.accountColumn ? 'Conta das linhas sem conta' : 'Conta de destino'}</Label>
+          <Select value={targetAccount || undefined} onValueChange={setTargetAccount}>
+            <SelectTrigger>
+              <SelectValue placeholder="Selecione a conta" />
+            </SelectTrigger>
+            <SelectContent>
+              {accounts.map((account) => (
+                <SelectItem key={account.id} value={account.id}>
+                  {account.name} - {account.bank}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {targetAccount && (
+          <div className="flex flex-wrap items-end gap-2">
+            <Badge variant="secondary">{selectedRows.length} selecionadas</Badge>
+            {duplicateCount > 0 && <Badge variant="outline">{duplicateCount} duplicadas</Badge>}
+            {errorCount > 0 && <Badge variant="destructive">{errorCount} com erro</Badge>}
+          </div>
+        )}
+      </div>
+
+      {targetAccount && statementAccounts.length > 1 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {statementAccounts.map((statementAccount) => (
+            <div key={statementAccount}>
+              <Label>Conta {statementAccount} no arquivo</Label>
+              <Select
+                value={accountMap[statementAccount] || targetAccount}
+                onValueChange={(accountId) => {
+                  setAccountMap(prev => ({ ...prev, [statementAccount]: accountId }));
+                  setIncluded({});
+                  setResolutions({});
+                  setCategoryOverrides({});
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name} - {account.bank}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {statementPreview && statementPreview.messages.length > 0 && (
+        <ul className="text-sm text-muted-foreground list-disc pl-5 space-y-1">
+          {statementPreview.messages.map((message, index) => (
+            <li key={index}>{message}</li>
+          ))}
+        </ul>
+      )}
+
+      {targetAccount ? (
+        <div className="max-h-[45vh] overflow-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10" />
+                <TableHead>Linha</TableHead>
+                <TableHead>Data</TableHead>
+                <TableHead>Descrição</TableHead>
+                <TableHead>Categoria</TableHead>
+                <TableHead className="text-right">Valor</TableHead>
+                <TableHead>Situação</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {previewRows.map((row) => (
+                <TableRow key={row.line} className={isIncluded(row) ? '' : 'opacity-60'}>
+                  <TableCell>
+                    {!row.candidate && (
+                      <Checkbox
+                        checked={isIncluded(row)}
+                        disabled={!!row.error}
+                        onCheckedChange={(checked) => setIncluded(prev => ({ ...prev, [row.line]: !!checked }))}
+                      />
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{row.line}</TableCell>
+                  {row.transaction ? (
+                    <>
+                      <TableCell className="whitespace-nowrap">{format(row.transaction.date, 'dd/MM/yyyy')}</TableCell>
+                      <TableCell className="max-w-56">
+                        <p className="truncate">{row.transaction.description}</p>
+                        {row.candidate && (
+                          <p className="text-xs text-muted-foreground truncate">
+                            Existente: {format(new Date(row.candidate.existing.date), 'dd/MM/yyyy')} · {row.candidate.existing.description} · {formatCurrency(row.candidate.existing.amount)}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {getResolution(row) === 'merge'
+                          ? <span className="text-sm">{getCategoryLabel(categories, row.candidate!.existing.category)}</span>
+                          : renderCategorySelect(row)}
+                      </TableCell>
+                      <TableCell className={`text-right whitespace-nowrap ${row.transaction.type === 'income' ? 'text-success' : 'text-destructive'}`}>
+                        {row.transaction.type === 'income' ? '+' : '-'}{formatCurrency(row.transaction.amount)}
+                      </TableCell>
+                    </>
+                  ) : (
+                    <TableCell colSpan={4} className="text-sm text-destructive">{row.error}</TableCell>
+                  )}
+                  <TableCell>
+                    {row.error ? (
+                      <Badge variant="destructive">Erro</Badge>
+                    ) : row.candidate ? (
+                      <div className="space-y-1">
+                        <Badge variant="outline">Duplicada ({Math.round(row.candidate.confidence * 100)}%)</Badge>
+                        <Select
+                          value={getResolution(row)}
+                          onValueChange={(value) => setResolutions(prev => ({ ...prev, [row.line]: value as DuplicateResolution }))}
+                        >
+                          <SelectTrigger className="h-8 w-36">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(DUPLICATE_RESOLUTION_LABELS) as DuplicateResolution[]).map((resolution) => (
+                              <SelectItem key={resolution} value={resolution}>
+                                {DUPLICATE_RESOLUTION_LABELS[resolution]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ) : row.duplicate ? (
+                      <Badge variant="outline">Repetida no arquivo</Badge>
+                    ) : (
+                      <Badge variant="secondary">Nova</Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Selecione a conta que receberá as transações.</p>
+      )}
+    </div>
+  );
+
+  const stepDescriptions: Record<ImportStep, string> = {
+    upload: 'Escolha o arquivo exportado pelo seu banco',
+    mapping: 'Indique o que cada coluna do arquivo representa',
+    review: 'Revise as transações antes de importar',
+  };
+
+  const goBack = () => setStep(step === 'review' && fileFormat === 'csv' ? 'mapping' : 'upload');
+  const goNext = () => setStep(step === 'upload' && fileFormat === 'csv' ? 'mapping' : 'review');
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        if (!open) resetWizard();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <Upload className="h-4 w-4" />
+          Importar
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importar Transações</DialogTitle>
+          <DialogDescription>{stepDescriptions[step]}</DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && renderUploadStep()}
+        {step === 'mapping' && renderMappingStep()}
+        {step === 'review' && renderReviewStep()}
+
+        <div className="flex justify-between pt-4">
+          <Button variant="outline" onClick={goBack} disabled={step === 'upload'}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar
+          </Button>
+          {step === 'review' ? (
+            <Button onClick={handleImport} disabled={selectedRows.length === 0}>
+              Importar {selectedRows.length} transações
+            </Button>
+          ) : (
+            <Button
+              onClick={goNext}
+              disabled={!content || (step === 'mapping' && !isMappingComplete)}
+            >
+              Próximo
+              <ArrowRight className="h-4 w-4 ml-2" />
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TransactionImport;
@@ -3,21 +3,32 @@ import { useFinancial } from '@/contexts/FinancialContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Search, Filter, ArrowUpDown, TrendingUp, TrendingDown } from 'lucide-react';
+import { Plus, Search, Filter, ArrowUpDown, TrendingUp, TrendingDown, Edit } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import TransactionForm from '@/components/forms/TransactionForm';
+import TransactionImport from '@/components/TransactionImport';
+import TransactionExport from '@/components/TransactionExport';
 import { Transaction } from '@/types/financial';
+import { isCardPayment } from '@/utils/creditCard';
+import { getCategoryLabel } from '@/utils/categories';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 
+const TYPE_BADGES: Record<Transaction['type'], { label: string; variant: 'default' | 'destructive' | 'secondary' }> = {
+  income: { label: 'Receita', variant: 'default' },
+  expense: { label: 'Despesa', variant: 'destructive' },
+  transfer: { label: 'Transferência', variant: 'secondary' },
+};
+
 const Transactions = () => {
-  const { transactions, accounts, categories, getMonthlyIncome, getMonthlyExpenses } = useFinancial();
+  const { transactions, accounts, creditCards, categories, getMonthlyIncome, getMonthlyExpenses } = useFinancial();
   const [showForm, setShowForm] = useState(false);
+  const [editingTransaction, setEditingTransaction] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
-  const [filterType, setFilterType] = useState<'all' | 'income' | 'expense'>('all');
+  const [filterType, setFilterType] = useState<'all' | 'income' | 'expense' | 'transfer'>('all');
   const [filterAccount, setFilterAccount] = useState<string>('all');
 
   const monthlyIncome = getMonthlyIncome();
@@ -26,7 +37,7 @@ const Transactions = () => {
   const filteredTransactions = transactions.filter(transaction => {
     const matchesSearch = transaction.description.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesType = filterType === 'all' || transaction.type === filterType;
-    const matchesAccount = filterAccount === 'all' || transaction.account === filterAccount;
+    const matchesAccount = filterAccount === 'all' || transaction.account === filterAccount || transaction.toAccount === filterAccount;
     return matchesSearch && matchesType && matchesAccount;
   });
 
@@ -34,24 +45,49 @@ const Transactions = () => {
     .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
     .slice(0, 10);
 
+  const handleEdit = (transactionId: string) => {
+    setEditingTransaction(transactionId);
+    setShowForm(true);
+  };
+
   const getAccountName = (accountId: string) => {
     const account = accounts.find(acc => acc.id === accountId);
     return account ? account.name : 'Conta não encontrada';
   };
 
-  const getCategoryName = (categoryId: string) => {
-    const category = categories.find(cat => cat.id === categoryId);
-    return category ? category.name : 'Categoria não encontrada';
+  const getCardName = (cardId: string) => {
+    const card = creditCards.find(c => c.id === cardId);
+    return card ? card.name : 'Cartão não encontrado';
   };
 
+  const getSourceName = (transaction: Transaction) => {
+    if (isCardPayment(transaction)) {
+      return `${getAccountName(transaction.account)} → ${getCardName(transaction.creditCard)}`;
+    }
+    if (transaction.type === 'transfer') {
+      return `${getAccountName(transaction.account)} → ${getAccountName(transaction.toAccount)}`;
+    }
+    return transaction.creditCard ? getCardName(transaction.creditCard) : getAccountName(transaction.account);
+  };
+
+  const getCategoryName = (categoryId: string) => getCategoryLabel(categories, categoryId);
+
   return (
     <div className="p-6 space-y-6">
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold text-foreground">Transações</h1>
-        <Button onClick={() => setShowForm(true)} className="flex items-center gap-2">
-          <Plus className="h-4 w-4" />
-          Nova Transação
-        </Button>
+        <div className="flex gap-2">
+          <TransactionImport />
+          <TransactionExport
+            transactions={transactions}
+            categories={categories.map(category => category.id)}
+            accounts={accounts.map(account => account.id)}
+          />
+          <Button onClick={() => setShowForm(true)} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            Nova Transação
+          </Button>
+        </div>
       </div>
 
       {/* Resumo Financeiro */}
@@ -119,6 +155,7 @@ const Transactions = () => {
                 <SelectItem value="all">Todos os tipos</SelectItem>
                 <SelectItem value="income">Receitas</SelectItem>
                 <SelectItem value="expense">Despesas</SelectItem>
+                <SelectItem value="transfer">Transferências</SelectItem>
               </SelectContent>
             </Select>
             <Select value={filterAccount} onValueChange={setFilterAccount}>
@@ -159,6 +196,7 @@ const Transactions = () => {
                     <TableHead>Conta</TableHead>
                     <TableHead>Tipo</TableHead>
                     <TableHead className="text-right">Valor</TableHead>
+                    <TableHead className="w-12" />
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -167,18 +205,49 @@ const Transactions = () => {
                       <TableCell>
                         {format(new Date(transaction.date), 'dd/MM/yyyy', { locale: ptBR })}
                       </TableCell>
-                      <TableCell className="font-medium">{transaction.description}</TableCell>
-                      <TableCell>{getCategoryName(transaction.category)}</TableCell>
-                      <TableCell>{getAccountName(transaction.account)}</TableCell>
+                      <TableCell className="font-medium">
+                        {transaction.description}
+                        {(transaction.installments || 1) > 1 && (
+                          <Badge variant="outline" className="ml-2">{transaction.installments}x</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {transaction.type === 'transfer' ? '-' : transaction.splits?.length ? (
+                          <div className="space-y-0.5">
+                            {transaction.splits.map((split, index) => (
+                              <div key={index} className="text-sm">
+                                {getCategoryName(split.category)}
+                                <span className="text-muted-foreground"> · R$ {split.amount.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}</span>
+                              </div>
+                            ))}
+                          </div>
+                        ) : getCategoryName(transaction.category)}
+                      </TableCell>
                       <TableCell>
-                        <Badge variant={transaction.type === 'income' ? 'default' : 'destructive'}>
-                          {transaction.type === 'income' ? 'Receita' : 'Despesa'}
+                        {getSourceName(transaction)}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={TYPE_BADGES[transaction.type].variant}>
+                          {TYPE_BADGES[transaction.type].label}
                         </Badge>
                       </TableCell>
                       <TableCell className={`text-right font-medium ${
-                        transaction.type === 'income' ? 'text-success' : 'text-destructive'
+                        transaction.type === 'income' ? 'text-success' :
+                        transaction.type === 'expense' ? 'text-destructive' : 'text-muted-foreground'
                       }`}>
-                        {transaction.type === 'income' ? '+' : '-'}R$ {Math.abs(transaction.amount).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                        {transaction.type === 'income' ? '+' : transaction.type === 'expense' ? '-' : ''}R$ {Math.abs(transaction.amount).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleEdit(transaction.id)}
+                          className="h-8 w-8 p-0"
+                          disabled={isCardPayment(transaction)}
+                          title={isCardPayment(transaction) ? 'Pagamentos de fatura são gerenciados em Cartões' : undefined}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
                       </TableCell>
                     </TableRow>
                   ))}
@@ -193,7 +262,13 @@ const Transactions = () => {
       {showForm && (
         <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
           <div className="bg-background rounded-lg shadow-lg max-w-md w-full max-h-[90vh] overflow-y-auto">
-            <TransactionForm onClose={() => setShowForm(false)} />
+            <TransactionForm
+              transactionId={editingTransaction}
+              onClose={() => {
+                setShowForm(false);
+                setEditingTransaction(null);
+              }}
+            />
           </div>
         </div>
       )}
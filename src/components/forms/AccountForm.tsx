@@ -24,7 +24,7 @@ export const AccountForm: React.FC<AccountFormProps> = ({ accountId, onClose })
     name: '',
     bank: '',
     type: 'checking' as 'checking' | 'savings' | 'investment',
-    balance: 0,
+    openingBalance: 0,
     color: ACCOUNT_COLORS[0],
   });
 
@@ -37,7 +37,7 @@ export const AccountForm: React.FC<AccountFormProps> = ({ accountId, onClose })
         name: currentAccount.name,
         bank: currentAccount.bank,
         type: currentAccount.type,
-        balance: currentAccount.balance,
+        openingBalance: currentAccount.openingBalance,
         color: currentAccount.color,
       });
     }
@@ -110,13 +110,13 @@ export const AccountForm: React.FC<AccountFormProps> = ({ accountId, onClose })
             </div>
 
             <div>
-              <Label htmlFor="balance">Saldo Inicial</Label>
+              <Label htmlFor="openingBalance">Saldo Inicial</Label>
               <Input
-                id="balance"
+                id="openingBalance"
                 type="number"
                 step="0.01"
-                value={formData.balance}
-                onChange={(e) => setFormData({ ...formData, balance: parseFloat(e.target.value) || 0 })}
+                value={formData.openingBalance}
+                onChange={(e) => setFormData({ ...formData, openingBalance: parseFloat(e.target.value) || 0 })}
                 placeholder="0,00"
               />
             </div>
@@ -2,11 +2,13 @@ import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useFinancial } from '@/contexts/FinancialContext';
 import { X } from 'lucide-react';
 import { BudgetSchema } from '@/schemas/financial';
+import { buildCategoryTree } from '@/utils/categories';
 import { useToast } from '@/hooks/use-toast';
 
 interface BudgetFormProps {
@@ -28,6 +30,7 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({ budgetId, onClose }) =>
     period: 'monthly' as 'monthly' | 'weekly' | 'yearly',
     color: BUDGET_COLORS[0],
     alerts: true,
+    rollover: false,
   });
 
   const isEditing = !!budgetId;
@@ -41,6 +44,7 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({ budgetId, onClose }) =>
         period: currentBudget.period,
         color: currentBudget.color,
         alerts: currentBudget.alerts,
+        rollover: currentBudget.rollover || false,
       });
     }
   }, [isEditing, currentBudget]);
@@ -54,7 +58,6 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({ budgetId, onClose }) =>
       const budgetData = {
         ...validatedData,
         period: validatedData.period || 'monthly' as 'monthly' | 'weekly' | 'yearly',
-        spent: 0, // Will be calculated dynamically
       };
       
       if (isEditing && budgetId) {
@@ -81,7 +84,10 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({ budgetId, onClose }) =>
     }
   };
 
-  const expenseCategories = categories.filter(cat => cat.type === 'expense');
+  const expenseCategories = buildCategoryTree(
+    categories.filter(cat => !cat.archived || cat.id === currentBudget?.category),
+    { type: 'expense' }
+  );
 
   return (
     <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
@@ -103,10 +109,17 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({ budgetId, onClose }) =>
                   <SelectValue placeholder="Selecione uma categoria" />
                 </SelectTrigger>
                 <SelectContent>
-                  {expenseCategories.map((category) => (
-                    <SelectItem key={category.id} value={category.name}>
-                      {category.icon} {category.name}
-                    </SelectItem>
+                  {expenseCategories.map(({ category, children }) => (
+                    <React.Fragment key={category.id}>
+                      <SelectItem value={category.id}>
+                        {category.icon} {category.name}
+                      </SelectItem>
+                      {children.map((child) => (
+                        <SelectItem key={child.id} value={child.id} className="pl-10">
+                          {child.icon} {child.name}
+                        </SelectItem>
+                      ))}
+                    </React.Fragment>
                   ))}
                 </SelectContent>
               </Select>
@@ -139,6 +152,20 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({ budgetId, onClose }) =>
               </Select>
             </div>
 
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="rollover">Acumular saldo entre períodos</Label>
+                <p className="text-xs text-muted-foreground">
+                  O que sobrar (ou exceder) passa para o próximo período
+                </p>
+              </div>
+              <Switch
+                id="rollover"
+                checked={formData.rollover}
+                onCheckedChange={(checked) => setFormData({ ...formData, rollover: checked })}
+              />
+            </div>
+
             <div>
               <Label>Cor</Label>
               <div className="grid grid-cols-5 gap-2 mt-2">
@@ -0,0 +1,184 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useFinancial } from '@/contexts/FinancialContext';
+import { CATEGORY_COLORS, CATEGORY_ICONS } from '@/utils/categories';
+import { X } from 'lucide-react';
+
+interface CategoryFormProps {
+  categoryId?: string | null;
+  parentId?: string | null; // Pre-selects the parent when adding a subcategory
+  onClose: () => void;
+}
+
+const NO_PARENT = 'none';
+
+export const CategoryForm: React.FC<CategoryFormProps> = ({ categoryId, parentId, onClose }) => {
+  const { categories, addCategory, updateCategory } = useFinancial();
+  const presetParent = categories.find(category => category.id === parentId);
+  const [formData, setFormData] = useState({
+    name: '',
+    type: (presetParent?.type || 'expense') as 'income' | 'expense',
+    icon: CATEGORY_ICONS[0],
+    color: presetParent?.color || CATEGORY_COLORS[0],
+    parentId: presetParent?.id || NO_PARENT,
+  });
+
+  const isEditing = !!categoryId;
+  const currentCategory = categories.find(category => category.id === categoryId);
+  const hasSubcategories = categories.some(category => category.parentId === categoryId);
+
+  useEffect(() => {
+    if (isEditing && currentCategory) {
+      setFormData({
+        name: currentCategory.name,
+        type: currentCategory.type,
+        icon: currentCategory.icon,
+        color: currentCategory.color,
+        parentId: currentCategory.parentId || NO_PARENT,
+      });
+    }
+  }, [isEditing, currentCategory]);
+
+  // Only top-level categories of the same type can hold subcategories
+  const parentOptions = categories.filter(category =>
+    !category.parentId &&
+    !category.archived &&
+    category.type === formData.type &&
+    category.id !== categoryId
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const categoryData = {
+      name: formData.name,
+      type: formData.type,
+      icon: formData.icon,
+      color: formData.color,
+      parentId: formData.parentId === NO_PARENT ? undefined : formData.parentId,
+    };
+
+    const saved = isEditing && categoryId
+      ? updateCategory(categoryId, categoryData)
+      : addCategory(categoryData);
+
+    if (saved) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>
+            {isEditing ? 'Editar Categoria' : 'Nova Categoria'}
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="name">Nome</Label>
+              <Input
+                id="name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Ex: Mercado, Academia..."
+                required
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="type">Tipo</Label>
+              <Select
+                value={formData.type}
+                onValueChange={(value: 'income' | 'expense') =>
+                  setFormData({ ...formData, type: value, parentId: NO_PARENT })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="expense">Despesa</SelectItem>
+                  <SelectItem value="income">Receita</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {!hasSubcategories && (
+              <div>
+                <Label htmlFor="parent">Categoria Pai</Label>
+                <Select
+                  value={formData.parentId}
+                  onValueChange={(value) => setFormData({ ...formData, parentId: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PARENT}>Nenhuma (categoria principal)</SelectItem>
+                    {parentOptions.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.icon} {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div>
+              <Label>Ícone</Label>
+              <div className="grid grid-cols-6 gap-2 mt-2">
+                {CATEGORY_ICONS.map((icon) => (
+                  <button
+                    key={icon}
+                    type="button"
+                    className={`h-9 w-9 rounded-md border-2 text-lg ${
+                      formData.icon === icon ? 'border-foreground bg-muted' : 'border-border'
+                    }`}
+                    onClick={() => setFormData({ ...formData, icon })}
+                  >
+                    {icon}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <Label>Cor</Label>
+              <div className="grid grid-cols-5 gap-2 mt-2">
+                {CATEGORY_COLORS.map((color) => (
+                  <button
+                    key={color}
+                    type="button"
+                    className={`h-8 w-8 rounded-full border-2 ${
+                      formData.color === color ? 'border-foreground' : 'border-border'
+                    }`}
+                    style={{ backgroundColor: color }}
+                    onClick={() => setFormData({ ...formData, color })}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="flex gap-2 pt-4">
+              <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+                Cancelar
+              </Button>
+              <Button type="submit" className="flex-1">
+                {isEditing ? 'Salvar' : 'Criar Categoria'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
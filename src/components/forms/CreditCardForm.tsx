@@ -16,7 +16,7 @@ const creditCardSchema = z.object({
   name: z.string().min(1, 'Nome é obrigatório'),
   bank: z.string().min(1, 'Banco é obrigatório'),
   limit: z.number().min(1, 'Limite deve ser maior que zero'),
-  currentBalance: z.number().min(0, 'Saldo atual não pode ser negativo'),
+  openingBalance: z.number().min(0, 'Saldo anterior não pode ser negativo'),
   dueDate: z.number().min(1).max(31, 'Dia de vencimento deve estar entre 1 e 31'),
   closingDate: z.number().min(1).max(31, 'Dia de fechamento deve estar entre 1 e 31'),
   color: z.string().min(1, 'Cor é obrigatória'),
@@ -48,7 +48,7 @@ const CreditCardForm: React.FC<CreditCardFormProps> = ({ onClose }) => {
       name: '',
       bank: '',
       limit: 0,
-      currentBalance: 0,
+      openingBalance: 0,
       dueDate: 5,
       closingDate: 25,
       color: '#3B82F6',
@@ -61,7 +61,7 @@ const CreditCardForm: React.FC<CreditCardFormProps> = ({ onClose }) => {
         name: data.name,
         bank: data.bank,
         limit: data.limit,
-        currentBalance: data.currentBalance,
+        openingBalance: data.openingBalance,
         dueDate: data.dueDate,
         closingDate: data.closingDate,
         color: data.color,
@@ -149,10 +149,10 @@ const CreditCardForm: React.FC<CreditCardFormProps> = ({ onClose }) => {
 
               <FormField
                 control={form.control}
-                name="currentBalance"
+                name="openingBalance"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Fatura Atual</FormLabel>
+                    <FormLabel>Saldo Anterior</FormLabel>
                     <FormControl>
                       <Input
                         type="number"
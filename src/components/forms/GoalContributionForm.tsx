@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useFinancial } from '@/contexts/FinancialContext';
+import { formatCurrency } from '@/lib/utils';
+import { GoalContribution } from '@/types/goals';
+import { X } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface GoalContributionFormProps {
+  goalId: string;
+  type: GoalContribution['type'];
+  onClose: () => void;
+}
+
+export const GoalContributionForm: React.FC<GoalContributionFormProps> = ({ goalId, type, onClose }) => {
+  const { goals, accounts, addGoalContribution } = useFinancial();
+  const goal = goals.find(g => g.id === goalId);
+  const isWithdrawal = type === 'withdrawal';
+
+  // The goal's account receives contributions and funds withdrawals
+  const goalAccount = goal?.accountId && accounts.some(a => a.id === goal.accountId) ? goal.accountId : '';
+  const otherAccount = accounts.find(a => a.id !== goalAccount)?.id || '';
+
+  const [formData, setFormData] = useState({
+    amount: 0,
+    date: format(new Date(), 'yyyy-MM-dd'),
+    note: '',
+    linkTransfer: !!goalAccount,
+    fromAccount: isWithdrawal ? goalAccount : otherAccount,
+    toAccount: isWithdrawal ? otherAccount : goalAccount,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const saved = addGoalContribution(
+      goalId,
+      {
+        type,
+        amount: formData.amount,
+        date: new Date(`${formData.date}T12:00:00`),
+        note: formData.note || undefined,
+      },
+      formData.linkTransfer
+        ? { fromAccount: formData.fromAccount, toAccount: formData.toAccount }
+        : undefined
+    );
+
+    if (saved) onClose();
+  };
+
+  const renderAccountSelect = (field: 'fromAccount' | 'toAccount', label: string) => (
+    <div>
+      <Label>{label}</Label>
+      <Select
+        value={formData[field]}
+        onValueChange={(value) => setFormData({ ...formData, [field]: value })}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Selecione a conta" />
+        </SelectTrigger>
+        <SelectContent>
+          {accounts.map((account) => (
+            <SelectItem key={account.id} value={account.id}>
+              {account.name} - {account.bank}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>{isWithdrawal ? 'Resgatar da Meta' : 'Aportar na Meta'}</CardTitle>
+            {goal && (
+              <p className="text-sm text-muted-foreground">
+                {goal.title} · {formatCurrency(goal.currentAmount)} de {formatCurrency(goal.targetAmount)}
+              </p>
+            )}
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="amount">Valor</Label>
+                <Input
+                  id="amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: parseFloat(e.target.value) || 0 })}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="date">Data</Label>
+                <Input
+                  id="date"
+                  type="date"
+                  value={formData.date}
+                  max={format(new Date(), 'yyyy-MM-dd')}
+                  onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="note">Observação (opcional)</Label>
+              <Input
+                id="note"
+                value={formData.note}
+                onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+                placeholder={isWithdrawal ? 'Ex: Entrada do carro' : 'Ex: 13º salário'}
+              />
+            </div>
+
+            {accounts.length > 1 && (
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="link-transfer">Registrar transferência entre contas</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Movimenta o saldo das contas junto com a meta
+                  </p>
+                </div>
+                <Switch
+                  id="link-transfer"
+                  checked={formData.linkTransfer}
+                  onCheckedChange={(checked) => setFormData({ ...formData, linkTransfer: checked })}
+                />
+              </div>
+            )}
+
+            {formData.linkTransfer && (
+              <div className="grid grid-cols-2 gap-4">
+                {renderAccountSelect('fromAccount', 'Conta de Origem')}
+                {renderAccountSelect('toAccount', 'Conta de Destino')}
+              </div>
+            )}
+
+            <div className="flex gap-2 pt-4">
+              <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+                Cancelar
+              </Button>
+              <Button type="submit" className="flex-1">
+                {isWithdrawal ? 'Resgatar' : 'Aportar'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -20,13 +20,15 @@ interface GoalFormProps {
   onClose: () => void;
 }
 
+const NO_ACCOUNT = 'none';
+
 const GOAL_COLORS = [
   '#10B981', '#06B6D4', '#8B5CF6', '#F59E0B', '#EF4444',
   '#84CC16', '#EC4899', '#14B8A6', '#F97316', '#6366F1'
 ];
 
 export const GoalForm: React.FC<GoalFormProps> = ({ goalId, onClose }) => {
-  const { goals = [], addGoal, updateGoal } = useFinancial();
+  const { goals = [], accounts, addGoal, updateGoal } = useFinancial();
   const { toast } = useToast();
   const [formData, setFormData] = useState({
     title: '',
@@ -36,6 +38,7 @@ export const GoalForm: React.FC<GoalFormProps> = ({ goalId, onClose }) => {
     deadline: new Date(),
     category: 'savings' as 'savings' | 'investment' | 'purchase' | 'debt' | 'emergency',
     color: GOAL_COLORS[0],
+    accountId: NO_ACCOUNT,
   });
 
   const isEditing = !!goalId;
@@ -51,6 +54,7 @@ export const GoalForm: React.FC<GoalFormProps> = ({ goalId, onClose }) => {
         deadline: new Date(currentGoal.deadline),
         category: currentGoal.category,
         color: currentGoal.color,
+        accountId: currentGoal.accountId || NO_ACCOUNT,
       });
     }
   }, [isEditing, currentGoal]);
@@ -64,8 +68,8 @@ export const GoalForm: React.FC<GoalFormProps> = ({ goalId, onClose }) => {
       const goalData = {
         ...validatedData,
         category: validatedData.category || 'savings' as 'savings' | 'investment' | 'purchase' | 'debt' | 'emergency',
+        accountId: formData.accountId === NO_ACCOUNT ? undefined : formData.accountId,
         createdAt: isEditing ? currentGoal!.createdAt : new Date(),
-        completed: formData.currentAmount >= formData.targetAmount,
       };
       
       if (isEditing && goalId) {
@@ -144,17 +148,20 @@ export const GoalForm: React.FC<GoalFormProps> = ({ goalId, onClose }) => {
             </div>
 
             <div className="grid grid-cols-2 gap-4">
-              <div>
-                <Label htmlFor="currentAmount">Valor Atual</Label>
-                <Input
-                  id="currentAmount"
-                  type="number"
-                  step="0.01"
-                  value={formData.currentAmount}
-                  onChange={(e) => setFormData({ ...formData, currentAmount: parseFloat(e.target.value) || 0 })}
-                  placeholder="0,00"
-                />
-              </div>
+              {/* Once created, progress only changes through contributions and withdrawals */}
+              {!isEditing && (
+                <div>
+                  <Label htmlFor="currentAmount">Valor Inicial</Label>
+                  <Input
+                    id="currentAmount"
+                    type="number"
+                    step="0.01"
+                    value={formData.currentAmount}
+                    onChange={(e) => setFormData({ ...formData, currentAmount: parseFloat(e.target.value) || 0 })}
+                    placeholder="0,00"
+                  />
+                </div>
+              )}
               <div>
                 <Label htmlFor="targetAmount">Valor Meta</Label>
                 <Input
@@ -169,6 +176,31 @@ export const GoalForm: React.FC<GoalFormProps> = ({ goalId, onClose }) => {
               </div>
             </div>
 
+            <div>
+              <Label htmlFor="account">Conta da Meta (opcional)</Label>
+              <Select
+                value={formData.accountId}
+                onValueChange={(value) => setFormData({ ...formData, accountId: value })}
+              >
+                <SelectTrigger id="account">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ACCOUNT}>Nenhuma</SelectItem>
+                  {accounts
+                    .filter(account => account.type !== 'checking' || account.id === formData.accountId)
+                    .map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name} - {account.bank}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Poupança ou investimento onde o dinheiro da meta fica guardado
+              </p>
+            </div>
+
             <div>
               <Label>Prazo</Label>
               <Popover>
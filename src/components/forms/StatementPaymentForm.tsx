@@ -0,0 +1,122 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useFinancial } from '@/contexts/FinancialContext';
+import { getOpeningBalanceRemaining } from '@/utils/creditCard';
+import { X } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface StatementPaymentFormProps {
+  cardId: string;
+  statementKey: string | null; // null pays the balance carried over from before the card was registered
+  onClose: () => void;
+}
+
+const StatementPaymentForm: React.FC<StatementPaymentFormProps> = ({ cardId, statementKey, onClose }) => {
+  const { accounts, creditCards, transactions, getCardStatements, payCardStatement } = useFinancial();
+  const card = creditCards.find(c => c.id === cardId);
+
+  const remaining = useMemo(() => {
+    if (!card) return 0;
+    if (!statementKey) return getOpeningBalanceRemaining(card, transactions);
+    return getCardStatements(cardId).find(s => s.key === statementKey)?.remaining || 0;
+  }, [card, cardId, statementKey, transactions, getCardStatements]);
+
+  const [formData, setFormData] = useState({
+    account: accounts[0]?.id || '',
+    amount: Number(remaining.toFixed(2)),
+    date: format(new Date(), 'yyyy-MM-dd'),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    payCardStatement(cardId, statementKey, formData.account, formData.amount, new Date(`${formData.date}T12:00:00`));
+    onClose();
+  };
+
+  const title = statementKey
+    ? `Pagar Fatura ${statementKey.split('-').reverse().join('/')}`
+    : 'Pagar Saldo Anterior';
+
+  return (
+    <Card className="border-0 shadow-none">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>{title}</CardTitle>
+          {card && <p className="text-sm text-muted-foreground">{card.name}</p>}
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Valor em aberto</span>
+            <span className="font-semibold">
+              R$ {remaining.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+            </span>
+          </div>
+
+          <div>
+            <Label>Conta de Pagamento</Label>
+            <Select
+              value={formData.account}
+              onValueChange={(value) => setFormData({ ...formData, account: value })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione a conta" />
+              </SelectTrigger>
+              <SelectContent>
+                {accounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name} - {account.bank}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="amount">Valor</Label>
+              <Input
+                id="amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: parseFloat(e.target.value) || 0 })}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="date">Data</Label>
+              <Input
+                id="date"
+                type="date"
+                value={formData.date}
+                onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              Cancelar
+            </Button>
+            <Button type="submit" className="flex-1">
+              Pagar
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StatementPaymentForm;
@@ -1,35 +1,84 @@
-import React from 'react';
-import { useForm } from 'react-hook-form';
+import React, { useEffect } from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { useFinancial } from '@/contexts/FinancialContext';
+import { RecurrenceRule } from '@/types/financial';
+import { RECURRENCE_FREQUENCY_LABELS } from '@/utils/recurrence';
+import { buildCategoryTree } from '@/utils/categories';
+import { getSplitsTotal, isSplitBalanced } from '@/utils/splits';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
-import { X } from 'lucide-react';
+import { Plus, Trash2, X } from 'lucide-react';
 import { toast } from 'sonner';
+import { format } from 'date-fns';
 
 const transactionSchema = z.object({
   description: z.string().min(1, 'Descrição é obrigatória'),
   amount: z.number().min(0.01, 'Valor deve ser maior que zero'),
-  type: z.enum(['income', 'expense']),
-  category: z.string().min(1, 'Categoria é obrigatória'),
-  account: z.string().min(1, 'Conta é obrigatória'),
+  type: z.enum(['income', 'expense', 'transfer']),
+  category: z.string(),
+  paymentMethod: z.enum(['account', 'creditCard']),
+  account: z.string(),
+  creditCard: z.string().optional(),
+  installments: z.number().int().min(1, 'Mínimo de 1 parcela').max(48, 'Máximo de 48 parcelas'),
+  toAccount: z.string().optional(),
   date: z.string().min(1, 'Data é obrigatória'),
   recurring: z.boolean().default(false),
-});
+  recurrenceFrequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
+  recurrenceInterval: z.number().int().min(1, 'Intervalo deve ser pelo menos 1'),
+  recurrenceEnd: z.enum(['never', 'date', 'count']),
+  recurrenceEndDate: z.string().optional(),
+  recurrenceCount: z.number().int().optional(),
+  split: z.boolean(),
+  splits: z.array(z.object({
+    category: z.string().min(1, 'Categoria é obrigatória'),
+    amount: z.number().min(0.01, 'Valor deve ser maior que zero'),
+    tags: z.string(),
+  })),
+}).refine(
+  (data) => data.type === 'transfer' || data.split || data.category.length > 0,
+  { message: 'Categoria é obrigatória', path: ['category'] }
+).refine(
+  (data) => data.type === 'transfer' || !data.split || data.splits.length >= 2,
+  { message: 'Divida em pelo menos duas categorias', path: ['splits'] }
+).refine(
+  (data) => data.type === 'transfer' || !data.split || isSplitBalanced(data.amount, data.splits),
+  { message: 'A soma das divisões deve ser igual ao valor total', path: ['splits'] }
+).refine(
+  (data) => (data.type !== 'transfer' && data.paymentMethod === 'creditCard') || data.account.length > 0,
+  { message: 'Conta é obrigatória', path: ['account'] }
+).refine(
+  (data) => data.type === 'transfer' || data.paymentMethod !== 'creditCard' || !!data.creditCard,
+  { message: 'Cartão é obrigatório', path: ['creditCard'] }
+).refine(
+  (data) => data.type !== 'transfer' || (!!data.toAccount && data.toAccount !== data.account),
+  { message: 'Selecione uma conta de destino diferente da origem', path: ['toAccount'] }
+).refine(
+  (data) => !data.recurring || data.recurrenceEnd !== 'date' || 
+    (!!data.recurrenceEndDate && data.recurrenceEndDate >= data.date),
+  { message: 'Data final deve ser posterior à data da transação', path: ['recurrenceEndDate'] }
+).refine(
+  (data) => !data.recurring || data.recurrenceEnd !== 'count' || (data.recurrenceCount || 0) >= 2,
+  { message: 'Informe pelo menos 2 ocorrências', path: ['recurrenceCount'] }
+);
 
 type TransactionFormData = z.infer<typeof transactionSchema>;
 
 interface TransactionFormProps {
+  transactionId?: string | null;
   onClose: () => void;
 }
 
-const TransactionForm: React.FC<TransactionFormProps> = ({ onClose }) => {
-  const { addTransaction, accounts, categories } = useFinancial();
+const TransactionForm: React.FC<TransactionFormProps> = ({ transactionId, onClose }) => {
+  const { transactions, addTransaction, updateTransaction, accounts, creditCards, categories } = useFinancial();
+
+  const isEditing = !!transactionId;
+  const currentTransaction = transactions.find(t => t.id === transactionId);
 
   const form = useForm<TransactionFormData>({
     resolver: zodResolver(transactionSchema),
@@ -38,40 +87,166 @@ const TransactionForm: React.FC<TransactionFormProps> = ({ onClose }) => {
       amount: 0,
       type: 'expense',
       category: '',
+      paymentMethod: 'account',
       account: '',
+      creditCard: '',
+      installments: 1,
+      toAccount: '',
       date: new Date().toISOString().split('T')[0],
       recurring: false,
+      recurrenceFrequency: 'monthly',
+      recurrenceInterval: 1,
+      recurrenceEnd: 'never',
+      recurrenceEndDate: '',
+      recurrenceCount: 12,
+      split: false,
+      splits: [],
     },
   });
 
+  const { fields: splitFields, append: appendSplit, remove: removeSplit, replace: replaceSplits } = useFieldArray({
+    control: form.control,
+    name: 'splits',
+  });
+
+  useEffect(() => {
+    if (isEditing && currentTransaction) {
+      form.reset({
+        description: currentTransaction.description,
+        amount: Math.abs(currentTransaction.amount),
+        type: currentTransaction.type,
+        category: currentTransaction.category,
+        paymentMethod: currentTransaction.creditCard && currentTransaction.type !== 'transfer'
+          ? 'creditCard'
+          : 'account',
+        account: currentTransaction.account,
+        creditCard: currentTransaction.creditCard || '',
+        installments: currentTransaction.installments || 1,
+        toAccount: currentTransaction.toAccount || '',
+        date: format(new Date(currentTransaction.date), 'yyyy-MM-dd'),
+        recurring: currentTransaction.recurring,
+        recurrenceFrequency: currentTransaction.recurrence?.frequency || 'monthly',
+        recurrenceInterval: currentTransaction.recurrence?.interval || 1,
+        recurrenceEnd: currentTransaction.recurrence?.endDate ? 'date' :
+          currentTransaction.recurrence?.count ? 'count' : 'never',
+        recurrenceEndDate: currentTransaction.recurrence?.endDate
+          ? format(new Date(currentTransaction.recurrence.endDate), 'yyyy-MM-dd')
+          : '',
+        recurrenceCount: currentTransaction.recurrence?.count || 12,
+        split: !!currentTransaction.splits?.length,
+        splits: (currentTransaction.splits || []).map(split => ({
+          category: split.category,
+          amount: split.amount,
+          tags: split.tags?.join(', ') || '',
+        })),
+      });
+    }
+  }, [isEditing, currentTransaction, form]);
+
   const selectedType = form.watch('type');
-  const filteredCategories = categories.filter(category => category.type === selectedType);
+  const isTransfer = selectedType === 'transfer';
+  const selectedAccount = form.watch('account');
+  // Card payments are recorded from the statement view, so here a card can only be charged
+  const isCardCharge = !isTransfer && form.watch('paymentMethod') === 'creditCard';
+  const canSplitInInstallments = isCardCharge && selectedType === 'expense';
+  const installments = form.watch('installments');
+  const isInstallmentPurchase = canSplitInInstallments && installments > 1;
+  const amount = form.watch('amount');
+  const isRecurring = form.watch('recurring');
+  const recurrenceEnd = form.watch('recurrenceEnd');
+  // Generated occurrences belong to a series and cannot start one of their own
+  const isOccurrence = !!currentTransaction?.recurrenceParentId;
+  const isSplit = !isTransfer && form.watch('split');
+  const splits = form.watch('splits');
+  const unallocated = amount - getSplitsTotal(splits);
+  const isFullyAllocated = isSplitBalanced(amount, splits);
+  // Archived categories are only offered when the transaction being edited still uses one
+  const usedCategories = [currentTransaction?.category, ...(currentTransaction?.splits || []).map(s => s.category)];
+  const categoryTree = buildCategoryTree(
+    categories.filter(category => !category.archived || usedCategories.includes(category.id)),
+    { type: selectedType === 'income' ? 'income' : 'expense' }
+  );
+
+  const renderCategoryOptions = () => categoryTree.map(({ category, children }) => (
+    <React.Fragment key={category.id}>
+      <SelectItem value={category.id}>
+        {category.icon} {category.name}
+      </SelectItem>
+      {children.map((child) => (
+        <SelectItem key={child.id} value={child.id} className="pl-10">
+          {child.icon} {child.name}
+        </SelectItem>
+      ))}
+    </React.Fragment>
+  ));
+
+  // Splitting starts from the chosen category holding the whole amount
+  const handleSplitToggle = (checked: boolean) => {
+    form.setValue('split', checked);
+    if (checked && splitFields.length === 0) {
+      replaceSplits([
+        { category: form.getValues('category'), amount, tags: '' },
+        { category: '', amount: 0, tags: '' },
+      ]);
+    }
+  };
+
+  const splitsError = form.formState.errors.splits;
 
   const onSubmit = (data: TransactionFormData) => {
     try {
+      const recurrence: RecurrenceRule | undefined = data.recurring ? {
+        ...currentTransaction?.recurrence,
+        frequency: data.recurrenceFrequency,
+        interval: data.recurrenceInterval,
+        endDate: data.recurrenceEnd === 'date' ? new Date(data.recurrenceEndDate) : undefined,
+        count: data.recurrenceEnd === 'count' ? data.recurrenceCount : undefined,
+      } : undefined;
+
+      const chargesCard = data.type !== 'transfer' && data.paymentMethod === 'creditCard';
+      const installmentCount = chargesCard && data.type === 'expense' && data.installments > 1
+        ? data.installments
+        : undefined;
+
+      const splits = data.type !== 'transfer' && data.split
+        ? data.splits.map(split => {
+            const tags = split.tags.split(',').map(tag => tag.trim()).filter(Boolean);
+            return { category: split.category, amount: split.amount, tags: tags.length > 0 ? tags : undefined };
+          })
+        : undefined;
+
       const transactionData = {
         description: data.description,
-        amount: data.type === 'expense' ? -Math.abs(data.amount) : Math.abs(data.amount),
+        amount: Math.abs(data.amount),
         type: data.type,
-        category: data.category,
-        account: data.account,
+        category: data.type === 'transfer' ? '' : splits ? splits[0].category : data.category,
+        splits,
+        account: chargesCard ? '' : data.account,
+        creditCard: chargesCard ? data.creditCard : undefined,
+        installments: installmentCount,
+        toAccount: data.type === 'transfer' ? data.toAccount : undefined,
         date: new Date(data.date),
-        recurring: data.recurring,
+        recurring: installmentCount ? false : data.recurring,
+        recurrence: installmentCount ? undefined : recurrence,
       };
 
-      addTransaction(transactionData);
-      toast.success('Transação adicionada com sucesso!');
+      if (isEditing && transactionId) {
+        if (!updateTransaction(transactionId, transactionData)) return;
+      } else {
+        addTransaction(transactionData);
+        toast.success('Transação adicionada com sucesso!');
+      }
       onClose();
     } catch (error) {
-      toast.error('Erro ao adicionar transação');
-      console.error('Erro ao adicionar transação:', error);
+      toast.error(isEditing ? 'Erro ao atualizar transação' : 'Erro ao adicionar transação');
+      console.error('Erro ao salvar transação:', error);
     }
   };
 
   return (
     <Card className="border-0 shadow-none">
       <CardHeader className="flex flex-row items-center justify-between">
-        <CardTitle>Nova Transação</CardTitle>
+        <CardTitle>{isEditing ? 'Editar Transação' : 'Nova Transação'}</CardTitle>
         <Button variant="ghost" size="sm" onClick={onClose}>
           <X className="h-4 w-4" />
         </Button>
@@ -136,7 +311,7 @@ const TransactionForm: React.FC<TransactionFormProps> = ({ onClose }) => {
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Tipo</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <Select onValueChange={field.onChange} value={field.value}>
                     <FormControl>
                       <SelectTrigger>
                         <SelectValue placeholder="Selecione o tipo" />
@@ -145,6 +320,7 @@ const TransactionForm: React.FC<TransactionFormProps> = ({ onClose }) => {
                     <SelectContent>
                       <SelectItem value="income">Receita</SelectItem>
                       <SelectItem value="expense">Despesa</SelectItem>
+                      <SelectItem value="transfer">Transferência</SelectItem>
                     </SelectContent>
                   </Select>
                   <FormMessage />
@@ -152,83 +328,416 @@ const TransactionForm: React.FC<TransactionFormProps> = ({ onClose }) => {
               )}
             />
 
-            <FormField
-              control={form.control}
-              name="category"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Categoria</FormLabel>
-                  <Select onValueChange={field.onChange} value={field.value}>
+            {!isTransfer && !isSplit && (
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Categoria</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione a categoria" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {renderCategoryOptions()}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {!isTransfer && (
+              <FormField
+                control={form.control}
+                name="split"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                    <div className="space-y-0.5">
+                      <FormLabel>Dividir em Categorias</FormLabel>
+                      <div className="text-sm text-muted-foreground">
+                        Ex: uma compra de mercado com alimentação, limpeza e farmácia
+                      </div>
+                    </div>
                     <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Selecione a categoria" />
-                      </SelectTrigger>
+                      <Switch checked={field.value} onCheckedChange={handleSplitToggle} />
                     </FormControl>
-                    <SelectContent>
-                      {filteredCategories.map((category) => (
-                        <SelectItem key={category.id} value={category.id}>
-                          {category.icon} {category.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+                  </FormItem>
+                )}
+              />
+            )}
 
-            <FormField
-              control={form.control}
-              name="account"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Conta</FormLabel>
-                  <Select onValueChange={field.onChange} value={field.value}>
+            {isSplit && (
+              <div className="space-y-3 rounded-lg border p-3">
+                {splitFields.map((splitField, index) => (
+                  <div key={splitField.id} className="space-y-2">
+                    <div className="grid grid-cols-[1fr_7rem_auto] gap-2 items-start">
+                      <FormField
+                        control={form.control}
+                        name={`splits.${index}.category`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Categoria" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {renderCategoryOptions()}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`splits.${index}.amount`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                placeholder="0,00"
+                                {...field}
+                                onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeSplit(index)}
+                        disabled={splitFields.length <= 2}
+                        title="Remover divisão"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <FormField
+                      control={form.control}
+                      name={`splits.${index}.tags`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input placeholder="Tags separadas por vírgula (opcional)" {...field} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                ))}
+
+                <div className="flex items-center justify-between">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => appendSplit({ category: '', amount: Math.max(Number(unallocated.toFixed(2)), 0), tags: '' })}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Adicionar divisão
+                  </Button>
+                  <span className={`text-sm ${isFullyAllocated ? 'text-muted-foreground' : 'text-destructive'}`}>
+                    {isFullyAllocated
+                      ? 'Valor totalmente dividido'
+                      : `${unallocated > 0 ? 'Faltam' : 'Excedem'} R$ ${Math.abs(unallocated).toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}
+                  </span>
+                </div>
+                {(splitsError?.message || splitsError?.root?.message) && (
+                  <p className="text-sm font-medium text-destructive">
+                    {splitsError.message || splitsError.root?.message}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {!isTransfer && creditCards.length > 0 && (
+              <FormField
+                control={form.control}
+                name="paymentMethod"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Forma de Pagamento</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="account">Conta</SelectItem>
+                        <SelectItem value="creditCard">Cartão de Crédito</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {isCardCharge ? (
+              <FormField
+                control={form.control}
+                name="creditCard"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cartão</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione o cartão" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {creditCards.map((card) => (
+                          <SelectItem key={card.id} value={card.id}>
+                            {card.name} - {card.bank}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ) : (
+              <FormField
+                control={form.control}
+                name="account"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{isTransfer ? 'Conta de Origem' : 'Conta'}</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione a conta" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {accounts.map((account) => (
+                          <SelectItem key={account.id} value={account.id}>
+                            {account.name} - {account.bank}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {isTransfer && (
+              <FormField
+                control={form.control}
+                name="toAccount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Conta de Destino</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione a conta de destino" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {accounts
+                          .filter((account) => account.id !== selectedAccount)
+                          .map((account) => (
+                            <SelectItem key={account.id} value={account.id}>
+                              {account.name} - {account.bank}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {canSplitInInstallments && (
+              <FormField
+                control={form.control}
+                name="installments"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Parcelas</FormLabel>
                     <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Selecione a conta" />
-                      </SelectTrigger>
+                      <Input
+                        type="number"
+                        min="1"
+                        max="48"
+                        {...field}
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                      />
                     </FormControl>
-                    <SelectContent>
-                      {accounts.map((account) => (
-                        <SelectItem key={account.id} value={account.id}>
-                          {account.name} - {account.bank}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+                    {isInstallmentPurchase && amount > 0 && (
+                      <p className="text-sm text-muted-foreground">
+                        {installments}x de R$ {(amount / installments).toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} nas próximas faturas
+                      </p>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
 
-            <FormField
-              control={form.control}
-              name="recurring"
-              render={({ field }) => (
-                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
-                  <div className="space-y-0.5">
-                    <FormLabel>Transação Recorrente</FormLabel>
-                    <div className="text-sm text-muted-foreground">
-                      Esta transação se repete mensalmente
+            {!isOccurrence && !isInstallmentPurchase && (
+              <FormField
+                control={form.control}
+                name="recurring"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                    <div className="space-y-0.5">
+                      <FormLabel>Transação Recorrente</FormLabel>
+                      <div className="text-sm text-muted-foreground">
+                        As próximas ocorrências são lançadas automaticamente
+                      </div>
                     </div>
-                  </div>
-                  <FormControl>
-                    <Switch
-                      checked={field.value}
-                      onCheckedChange={field.onChange}
-                    />
-                  </FormControl>
-                </FormItem>
-              )}
-            />
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {!isOccurrence && !isInstallmentPurchase && isRecurring && (
+              <div className="space-y-4 rounded-lg border p-3">
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="recurrenceFrequency"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Frequência</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {Object.entries(RECURRENCE_FREQUENCY_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="recurrenceInterval"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Repetir a cada</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="1"
+                            {...field}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="recurrenceEnd"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Término</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="never">Nunca</SelectItem>
+                          <SelectItem value="date">Em uma data</SelectItem>
+                          <SelectItem value="count">Após um número de ocorrências</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {recurrenceEnd === 'date' && (
+                  <FormField
+                    control={form.control}
+                    name="recurrenceEndDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Data Final</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {recurrenceEnd === 'count' && (
+                  <FormField
+                    control={form.control}
+                    name="recurrenceCount"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Número de Ocorrências</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="2"
+                            {...field}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                <p className="text-xs text-muted-foreground">
+                  Em meses mais curtos, a ocorrência cai no último dia do mês.
+                </p>
+              </div>
+            )}
 
             <div className="flex gap-3 pt-4">
               <Button type="button" variant="outline" onClick={onClose} className="flex-1">
                 Cancelar
               </Button>
               <Button type="submit" className="flex-1">
-                Adicionar Transação
+                {isEditing ? 'Salvar' : 'Adicionar Transação'}
               </Button>
             </div>
           </form>
@@ -1,7 +1,43 @@
-import React, { createContext, useContext, useCallback, useMemo } from 'react';
+import React, { createContext, useContext, useCallback, useMemo, useEffect, useRef, useState } from 'react';
 import { Account, Transaction, CreditCard, Category, DEFAULT_CATEGORIES } from '@/types/financial';
-import { FinancialGoal, Budget } from '@/types/goals';
-import { useLocalStorage, useLocalStorageWithDates } from '@/hooks/useLocalStorage';
+import { FinancialGoal, Budget, GoalContribution } from '@/types/goals';
+import { useStoredCollection } from '@/hooks/useStoredCollection';
+import { useCloudSync } from '@/hooks/useCloudSync';
+import { CategorySchema, GoalContributionSchema, TransactionSchema } from '@/schemas/financial';
+import {
+  StoredAccount,
+  BalanceDiscrepancy,
+  computeAccountBalances,
+  findBalanceDiscrepancies,
+  normalizeStoredAccount,
+} from '@/utils/ledger';
+import {
+  RecurringOccurrence,
+  buildOccurrenceTransaction,
+  getDueOccurrences,
+  getOccurrenceId,
+  getUpcomingOccurrences,
+} from '@/utils/recurrence';
+import {
+  StoredCreditCard,
+  CardStatement,
+  computeCardBalances,
+  getCardStatements as buildCardStatements,
+  normalizeStoredCreditCard,
+} from '@/utils/creditCard';
+import { findCategory } from '@/utils/categories';
+import { StoredGoal, buildOpeningContribution, computeGoalBalances } from '@/utils/goals';
+import { getCategoryAmount, getTransactionCategories, mapTransactionCategories } from '@/utils/splits';
+import { CURRENT_SCHEMA_VERSION, getSchemaVersion, migrateDataSet, runStoredMigrations } from '@/utils/migrations';
+import {
+  FinancialCollection,
+  FinancialDataSet,
+  FinancialStorage,
+  READ_ONLY_MESSAGE,
+  ReadOnlyStorage,
+  getFinancialStorage,
+} from '@/utils/storage';
+import { ExistingRecords, ImportMode, ImportReport, validateImport } from '@/utils/importValidation';
 import { toast } from 'sonner';
 
 interface FinancialContextType {
@@ -10,30 +46,50 @@ interface FinancialContextType {
   creditCards: CreditCard[];
   categories: Category[];
   goals: FinancialGoal[];
+  goalContributions: GoalContribution[];
   budgets: Budget[];
-  addAccount: (account: Omit<Account, 'id' | 'createdAt'>) => void;
-  addTransaction: (transaction: Omit<Transaction, 'id'>) => void;
-  addCreditCard: (card: Omit<CreditCard, 'id'>) => void;
+  addAccount: (account: Omit<Account, 'id' | 'createdAt' | 'balance' | 'storedBalance'>) => void;
+  addTransaction: (transaction: Omit<Transaction, 'id'>, options?: { silent?: boolean }) => void;
+  addCreditCard: (card: Omit<CreditCard, 'id' | 'currentBalance'>) => void;
   updateAccount: (id: string, account: Partial<Account>) => void;
   deleteAccount: (id: string) => void;
+  updateTransaction: (id: string, transaction: Partial<Omit<Transaction, 'id'>>, options?: { silent?: boolean }) => boolean;
   deleteTransaction: (id: string) => void;
-  addGoal: (goal: Omit<FinancialGoal, 'id'>) => void;
+  importTransactions: (
+    transactions: Omit<Transaction, 'id'>[],
+    merges?: { id: string; changes: Partial<Omit<Transaction, 'id'>> }[]
+  ) => boolean;
+  addGoal: (goal: Omit<FinancialGoal, 'id' | 'completed'>) => void;
   updateGoal: (id: string, goal: Partial<FinancialGoal>) => void;
   deleteGoal: (id: string) => void;
-  addBudget: (budget: Omit<Budget, 'id' | 'spent'>) => void;
+  addGoalContribution: (
+    goalId: string,
+    contribution: Omit<GoalContribution, 'id' | 'goalId' | 'transactionId'>,
+    transfer?: { fromAccount: string; toAccount: string }
+  ) => boolean;
+  deleteGoalContribution: (id: string) => void;
+  addBudget: (budget: Omit<Budget, 'id' | 'createdAt'>) => void;
   updateBudget: (id: string, budget: Partial<Budget>) => void;
   deleteBudget: (id: string) => void;
   updateCreditCard: (id: string, card: Partial<CreditCard>) => void;
   deleteCreditCard: (id: string) => void;
+  addCategory: (category: Omit<Category, 'id'>) => boolean;
+  updateCategory: (id: string, category: Partial<Omit<Category, 'id'>>) => boolean;
+  archiveCategory: (id: string, archived?: boolean) => void;
+  mergeCategories: (sourceId: string, targetId: string) => void;
+  getCardStatements: (cardId: string) => CardStatement[];
+  payCardStatement: (cardId: string, statementKey: string | null, accountId: string, amount: number, date?: Date) => void;
   getTotalBalance: () => number;
   getMonthlyIncome: () => number;
   getMonthlyExpenses: () => number;
   getCategoryExpenses: (categoryId: string, period?: 'month' | 'year') => number;
   getAccountTransactions: (accountId: string) => Transaction[];
-  updateTransactionAccount: (transactionId: string, oldAccount: string, newAccount: string, amount: number, type: 'income' | 'expense') => void;
+  getUpcomingRecurring: (days?: number) => RecurringOccurrence[];
+  getBalanceDiscrepancies: () => BalanceDiscrepancy[];
+  reconcileAccount: (id: string, strategy: 'ledger' | 'stored') => void;
   clearAllData: () => void;
   exportData: () => string;
-  importData: (data: string) => boolean;
+  importData: (data: string, options?: { mode?: ImportMode }) => ImportReport | null;
 }
 
 const FinancialContext = createContext<FinancialContextType | undefined>(undefined);
@@ -59,35 +115,85 @@ const safeJsonParse = <T,>(data: string, fallback: T): T => {
   }
 };
 
-export const FinancialProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  // Using improved localStorage hooks
-  const [accounts, setAccounts] = useLocalStorageWithDates<Account[]>(
-    'financial-accounts',
-    [],
-    ['createdAt']
+interface LoadedData {
+  storage: FinancialStorage;
+  data: FinancialDataSet;
+  quarantined: number;
+  readOnly: boolean;
+}
+
+const FinancialDataProvider: React.FC<LoadedData & { children: React.ReactNode }> = ({
+  storage,
+  data,
+  quarantined,
+  readOnly,
+  children,
+}) => {
+  // Stored data saved by older versions was brought up to date before loading
+  const [storedAccounts, setAccounts] = useStoredCollection<StoredAccount>(storage, 'accounts', data.accounts || []);
+  const [transactions, setTransactions] = useStoredCollection<Transaction>(
+    storage,
+    'transactions',
+    data.transactions || []
   );
-  
-  const [transactions, setTransactions] = useLocalStorageWithDates<Transaction[]>(
-    'financial-transactions',
-    [],
-    ['date']
+  const [storedCreditCards, setCreditCards] = useStoredCollection<StoredCreditCard>(
+    storage,
+    'creditCards',
+    data.creditCards || []
   );
-  
-  const [creditCards, setCreditCards] = useLocalStorage<CreditCard[]>('financial-credit-cards', []);
-  const [categories] = useLocalStorage<Category[]>('financial-categories', DEFAULT_CATEGORIES);
-  
-  const [goals, setGoals] = useLocalStorageWithDates<FinancialGoal[]>(
-    'financial-goals',
-    [],
-    ['deadline', 'createdAt']
+  const [categories, setCategories] = useStoredCollection<Category>(storage, 'categories', data.categories);
+  const [storedGoals, setGoals] = useStoredCollection<StoredGoal>(storage, 'goals', data.goals || []);
+  const [goalContributions, setGoalContributions] = useStoredCollection<GoalContribution>(
+    storage,
+    'goalContributions',
+    data.goalContributions || []
   );
-  
-  const [budgets, setBudgets] = useLocalStorage<Budget[]>('financial-budgets', []);
+  const [budgets, setBudgets] = useStoredCollection<Budget>(storage, 'budgets', data.budgets || []);
+
+  // Records that failed validation while loading were set aside in the quarantine
+  useEffect(() => {
+    if (quarantined > 0) {
+      toast.warning(`${quarantined} registro(s) inválido(s) foram isolados e não serão exibidos`);
+    }
+  }, [quarantined]);
+
+  useEffect(() => {
+    if (readOnly) toast.warning(READ_ONLY_MESSAGE, { duration: Infinity });
+  }, [readOnly]);
+
+  // Started here rather than at the app root, so it only runs on loaded and migrated data,
+  // and never over data this version cannot write
+  useCloudSync(!readOnly);
+
+  const creditCards = useMemo<CreditCard[]>(() => {
+    const balances = computeCardBalances(storedCreditCards, transactions);
+    return storedCreditCards.map(card => ({
+      ...card,
+      currentBalance: balances[card.id] ?? 0,
+    }));
+  }, [storedCreditCards, transactions]);
+
+  const goals = useMemo<FinancialGoal[]>(() => {
+    const balances = computeGoalBalances(goalContributions);
+    return storedGoals.map(goal => {
+      const currentAmount = balances[goal.id] ?? 0;
+      return { ...goal, currentAmount, completed: currentAmount >= goal.targetAmount };
+    });
+  }, [storedGoals, goalContributions]);
+
+  // Balances are always derived: opening balance plus the transaction ledger
+  const accounts = useMemo<Account[]>(() => {
+    const balances = computeAccountBalances(storedAccounts, transactions);
+    return storedAccounts.map(account => ({
+      ...account,
+      balance: balances[account.id] ?? 0,
+    }));
+  }, [storedAccounts, transactions]);
 
   // Optimized account operations
-  const addAccount = useCallback((accountData: Omit<Account, 'id' | 'createdAt'>) => {
+  const addAccount = useCallback((accountData: Omit<Account, 'id' | 'createdAt' | 'balance' | 'storedBalance'>) => {
     try {
-      const newAccount: Account = {
+      const newAccount: StoredAccount = {
         ...accountData,
         id: generateId(),
         createdAt: new Date(),
@@ -102,8 +208,10 @@ export const FinancialProvider: React.FC<{ children: React.ReactNode }> = ({ chi
 
   const updateAccount = useCallback((id: string, accountData: Partial<Account>) => {
     try {
+      // The balance is derived, so only the opening balance can be edited
+      const { balance, ...changes } = accountData;
       setAccounts(prev => prev.map(account => 
-        account.id === id ? { ...account, ...accountData } : account
+        account.id === id ? { ...account, ...changes } : account
       ));
       toast.success('Conta atualizada com sucesso!');
     } catch (error) {
@@ -115,7 +223,7 @@ export const FinancialProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   const deleteAccount = useCallback((id: string) => {
     try {
       // Check if account has transactions
-      const accountTransactions = transactions.filter(t => t.account === id);
+      const accountTransactions = transactions.filter(t => t.account === id || t.toAccount === id);
       if (accountTransactions.length > 0) {
         toast.error('Não é possível excluir conta com transações. Exclua as transações primeiro.');
         return;
@@ -129,73 +237,178 @@ export const FinancialProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     }
   }, [setAccounts, transactions]);
 
-  // Optimized transaction operations with account balance update
-  const updateAccountBalance = useCallback((accountName: string, amount: number, type: 'income' | 'expense', operation: 'add' | 'remove' = 'add') => {
-    setAccounts(prev => prev.map(account => {
-      if (account.name === accountName) {
-        let balanceChange = type === 'income' ? amount : -amount;
-        if (operation === 'remove') {
-          balanceChange = -balanceChange;
-        }
-        return { ...account, balance: account.balance + balanceChange };
+  const addTransaction = useCallback((transactionData: Omit<Transaction, 'id'>, options: { silent?: boolean } = {}) => {
+    try {
+      if (transactionData.type === 'transfer' && !transactionData.creditCard &&
+          (!transactionData.toAccount || transactionData.toAccount === transactionData.account)) {
+        toast.error('Selecione contas de origem e destino diferentes');
+        return;
       }
-      return account;
-    }));
-  }, [setAccounts]);
 
-  const addTransaction = useCallback((transactionData: Omit<Transaction, 'id'>) => {
-    try {
       const newTransaction: Transaction = {
         ...transactionData,
+        amount: Math.abs(transactionData.amount),
         id: generateId(),
       };
       
       setTransactions(prev => [...prev, newTransaction]);
-      updateAccountBalance(transactionData.account, transactionData.amount, transactionData.type);
+      if (options.silent) return;
       
-      toast.success('Transação adicionada com sucesso!');
+      toast.success(newTransaction.type === 'transfer' 
+        ? 'Transferência realizada com sucesso!' 
+        : 'Transação adicionada com sucesso!');
     } catch (error) {
       toast.error('Erro ao adicionar transação');
       console.error('Error adding transaction:', error);
     }
-  }, [setTransactions, updateAccountBalance]);
+  }, [setTransactions]);
+
+  const updateTransaction = useCallback((
+    id: string,
+    transactionData: Partial<Omit<Transaction, 'id'>>,
+    options: { silent?: boolean } = {}
+  ): boolean => {
+    try {
+      const existing = transactions.find(t => t.id === id);
+      if (!existing) {
+        toast.error('Transação não encontrada');
+        return false;
+      }
+
+      const updated: Transaction = {
+        ...existing,
+        ...transactionData,
+        id,
+        amount: Math.abs(transactionData.amount ?? existing.amount),
+      };
+      if (updated.type !== 'transfer') {
+        delete updated.toAccount;
+      }
+
+      const validation = TransactionSchema.safeParse(updated);
+      if (!validation.success) {
+        toast.error(validation.error.issues[0]?.message || 'Dados da transação inválidos');
+        return false;
+      }
+
+      setTransactions(prev => prev.map(t => t.id === id ? updated : t));
+      // Goal contributions made through a transfer follow its amount and date
+      setGoalContributions(prev => prev.map(c => c.transactionId === id
+        ? { ...c, amount: updated.amount, date: updated.date }
+        : c
+      ));
+      if (!options.silent) toast.success('Transação atualizada com sucesso!');
+      return true;
+    } catch (error) {
+      toast.error('Erro ao atualizar transação');
+      console.error('Error updating transaction:', error);
+      return false;
+    }
+  }, [transactions, setTransactions, setGoalContributions]);
 
   const deleteTransaction = useCallback((id: string) => {
     try {
       const transaction = transactions.find(t => t.id === id);
       if (transaction) {
-        // Revert account balance
-        updateAccountBalance(transaction.account, transaction.amount, transaction.type, 'remove');
         setTransactions(prev => prev.filter(t => t.id !== id));
+        setGoalContributions(prev => prev.filter(c => c.transactionId !== id));
         toast.success('Transação excluída com sucesso!');
       }
     } catch (error) {
       toast.error('Erro ao excluir transação');
       console.error('Error deleting transaction:', error);
     }
-  }, [transactions, setTransactions, updateAccountBalance]);
+  }, [transactions, setTransactions, setGoalContributions]);
 
-  const updateTransactionAccount = useCallback((
-    transactionId: string,
-    oldAccount: string,
-    newAccount: string,
-    amount: number,
-    type: 'income' | 'expense'
-  ) => {
+  // Adds and merges a whole statement in one write: either every record is saved or none
+  const importTransactions = useCallback((
+    transactionsData: Omit<Transaction, 'id'>[],
+    merges: { id: string; changes: Partial<Omit<Transaction, 'id'>> }[] = []
+  ): boolean => {
     try {
-      // Revert old account balance
-      updateAccountBalance(oldAccount, amount, type, 'remove');
-      // Update new account balance
-      updateAccountBalance(newAccount, amount, type, 'add');
+      const byId = new Map(transactions.map(t => [t.id, t]));
+      const updates = new Map<string, Transaction>();
+      for (const { id, changes } of merges) {
+        const existing = byId.get(id);
+        if (!existing) {
+          toast.error('Transação não encontrada');
+          return false;
+        }
+        const updated: Transaction = { ...existing, ...changes, id, amount: Math.abs(changes.amount ?? existing.amount) };
+        if (updated.type !== 'transfer') {
+          delete updated.toAccount;
+        }
+        const validation = TransactionSchema.safeParse(updated);
+        if (!validation.success) {
+          toast.error(validation.error.issues[0]?.message || 'Dados da transação inválidos');
+          return false;
+        }
+        updates.set(id, updated);
+      }
+
+      if (transactionsData.some(t => t.type === 'transfer' && !t.creditCard && (!t.toAccount || t.toAccount === t.account))) {
+        toast.error('Selecione contas de origem e destino diferentes');
+        return false;
+      }
+      const added: Transaction[] = transactionsData.map(transaction => ({
+        ...transaction,
+        amount: Math.abs(transaction.amount),
+        id: generateId(),
+      }));
+
+      setTransactions(prev => [...prev.map(t => updates.get(t.id) ?? t), ...added]);
+      if (updates.size > 0 && goalContributions.some(c => c.transactionId && updates.has(c.transactionId))) {
+        setGoalContributions(prev => prev.map(c => {
+          const updated = c.transactionId ? updates.get(c.transactionId) : undefined;
+          return updated ? { ...c, amount: updated.amount, date: updated.date } : c;
+        }));
+      }
+      return true;
     } catch (error) {
-      console.error('Error updating transaction account balance:', error);
+      toast.error('Erro ao importar transações');
+      console.error('Error importing transactions:', error);
+      return false;
     }
-  }, [updateAccountBalance]);
+  }, [transactions, goalContributions, setTransactions, setGoalContributions]);
+
+  // Materialize recurring occurrences that became due since the app was last opened
+  const hasMaterializedRecurring = useRef(false);
+  useEffect(() => {
+    if (hasMaterializedRecurring.current || readOnly) return;
+    hasMaterializedRecurring.current = true;
+
+    // Occurrences another tab already created have the same ids and are skipped
+    const existingIds = new Set(transactions.map(t => t.id));
+    const dueOccurrences = getDueOccurrences(transactions).filter(o => !existingIds.has(getOccurrenceId(o)));
+    if (dueOccurrences.length === 0) return;
+
+    const lastIndexes = new Map<string, number>();
+    const occurrences: Transaction[] = dueOccurrences.map(occurrence => {
+      lastIndexes.set(occurrence.template.id, Math.max(lastIndexes.get(occurrence.template.id) || 0, occurrence.index));
+      return { ...buildOccurrenceTransaction(occurrence), id: getOccurrenceId(occurrence) };
+    });
+
+    setTransactions(prev => {
+      const ids = new Set(prev.map(t => t.id));
+      return [
+        ...prev.map(t => lastIndexes.has(t.id) && t.recurrence
+          ? { ...t, recurrence: { ...t.recurrence, lastGeneratedIndex: Math.max(t.recurrence.lastGeneratedIndex || 0, lastIndexes.get(t.id)!) } }
+          : t
+        ),
+        ...occurrences.filter(t => !ids.has(t.id)),
+      ];
+    });
+    toast.info(`${occurrences.length} transação(ões) recorrente(s) lançada(s)`);
+  }, [transactions, setTransactions, readOnly]);
+
+  const getUpcomingRecurring = useCallback((days: number = 30) => {
+    return getUpcomingOccurrences(transactions, days);
+  }, [transactions]);
 
   // Credit card operations
-  const addCreditCard = useCallback((cardData: Omit<CreditCard, 'id'>) => {
+  const addCreditCard = useCallback((cardData: Omit<CreditCard, 'id' | 'currentBalance'>) => {
     try {
-      const newCard: CreditCard = {
+      const newCard: StoredCreditCard = {
         ...cardData,
         id: generateId(),
       };
@@ -209,8 +422,10 @@ export const FinancialProvider: React.FC<{ children: React.ReactNode }> = ({ chi
 
   const updateCreditCard = useCallback((id: string, cardData: Partial<CreditCard>) => {
     try {
+      // The current balance is derived, so only the carried-over balance can be edited
+      const { currentBalance, ...changes } = cardData;
       setCreditCards(prev => prev.map(card => 
-        card.id === id ? { ...card, ...cardData } : card
+        card.id === id ? { ...card, ...changes } : card
       ));
       toast.success('Cartão atualizado com sucesso!');
     } catch (error) {
@@ -221,33 +436,245 @@ export const FinancialProvider: React.FC<{ children: React.ReactNode }> = ({ chi
 
   const deleteCreditCard = useCallback((id: string) => {
     try {
+      if (transactions.some(t => t.creditCard === id)) {
+        toast.error('Não é possível excluir cartão com lançamentos. Exclua as transações primeiro.');
+        return;
+      }
+
       setCreditCards(prev => prev.filter(card => card.id !== id));
       toast.success('Cartão excluído com sucesso!');
     } catch (error) {
       toast.error('Erro ao excluir cartão');
       console.error('Error deleting credit card:', error);
     }
-  }, [setCreditCards]);
+  }, [setCreditCards, transactions]);
+
+  const getCardStatements = useCallback((cardId: string) => {
+    const card = storedCreditCards.find(c => c.id === cardId);
+    return card ? buildCardStatements(card, transactions) : [];
+  }, [storedCreditCards, transactions]);
+
+  // A statement payment is a transfer out of an account into the card
+  const payCardStatement = useCallback((
+    cardId: string,
+    statementKey: string | null,
+    accountId: string,
+    amount: number,
+    date: Date = new Date()
+  ) => {
+    const card = storedCreditCards.find(c => c.id === cardId);
+    if (!card) {
+      toast.error('Cartão não encontrado');
+      return;
+    }
+    if (!accounts.some(account => account.id === accountId)) {
+      toast.error('Selecione a conta de pagamento');
+      return;
+    }
+    if (!(amount > 0)) {
+      toast.error('Valor do pagamento deve ser maior que zero');
+      return;
+    }
+
+    addTransaction({
+      description: statementKey 
+        ? `Pagamento fatura ${card.name} (${statementKey.split('-').reverse().join('/')})`
+        : `Pagamento saldo anterior ${card.name}`,
+      amount,
+      type: 'transfer',
+      category: '',
+      account: accountId,
+      creditCard: cardId,
+      statement: statementKey || undefined,
+      date,
+      recurring: false,
+    }, { silent: true });
+    toast.success('Pagamento de fatura registrado!');
+  }, [storedCreditCards, accounts, addTransaction]);
+
+  // Category operations
+  const validateCategory = useCallback((data: Omit<Category, 'id'>, id?: string): string | null => {
+    const validation = CategorySchema.safeParse(data);
+    if (!validation.success) {
+      return validation.error.issues[0]?.message || 'Dados da categoria inválidos';
+    }
+
+    if (data.parentId) {
+      const parent = categories.find(c => c.id === data.parentId);
+      if (!parent || parent.id === id) return 'Categoria pai não encontrada';
+      if (parent.parentId) return 'Subcategorias não podem ter subcategorias';
+      if (parent.type !== data.type) return 'Subcategoria deve ter o mesmo tipo da categoria pai';
+      if (id && categories.some(c => c.parentId === id)) {
+        return 'Categorias com subcategorias não podem virar subcategoria';
+      }
+    }
+
+    const duplicate = categories.some(c =>
+      c.id !== id &&
+      c.type === data.type &&
+      (c.parentId || '') === (data.parentId || '') &&
+      c.name.trim().toLowerCase() === data.name.trim().toLowerCase()
+    );
+    return duplicate ? 'Já existe uma categoria com este nome' : null;
+  }, [categories]);
+
+  const addCategory = useCallback((categoryData: Omit<Category, 'id'>) => {
+    try {
+      const error = validateCategory(categoryData);
+      if (error) {
+        toast.error(error);
+        return false;
+      }
+
+      setCategories(prev => [...prev, { ...categoryData, name: categoryData.name.trim(), id: generateId() }]);
+      toast.success('Categoria adicionada com sucesso!');
+      return true;
+    } catch (error) {
+      toast.error('Erro ao adicionar categoria');
+      console.error('Error adding category:', error);
+      return false;
+    }
+  }, [validateCategory, setCategories]);
+
+  const updateCategory = useCallback((id: string, categoryData: Partial<Omit<Category, 'id'>>) => {
+    try {
+      const current = categories.find(c => c.id === id);
+      if (!current) {
+        toast.error('Categoria não encontrada');
+        return false;
+      }
+
+      const updated = { ...current, ...categoryData };
+      const error = validateCategory(updated, id);
+      if (error) {
+        toast.error(error);
+        return false;
+      }
+
+      if (updated.type !== current.type) {
+        const familyIds = [id, ...categories.filter(c => c.parentId === id).map(c => c.id)];
+        const inUse = transactions.some(t => getTransactionCategories(t).some(c => familyIds.includes(c))) ||
+          budgets.some(b => familyIds.includes(b.category));
+        if (inUse) {
+          toast.error('Não é possível alterar o tipo de uma categoria em uso');
+          return false;
+        }
+      }
+
+      setCategories(prev => prev.map(category => {
+        if (category.id === id) return { ...updated, name: updated.name.trim() };
+        // Subcategories always share the type of their parent
+        if (category.parentId === id) return { ...category, type: updated.type };
+        return category;
+      }));
+      toast.success('Categoria atualizada com sucesso!');
+      return true;
+    } catch (error) {
+      toast.error('Erro ao atualizar categoria');
+      console.error('Error updating category:', error);
+      return false;
+    }
+  }, [categories, transactions, budgets, validateCategory, setCategories]);
+
+  // Archived categories disappear from pickers but keep labelling existing transactions
+  const archiveCategory = useCallback((id: string, archived: boolean = true) => {
+    try {
+      const category = categories.find(c => c.id === id);
+      if (!category) {
+        toast.error('Categoria não encontrada');
+        return;
+      }
+
+      setCategories(prev => prev.map(c => {
+        if (c.id === id) return { ...c, archived };
+        if (archived && c.parentId === id) return { ...c, archived };
+        // Restoring a subcategory brings back its parent so it is reachable again
+        if (!archived && c.id === category.parentId) return { ...c, archived: false };
+        return c;
+      }));
+      toast.success(archived ? 'Categoria arquivada' : 'Categoria restaurada');
+    } catch (error) {
+      toast.error('Erro ao arquivar categoria');
+      console.error('Error archiving category:', error);
+    }
+  }, [categories, setCategories]);
+
+  /**
+   * Folds a category into another: transactions and budgets are re-pointed,
+   * subcategories move under the target and the source is removed
+   */
+  const mergeCategories = useCallback((sourceId: string, targetId: string) => {
+    try {
+      const source = categories.find(c => c.id === sourceId);
+      const target = categories.find(c => c.id === targetId);
+      if (!source || !target || sourceId === targetId) {
+        toast.error('Selecione duas categorias diferentes');
+        return;
+      }
+      if (source.type !== target.type) {
+        toast.error('Só é possível mesclar categorias do mesmo tipo');
+        return;
+      }
+      if (target.parentId === sourceId) {
+        toast.error('Não é possível mesclar uma categoria em sua própria subcategoria');
+        return;
+      }
+
+      const isSource = (reference: string) => findCategory(categories, reference)?.id === sourceId;
+      const newParentId = target.parentId || target.id;
+
+      const usesSource = (t: Transaction) => getTransactionCategories(t).some(isSource);
+
+      setTransactions(prev => prev.map(t => usesSource(t)
+        ? mapTransactionCategories(t, reference => isSource(reference) ? targetId : reference)
+        : t
+      ));
+      setBudgets(prev => {
+        const targetPeriods = new Set(prev.filter(b => b.category === targetId).map(b => b.period));
+        // A target budget for the same period wins; the merged one would double count
+        return prev
+          .filter(b => !(isSource(b.category) && targetPeriods.has(b.period)))
+          .map(b => isSource(b.category) ? { ...b, category: targetId } : b);
+      });
+      setCategories(prev => prev
+        .filter(c => c.id !== sourceId)
+        .map(c => c.parentId === sourceId ? { ...c, parentId: newParentId } : c)
+      );
+
+      const movedCount = transactions.filter(usesSource).length;
+      toast.success(`${source.name} mesclada em ${target.name} (${movedCount} transação(ões) movida(s))`);
+    } catch (error) {
+      toast.error('Erro ao mesclar categorias');
+      console.error('Error merging categories:', error);
+    }
+  }, [categories, transactions, setTransactions, setBudgets, setCategories]);
 
   // Goal operations
-  const addGoal = useCallback((goalData: Omit<FinancialGoal, 'id'>) => {
+  const addGoal = useCallback((goalData: Omit<FinancialGoal, 'id' | 'completed'>) => {
     try {
-      const newGoal: FinancialGoal = {
-        ...goalData,
+      // The starting amount is recorded as the first ledger entry
+      const { currentAmount, ...goal } = goalData;
+      const newGoal: StoredGoal = {
+        ...goal,
         id: generateId(),
       };
       setGoals(prev => [...prev, newGoal]);
+
+      const openingEntry = buildOpeningContribution({ ...newGoal, currentAmount }, generateId());
+      if (openingEntry) setGoalContributions(prev => [...prev, openingEntry]);
       toast.success('Meta adicionada com sucesso!');
     } catch (error) {
       toast.error('Erro ao adicionar meta');
       console.error('Error adding goal:', error);
     }
-  }, [setGoals]);
+  }, [setGoals, setGoalContributions]);
 
   const updateGoal = useCallback((id: string, goalData: Partial<FinancialGoal>) => {
     try {
+      // Progress is derived from contributions, so it cannot be edited directly
+      const { currentAmount, completed, ...changes } = goalData;
       setGoals(prev => prev.map(goal => 
-        goal.id === id ? { ...goal, ...goalData } : goal
+        goal.id === id ? { ...goal, ...changes } : goal
       ));
       toast.success('Meta atualizada com sucesso!');
     } catch (error) {
@@ -258,21 +685,104 @@ export const FinancialProvider: React.FC<{ children: React.ReactNode }> = ({ chi
 
   const deleteGoal = useCallback((id: string) => {
     try {
+      // Linked transfers are kept: the money really moved between accounts
       setGoals(prev => prev.filter(goal => goal.id !== id));
+      setGoalContributions(prev => prev.filter(c => c.goalId !== id));
       toast.success('Meta excluída com sucesso!');
     } catch (error) {
       toast.error('Erro ao excluir meta');
       console.error('Error deleting goal:', error);
     }
-  }, [setGoals]);
+  }, [setGoals, setGoalContributions]);
+
+  // A contribution can be tied to a transfer, e.g. from checking into the goal's savings account
+  const addGoalContribution = useCallback((
+    goalId: string,
+    contributionData: Omit<GoalContribution, 'id' | 'goalId' | 'transactionId'>,
+    transfer?: { fromAccount: string; toAccount: string }
+  ): boolean => {
+    try {
+      const goal = goals.find(g => g.id === goalId);
+      if (!goal) {
+        toast.error('Meta não encontrada');
+        return false;
+      }
+
+      const validation = GoalContributionSchema.safeParse(contributionData);
+      if (!validation.success) {
+        toast.error(validation.error.issues[0]?.message || 'Dados do aporte inválidos');
+        return false;
+      }
+      if (contributionData.type === 'withdrawal' && contributionData.amount > goal.currentAmount + 0.005) {
+        toast.error('Resgate maior que o valor acumulado na meta');
+        return false;
+      }
+
+      const contribution: GoalContribution = {
+        ...contributionData,
+        id: generateId(),
+        goalId,
+      };
+
+      if (transfer) {
+        const { fromAccount, toAccount } = transfer;
+        if (!accounts.some(a => a.id === fromAccount) || !accounts.some(a => a.id === toAccount) ||
+            fromAccount === toAccount) {
+          toast.error('Selecione contas de origem e destino diferentes');
+          return false;
+        }
+
+        const transaction: Transaction = {
+          id: generateId(),
+          description: `${contribution.type === 'withdrawal' ? 'Resgate' : 'Aporte'} meta ${goal.title}`,
+          amount: Math.abs(contribution.amount),
+          type: 'transfer',
+          category: '',
+          account: fromAccount,
+          toAccount,
+          date: contribution.date,
+          recurring: false,
+        };
+        contribution.transactionId = transaction.id;
+        setTransactions(prev => [...prev, transaction]);
+      }
+
+      setGoalContributions(prev => [...prev, contribution]);
+      toast.success(contribution.type === 'withdrawal'
+        ? 'Resgate registrado com sucesso!'
+        : 'Aporte registrado com sucesso!');
+      return true;
+    } catch (error) {
+      toast.error('Erro ao registrar aporte');
+      console.error('Error adding goal contribution:', error);
+      return false;
+    }
+  }, [goals, accounts, setTransactions, setGoalContributions]);
+
+  const deleteGoalContribution = useCallback((id: string) => {
+    try {
+      const contribution = goalContributions.find(c => c.id === id);
+      if (!contribution) return;
+
+      // Undoing the contribution also undoes the transfer that moved the money
+      if (contribution.transactionId) {
+        setTransactions(prev => prev.filter(t => t.id !== contribution.transactionId));
+      }
+      setGoalContributions(prev => prev.filter(c => c.id !== id));
+      toast.success('Movimentação da meta excluída!');
+    } catch (error) {
+      toast.error('Erro ao excluir movimentação da meta');
+      console.error('Error deleting goal contribution:', error);
+    }
+  }, [goalContributions, setTransactions, setGoalContributions]);
 
   // Budget operations
-  const addBudget = useCallback((budgetData: Omit<Budget, 'id' | 'spent'>) => {
+  const addBudget = useCallback((budgetData: Omit<Budget, 'id' | 'createdAt'>) => {
     try {
       const newBudget: Budget = {
         ...budgetData,
         id: generateId(),
-        spent: 0,
+        createdAt: new Date(),
       };
       setBudgets(prev => [...prev, newBudget]);
       toast.success('Orçamento adicionado com sucesso!');
@@ -341,22 +851,46 @@ export const FinancialProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       ? new Date(now.getFullYear(), now.getMonth(), 1)
       : new Date(now.getFullYear(), 0, 1);
     
+    // Split transactions only count the shares that fall under the category
     return transactions
       .filter(t => 
         t.type === 'expense' && 
-        t.category === categoryId &&
         t.date >= startDate &&
         t.date <= now
       )
-      .reduce((total, t) => total + t.amount, 0);
-  }, [transactions]);
+      .reduce((total, t) => total + getCategoryAmount(categories, t, categoryId), 0);
+  }, [transactions, categories]);
 
   const getAccountTransactions = useCallback((accountId: string) => {
     return transactions
-      .filter(t => t.account === accountId)
+      .filter(t => t.account === accountId || t.toAccount === accountId)
       .sort((a, b) => b.date.getTime() - a.date.getTime());
   }, [transactions]);
 
+  const getBalanceDiscrepancies = useCallback(() => {
+    return findBalanceDiscrepancies(accounts);
+  }, [accounts]);
+
+  const reconcileAccount = useCallback((id: string, strategy: 'ledger' | 'stored') => {
+    try {
+      const discrepancy = findBalanceDiscrepancies(accounts).find(d => d.account.id === id);
+      
+      setAccounts(prev => prev.map(account => {
+        if (account.id !== id) return account;
+        const { storedBalance, ...reconciled } = account;
+        // Trusting the stored value shifts the opening balance so the ledger lands on it
+        if (strategy === 'stored' && discrepancy) {
+          reconciled.openingBalance = account.openingBalance + discrepancy.difference;
+        }
+        return reconciled;
+      }));
+      toast.success('Saldo conciliado com sucesso!');
+    } catch (error) {
+      toast.error('Erro ao conciliar saldo');
+      console.error('Error reconciling account:', error);
+    }
+  }, [accounts, setAccounts]);
+
   // Data management
   const clearAllData = useCallback(() => {
     try {
@@ -364,13 +898,14 @@ export const FinancialProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       setTransactions([]);
       setCreditCards([]);
       setGoals([]);
+      setGoalContributions([]);
       setBudgets([]);
       toast.success('Todos os dados foram limpos!');
     } catch (error) {
       toast.error('Erro ao limpar dados');
       console.error('Error clearing data:', error);
     }
-  }, [setAccounts, setTransactions, setCreditCards, setGoals, setBudgets]);
+  }, [setAccounts, setTransactions, setCreditCards, setGoals, setGoalContributions, setBudgets]);
 
   const exportData = useCallback(() => {
     try {
@@ -378,10 +913,12 @@ export const FinancialProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         accounts,
         transactions,
         creditCards,
-        goals,
+        categories,
+        goals: storedGoals,
+        goalContributions,
         budgets,
         exportDate: new Date().toISOString(),
-        version: '1.0'
+        version: CURRENT_SCHEMA_VERSION
       };
       return JSON.stringify(data, null, 2);
     } catch (error) {
@@ -389,55 +926,79 @@ export const FinancialProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       console.error('Error exporting data:', error);
       return '';
     }
-  }, [accounts, transactions, creditCards, goals, budgets]);
+  }, [accounts, transactions, creditCards, categories, storedGoals, goalContributions, budgets]);
 
-  const importData = useCallback((jsonData: string): boolean => {
+  const importData = useCallback((jsonData: string, options: { mode?: ImportMode } = {}): ImportReport | null => {
+    const mode = options.mode ?? 'replace';
     try {
-      const data = JSON.parse(jsonData);
+      const parsed = JSON.parse(jsonData);
       
       // Validate data structure
-      if (!data || typeof data !== 'object') {
+      if (!parsed || typeof parsed !== 'object') {
         throw new Error('Invalid data format');
       }
 
-      // Import data with date parsing
-      if (data.accounts) {
-        const accountsWithDates = data.accounts.map((acc: any) => ({
-          ...acc,
-          createdAt: new Date(acc.createdAt)
-        }));
-        setAccounts(accountsWithDates);
-      }
-      
-      if (data.transactions) {
-        const transactionsWithDates = data.transactions.map((trans: any) => ({
-          ...trans,
-          date: new Date(trans.date)
-        }));
-        setTransactions(transactionsWithDates);
+      const collections: FinancialCollection[] = [
+        'accounts', 'transactions', 'creditCards', 'categories', 'goals', 'goalContributions', 'budgets',
+      ];
+      const dataSet: FinancialDataSet = {};
+      collections.forEach(collection => {
+        if (Array.isArray(parsed[collection])) dataSet[collection] = parsed[collection];
+      });
+
+      // Backups carry the schema version apart from their own format version
+      const schemaVersion = getSchemaVersion(parsed.schemaVersion ?? parsed.version);
+      const existing: ExistingRecords = {
+        accounts: storedAccounts,
+        transactions,
+        creditCards: storedCreditCards,
+        categories,
+        goals: storedGoals,
+        goalContributions,
+        budgets,
+      };
+      const { data, report } = validateImport(
+        migrateDataSet(dataSet, schemaVersion),
+        existing,
+        categories,
+        mode,
+        schemaVersion
+      );
+
+      // Records come back with their dates revived; merging appends, replacing overwrites
+      const apply = <T,>(records: T[] | undefined, setter: (value: T[] | ((prev: T[]) => T[])) => void) => {
+        if (!records) return;
+        setter(mode === 'merge' ? prev => [...prev, ...records] : records);
+      };
+      apply(data.accounts, setAccounts);
+      apply(data.transactions, setTransactions);
+      apply(data.creditCards, setCreditCards);
+      // An empty category list would leave transactions without categories
+      if (data.categories?.length > 0) apply(data.categories, setCategories);
+      apply(data.goals, setGoals);
+      apply(data.goalContributions, setGoalContributions);
+      apply(data.budgets, setBudgets);
+
+      const totals = Object.values(report.totals);
+      const imported = totals.reduce((sum, total) => sum + total.accepted + total.fixed, 0);
+      const rejected = totals.reduce((sum, total) => sum + total.rejected, 0);
+      toast.success(`${imported} registro(s) importado(s)`);
+      if (rejected > 0) {
+        toast.warning(`${rejected} registro(s) inválido(s) não foram importados`);
       }
-      
-      if (data.creditCards) setCreditCards(data.creditCards);
-      
-      if (data.goals) {
-        const goalsWithDates = data.goals.map((goal: any) => ({
-          ...goal,
-          deadline: new Date(goal.deadline),
-          createdAt: new Date(goal.createdAt)
-        }));
-        setGoals(goalsWithDates);
+      const conflicts = totals.reduce((sum, total) => sum + total.conflict, 0);
+      if (conflicts > 0) {
+        toast.warning(`${conflicts} registro(s) diferentes dos atuais foram mantidos na versão atual`);
       }
-      
-      if (data.budgets) setBudgets(data.budgets);
-      
-      toast.success('Dados importados com sucesso!');
-      return true;
+      return report;
     } catch (error) {
-      toast.error('Erro ao importar dados - formato inválido');
+      toast.error(error instanceof SyntaxError || !(error instanceof Error) || error.message === 'Invalid data format'
+        ? 'Erro ao importar dados - formato inválido'
+        : error.message);
       console.error('Error importing data:', error);
-      return false;
+      return null;
     }
-  }, [setAccounts, setTransactions, setCreditCards, setGoals, setBudgets]);
+  }, [storedAccounts, transactions, storedCreditCards, categories, storedGoals, goalContributions, budgets, setAccounts, setTransactions, setCreditCards, setCategories, setGoals, setGoalContributions, setBudgets]);
 
   // Memoized context value
   const value = useMemo(() => ({
@@ -446,37 +1007,52 @@ export const FinancialProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     creditCards,
     categories,
     goals,
+    goalContributions,
     budgets,
     addAccount,
     addTransaction,
     addCreditCard,
     updateAccount,
     deleteAccount,
+    updateTransaction,
     deleteTransaction,
+    importTransactions,
     addGoal,
     updateGoal,
     deleteGoal,
+    addGoalContribution,
+    deleteGoalContribution,
     addBudget,
     updateBudget,
     deleteBudget,
     updateCreditCard,
     deleteCreditCard,
+    addCategory,
+    updateCategory,
+    archiveCategory,
+    mergeCategories,
+    getCardStatements,
+    payCardStatement,
     getTotalBalance,
     getMonthlyIncome,
     getMonthlyExpenses,
     getCategoryExpenses,
     getAccountTransactions,
-    updateTransactionAccount,
+    getUpcomingRecurring,
+    getBalanceDiscrepancies,
+    reconcileAccount,
     clearAllData,
     exportData,
     importData,
   }), [
-    accounts, transactions, creditCards, categories, goals, budgets,
+    accounts, transactions, creditCards, categories, goals, goalContributions, budgets,
     addAccount, addTransaction, addCreditCard, updateAccount, deleteAccount,
-    deleteTransaction, addGoal, updateGoal, deleteGoal, addBudget, updateBudget,
-    deleteBudget, updateCreditCard, deleteCreditCard, getTotalBalance,
+    updateTransaction, deleteTransaction, importTransactions, addGoal, updateGoal, deleteGoal, addGoalContribution,
+    deleteGoalContribution, addBudget, updateBudget,
+    deleteBudget, updateCreditCard, deleteCreditCard, addCategory, updateCategory, archiveCategory,
+    mergeCategories, getCardStatements, payCardStatement, getTotalBalance,
     getMonthlyIncome, getMonthlyExpenses, getCategoryExpenses, getAccountTransactions,
-    updateTransactionAccount, clearAllData, exportData, importData
+    getUpcomingRecurring, getBalanceDiscrepancies, reconcileAccount, clearAllData, exportData, importData
   ]);
 
   return (
@@ -484,4 +1060,48 @@ export const FinancialProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       {children}
     </FinancialContext.Provider>
   );
-};
\ No newline at end of file
+};
+
+/**
+ * Opens the storage and runs the schema migrations before rendering the data, so the
+ * rest of the app never sees records in an old format
+ */
+export const FinancialProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [loaded, setLoaded] = useState<LoadedData | null>(null);
+  const [loadError, setLoadError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const queued = await getFinancialStorage();
+      const migration = await runStoredMigrations(queued);
+      const storage = migration.readOnly ? new ReadOnlyStorage(queued) : queued;
+      const data = migration.data;
+      if (!data.categories) {
+        // Saved right away, so later changes are applied on top of the defaults
+        data.categories = DEFAULT_CATEGORIES;
+        if (!migration.readOnly) await storage.replace('categories', DEFAULT_CATEGORIES);
+      }
+      return { storage, data, quarantined: migration.quarantined, readOnly: migration.readOnly };
+    };
+
+    load()
+      .then(result => {
+        if (!cancelled) setLoaded(result);
+      })
+      .catch(error => {
+        console.error('Error loading financial data:', error);
+        if (!cancelled) setLoadError(error instanceof Error ? error : new Error(String(error)));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Surfaces in the ErrorBoundary around the app
+  if (loadError) throw loadError;
+  if (!loaded) return null;
+
+  return <FinancialDataProvider {...loaded}>{children}</FinancialDataProvider>;
+};
@@ -0,0 +1,33 @@
+import { useEffect } from 'react';
+import { toast } from 'sonner';
+import { useSettings } from '@/hooks/useSettings';
+import { createLocalBackup, isBackupDue, listLocalBackups } from '@/utils/localBackups';
+
+const CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Takes a local backup whenever the configured frequency has elapsed since the last one.
+ * Mounted once at the app root; the backup list is managed from Settings.
+ */
+export const useAutoBackup = () => {
+  const { settings, isLoading } = useSettings();
+  const { autoBackup, backupFrequency, maxBackups, includeCategories, includeSettings } = settings.backup;
+
+  useEffect(() => {
+    if (isLoading || !autoBackup) return;
+
+    const runIfDue = async () => {
+      try {
+        if (!isBackupDue(backupFrequency, (await listLocalBackups())[0])) return;
+        await createLocalBackup({ trigger: 'auto', maxBackups, includeCategories, includeSettings });
+      } catch (error) {
+        console.error('Error creating automatic backup:', error);
+        toast.error('Erro ao criar backup automático');
+      }
+    };
+
+    runIfDue();
+    const interval = setInterval(runIfDue, CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isLoading, autoBackup, backupFrequency, maxBackups, includeCategories, includeSettings]);
+};
@@ -1,37 +1,46 @@
 import { useToast } from "@/hooks/use-toast";
+import { decryptBackup, encryptBackup, isEncryptedBackupFile } from "@/utils/backupFile";
+import { CURRENT_SCHEMA_VERSION } from "@/utils/migrations";
+import { FINANCIAL_COLLECTIONS, getFinancialStorage, loadDataSet } from "@/utils/storage";
 
 export interface BackupData {
   version: string;
+  schemaVersion?: number; // Version of the stored data; missing in backups made before it was tracked
   timestamp: string;
   accounts: any[];
   transactions: any[];
   creditCards: any[];
+  categories?: unknown[];
   goals: any[];
+  goalContributions?: unknown[];
   budgets: any[];
 }
 
 export const useBackupRestore = () => {
   const { toast } = useToast();
 
-  const createBackup = (): BackupData => {
+  const createBackup = async (): Promise<BackupData> => {
+    const stored = await loadDataSet(await getFinancialStorage());
     const data: BackupData = {
       version: "1.0.0",
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       timestamp: new Date().toISOString(),
-      accounts: JSON.parse(localStorage.getItem('financial-accounts') || '[]'),
-      transactions: JSON.parse(localStorage.getItem('financial-transactions') || '[]'),
-      creditCards: JSON.parse(localStorage.getItem('financial-credit-cards') || '[]'),
-      goals: JSON.parse(localStorage.getItem('financial-goals') || '[]'),
-      budgets: JSON.parse(localStorage.getItem('financial-budgets') || '[]'),
+      accounts: stored.accounts || [],
+      transactions: stored.transactions || [],
+      creditCards: stored.creditCards || [],
+      categories: stored.categories || [],
+      goals: stored.goals || [],
+      goalContributions: stored.goalContributions || [],
+      budgets: stored.budgets || [],
     };
 
     return data;
   };
 
-  const exportBackup = () => {
+  const exportBackup = async (passphrase: string) => {
     try {
-      const backup = createBackup();
-      const dataStr = JSON.stringify(backup, null, 2);
-      const dataBlob = new Blob([dataStr], { type: 'application/json' });
+      const content = await encryptBackup(await createBackup(), passphrase);
+      const dataBlob = new Blob([content], { type: 'application/json' });
       const url = URL.createObjectURL(dataBlob);
       const link = document.createElement('a');
       link.href = url;
@@ -41,83 +50,71 @@ export const useBackupRestore = () => {
 
       toast({
         title: "Backup criado",
-        description: "Seus dados foram exportados com sucesso!",
+        description: "Seus dados foram exportados e protegidos com a senha informada.",
       });
     } catch (error) {
+      console.error('Error exporting backup:', error);
       toast({
         title: "Erro no backup",
-        description: "Não foi possível criar o backup dos dados.",
+        description: error instanceof Error ? error.message : "Não foi possível criar o backup dos dados.",
         variant: "destructive",
       });
+      throw error;
     }
   };
 
-  const importBackup = (file: File) => {
-    return new Promise<void>((resolve, reject) => {
-      const reader = new FileReader();
-      
-      reader.onload = (e) => {
-        try {
-          const content = e.target?.result as string;
-          const backup: BackupData = JSON.parse(content);
-          
-          // Validate backup structure
-          if (!backup.version || !backup.accounts || !backup.transactions) {
-            throw new Error('Formato de backup inválido');
-          }
-
-          // Restore data
-          localStorage.setItem('financial-accounts', JSON.stringify(backup.accounts));
-          localStorage.setItem('financial-transactions', JSON.stringify(backup.transactions));
-          localStorage.setItem('financial-credit-cards', JSON.stringify(backup.creditCards || []));
-          localStorage.setItem('financial-goals', JSON.stringify(backup.goals || []));
-          localStorage.setItem('financial-budgets', JSON.stringify(backup.budgets || []));
-
-          toast({
-            title: "Backup restaurado",
-            description: "Seus dados foram importados com sucesso! Recarregue a página.",
-          });
-
-          resolve();
-        } catch (error) {
-          toast({
-            title: "Erro na importação",
-            description: "Não foi possível importar o backup. Verifique o arquivo.",
-            variant: "destructive",
-          });
-          reject(error);
-        }
-      };
+  // Encrypted files need a passphrase; plain JSON backups from older versions are still accepted.
+  // Returns the backup as JSON for FinancialContext.importData, which validates each record.
+  const readBackupFile = async (file: File, passphrase?: string): Promise<string> => {
+    try {
+      const content = await file.text();
+      const backup: BackupData = isEncryptedBackupFile(content)
+        ? await decryptBackup(content, passphrase || '')
+        : JSON.parse(content);
 
-      reader.onerror = () => {
-        toast({
-          title: "Erro na leitura",
-          description: "Não foi possível ler o arquivo de backup.",
-          variant: "destructive",
-        });
-        reject(new Error('Erro na leitura do arquivo'));
-      };
+      // Validate backup structure
+      if (!backup || typeof backup !== 'object' || !Array.isArray(backup.transactions)) {
+        throw new Error('Formato de backup inválido');
+      }
 
-      reader.readAsText(file);
-    });
+      return JSON.stringify(backup);
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      toast({
+        title: "Erro na importação",
+        description: error instanceof SyntaxError
+          ? "Não foi possível importar o backup. Verifique o arquivo."
+          : error instanceof Error ? error.message : "Não foi possível importar o backup.",
+        variant: "destructive",
+      });
+      throw error;
+    }
   };
 
-  const clearAllData = () => {
-    localStorage.removeItem('financial-accounts');
-    localStorage.removeItem('financial-transactions');
-    localStorage.removeItem('financial-credit-cards');
-    localStorage.removeItem('financial-goals');
-    localStorage.removeItem('financial-budgets');
+  const clearAllData = async () => {
+    try {
+      const storage = await getFinancialStorage();
+      for (const collection of FINANCIAL_COLLECTIONS) {
+        if (collection !== 'categories') await storage.replace(collection, []);
+      }
 
-    toast({
-      title: "Dados limpos",
-      description: "Todos os dados foram removidos. Recarregue a página.",
-    });
+      toast({
+        title: "Dados limpos",
+        description: "Todos os dados foram removidos. Recarregue a página.",
+      });
+    } catch (error) {
+      console.error('Error clearing data:', error);
+      toast({
+        title: "Erro ao limpar dados",
+        description: "Não foi possível remover os dados.",
+        variant: "destructive",
+      });
+    }
   };
 
   return {
     exportBackup,
-    importBackup,
+    readBackupFile,
     clearAllData,
     createBackup,
   };
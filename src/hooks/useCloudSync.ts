@@ -0,0 +1,57 @@
+import { useEffect } from 'react';
+import { toast } from 'sonner';
+import { useSettings } from '@/hooks/useSettings';
+import { runCloudSync } from '@/utils/cloudSync';
+import { SYNC_QUEUED_EVENT, setSyncQueueActive } from '@/utils/syncQueue';
+
+const SYNC_INTERVAL = 5 * 60 * 1000; // 5 minutes
+const QUEUE_DELAY = 5 * 1000; // Groups edits made in quick succession into one sync
+
+/**
+ * Syncs with the cloud while sync is enabled and offline mode is off: on start, when
+ * the connection comes back, shortly after local changes and every few minutes.
+ * Changes made in the meantime wait in the queue; with sync disabled nothing is queued.
+ * @param enabled - false while the local data cannot be written
+ */
+export const useCloudSync = (enabled: boolean = true) => {
+  const { settings, isLoading } = useSettings();
+  const { syncEnabled, offlineMode } = settings.advanced;
+
+  useEffect(() => {
+    if (!enabled || isLoading || syncEnabled) return;
+    setSyncQueueActive(false).catch(error => console.error('Error clearing the sync queue:', error));
+  }, [enabled, isLoading, syncEnabled]);
+
+  useEffect(() => {
+    if (!enabled || isLoading || !syncEnabled || offlineMode) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const sync = async () => {
+      if (!navigator.onLine) return;
+      try {
+        const result = await runCloudSync();
+        if (result && result.conflicts > 0) {
+          toast.warning(`${result.conflicts} conflito(s) de sincronização resolvido(s). A versão substituída foi isolada.`);
+        }
+      } catch (error) {
+        // Retried on the next trigger; Settings shows the error when syncing by hand
+        console.error('Error syncing with the cloud:', error);
+      }
+    };
+    const syncSoon = () => {
+      clearTimeout(timer);
+      timer = setTimeout(sync, QUEUE_DELAY);
+    };
+
+    sync();
+    const interval = setInterval(sync, SYNC_INTERVAL);
+    window.addEventListener('online', sync);
+    window.addEventListener(SYNC_QUEUED_EVENT, syncSoon);
+    return () => {
+      clearTimeout(timer);
+      clearInterval(interval);
+      window.removeEventListener('online', sync);
+      window.removeEventListener(SYNC_QUEUED_EVENT, syncSoon);
+    };
+  }, [enabled, isLoading, syncEnabled, offlineMode]);
+};
@@ -1,4 +1,4 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 
 /**
  * Custom hook for localStorage with enhanced error handling and type safety
@@ -21,20 +21,24 @@ export function useLocalStorage<T>(key: string, initialValue: T) {
     }
   });
 
+  // Latest value, set by every update so consecutive updates in one tick compose
+  // while the write stays out of the (pure) state updater
+  const valueRef = useRef(storedValue);
+
   // Return a wrapped version of useState's setter function that persists the new value to localStorage
   const setValue = useCallback((value: T | ((val: T) => T)) => {
+    // Allow value to be a function so we have the same API as useState
+    const valueToStore = value instanceof Function ? value(valueRef.current) : value;
+    valueRef.current = valueToStore;
+    setStoredValue(valueToStore);
     try {
-      // Allow value to be a function so we have the same API as useState
-      const valueToStore = value instanceof Function ? value(storedValue) : value;
-      // Save state
-      setStoredValue(valueToStore);
       // Save to local storage
       window.localStorage.setItem(key, JSON.stringify(valueToStore));
     } catch (error) {
       // A more advanced implementation would handle the error case
       console.error(`Error setting localStorage key "${key}":`, error);
     }
-  }, [key, storedValue]);
+  }, [key]);
 
   return [storedValue, setValue] as const;
 }
@@ -82,15 +86,18 @@ export const useLocalStorageWithDates = <T>(
     }
   });
 
+  const valueRef = useRef(storedValue);
+
   const setValue = useCallback((value: T | ((val: T) => T)) => {
+    const valueToStore = value instanceof Function ? value(valueRef.current) : value;
+    valueRef.current = valueToStore;
+    setStoredValue(valueToStore);
     try {
-      const valueToStore = value instanceof Function ? value(storedValue) : value;
-      setStoredValue(valueToStore);
       window.localStorage.setItem(key, JSON.stringify(valueToStore));
     } catch (error) {
       console.error(`Error setting localStorage key "${key}":`, error);
     }
-  }, [key, storedValue]);
+  }, [key]);
 
   return [storedValue, setValue] as const;
 };
@@ -1,6 +1,7 @@
 import { useState, useMemo, useCallback } from 'react';
 import { Transaction, Account, CreditCard } from '@/types/financial';
 import { FinancialGoal, Budget } from '@/types/goals';
+import { getTransactionCategories } from '@/utils/splits';
 
 export interface SearchFilters {
   query: string;
@@ -14,7 +15,7 @@ export interface SearchFilters {
   };
   categories?: string[];
   accounts?: string[];
-  type?: 'income' | 'expense' | 'all';
+  type?: 'income' | 'expense' | 'transfer' | 'all';
   recurring?: boolean;
   tags?: string[];
 }
@@ -118,7 +119,7 @@ class SearchEngine {
         }
         
         if (filters.categories && filters.categories.length > 0) {
-          if (!filters.categories.includes(transaction.category)) {
+          if (!getTransactionCategories(transaction).some(category => filters.categories!.includes(category))) {
             return null;
           }
         }
@@ -61,7 +61,7 @@ export interface AppSettings {
     performanceMode: boolean;
     offlineMode: boolean;
     syncEnabled: boolean;
-    exportFormat: 'json' | 'csv' | 'pdf';
+    exportFormat: 'json' | 'csv' | 'pdf' | 'excel';
   };
   
   // Dashboard
@@ -75,17 +75,10 @@ export interface AppSettings {
     widgetOrder: string[];
   };
   
-  // Categories
+  // Categories (the categories themselves live in the financial data store)
   categories: {
     autoCategorizationEnabled: boolean;
     confirmAutoCategories: boolean;
-    customCategories: {
-      id: string;
-      name: string;
-      color: string;
-      icon: string;
-      type: 'income' | 'expense';
-    }[];
   };
 }
 
@@ -166,7 +159,6 @@ const DEFAULT_SETTINGS: AppSettings = {
   categories: {
     autoCategorizationEnabled: true,
     confirmAutoCategories: true,
-    customCategories: [],
   },
 };
 
@@ -224,6 +216,9 @@ export const CURRENCY_OPTIONS = [
   { code: 'JPY', name: 'Iene Japonês', symbol: '¥' },
 ];
 
+// Each useSettings() call keeps its own state, so saves are broadcast to the others
+const SETTINGS_CHANGED_EVENT = 'tijigui-mobills-settings-changed';
+
 export const useSettings = () => {
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [isLoading, setIsLoading] = useState(true);
@@ -234,6 +229,15 @@ export const useSettings = () => {
     loadSettings();
   }, []);
 
+  // Pick up settings saved by other components
+  useEffect(() => {
+    const handleChange = (event: Event) => {
+      setSettings((event as CustomEvent<AppSettings>).detail);
+    };
+    window.addEventListener(SETTINGS_CHANGED_EVENT, handleChange);
+    return () => window.removeEventListener(SETTINGS_CHANGED_EVENT, handleChange);
+  }, []);
+
   // Auto-save settings when they change
   useEffect(() => {
     if (!isLoading && hasUnsavedChanges) {
@@ -312,6 +316,7 @@ export const useSettings = () => {
       }
       
       setHasUnsavedChanges(false);
+      window.dispatchEvent(new CustomEvent(SETTINGS_CHANGED_EVENT, { detail: settings }));
       toast.success('Configurações salvas!');
     } catch (error) {
       console.error('Error saving settings:', error);
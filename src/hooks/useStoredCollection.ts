@@ -0,0 +1,134 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { toast } from 'sonner';
+import {
+  CollectionChanges,
+  FinancialCollection,
+  FinancialStorage,
+  READ_ONLY_MESSAGE,
+  ReadOnlyStorage,
+  StoredRecord,
+} from '@/utils/storage';
+import { TabChangeMessage, broadcastChanges, isSameRecord, subscribeToTabChanges } from '@/utils/tabSync';
+
+/**
+ * Records added, changed or removed between two versions of a collection. Updates in
+ * the provider replace the records they touch and keep the others, so comparing
+ * references is enough to find what changed.
+ */
+const diffRecords = <T extends StoredRecord>(prev: T[], next: T[]): CollectionChanges => {
+  const previous = new Map(prev.map(record => [record.id, record]));
+  const nextIds = new Set(next.map(record => record.id));
+  return {
+    put: next.filter(record => previous.get(record.id) !== record),
+    remove: prev.filter(record => !nextIds.has(record.id)).map(record => record.id),
+  };
+};
+
+const applyRemoteChanges = <T extends StoredRecord>(records: T[], message: TabChangeMessage): T[] => {
+  const updates = new Map(message.put.map(record => [record.id, record as T]));
+  const removed = new Set(message.remove);
+  const next = records
+    .filter(record => !removed.has(record.id))
+    .map(record => updates.get(record.id) ?? record);
+  const existing = new Set(records.map(record => record.id));
+  updates.forEach((record, id) => {
+    if (!existing.has(id)) next.push(record);
+  });
+  return next;
+};
+
+/**
+ * Ids changed by another tab that this tab had also changed since: the other tab
+ * based its edit on a version this tab no longer has
+ */
+const findConflicts = <T extends StoredRecord>(records: T[], message: TabChangeMessage): string[] => {
+  const current = new Map(records.map(record => [record.id, record]));
+  const incoming = new Map(message.put.map(record => [record.id, record]));
+  return [...incoming.keys(), ...message.remove].filter(id => {
+    const local = current.get(id) ?? null;
+    if (isSameRecord(local, incoming.get(id) ?? null)) return false;
+    return !isSameRecord(local, message.base[id] ?? null);
+  });
+};
+
+/**
+ * State for one financial collection, persisted through the given storage. Only the
+ * records that changed are written, instead of the whole collection, and changes
+ * saved by other tabs are applied as they arrive.
+ * @param storage - storage the collection was loaded from
+ * @param collection - collection name
+ * @param initialValue - records already loaded
+ * @returns [records, setRecords] tuple, with the same API as useState; setting throws
+ * when the storage is read-only
+ */
+export function useStoredCollection<T extends StoredRecord>(
+  storage: FinancialStorage,
+  collection: FinancialCollection,
+  initialValue: T[]
+) {
+  const [records, setRecords] = useState<T[]>(initialValue);
+  // Latest records, set together with the state by every update so consecutive updates
+  // in one tick compose and the diff is computed outside the (pure) state updater
+  const recordsRef = useRef(records);
+
+  const commit = useCallback((next: T[]) => {
+    recordsRef.current = next;
+    setRecords(next);
+  }, []);
+
+  const setValue = useCallback((value: T[] | ((val: T[]) => T[])) => {
+    // Refused before the state moves away from what is stored; callers report the error
+    if (storage instanceof ReadOnlyStorage) throw new Error(READ_ONLY_MESSAGE);
+    const prev = recordsRef.current;
+    const next = value instanceof Function ? value(prev) : value;
+    const changes = diffRecords(prev, next);
+    if (changes.put.length === 0 && changes.remove.length === 0) return;
+
+    const previous = new Map(prev.map(record => [record.id, record]));
+    const base = Object.fromEntries(
+      [...changes.put.map(record => record.id), ...changes.remove].map(id => [id, previous.get(id) ?? null])
+    );
+    commit(next);
+    storage.applyChanges(collection, changes)
+      .then(() => broadcastChanges({ collection, ...changes, base }))
+      .catch(error => {
+        console.error(`Error saving "${collection}":`, error);
+        toast.error('Erro ao salvar dados');
+      });
+  }, [storage, collection, commit]);
+
+  useEffect(() => {
+    // On a conflict the stored records, written by whichever tab saved last, are reloaded
+    // so every tab ends up with the same data; the tab whose edit was replaced is told
+    const reloadAfterConflict = async (conflicts: string[]) => {
+      try {
+        const stored = ((await storage.load(collection)) || []) as T[];
+        const storedById = new Map(stored.map(record => [record.id, record]));
+        const localById = new Map(recordsRef.current.map(record => [record.id, record]));
+        const replaced = conflicts.filter(id => !isSameRecord(localById.get(id) ?? null, storedById.get(id) ?? null));
+        commit(stored);
+        if (replaced.length > 0) {
+          console.warn(`Edits to "${collection}" replaced by another tab:`, replaced.map(id => localById.get(id)));
+          toast.warning('Conflito de edição entre abas', {
+            description: `${replaced.length} registro(s) também foram alterados em outra aba. A versão salva por último foi mantida.`,
+          });
+        }
+      } catch (error) {
+        console.error(`Error reloading "${collection}":`, error);
+        toast.error('Erro ao sincronizar dados entre abas');
+      }
+    };
+
+    return subscribeToTabChanges(message => {
+      if (message.collection !== collection) return;
+      const conflicts = findConflicts(recordsRef.current, message);
+      if (conflicts.length > 0) {
+        reloadAfterConflict(conflicts);
+      } else {
+        commit(applyRemoteChanges(recordsRef.current, message));
+      }
+    });
+  }, [storage, collection, commit]);
+
+  return [records, setValue] as const;
+}
@@ -14,13 +14,236 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      accounts: {
+        Row: {
+          data: Json | null
+          deleted: boolean
+          id: string
+          schema_version: number
+          updated_at: string
+          user_id: string
+          version: number
+        }
+        Insert: {
+          data?: Json | null
+          deleted?: boolean
+          id: string
+          schema_version: number
+          updated_at?: string
+          user_id?: string
+          version?: number
+        }
+        Update: {
+          data?: Json | null
+          deleted?: boolean
+          id?: string
+          schema_version?: number
+          updated_at?: string
+          user_id?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      budgets: {
+        Row: {
+          data: Json | null
+          deleted: boolean
+          id: string
+          schema_version: number
+          updated_at: string
+          user_id: string
+          version: number
+        }
+        Insert: {
+          data?: Json | null
+          deleted?: boolean
+          id: string
+          schema_version: number
+          updated_at?: string
+          user_id?: string
+          version?: number
+        }
+        Update: {
+          data?: Json | null
+          deleted?: boolean
+          id?: string
+          schema_version?: number
+          updated_at?: string
+          user_id?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      categories: {
+        Row: {
+          data: Json | null
+          deleted: boolean
+          id: string
+          schema_version: number
+          updated_at: string
+          user_id: string
+          version: number
+        }
+        Insert: {
+          data?: Json | null
+          deleted?: boolean
+          id: string
+          schema_version: number
+          updated_at?: string
+          user_id?: string
+          version?: number
+        }
+        Update: {
+          data?: Json | null
+          deleted?: boolean
+          id?: string
+          schema_version?: number
+          updated_at?: string
+          user_id?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      credit_cards: {
+        Row: {
+          data: Json | null
+          deleted: boolean
+          id: string
+          schema_version: number
+          updated_at: string
+          user_id: string
+          version: number
+        }
+        Insert: {
+          data?: Json | null
+          deleted?: boolean
+          id: string
+          schema_version: number
+          updated_at?: string
+          user_id?: string
+          version?: number
+        }
+        Update: {
+          data?: Json | null
+          deleted?: boolean
+          id?: string
+          schema_version?: number
+          updated_at?: string
+          user_id?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      goal_contributions: {
+        Row: {
+          data: Json | null
+          deleted: boolean
+          id: string
+          schema_version: number
+          updated_at: string
+          user_id: string
+          version: number
+        }
+        Insert: {
+          data?: Json | null
+          deleted?: boolean
+          id: string
+          schema_version: number
+          updated_at?: string
+          user_id?: string
+          version?: number
+        }
+        Update: {
+          data?: Json | null
+          deleted?: boolean
+          id?: string
+          schema_version?: number
+          updated_at?: string
+          user_id?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      goals: {
+        Row: {
+          data: Json | null
+          deleted: boolean
+          id: string
+          schema_version: number
+          updated_at: string
+          user_id: string
+          version: number
+        }
+        Insert: {
+          data?: Json | null
+          deleted?: boolean
+          id: string
+          schema_version: number
+          updated_at?: string
+          user_id?: string
+          version?: number
+        }
+        Update: {
+          data?: Json | null
+          deleted?: boolean
+          id?: string
+          schema_version?: number
+          updated_at?: string
+          user_id?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      transactions: {
+        Row: {
+          data: Json | null
+          deleted: boolean
+          id: string
+          schema_version: number
+          updated_at: string
+          user_id: string
+          version: number
+        }
+        Insert: {
+          data?: Json | null
+          deleted?: boolean
+          id: string
+          schema_version: number
+          updated_at?: string
+          user_id?: string
+          version?: number
+        }
+        Update: {
+          data?: Json | null
+          deleted?: boolean
+          id?: string
+          schema_version?: number
+          updated_at?: string
+          user_id?: string
+          version?: number
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      push_sync_rows: {
+        Args: {
+          p_rows: Json
+          p_table: string
+        }
+        Returns: {
+          applied: boolean
+          data: Json | null
+          deleted: boolean
+          id: string
+          schema_version: number
+          updated_at: string
+          version: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
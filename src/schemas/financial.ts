@@ -27,12 +27,45 @@ export const AccountSchema = z.object({
     z.literal('savings'),
     z.literal('investment')
   ]),
-  balance: z.number({
-    message: 'Saldo deve ser um número'
-  }).finite('Saldo deve ser um número válido'),
+  openingBalance: z.number({
+    message: 'Saldo inicial deve ser um número'
+  }).finite('Saldo inicial deve ser um número válido'),
   color: hexColorSchema,
 });
 
+// Recurrence Schema
+export const RecurrenceRuleSchema = z.object({
+  frequency: z.union([
+    z.literal('daily'),
+    z.literal('weekly'),
+    z.literal('monthly'),
+    z.literal('yearly')
+  ]),
+  interval: z.number()
+    .int('Intervalo deve ser um número inteiro')
+    .min(1, 'Intervalo deve ser pelo menos 1'),
+  endDate: z.coerce.date({
+    message: 'Data final deve ser válida'
+  }).optional(),
+  count: z.number()
+    .int('Número de ocorrências deve ser inteiro')
+    .min(1, 'Número de ocorrências deve ser pelo menos 1')
+    .optional(),
+  dayOfMonth: z.number()
+    .int()
+    .min(1, 'Dia do mês deve ser entre 1 e 31')
+    .max(31, 'Dia do mês deve ser entre 1 e 31')
+    .optional(),
+  lastGeneratedIndex: z.number().int().min(0).optional(),
+});
+
+// Transaction Split Schema
+export const TransactionSplitSchema = z.object({
+  category: z.string().min(1, 'Categoria da divisão é obrigatória'),
+  amount: positiveNumberSchema('Valor da divisão'),
+  tags: z.array(z.string().trim().min(1)).optional(),
+});
+
 // Transaction Schema
 export const TransactionSchema = z.object({
   description: z.string()
@@ -42,16 +75,69 @@ export const TransactionSchema = z.object({
   amount: positiveNumberSchema('Valor'),
   type: z.union([
     z.literal('income'),
-    z.literal('expense')
+    z.literal('expense'),
+    z.literal('transfer')
   ]),
-  category: z.string().min(1, 'Categoria é obrigatória'),
-  account: z.string().min(1, 'Conta é obrigatória'),
+  category: z.string(),
+  account: z.string(),
+  toAccount: z.string().optional(),
+  creditCard: z.string().optional(),
+  statement: z.string().regex(/^\d{4}-\d{2}$/, 'Fatura inválida').optional(),
+  installments: z.number()
+    .int('Número de parcelas deve ser inteiro')
+    .min(1, 'Número de parcelas deve ser pelo menos 1')
+    .max(48, 'Número de parcelas deve ser no máximo 48')
+    .optional(),
   date: z.date({
     message: 'Data deve ser válida'
   }).max(new Date(), 'Data não pode ser no futuro'),
   recurring: z.boolean().default(false),
+  recurrence: RecurrenceRuleSchema.optional(),
+  recurrenceParentId: z.string().optional(),
+  recurrenceIndex: z.number().int().min(0).optional(),
   tags: z.array(z.string().trim().min(1)).optional(),
-});
+  splits: z.array(TransactionSplitSchema).optional(),
+  externalId: z.string().optional(),
+}).refine(
+  (data) => data.type === 'transfer' || data.category.length > 0,
+  {
+    message: 'Categoria é obrigatória',
+    path: ['category'],
+  }
+).refine(
+  (data) => !!data.account || (data.type !== 'transfer' && !!data.creditCard),
+  {
+    message: 'Conta é obrigatória',
+    path: ['account'],
+  }
+).refine(
+  (data) => data.type !== 'transfer' || !!data.creditCard || 
+    (!!data.toAccount && data.toAccount !== data.account),
+  {
+    message: 'Conta de destino deve ser diferente da conta de origem',
+    path: ['toAccount'],
+  }
+).refine(
+  (data) => (data.installments || 1) === 1 || 
+    (data.type === 'expense' && !!data.creditCard && !data.recurring),
+  {
+    message: 'Somente compras no cartão, não recorrentes, podem ser parceladas',
+    path: ['installments'],
+  }
+).refine(
+  (data) => !data.splits || (data.type !== 'transfer' && data.splits.length >= 2),
+  {
+    message: 'Divida a transação em pelo menos duas categorias',
+    path: ['splits'],
+  }
+).refine(
+  (data) => !data.splits ||
+    Math.abs(data.splits.reduce((sum, split) => sum + split.amount, 0) - data.amount) < 0.005,
+  {
+    message: 'A soma das divisões deve ser igual ao valor da transação',
+    path: ['splits'],
+  }
+);
 
 // Credit Card Schema
 export const CreditCardSchema = z.object({
@@ -61,7 +147,7 @@ export const CreditCardSchema = z.object({
     .trim(),
   bank: z.string().min(1, 'Banco é obrigatório'),
   limit: positiveNumberSchema('Limite'),
-  currentBalance: nonNegativeNumberSchema('Saldo atual'),
+  openingBalance: nonNegativeNumberSchema('Saldo anterior'),
   dueDate: z.number()
     .int('Dia de vencimento deve ser um número inteiro')
     .min(1, 'Dia de vencimento deve ser entre 1 e 31')
@@ -72,10 +158,10 @@ export const CreditCardSchema = z.object({
     .max(31, 'Dia de fechamento deve ser entre 1 e 31'),
   color: hexColorSchema,
 }).refine(
-  (data) => data.currentBalance <= data.limit,
+  (data) => data.openingBalance <= data.limit,
   {
-    message: 'Saldo atual não pode ser maior que o limite',
-    path: ['currentBalance'],
+    message: 'Saldo anterior não pode ser maior que o limite',
+    path: ['openingBalance'],
   }
 ).refine(
   (data) => data.dueDate !== data.closingDate,
@@ -85,6 +171,22 @@ export const CreditCardSchema = z.object({
   }
 );
 
+// Category Schema
+export const CategorySchema = z.object({
+  name: z.string()
+    .min(2, 'Nome deve ter pelo menos 2 caracteres')
+    .max(40, 'Nome deve ter no máximo 40 caracteres')
+    .trim(),
+  type: z.union([
+    z.literal('income'),
+    z.literal('expense')
+  ]),
+  color: hexColorSchema,
+  icon: z.string().min(1, 'Ícone é obrigatório'),
+  parentId: z.string().optional(),
+  archived: z.boolean().optional(),
+});
+
 // Goal Schema
 export const GoalSchema = z.object({
   title: z.string()
@@ -119,6 +221,22 @@ export const GoalSchema = z.object({
   }
 );
 
+// Goal Contribution Schema
+export const GoalContributionSchema = z.object({
+  type: z.union([
+    z.literal('contribution'),
+    z.literal('withdrawal')
+  ]),
+  amount: positiveNumberSchema('Valor'),
+  date: z.date({
+    message: 'Data deve ser uma data válida'
+  }),
+  note: z.string()
+    .max(200, 'Observação deve ter no máximo 200 caracteres')
+    .trim()
+    .optional(),
+});
+
 // Budget Schema
 export const BudgetSchema = z.object({
   category: z.string().min(1, 'Categoria é obrigatória'),
@@ -130,6 +248,7 @@ export const BudgetSchema = z.object({
   ]),
   color: hexColorSchema,
   alerts: z.boolean().default(true),
+  rollover: z.boolean().default(false),
   alertThreshold: z.number()
     .min(0, 'Limite de alerta não pode ser negativo')
     .max(100, 'Limite de alerta não pode ser maior que 100%')
@@ -171,11 +290,77 @@ export const SettingsSchema = z.object({
   }),
 });
 
+// Stored record schemas: the minimum shape persisted data needs to be loaded. They are
+// looser than the form schemas above, which also enforce input rules (future dates,
+// name lengths) that older records may not meet.
+const storedDateSchema = z.union([z.string(), z.date()]).pipe(z.coerce.date({ message: 'Data inválida' }));
+const storedIdSchema = z.string().min(1);
+const finiteNumberSchema = z.number().finite();
+
+export const StoredAccountSchema = z.object({
+  id: storedIdSchema,
+  name: z.string(),
+  type: z.enum(['checking', 'savings', 'investment']),
+  openingBalance: finiteNumberSchema,
+  createdAt: storedDateSchema,
+});
+
+export const StoredTransactionSchema = z.object({
+  id: storedIdSchema,
+  description: z.string(),
+  amount: finiteNumberSchema,
+  type: z.enum(['income', 'expense', 'transfer']),
+  category: z.string(),
+  account: z.string(),
+  date: storedDateSchema,
+  splits: z.array(z.object({ category: z.string(), amount: finiteNumberSchema })).optional(),
+});
+
+export const StoredCreditCardSchema = z.object({
+  id: storedIdSchema,
+  name: z.string(),
+  limit: finiteNumberSchema,
+  openingBalance: finiteNumberSchema,
+  dueDate: z.number().int(),
+  closingDate: z.number().int(),
+});
+
+export const StoredCategorySchema = z.object({
+  id: storedIdSchema,
+  name: z.string(),
+  type: z.enum(['income', 'expense']),
+});
+
+export const StoredGoalSchema = z.object({
+  id: storedIdSchema,
+  title: z.string(),
+  targetAmount: finiteNumberSchema,
+  deadline: storedDateSchema,
+  createdAt: storedDateSchema,
+});
+
+export const StoredGoalContributionSchema = z.object({
+  id: storedIdSchema,
+  goalId: z.string(),
+  type: z.enum(['contribution', 'withdrawal']),
+  amount: finiteNumberSchema,
+  date: storedDateSchema,
+});
+
+export const StoredBudgetSchema = z.object({
+  id: storedIdSchema,
+  category: z.string(),
+  limit: finiteNumberSchema,
+  period: z.enum(['monthly', 'weekly', 'yearly']),
+});
+
 // Export inferred types
 export type AccountFormData = z.infer<typeof AccountSchema>;
 export type TransactionFormData = z.infer<typeof TransactionSchema>;
 export type CreditCardFormData = z.infer<typeof CreditCardSchema>;
+export type CategoryFormData = z.infer<typeof CategorySchema>;
 export type GoalFormData = z.infer<typeof GoalSchema>;
+export type GoalContributionFormData = z.infer<typeof GoalContributionSchema>;
 export type BudgetFormData = z.infer<typeof BudgetSchema>;
 export type SettingsFormData = z.infer<typeof SettingsSchema>;
 
@@ -3,21 +3,47 @@ export interface Account {
   name: string;
   bank: string;
   type: 'checking' | 'savings' | 'investment';
-  balance: number;
+  openingBalance: number;
+  balance: number; // Derived from openingBalance plus the transaction ledger
+  storedBalance?: number; // Legacy or imported balance awaiting reconciliation
   color: string;
   createdAt: Date;
 }
 
+export interface RecurrenceRule {
+  frequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  interval: number; // Repeat every N periods
+  endDate?: Date;
+  count?: number; // Total occurrences, including the first one
+  dayOfMonth?: number; // Monthly/yearly only; clamped to the last day in shorter months
+  lastGeneratedIndex?: number; // Highest occurrence already materialized
+}
+
+export interface TransactionSplit {
+  category: string;
+  amount: number; // Positive share of the transaction amount
+  tags?: string[];
+}
+
 export interface Transaction {
   id: string;
   description: string;
   amount: number;
-  type: 'income' | 'expense';
+  type: 'income' | 'expense' | 'transfer';
   category: string;
   account: string;
+  toAccount?: string; // Destination account id, only for transfers
+  creditCard?: string; // Card charged, or the card being paid when type is 'transfer'
+  statement?: string; // Statement (fatura) settled by a card payment, as 'yyyy-MM' of its closing month
+  installments?: number; // Card purchase split into this many monthly statements (parcelamento)
+  splits?: TransactionSplit[]; // Per-category breakdown summing to amount; category mirrors the first split
   date: Date;
   recurring: boolean;
+  recurrence?: RecurrenceRule;
+  recurrenceParentId?: string; // Set on occurrences generated from a recurring transaction
+  recurrenceIndex?: number;
   tags?: string[];
+  externalId?: string; // Id assigned by the bank file it was imported from (OFX FITID)
 }
 
 export interface CreditCard {
@@ -25,7 +51,8 @@ export interface CreditCard {
   name: string;
   bank: string;
   limit: number;
-  currentBalance: number;
+  openingBalance: number; // Debt carried over from before charges were tracked
+  currentBalance: number; // Derived from openingBalance, charges and payments
   dueDate: number;
   closingDate: number;
   color: string;
@@ -37,6 +64,8 @@ export interface Category {
   type: 'income' | 'expense';
   color: string;
   icon: string;
+  parentId?: string; // Set on subcategories; only one level of nesting
+  archived?: boolean; // Hidden from pickers but kept for existing transactions
 }
 
 export const BANKS = [
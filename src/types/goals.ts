@@ -3,20 +3,32 @@ export interface FinancialGoal {
   title: string;
   description?: string;
   targetAmount: number;
-  currentAmount: number;
+  currentAmount: number; // Derived from the goal's contribution ledger
   deadline: Date;
   category: 'savings' | 'investment' | 'purchase' | 'debt' | 'emergency';
   color: string;
+  accountId?: string; // Savings or investment account where the money is kept
   createdAt: Date;
-  completed: boolean;
+  completed: boolean; // Derived: current amount reached the target
+}
+
+export interface GoalContribution {
+  id: string;
+  goalId: string;
+  type: 'contribution' | 'withdrawal';
+  amount: number; // Always positive; the type gives the direction
+  date: Date;
+  note?: string;
+  transactionId?: string; // Transfer that moved the money between accounts, if any
 }
 
 export interface Budget {
   id: string;
-  category: string;
+  category: string; // Category id; spending in its subcategories counts too
   limit: number;
-  spent: number;
   period: 'monthly' | 'weekly' | 'yearly';
   color: string;
   alerts: boolean;
+  rollover?: boolean; // Carry unspent or overspent amounts into the next period
+  createdAt?: Date; // First period tracked for rollover
 }
\ No newline at end of file
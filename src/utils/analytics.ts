@@ -1,6 +1,9 @@
-import { Transaction, Account } from '@/types/financial';
-import { FinancialGoal, Budget } from '@/types/goals';
-import { format, startOfMonth, endOfMonth, subMonths, isSameMonth, startOfYear, endOfYear } from 'date-fns';
+import { Transaction, Account, Category } from '@/types/financial';
+import { FinancialGoal, Budget, GoalContribution } from '@/types/goals';
+import { format, startOfMonth, endOfMonth, subMonths, isSameMonth, startOfYear, endOfYear, differenceInCalendarDays } from 'date-fns';
+import { getBudgetStatus } from '@/utils/budgets';
+import { getAverageMonthlyContribution, getRequiredMonthlyPace } from '@/utils/goals';
+import { getCategoryAllocations } from '@/utils/splits';
 import { ptBR } from 'date-fns/locale';
 
 export interface SpendingPattern {
@@ -55,6 +58,7 @@ export interface GoalAnalysis {
   currentAmount: number;
   monthsToComplete: number;
   requiredMonthlySaving: number;
+  averageMonthlyContribution: number; // Net amount actually saved per month recently
   isOnTrack: boolean;
   completionDate?: Date;
   status: 'on-track' | 'behind' | 'ahead' | 'completed' | 'at-risk';
@@ -65,17 +69,26 @@ export class FinancialAnalytics {
   private accounts: Account[];
   private budgets: Budget[];
   private goals: FinancialGoal[];
+  private categories: Category[];
+  private budgetDay: number;
+  private goalContributions: GoalContribution[];
 
   constructor(
     transactions: Transaction[],
     accounts: Account[],
     budgets: Budget[] = [],
-    goals: FinancialGoal[] = []
+    goals: FinancialGoal[] = [],
+    categories: Category[] = [],
+    budgetDay: number = 1,
+    goalContributions: GoalContribution[] = []
   ) {
     this.transactions = transactions.sort((a, b) => b.date.getTime() - a.date.getTime());
     this.accounts = accounts;
     this.budgets = budgets;
     this.goals = goals;
+    this.categories = categories;
+    this.budgetDay = budgetDay;
+    this.goalContributions = goalContributions;
   }
 
   // Spending Patterns Analysis
@@ -113,19 +126,23 @@ export class FinancialAnalytics {
       previousTotal: number;
     }>();
 
-    // Current period
+    // Current period; split transactions count once in each category they cover
     expenses.forEach(transaction => {
-      const current = categoryStats.get(transaction.category) || { total: 0, count: 0, previousTotal: 0 };
-      current.total += transaction.amount;
-      current.count += 1;
-      categoryStats.set(transaction.category, current);
+      getCategoryAllocations(transaction).forEach(split => {
+        const current = categoryStats.get(split.category) || { total: 0, count: 0, previousTotal: 0 };
+        current.total += split.amount;
+        current.count += 1;
+        categoryStats.set(split.category, current);
+      });
     });
 
     // Previous period
     previousExpenses.forEach(transaction => {
-      const current = categoryStats.get(transaction.category) || { total: 0, count: 0, previousTotal: 0 };
-      current.previousTotal += transaction.amount;
-      categoryStats.set(transaction.category, current);
+      getCategoryAllocations(transaction).forEach(split => {
+        const current = categoryStats.get(split.category) || { total: 0, count: 0, previousTotal: 0 };
+        current.previousTotal += split.amount;
+        categoryStats.set(split.category, current);
+      });
     });
 
     const totalExpenses = Array.from(categoryStats.values()).reduce((sum, stat) => sum + stat.total, 0);
@@ -182,20 +199,22 @@ export class FinancialAnalytics {
       const savingsRate = income > 0 ? (balance / income) * 100 : 0;
 
       // Top categories for this month
-      const categoryExpenses = new Map<string, number>();
+      const categoryExpenses = new Map<string, { total: number; count: number }>();
       monthTransactions
         .filter(t => t.type === 'expense')
         .forEach(t => {
-          const current = categoryExpenses.get(t.category) || 0;
-          categoryExpenses.set(t.category, current + t.amount);
+          getCategoryAllocations(t).forEach(split => {
+            const current = categoryExpenses.get(split.category) || { total: 0, count: 0 };
+            categoryExpenses.set(split.category, { total: current.total + split.amount, count: current.count + 1 });
+          });
         });
 
       const topCategories: SpendingPattern[] = Array.from(categoryExpenses.entries())
-        .map(([category, total]) => ({
+        .map(([category, { total, count }]) => ({
           category,
           totalAmount: total,
-          transactionCount: monthTransactions.filter(t => t.category === category && t.type === 'expense').length,
-          averageAmount: total / monthTransactions.filter(t => t.category === category && t.type === 'expense').length,
+          transactionCount: count,
+          averageAmount: total / count,
           percentage: expenses > 0 ? (total / expenses) * 100 : 0,
           trend: 'stable' as const,
           trendPercentage: 0,
@@ -220,24 +239,14 @@ export class FinancialAnalytics {
   // Budget Analysis
   getBudgetAnalysis(): BudgetAnalysis[] {
     const now = new Date();
-    const monthStart = startOfMonth(now);
-    const monthEnd = endOfMonth(now);
-    const daysInMonth = monthEnd.getDate();
-    const daysPassed = now.getDate();
-    const daysRemaining = daysInMonth - daysPassed;
 
     return this.budgets.map(budget => {
-      // Calculate spent amount for current month
-      const categoryTransactions = this.transactions.filter(
-        t => t.type === 'expense' && 
-             t.category === budget.category && 
-             t.date >= monthStart && 
-             t.date <= now
-      );
-
-      const spent = categoryTransactions.reduce((sum, t) => sum + t.amount, 0);
-      const remaining = budget.limit - spent;
-      const utilizationPercentage = (spent / budget.limit) * 100;
+      // Current budget period, including any amount carried over by rollover
+      const { start, end, available, spent, remaining, percentage: utilizationPercentage } =
+        getBudgetStatus(budget, this.transactions, this.categories, this.budgetDay, now);
+      const daysInPeriod = differenceInCalendarDays(end, start) + 1;
+      const daysPassed = differenceInCalendarDays(now, start) + 1;
+      const daysRemaining = daysInPeriod - daysPassed;
       
       let status: 'safe' | 'warning' | 'critical' | 'exceeded';
       if (utilizationPercentage <= 60) status = 'safe';
@@ -245,18 +254,18 @@ export class FinancialAnalytics {
       else if (utilizationPercentage <= 100) status = 'critical';
       else status = 'exceeded';
 
-      const dailyBudget = budget.limit / daysInMonth;
+      const dailyBudget = available / daysInPeriod;
       const averageDailySpending = daysPassed > 0 ? spent / daysPassed : 0;
       
       let projectedOverrun: number | undefined;
       if (averageDailySpending > dailyBudget && daysRemaining > 0) {
-        const projectedMonthlySpend = averageDailySpending * daysInMonth;
-        projectedOverrun = projectedMonthlySpend - budget.limit;
+        const projectedPeriodSpend = averageDailySpending * daysInPeriod;
+        projectedOverrun = projectedPeriodSpend - available;
       }
 
       return {
         category: budget.category,
-        budgeted: budget.limit,
+        budgeted: available,
         spent,
         remaining,
         utilizationPercentage,
@@ -282,14 +291,17 @@ export class FinancialAnalytics {
         (goal.deadline.getTime() - now.getTime()) / (1000 * 60 * 60 * 24 * 30.44)
       );
       
-      const requiredMonthlySaving = monthsUntilDeadline > 0 ? remaining / monthsUntilDeadline : remaining;
+      // Pace from the contribution ledger: what is still needed versus what is being saved
+      const requiredMonthlySaving = getRequiredMonthlyPace(goal, goal.currentAmount, now);
+      const averageMonthlyContribution = getAverageMonthlyContribution(goal, this.goalContributions, 6, now);
       
       // Determine if on track (simplified calculation)
       const expectedProgress = monthsUntilDeadline > 0 ? 
         ((goal.deadline.getTime() - goal.createdAt.getTime()) - (goal.deadline.getTime() - now.getTime())) / 
         (goal.deadline.getTime() - goal.createdAt.getTime()) * 100 : 100;
       
-      const isOnTrack = progress >= expectedProgress * 0.9; // 90% of expected progress
+      const isOnTrack = progress >= expectedProgress * 0.9 || // 90% of expected progress
+        (remaining > 0 && averageMonthlyContribution >= requiredMonthlySaving);
       
       let status: GoalAnalysis['status'];
       if (progress >= 100) status = 'completed';
@@ -298,10 +310,10 @@ export class FinancialAnalytics {
       else if (progress > expectedProgress * 1.1) status = 'ahead';
       else status = 'on-track';
 
-      // Estimate completion date
+      // Estimate completion date at the pace actually being saved
       let completionDate: Date | undefined;
-      if (progress < 100 && monthsUntilDeadline > 0) {
-        const monthsToComplete = remaining / Math.max(requiredMonthlySaving, 1);
+      if (progress < 100 && averageMonthlyContribution > 0) {
+        const monthsToComplete = remaining / averageMonthlyContribution;
         completionDate = new Date(now.getTime() + monthsToComplete * 30.44 * 24 * 60 * 60 * 1000);
       }
 
@@ -313,6 +325,7 @@ export class FinancialAnalytics {
         currentAmount: goal.currentAmount,
         monthsToComplete: monthsUntilDeadline,
         requiredMonthlySaving,
+        averageMonthlyContribution,
         isOnTrack,
         completionDate,
         status,
@@ -0,0 +1,102 @@
+/**
+ * Passphrase-protected backup files. The file is a JSON envelope that names its format
+ * and version and carries the key derivation parameters, so it can be recognized and
+ * decrypted on import without any other state.
+ */
+
+import type { BackupData } from '@/hooks/useBackupRestore';
+import { decryptWithPassphrase, encryptWithPassphrase, hashData, isValidIterationCount } from '@/utils/encryption';
+
+export const BACKUP_FILE_FORMAT = 'tijigui-mobills-backup';
+export const BACKUP_FILE_VERSION = 1;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface EncryptedBackupFile {
+  format: typeof BACKUP_FILE_FORMAT;
+  version: number;
+  createdAt: string;
+  encryption: {
+    algorithm: 'AES-GCM';
+    kdf: 'PBKDF2';
+    hash: 'SHA-256';
+    iterations: number;
+    salt: string;
+    iv: string;
+  };
+  checksum: string; // SHA-256 of the ciphertext, tells a damaged file from a wrong passphrase
+  data: string;
+}
+
+const parseEnvelope = (content: string): EncryptedBackupFile | null => {
+  try {
+    const parsed = JSON.parse(content);
+    return parsed && parsed.format === BACKUP_FILE_FORMAT ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isEncryptedBackupFile = (content: string): boolean => parseEnvelope(content) !== null;
+
+export const encryptBackup = async (backup: BackupData, passphrase: string): Promise<string> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`A senha deve ter pelo menos ${MIN_PASSPHRASE_LENGTH} caracteres`);
+  }
+
+  const ciphertext = await encryptWithPassphrase(JSON.stringify(backup), passphrase);
+  const file: EncryptedBackupFile = {
+    format: BACKUP_FILE_FORMAT,
+    version: BACKUP_FILE_VERSION,
+    createdAt: new Date().toISOString(),
+    encryption: {
+      algorithm: 'AES-GCM',
+      kdf: 'PBKDF2',
+      hash: 'SHA-256',
+      iterations: ciphertext.iterations,
+      salt: ciphertext.salt,
+      iv: ciphertext.iv,
+    },
+    checksum: await hashData(ciphertext.data),
+    data: ciphertext.data,
+  };
+
+  return JSON.stringify(file, null, 2);
+};
+
+export const decryptBackup = async (content: string, passphrase: string): Promise<BackupData> => {
+  const file = parseEnvelope(content);
+  if (!file) {
+    throw new Error('Arquivo de backup não reconhecido');
+  }
+  if (file.version > BACKUP_FILE_VERSION) {
+    throw new Error(`Versão do arquivo de backup não suportada (v${file.version}). Atualize o aplicativo.`);
+  }
+  if (!file.encryption?.salt || !file.encryption.iv || !file.data || (await hashData(file.data)) !== file.checksum) {
+    throw new Error('Arquivo de backup corrompido');
+  }
+  if (!isValidIterationCount(file.encryption.iterations)) {
+    throw new Error('Arquivo de backup com parâmetros de criptografia inválidos');
+  }
+
+  let plaintext: string;
+  try {
+    plaintext = await decryptWithPassphrase(
+      {
+        salt: file.encryption.salt,
+        iv: file.encryption.iv,
+        iterations: file.encryption.iterations,
+        data: file.data,
+      },
+      passphrase
+    );
+  } catch {
+    // The ciphertext matches its checksum, so the key is what is wrong
+    throw new Error('Senha incorreta');
+  }
+
+  try {
+    return JSON.parse(plaintext);
+  } catch {
+    throw new Error('Arquivo de backup corrompido');
+  }
+};
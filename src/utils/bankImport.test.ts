@@ -0,0 +1,58 @@
+// @vitest-environment node
+// Blob.stream() is missing from jsdom
+import { describe, expect, it } from 'vitest';
+import { CSVParser, decodeText, detectEncoding, readCSVRecords } from '@/utils/bankImport';
+
+const parseRecords = (content: string, delimiter = ',') => new CSVParser(delimiter, false).parse(content);
+
+describe('CSVParser', () => {
+  it('keeps delimiters and escaped quotes inside quoted fields', () => {
+    expect(parseRecords('data;descrição;valor\n05/02/2025;"Padaria; ""Pão Quente""";-12,50', ';')).toEqual([
+      ['data', 'descrição', 'valor'],
+      ['05/02/2025', 'Padaria; "Pão Quente"', '-12,50'],
+    ]);
+  });
+
+  it('reads line breaks inside quoted fields as part of the field', () => {
+    expect(parseRecords('data,descricao,valor\r\n05/02/2025,"PIX recebido\r\nJoão",100\r\n')).toEqual([
+      ['data', 'descricao', 'valor'],
+      ['05/02/2025', 'PIX recebido\r\nJoão', '100'],
+    ]);
+  });
+
+  it('drops the BOM and skips blank lines', () => {
+    const rows = new CSVParser(',', true).parse('\uFEFFdata,valor\n\n05/02/2025,10\n\n');
+    expect(rows).toEqual([{ data: '05/02/2025', valor: '10' }]);
+  });
+
+  it('parses the same records when the content arrives in chunks', () => {
+    const content = 'a,"b\n""c""",d\ne,f,g';
+    const parser = new CSVParser(',', false);
+    const records = [...content].flatMap(char => parser.write(char));
+    expect([...records, ...parser.end()]).toEqual(parseRecords(content));
+  });
+});
+
+describe('decodeText', () => {
+  it('detects UTF-8 with a BOM and drops the BOM', () => {
+    const bytes = new Uint8Array([0xef, 0xbb, 0xbf, ...new TextEncoder().encode('Mercado São João')]);
+    expect(detectEncoding(bytes)).toBe('utf-8');
+    expect(decodeText(bytes.buffer)).toBe('Mercado São João');
+  });
+
+  it('falls back to Windows-1252 when the bytes are not valid UTF-8', () => {
+    const bytes = new Uint8Array([0x53, 0xe3, 0x6f]); // "São" in Windows-1252
+    expect(detectEncoding(bytes)).toBe('windows-1252');
+    expect(decodeText(bytes.buffer)).toBe('São');
+  });
+});
+
+describe('readCSVRecords', () => {
+  it('reads a file with a BOM and quoted multiline fields', async () => {
+    const file = new Blob(['\uFEFFdata;descricao\n05/02/2025;"Linha 1\nLinha 2"\n']);
+    expect(await readCSVRecords(file, ';')).toEqual([
+      ['data', 'descricao'],
+      ['05/02/2025', 'Linha 1\nLinha 2'],
+    ]);
+  });
+});
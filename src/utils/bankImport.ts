@@ -1,6 +1,34 @@
 import { Transaction } from '@/types/financial';
 import { format, parse } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { OFXStatement, OFXTransaction, decodeOFX, parseOFX } from '@/utils/ofx';
+import { QIFDateOrder, parseQIF } from '@/utils/qif';
+import { parseCAMT053 } from '@/utils/camt';
+import { DuplicateCandidate, findDuplicateCandidate } from '@/utils/duplicates';
+import { StoredAccount, getAccountBalanceAt } from '@/utils/ledger';
+
+export interface ImportedStatement {
+  kind: OFXStatement['kind'];
+  currency: string;
+  bankId?: string;
+  accountId: string; // Account number as written in the file
+  accountType?: string;
+  targetAccount: string; // Account the transactions were assigned to
+  startDate?: Date;
+  endDate?: Date;
+  ledgerBalance?: number;
+  availableBalance?: number;
+  transactionCount: number;
+}
+
+export interface StatementBalanceCheck {
+  account: string;
+  asOf: Date;
+  statementBalance: number; // LEDGERBAL reported by the bank
+  ledgerBalance: number; // Account balance on that date once the import is applied
+  difference: number;
+  matches: boolean;
+}
 
 export interface ImportResult {
   success: boolean;
@@ -9,22 +37,76 @@ export interface ImportResult {
   warnings: string[];
   duplicates: number;
   imported: number;
+  statements?: ImportedStatement[];
+  balanceChecks?: StatementBalanceCheck[];
+  duplicateCandidates?: DuplicateCandidate[]; // Left out of transactions until the user merges, skips or keeps them
 }
 
+// Differences below half a cent are rounding noise
+const BALANCE_TOLERANCE = 0.005;
+
+export type DecimalSeparator = ',' | '.';
+
+// 'signed': negative amounts are expenses. 'inverted': positive amounts are expenses, as in card statements.
+export type SignConvention = 'signed' | 'inverted';
+
 export interface BankMapping {
-  dateColumn: string;
+  dateColumn: string; // Header name, or the column index when the file has no headers
   descriptionColumn: string;
-  amountColumn: string;
+  amountColumn: string; // Empty when the file has separate debit and credit columns
+  debitColumn?: string;
+  creditColumn?: string;
   typeColumn?: string;
   categoryColumn?: string;
-  accountColumn?: string;
+  accountColumn?: string; // Overrides the target account per row
   balanceColumn?: string;
+  idColumn?: string; // Bank transaction id, used for exact duplicate detection
   dateFormat: string;
-  encoding?: string;
+  encoding?: string; // Detected from the file when missing or 'auto'
   delimiter?: string;
   hasHeaders?: boolean;
+  decimalSeparator?: DecimalSeparator; // Guessed per value when missing
+  signConvention?: SignConvention; // Used when there is no type column; defaults to 'signed'
+}
+
+// A parsed file row with the transaction it produced, for review before importing
+export interface ImportPreviewRow {
+  line: number; // Line, or record number for QIF and CAMT.053
+  raw: Record<string, string>;
+  transaction?: Transaction;
+  error?: string;
+  duplicate: boolean; // Matches an existing transaction or an earlier row with the same bank id
+  candidate?: DuplicateCandidate;
 }
 
+export const DATE_FORMATS = ['dd/MM/yyyy', 'dd/MM/yy', 'dd-MM-yyyy', 'dd.MM.yyyy', 'yyyy-MM-dd', 'MM/dd/yyyy'];
+
+// QIF and CAMT.053 records are turned into rows with these fields before going through
+// the same conversion as CSV rows
+export const STATEMENT_ROW_MAPPING: BankMapping = {
+  dateColumn: 'date',
+  descriptionColumn: 'description',
+  amountColumn: 'amount',
+  categoryColumn: 'category',
+  accountColumn: 'account',
+  idColumn: 'id',
+  dateFormat: 'yyyy-MM-dd',
+  decimalSeparator: '.',
+  signConvention: 'signed',
+  hasHeaders: false,
+};
+
+export interface StatementRows {
+  rows: Record<string, string>[]; // The account field holds the account name or number in the file
+  lineNumbers: number[];
+  warnings: string[];
+}
+
+export const AUTO_ENCODING = 'auto';
+
+// User-defined mappings saved from the import wizard, keyed by preset name
+export const IMPORT_PRESETS_STORAGE_KEY = 'financial-import-presets';
+
 // Pre-defined bank mappings
 export const BANK_MAPPINGS: Record<string, BankMapping> = {
   'nubank': {
@@ -78,10 +160,128 @@ export const BANK_MAPPINGS: Record<string, BankMapping> = {
   },
 };
 
-// CSV Parser
-class CSVParser {
+/**
+ * Built-in mappings followed by the user's presets; a preset with a built-in name replaces it
+ */
+export const getMappingPresets = (customPresets: Record<string, BankMapping> = {}): Record<string, BankMapping> => {
+  return { ...BANK_MAPPINGS, ...customPresets };
+};
+
+/**
+ * Most frequent delimiter on the first line among semicolon, comma and tab
+ */
+export const detectDelimiter = (content: string): string => {
+  const firstLine = content.split('\n').find(line => line.trim() !== '') || '';
+  const counts = [';', ',', '\t'].map(delimiter => ({
+    delimiter,
+    count: firstLine.split(delimiter).length - 1,
+  }));
+  const best = counts.sort((a, b) => b.count - a.count)[0];
+  return best.count > 0 ? best.delimiter : ',';
+};
+
+/**
+ * Starting mapping for an unknown layout, matching common header names
+ */
+export const suggestMapping = (headers: string[], delimiter: string): BankMapping => {
+  const used: string[] = [];
+  // Each column is suggested once, so "Data Lançamento" is not also taken as the description
+  const find = (pattern: RegExp) => {
+    const column = headers.find(header => !used.includes(header) && pattern.test(header.toLowerCase())) || '';
+    used.push(column);
+    return column;
+  };
+
+  const dateColumn = find(/^data|date|dt\b/);
+  const descriptionColumn = find(/descri|hist[oó]rico|memo|lan[cç]amento|title|estabelecimento/);
+  const amountColumn = find(/valor|amount|quantia|montante/);
+  // Statements with "Débito" and "Crédito" columns instead of a signed amount
+  const debitColumn = amountColumn ? '' : find(/d[eé]bito|debit|sa[ií]da/);
+  const creditColumn = amountColumn ? '' : find(/cr[eé]dito|credit|entrada/);
+
+  return {
+    dateColumn,
+    descriptionColumn,
+    amountColumn,
+    debitColumn: debitColumn || undefined,
+    creditColumn: creditColumn || undefined,
+    dateFormat: 'dd/MM/yyyy',
+    delimiter,
+    hasHeaders: true,
+    signConvention: 'signed',
+  };
+};
+
+/**
+ * Parses an amount as written in a bank file: "1.234,56", "R$ -10,00", "-R$ 10,00",
+ * "(123,45)", "10,00-" and "10,00 D" are all understood. Returns NaN without digits.
+ */
+export const parseImportAmount = (value: string, decimalSeparator?: DecimalSeparator): number => {
+  const text = value.toString().trim().replace(/\u2212/g, '-');
+  const negative = /^\(.*\)$/.test(text) || // Accounting parentheses
+    /^[^\d]*-/.test(text) || // Minus before the digits, possibly after the currency
+    /-\s*$/.test(text) || // Trailing minus
+    /\d\s*D$/i.test(text); // Debit marker
+  const digits = text.replace(/[^\d,.]/g, '');
+  if (!/\d/.test(digits)) return NaN;
+
+  // Without an explicit separator, the last one written is the decimal one,
+  // unless it repeats and can only be grouping thousands ("1.234.567")
+  const last = digits.lastIndexOf(',') > digits.lastIndexOf('.') ? ',' : '.';
+  const repeated = digits.split(last).length > 2;
+  const separator = decimalSeparator ?? (repeated ? (last === ',' ? '.' : ',') : last);
+  const normalized = separator === ','
+    ? digits.replace(/\./g, '').replace(',', '.')
+    : digits.replace(/,/g, '');
+
+  const amount = parseFloat(normalized);
+  return negative ? -Math.abs(amount) : Math.abs(amount);
+};
+
+/**
+ * Guesses the text encoding of a file from its first bytes: a BOM, valid UTF-8,
+ * or otherwise Windows-1252, the usual export encoding of Brazilian banks
+ */
+export const detectEncoding = (bytes: Uint8Array): string => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  try {
+    // Streaming mode tolerates a multi-byte character cut at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+const resolveEncoding = (bytes: Uint8Array, encoding?: string): string => {
+  return encoding && encoding !== AUTO_ENCODING ? encoding : detectEncoding(bytes);
+};
+
+/**
+ * Decodes file contents; the BOM is dropped by the decoder
+ */
+export const decodeText = (buffer: ArrayBuffer, encoding?: string): string => {
+  const bytes = new Uint8Array(buffer);
+  return new TextDecoder(resolveEncoding(bytes, encoding)).decode(bytes);
+};
+
+/**
+ * CSV parser following RFC 4180: quoted fields may contain delimiters, line breaks and
+ * quotes escaped as "". Content can be written in chunks as it is read from disk.
+ */
+export class CSVParser {
   private delimiter: string;
   private hasHeaders: boolean;
+  private record: string[] = [];
+  private field = '';
+  private inQuotes = false;
+  private fieldQuoted = false;
+  private quotePending = false; // A quote inside a quoted field: closes it unless another quote follows
+  private lastWasCR = false;
+  private atStart = true;
 
   constructor(delimiter: string = ',', hasHeaders: boolean = true) {
     this.delimiter = delimiter;
@@ -89,111 +289,144 @@ class CSVParser {
   }
 
   parse(csvContent: string): any[] {
-    const lines = csvContent.split('\n').filter(line => line.trim() !== '');
-    
-    if (lines.length === 0) {
-      return [];
-    }
+    return this.toRows([...this.write(csvContent), ...this.end()]);
+  }
 
-    const headers = this.hasHeaders ? this.parseLine(lines[0]) : null;
-    const dataLines = this.hasHeaders ? lines.slice(1) : lines;
+  // Feeds the next chunk and returns the records it completed
+  write(chunk: string): string[][] {
+    const records: string[][] = [];
+    const text = this.atStart ? chunk.replace(/^\uFEFF/, '') : chunk;
+    if (text) this.atStart = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (this.inQuotes) {
+        if (this.quotePending) {
+          this.quotePending = false;
+          if (char === '"') {
+            this.field += '"';
+            continue;
+          }
+          this.inQuotes = false;
+        } else if (char === '"') {
+          this.quotePending = true;
+          continue;
+        } else {
+          this.field += char;
+          continue;
+        }
+      }
 
-    return dataLines.map((line, index) => {
-      const values = this.parseLine(line);
-      
-      if (headers) {
-        const row: any = {};
-        headers.forEach((header, i) => {
-          row[header] = values[i] || '';
-        });
-        return row;
+      if (char === '\n' && this.lastWasCR) {
+        this.lastWasCR = false;
+        continue;
+      }
+      this.lastWasCR = char === '\r';
+
+      if (char === '"' && !this.fieldQuoted && this.field.trim() === '') {
+        this.inQuotes = true;
+        this.fieldQuoted = true;
+        this.field = '';
+      } else if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\n' || char === '\r') {
+        this.endRecord(records);
       } else {
-        return values;
+        this.field += char;
       }
-    });
+    }
+
+    return records;
   }
 
-  private parseLine(line: string): string[] {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === this.delimiter && !inQuotes) {
-        result.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
+  // Flushes the last record; an unterminated quote is closed at the end of the content
+  end(): string[][] {
+    const records: string[][] = [];
+    if (this.field !== '' || this.fieldQuoted || this.record.length > 0) {
+      this.endRecord(records);
     }
-    
-    result.push(current.trim());
-    return result;
+    this.inQuotes = false;
+    this.quotePending = false;
+    this.lastWasCR = false;
+    this.atStart = true;
+    return records;
   }
-}
 
-// OFX Parser (simplified)
-class OFXParser {
-  parse(ofxContent: string): any[] {
-    const transactions: any[] = [];
-    
-    // Simple regex-based parsing for basic OFX structure
-    const stmtTrnPattern = /<STMTTRN>([\s\S]*?)<\/STMTTRN>/g;
-    let match;
-    
-    while ((match = stmtTrnPattern.exec(ofxContent)) !== null) {
-      const trnContent = match[1];
-      
-      const transaction: any = {};
-      
-      // Extract transaction fields
-      const patterns = {
-        TRNTYPE: /<TRNTYPE>([^<]+)/,
-        DTPOSTED: /<DTPOSTED>([^<]+)/,
-        TRNAMT: /<TRNAMT>([^<]+)/,
-        FITID: /<FITID>([^<]+)/,
-        MEMO: /<MEMO>([^<]+)/,
-        NAME: /<NAME>([^<]+)/,
-      };
-      
-      Object.entries(patterns).forEach(([key, pattern]) => {
-        const fieldMatch = trnContent.match(pattern);
-        if (fieldMatch) {
-          transaction[key] = fieldMatch[1].trim();
-        }
+  // Keys records by the header record, or keeps them as arrays without headers
+  toRows(records: string[][]): any[] {
+    if (!this.hasHeaders) return records;
+
+    const [headers, ...dataRecords] = records;
+    if (!headers) return [];
+
+    return dataRecords.map(values => {
+      const row: Record<string, string> = {};
+      headers.forEach((header, i) => {
+        row[header] = values[i] || '';
       });
-      
-      if (transaction.DTPOSTED && transaction.TRNAMT) {
-        transactions.push(transaction);
-      }
+      return row;
+    });
+  }
+
+  private endField() {
+    this.record.push(this.fieldQuoted ? this.field : this.field.trim());
+    this.field = '';
+    this.fieldQuoted = false;
+  }
+
+  private endRecord(records: string[][]) {
+    this.endField();
+    // Blank lines are not records
+    if (this.record.length > 1 || this.record[0] !== '') {
+      records.push(this.record);
     }
-    
-    return transactions;
+    this.record = [];
   }
 }
 
+// Parse the records of a CSV file as it is read, decoding it chunk by chunk
+export const readCSVRecords = async (
+  file: Blob,
+  delimiter?: string,
+  encoding: string = AUTO_ENCODING
+): Promise<string[][]> => {
+  const parser = new CSVParser(delimiter, false);
+  const reader = file.stream().getReader();
+  const records: string[][] = [];
+  let decoder: TextDecoder | null = null;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    // The first chunk decides the encoding when none is given
+    decoder = decoder || new TextDecoder(resolveEncoding(value, encoding));
+    records.push(...parser.write(decoder.decode(value, { stream: true })));
+  }
+  if (decoder) records.push(...parser.write(decoder.decode()));
+  records.push(...parser.end());
+  return records;
+};
+
 // Main import class
 export class BankDataImporter {
   private existingTransactions: Transaction[];
+  private accounts: StoredAccount[];
 
-  constructor(existingTransactions: Transaction[] = []) {
+  constructor(existingTransactions: Transaction[] = [], accounts: StoredAccount[] = []) {
     this.existingTransactions = existingTransactions;
+    this.accounts = accounts;
   }
 
-  // Import from CSV
+  // Import from CSV, decoding and parsing the file as it is read
   async importFromCSV(
-    file: File,
+    file: Blob,
     mapping: BankMapping,
     accountName: string = 'Importação'
   ): Promise<ImportResult> {
     try {
-      const content = await this.readFile(file);
-      const parser = new CSVParser(mapping.delimiter, mapping.hasHeaders);
-      const rows = parser.parse(content);
+      const records = await readCSVRecords(file, mapping.delimiter, mapping.encoding);
+      const rows = new CSVParser(mapping.delimiter, mapping.hasHeaders).toRows(records);
       
       return this.processRows(rows, mapping, accountName, 'csv');
     } catch (error) {
@@ -208,30 +441,64 @@ export class BankDataImporter {
     }
   }
 
-  // Import from OFX
+  // Import from OFX/QFX. accountMap assigns statements to accounts by the ACCTID in the file;
+  // statements without an entry go to accountName.
   async importFromOFX(
-    file: File,
-    accountName: string = 'Importação'
+    file: Blob,
+    accountName: string = 'Importação',
+    accountMap: Record<string, string> = {}
+  ): Promise<ImportResult> {
+    try {
+      const content = decodeOFX(await this.readFileBuffer(file));
+      return this.processOFX(content, accountName, accountMap);
+    } catch (error) {
+      return {
+        success: false,
+        transactions: [],
+        errors: [`Erro ao processar arquivo OFX: ${error}`],
+        warnings: [],
+        duplicates: 0,
+        imported: 0,
+      };
+    }
+  }
+
+  // Import from QIF. accountMap assigns records to accounts by the !Account name in the file.
+  async importFromQIF(
+    file: Blob,
+    accountName: string = 'Importação',
+    accountMap: Record<string, string> = {},
+    dateOrder?: QIFDateOrder
   ): Promise<ImportResult> {
     try {
       const content = await this.readFile(file);
-      const parser = new OFXParser();
-      const transactions = parser.parse(content);
-      
-      const ofxMapping: BankMapping = {
-        dateColumn: 'DTPOSTED',
-        descriptionColumn: 'MEMO',
-        amountColumn: 'TRNAMT',
-        typeColumn: 'TRNTYPE',
-        dateFormat: 'yyyyMMdd',
+      return this.processStatementRows(this.getQIFRows(content, dateOrder), accountName, accountMap, 'qif');
+    } catch (error) {
+      return {
+        success: false,
+        transactions: [],
+        errors: [`Erro ao processar arquivo QIF: ${error}`],
+        warnings: [],
+        duplicates: 0,
+        imported: 0,
       };
-      
-      return this.processRows(transactions, ofxMapping, accountName, 'ofx');
+    }
+  }
+
+  // Import from CAMT.053. accountMap assigns statements to accounts by IBAN or account number.
+  async importFromCAMT053(
+    file: Blob,
+    accountName: string = 'Importação',
+    accountMap: Record<string, string> = {}
+  ): Promise<ImportResult> {
+    try {
+      const content = await this.readFile(file);
+      return this.processStatementRows(this.getCAMTRows(content), accountName, accountMap, 'camt');
     } catch (error) {
       return {
         success: false,
         transactions: [],
-        errors: [`Erro ao processar arquivo OFX: ${error}`],
+        errors: [`Erro ao processar arquivo CAMT.053: ${error}`],
         warnings: [],
         duplicates: 0,
         imported: 0,
@@ -239,6 +506,217 @@ export class BankDataImporter {
     }
   }
 
+  // Rows of the register transactions in a QIF file
+  getQIFRows(content: string, dateOrder?: QIFDateOrder): StatementRows {
+    const document = parseQIF(content, dateOrder);
+    const warnings = document.skippedSections.map(section => `Seção !Type:${section} ignorada`);
+
+    const rows = document.transactions.map(transaction => {
+      const parts = [transaction.payee, transaction.memo].filter(Boolean) as string[];
+      return {
+        date: transaction.date,
+        description: Array.from(new Set(parts)).join(' - '),
+        amount: transaction.amount,
+        category: transaction.category || '',
+        account: transaction.account || '',
+        id: '',
+      };
+    });
+
+    return { rows, lineNumbers: document.transactions.map(t => t.record), warnings };
+  }
+
+  // Rows of the booked entries in a CAMT.053 file; pending entries are left out
+  getCAMTRows(content: string): StatementRows {
+    const result: StatementRows = { rows: [], lineNumbers: [], warnings: [] };
+
+    parseCAMT053(content).forEach(statement => {
+      if (statement.currency && statement.currency !== 'BRL') {
+        result.warnings.push(`Extrato da conta ${statement.accountId} em ${statement.currency}: valores importados sem conversão`);
+      }
+
+      statement.entries.forEach(entry => {
+        if (entry.status !== 'BOOK') {
+          result.warnings.push(`Registro ${entry.record}: lançamento ${entry.status} ainda não contabilizado ignorado`);
+          return;
+        }
+        const parts = [entry.counterparty, entry.description].filter(Boolean) as string[];
+        result.rows.push({
+          date: entry.bookingDate || entry.valueDate || '',
+          description: Array.from(new Set(parts)).join(' - '),
+          amount: entry.amount,
+          category: '',
+          account: statement.accountId,
+          id: entry.reference || '',
+        });
+        result.lineNumbers.push(entry.record);
+      });
+    });
+
+    return result;
+  }
+
+  // Account ids or names found in a statement file, so each one can be assigned to an app account
+  getStatementAccounts(content: string, fileType: 'ofx' | 'qif' | 'camt'): string[] {
+    const accounts = fileType === 'ofx'
+      ? parseOFX(content).statements.map(statement => statement.account.accountId)
+      : fileType === 'qif'
+        ? this.getQIFRows(content).rows.map(row => row.account)
+        : parseCAMT053(content).map(statement => statement.accountId);
+    return Array.from(new Set(accounts.filter(Boolean)));
+  }
+
+  // Resolves the file account of each QIF or CAMT.053 row to an app account
+  mapStatementAccounts(
+    statementRows: StatementRows,
+    accountName: string,
+    accountMap: Record<string, string> = {}
+  ): StatementRows {
+    return {
+      ...statementRows,
+      rows: statementRows.rows.map(row => ({ ...row, account: accountMap[row.account] || accountName })),
+    };
+  }
+
+  // Runs QIF or CAMT.053 rows through the row pipeline, resolving each file account to an app account
+  processStatementRows(
+    statementRows: StatementRows,
+    accountName: string = 'Importação',
+    accountMap: Record<string, string> = {},
+    fileType: string
+  ): ImportResult {
+    const { rows } = this.mapStatementAccounts(statementRows, accountName, accountMap);
+    const result = this.processRows(rows, STATEMENT_ROW_MAPPING, accountName, fileType, statementRows.lineNumbers, 'Registro');
+    result.warnings.unshift(...statementRows.warnings);
+    return result;
+  }
+
+  // Process the statements of an OFX document into transactions
+  processOFX(
+    content: string,
+    accountName: string = 'Importação',
+    accountMap: Record<string, string> = {}
+  ): ImportResult {
+    const document = parseOFX(content);
+    const result: ImportResult = {
+      success: true,
+      transactions: [],
+      errors: [],
+      warnings: [],
+      duplicates: 0,
+      imported: 0,
+      statements: [],
+      balanceChecks: [],
+      duplicateCandidates: [],
+    };
+    const importedIds = new Set<string>();
+    const claimed = new Set<string>();
+
+    document.statements.forEach(statement => {
+      const targetAccount = accountMap[statement.account.accountId] || accountName;
+      const label = statement.account.accountId || targetAccount;
+
+      if (statement.currency !== 'BRL') {
+        result.warnings.push(`Extrato da conta ${label} em ${statement.currency}: valores importados sem conversão`);
+      }
+
+      let transactionCount = 0;
+      statement.transactions.forEach(ofxTransaction => {
+        const transaction = this.convertOFXTransaction(ofxTransaction, targetAccount);
+        const key = `${targetAccount}:${transaction.externalId}`;
+
+        // FITID is unique per account, so a repeated one is the same transaction
+        if (importedIds.has(key)) {
+          result.duplicates++;
+          result.warnings.push(`${label}: transação ${ofxTransaction.fitId} repetida no arquivo`);
+          return;
+        }
+        importedIds.add(key);
+
+        const candidate = findDuplicateCandidate(transaction, this.existingTransactions, claimed);
+        if (candidate) {
+          claimed.add(candidate.existing.id);
+          result.duplicates++;
+          result.duplicateCandidates!.push(candidate);
+          return;
+        }
+
+        result.transactions.push(transaction);
+        result.imported++;
+        transactionCount++;
+      });
+
+      result.statements!.push({
+        kind: statement.kind,
+        currency: statement.currency,
+        bankId: statement.account.bankId,
+        accountId: statement.account.accountId,
+        accountType: statement.account.accountType,
+        targetAccount,
+        startDate: statement.startDate,
+        endDate: statement.endDate,
+        ledgerBalance: statement.ledgerBalance?.amount,
+        availableBalance: statement.availableBalance?.amount,
+        transactionCount,
+      });
+
+      const check = this.checkStatementBalance(statement, targetAccount, result.transactions);
+      if (check) {
+        result.balanceChecks!.push(check);
+        if (!check.matches) {
+          result.warnings.push(
+            `${label}: saldo do extrato (${check.statementBalance.toFixed(2)}) difere do saldo da conta ` +
+            `(${check.ledgerBalance.toFixed(2)}) em ${format(check.asOf, 'dd/MM/yyyy', { locale: ptBR })}`
+          );
+        }
+      }
+    });
+
+    return result;
+  }
+
+  // Compare the bank's ledger balance with the account balance on the same date after the import
+  private checkStatementBalance(
+    statement: OFXStatement,
+    targetAccount: string,
+    importedTransactions: Transaction[]
+  ): StatementBalanceCheck | null {
+    const account = this.accounts.find(a => a.id === targetAccount);
+    if (!account || statement.kind !== 'bank' || !statement.ledgerBalance) return null;
+
+    const { amount, asOf } = statement.ledgerBalance;
+    const ledgerBalance = getAccountBalanceAt(account, [...this.existingTransactions, ...importedTransactions], asOf);
+    const difference = amount - ledgerBalance;
+
+    return {
+      account: targetAccount,
+      asOf,
+      statementBalance: amount,
+      ledgerBalance,
+      difference,
+      matches: Math.abs(difference) < BALANCE_TOLERANCE,
+    };
+  }
+
+  // OFX amounts are signed from the account's point of view
+  private convertOFXTransaction(ofxTransaction: OFXTransaction, accountName: string): Transaction {
+    const parts = [ofxTransaction.name, ofxTransaction.memo].filter(Boolean) as string[];
+    const description = Array.from(new Set(parts)).join(' - ') || 'Transação importada';
+
+    return {
+      id: `import-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      description: description.trim(),
+      amount: Math.abs(ofxTransaction.amount),
+      type: ofxTransaction.amount >= 0 ? 'income' : 'expense',
+      category: this.categorizeTransaction(description),
+      account: accountName,
+      date: ofxTransaction.datePosted,
+      recurring: false,
+      tags: ['importação', 'ofx'],
+      externalId: ofxTransaction.fitId,
+    };
+  }
+
   // Auto-detect bank format
   detectBankFormat(filename: string, content: string): string | null {
     const lowerFilename = filename.toLowerCase();
@@ -272,12 +750,51 @@ export class BankDataImporter {
     return null;
   }
 
+  // Convert every row without dropping anything, so the user can review the result
+  previewRows(
+    rows: Record<string, string>[],
+    mapping: BankMapping,
+    accountName: string,
+    fileType: string = 'csv',
+    lineNumbers?: number[]
+  ): ImportPreviewRow[] {
+    // Rows are numbered as in the file, counting the header line
+    const firstLine = mapping.hasHeaders === false ? 1 : 2;
+    const seenIds = new Set<string>();
+    // Each existing transaction can only be matched by one row
+    const claimed = new Set<string>();
+
+    return rows.map((row, index) => {
+      const line = lineNumbers?.[index] ?? index + firstLine;
+      const preview: ImportPreviewRow = { line, raw: row, duplicate: false };
+      try {
+        const transaction = this.convertRowToTransaction(row, mapping, accountName, fileType);
+        const key = transaction.externalId && `${transaction.account}:${transaction.externalId}`;
+        preview.transaction = transaction;
+
+        if (key && seenIds.has(key)) {
+          preview.duplicate = true;
+        } else {
+          preview.candidate = findDuplicateCandidate(transaction, this.existingTransactions, claimed) || undefined;
+          preview.duplicate = !!preview.candidate;
+          if (preview.candidate) claimed.add(preview.candidate.existing.id);
+        }
+        if (key) seenIds.add(key);
+      } catch (error) {
+        preview.error = error instanceof Error ? error.message : String(error);
+      }
+      return preview;
+    });
+  }
+
   // Process rows into transactions
   private processRows(
-    rows: any[],
+    rows: Record<string, string>[],
     mapping: BankMapping,
     accountName: string,
-    fileType: string
+    fileType: string,
+    lineNumbers?: number[],
+    label: string = 'Linha'
   ): ImportResult {
     const result: ImportResult = {
       success: true,
@@ -286,26 +803,21 @@ export class BankDataImporter {
       warnings: [],
       duplicates: 0,
       imported: 0,
+      duplicateCandidates: [],
     };
 
-    rows.forEach((row, index) => {
-      try {
-        const transaction = this.convertRowToTransaction(row, mapping, accountName, fileType);
-        
-        if (transaction) {
-          // Check for duplicates
-          const isDuplicate = this.isDuplicateTransaction(transaction);
-          
-          if (isDuplicate) {
-            result.duplicates++;
-            result.warnings.push(`Linha ${index + 1}: Transação duplicada ignorada`);
-          } else {
-            result.transactions.push(transaction);
-            result.imported++;
-          }
-        }
-      } catch (error) {
-        result.errors.push(`Linha ${index + 1}: ${error}`);
+    this.previewRows(rows, mapping, accountName, fileType, lineNumbers).forEach(row => {
+      if (row.error) {
+        result.errors.push(`${label} ${row.line}: ${row.error}`);
+      } else if (row.candidate) {
+        result.duplicates++;
+        result.duplicateCandidates!.push(row.candidate);
+      } else if (row.duplicate) {
+        result.duplicates++;
+        result.warnings.push(`${label} ${row.line}: Transação repetida no arquivo ignorada`);
+      } else {
+        result.transactions.push(row.transaction!);
+        result.imported++;
       }
     });
 
@@ -322,22 +834,14 @@ export class BankDataImporter {
     mapping: BankMapping,
     accountName: string,
     fileType: string
-  ): Transaction | null {
+  ): Transaction {
     // Extract date
     const dateStr = row[mapping.dateColumn];
     if (!dateStr) {
       throw new Error('Data não encontrada');
     }
 
-    let transactionDate: Date;
-    
-    if (fileType === 'ofx' && mapping.dateFormat === 'yyyyMMdd') {
-      // OFX date format: YYYYMMDDHHMMSS or YYYYMMDD
-      const dateOnly = dateStr.substring(0, 8);
-      transactionDate = parse(dateOnly, 'yyyyMMdd', new Date());
-    } else {
-      transactionDate = parse(dateStr, mapping.dateFormat, new Date());
-    }
+    const transactionDate = parse(dateStr, mapping.dateFormat, new Date());
 
     if (isNaN(transactionDate.getTime())) {
       throw new Error(`Data inválida: ${dateStr}`);
@@ -347,45 +851,35 @@ export class BankDataImporter {
     const description = row[mapping.descriptionColumn] || 'Transação importada';
     
     // Extract amount
-    const amountStr = row[mapping.amountColumn];
-    if (!amountStr) {
-      throw new Error('Valor não encontrado');
-    }
-
-    let amount = parseFloat(
-      amountStr
-        .toString()
-        .replace(/[^\d,.-]/g, '') // Remove non-numeric characters except comma, dot, minus
-        .replace(',', '.') // Convert comma to dot for decimal
-    );
-
-    if (isNaN(amount)) {
-      throw new Error(`Valor inválido: ${amountStr}`);
-    }
+    const hasSplitColumns = !mapping.amountColumn && !!(mapping.debitColumn || mapping.creditColumn);
+    let amount = hasSplitColumns
+      ? this.readDebitCreditAmount(row, mapping)
+      : this.readAmount(row[mapping.amountColumn], mapping);
 
     // Determine transaction type
     let type: 'income' | 'expense';
     
-    if (mapping.typeColumn && row[mapping.typeColumn]) {
+    if (hasSplitColumns) {
+      type = amount >= 0 ? 'income' : 'expense';
+      amount = Math.abs(amount);
+    } else if (mapping.typeColumn && row[mapping.typeColumn]) {
       const typeValue = row[mapping.typeColumn].toString().toLowerCase();
       
-      if (fileType === 'ofx') {
-        // OFX types
-        type = ['credit', 'dep', 'directdep'].includes(typeValue) ? 'income' : 'expense';
-      } else {
-        // CSV types - check for common income indicators
-        type = ['receita', 'crédito', 'depósito', 'salário', 'renda'].some(term => 
-          typeValue.includes(term)
-        ) ? 'income' : 'expense';
-      }
+      // CSV types - check for common income indicators
+      type = ['receita', 'crédito', 'depósito', 'salário', 'renda'].some(term => 
+        typeValue.includes(term)
+      ) ? 'income' : 'expense';
+      amount = Math.abs(amount);
     } else {
       // Determine by amount sign
-      type = amount >= 0 ? 'income' : 'expense';
+      const isIncome = mapping.signConvention === 'inverted' ? amount < 0 : amount >= 0;
+      type = isIncome ? 'income' : 'expense';
       amount = Math.abs(amount);
     }
 
-    // Generate category based on description
-    const category = this.categorizeTransaction(description);
+    // Use the file's category when mapped, otherwise guess from the description
+    const category = (mapping.categoryColumn && row[mapping.categoryColumn]?.toString().trim()) ||
+      this.categorizeTransaction(description);
 
     return {
       id: `import-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
@@ -393,13 +887,48 @@ export class BankDataImporter {
       amount,
       type,
       category,
-      account: accountName,
+      account: this.resolveAccount(mapping.accountColumn && row[mapping.accountColumn]?.toString().trim(), accountName),
       date: transactionDate,
       recurring: false,
       tags: ['importação', fileType],
+      externalId: (mapping.idColumn && row[mapping.idColumn]?.toString().trim()) || undefined,
     };
   }
 
+  // The account column holds an account id or name; rows without one go to the target account
+  private resolveAccount(value: string | undefined, accountName: string): string {
+    if (!value || this.accounts.length === 0) return value || accountName;
+    const name = value.toLowerCase();
+    const account = this.accounts.find(a => a.id === value || a.name.trim().toLowerCase() === name);
+    if (!account) {
+      throw new Error(`Conta não encontrada: ${value}`);
+    }
+    return account.id;
+  }
+
+  private readAmount(value: string | undefined, mapping: BankMapping): number {
+    if (!value || !value.toString().trim()) {
+      throw new Error('Valor não encontrado');
+    }
+    const amount = parseImportAmount(value, mapping.decimalSeparator);
+    if (isNaN(amount)) {
+      throw new Error(`Valor inválido: ${value}`);
+    }
+    return amount;
+  }
+
+  // Credit minus debit; banks write debits either positive or negative in their own column
+  private readDebitCreditAmount(row: Record<string, string>, mapping: BankMapping): number {
+    const debit = mapping.debitColumn ? row[mapping.debitColumn]?.toString().trim() : '';
+    const credit = mapping.creditColumn ? row[mapping.creditColumn]?.toString().trim() : '';
+    if (!debit && !credit) {
+      throw new Error('Valor não encontrado');
+    }
+    const debitAmount = debit ? Math.abs(this.readAmount(debit, mapping)) : 0;
+    const creditAmount = credit ? Math.abs(this.readAmount(credit, mapping)) : 0;
+    return creditAmount - debitAmount;
+  }
+
   // Simple transaction categorization
   private categorizeTransaction(description: string): string {
     const desc = description.toLowerCase();
@@ -421,33 +950,28 @@ export class BankDataImporter {
     return 'Outros';
   }
 
-  // Check for duplicate transactions
-  private isDuplicateTransaction(transaction: Transaction): boolean {
-    return this.existingTransactions.some(existing => 
-      existing.description === transaction.description &&
-      existing.amount === transaction.amount &&
-      existing.type === transaction.type &&
-      Math.abs(existing.date.getTime() - transaction.date.getTime()) < 24 * 60 * 60 * 1000 // Same day
-    );
-  }
-
-  // Read file content
-  private readFile(file: File): Promise<string> {
+  // Read raw file bytes, for formats that declare their own charset
+  private readFileBuffer(file: Blob): Promise<ArrayBuffer> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
       
       reader.onload = (e) => {
-        resolve(e.target?.result as string);
+        resolve(e.target?.result as ArrayBuffer);
       };
       
       reader.onerror = () => {
         reject(new Error('Erro ao ler arquivo'));
       };
       
-      reader.readAsText(file, 'UTF-8');
+      reader.readAsArrayBuffer(file);
     });
   }
 
+  // Read file content, detecting the encoding unless one is given
+  async readFile(file: Blob, encoding: string = AUTO_ENCODING): Promise<string> {
+    return decodeText(await this.readFileBuffer(file), encoding);
+  }
+
   // Validate file format
   static validateFile(file: File): { valid: boolean; error?: string } {
     const allowedTypes = [
@@ -455,17 +979,20 @@ export class BankDataImporter {
       'application/csv',
       'application/vnd.ms-excel',
       'application/x-ofx',
+      'application/qif',
+      'application/xml',
+      'text/xml',
       'text/plain'
     ];
     
-    const allowedExtensions = ['.csv', '.ofx', '.qfx', '.txt'];
+    const allowedExtensions = ['.csv', '.ofx', '.qfx', '.qif', '.xml', '.txt'];
     
     const fileExtension = file.name.toLowerCase().substring(file.name.lastIndexOf('.'));
     
     if (!allowedTypes.includes(file.type) && !allowedExtensions.includes(fileExtension)) {
       return {
         valid: false,
-        error: 'Tipo de arquivo não suportado. Use CSV ou OFX.'
+        error: 'Tipo de arquivo não suportado. Use CSV, OFX, QIF ou CAMT.053.'
       };
     }
     
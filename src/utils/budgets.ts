@@ -0,0 +1,160 @@
+import { addMonths, addWeeks, addYears, endOfWeek, format, getDaysInMonth, startOfWeek } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Category, Transaction } from '@/types/financial';
+import { Budget } from '@/types/goals';
+import { getCategoryAmount } from '@/utils/splits';
+
+export interface BudgetPeriodSummary {
+  start: Date;
+  end: Date;
+  label: string;
+  limit: number;
+  carriedOver: number; // Unspent (positive) or overspent (negative) amount from the previous period
+  available: number; // Limit plus carried-over amount
+  spent: number;
+  remaining: number; // Negative when the period is over budget
+  percentage: number; // Share of the available amount already spent
+}
+
+// Safety net for budgets created long ago with a weekly period
+const MAX_TRACKED_PERIODS = 520;
+
+export const BUDGET_PERIOD_LABELS: Record<Budget['period'], string> = {
+  weekly: 'Semanal',
+  monthly: 'Mensal',
+  yearly: 'Anual',
+};
+
+// Budget days beyond the month length fall on its last day (day 31 -> Feb 28/29)
+const budgetDayIn = (year: number, month: number, budgetDay: number): Date => {
+  const firstOfMonth = new Date(year, month, 1);
+  return new Date(year, month, Math.min(Math.max(budgetDay, 1), getDaysInMonth(firstOfMonth)));
+};
+
+/**
+ * Bounds of the budget period containing a date. Monthly periods start on the configured
+ * budget day, yearly ones on that day of January and weekly ones on Monday.
+ */
+export const getBudgetPeriod = (
+  period: Budget['period'],
+  date: Date,
+  budgetDay: number = 1
+): { start: Date; end: Date } => {
+  if (period === 'weekly') {
+    return {
+      start: startOfWeek(date, { weekStartsOn: 1 }),
+      end: endOfWeek(date, { weekStartsOn: 1 }),
+    };
+  }
+
+  let start: Date;
+  let next: Date;
+  if (period === 'yearly') {
+    const thisYear = budgetDayIn(date.getFullYear(), 0, budgetDay);
+    start = date >= thisYear ? thisYear : budgetDayIn(date.getFullYear() - 1, 0, budgetDay);
+    const following = addYears(start, 1);
+    next = budgetDayIn(following.getFullYear(), 0, budgetDay);
+  } else {
+    const thisMonth = budgetDayIn(date.getFullYear(), date.getMonth(), budgetDay);
+    const previousMonth = addMonths(new Date(date.getFullYear(), date.getMonth(), 1), -1);
+    start = date >= thisMonth
+      ? thisMonth
+      : budgetDayIn(previousMonth.getFullYear(), previousMonth.getMonth(), budgetDay);
+    const following = addMonths(new Date(start.getFullYear(), start.getMonth(), 1), 1);
+    next = budgetDayIn(following.getFullYear(), following.getMonth(), budgetDay);
+  }
+
+  return { start, end: new Date(next.getTime() - 1) };
+};
+
+const getPeriodLabel = (period: Budget['period'], start: Date, end: Date): string => {
+  if (period === 'yearly') return format(start, 'yyyy');
+  if (period === 'monthly' && start.getDate() === 1) return format(start, 'MMM yyyy', { locale: ptBR });
+  return `${format(start, 'dd/MM')} - ${format(end, 'dd/MM')}`;
+};
+
+/**
+ * Expenses attributed to a budget's category (subcategories and split shares included) within a date range
+ */
+export const getBudgetSpent = (
+  budget: Budget,
+  transactions: Transaction[],
+  categories: Category[],
+  start: Date,
+  end: Date
+): number => {
+  return transactions
+    .filter(t => {
+      const date = new Date(t.date);
+      return t.type === 'expense' && date >= start && date <= end;
+    })
+    .reduce((sum, t) => sum + getCategoryAmount(categories, t, budget.category), 0);
+};
+
+/**
+ * Per-period results of a budget, oldest first, ending with the current period.
+ * With rollover, each period starts with what the previous one left over (or overspent),
+ * chained from the period the budget was created in.
+ */
+export const getBudgetHistory = (
+  budget: Budget,
+  transactions: Transaction[],
+  categories: Category[],
+  budgetDay: number = 1,
+  count: number = 12,
+  now: Date = new Date()
+): BudgetPeriodSummary[] => {
+  const step = (date: Date, amount: number) => {
+    if (budget.period === 'weekly') return addWeeks(date, amount);
+    if (budget.period === 'yearly') return addYears(date, amount);
+    return addMonths(date, amount);
+  };
+
+  const current = getBudgetPeriod(budget.period, now, budgetDay);
+  const windowStart = getBudgetPeriod(budget.period, step(current.start, -(count - 1)), budgetDay);
+  // Rollover needs every period since creation; without it only the visible window matters
+  let period = budget.rollover && budget.createdAt
+    ? getBudgetPeriod(budget.period, new Date(budget.createdAt), budgetDay)
+    : windowStart;
+  if (period.start > current.start) period = current;
+
+  const history: BudgetPeriodSummary[] = [];
+  let carriedOver = 0;
+
+  while (period.start <= current.start && history.length < MAX_TRACKED_PERIODS) {
+    const spent = getBudgetSpent(budget, transactions, categories, period.start, period.end);
+    const available = budget.limit + carriedOver;
+    const remaining = available - spent;
+
+    history.push({
+      start: period.start,
+      end: period.end,
+      label: getPeriodLabel(budget.period, period.start, period.end),
+      limit: budget.limit,
+      carriedOver,
+      available,
+      spent,
+      remaining,
+      percentage: available > 0 ? (spent / available) * 100 : spent > 0 ? 100 : 0,
+    });
+
+    carriedOver = budget.rollover ? remaining : 0;
+    period = getBudgetPeriod(budget.period, new Date(period.end.getTime() + 1), budgetDay);
+  }
+
+  return history.slice(-count);
+};
+
+/**
+ * Current-period result of a budget
+ */
+export const getBudgetStatus = (
+  budget: Budget,
+  transactions: Transaction[],
+  categories: Category[],
+  budgetDay: number = 1,
+  now: Date = new Date()
+): BudgetPeriodSummary => {
+  const history = getBudgetHistory(budget, transactions, categories, budgetDay, 1, now);
+  return history[history.length - 1];
+};
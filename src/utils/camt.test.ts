@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { BankDataImporter } from '@/utils/bankImport';
+import { parseCAMT053 } from '@/utils/camt';
+
+const entry = (body: string) => `<Ntry>${body}</Ntry>`;
+
+const camt = (entries: string[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.08">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Id>EXT-2025-01</Id>
+      <Acct><Id><IBAN>BR1800360305000010009795493C1</IBAN></Id><Ccy>BRL</Ccy></Acct>
+      <Bal><Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp><Amt Ccy="BRL">100.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><Dt><Dt>2025-01-01</Dt></Dt></Bal>
+      <Bal><Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp><Amt Ccy="BRL">400.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2025-01-31</Dt></Dt></Bal>
+      ${entries.join('\n')}
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+const SALARY = entry(`
+  <Amt Ccy="BRL">500.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Sts><Cd>BOOK</Cd></Sts>
+  <BookgDt><DtTm>2025-01-05T10:00:00-03:00</DtTm></BookgDt><AcctSvcrRef>REF-1</AcctSvcrRef>
+  <NtryDtls><TxDtls>
+    <RltdPties><Dbtr><Pty><Nm>Empresa LTDA</Nm></Pty></Dbtr></RltdPties>
+    <RmtInf><Ustrd>Salário</Ustrd><Ustrd>janeiro</Ustrd></RmtInf>
+  </TxDtls></NtryDtls>`);
+
+const BATCH = entry(`
+  <Amt Ccy="BRL">80.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts>BOOK</Sts>
+  <BookgDt><Dt>2025-01-10</Dt></BookgDt><AcctSvcrRef>REF-2</AcctSvcrRef>
+  <NtryDtls>
+    <TxDtls><Amt Ccy="BRL">30.00</Amt><RltdPties><Cdtr><Nm>Padaria</Nm></Cdtr></RltdPties></TxDtls>
+    <TxDtls><Amt Ccy="BRL">50.00</Amt><RltdPties><Cdtr><Nm>Farmácia</Nm></Cdtr></RltdPties></TxDtls>
+  </NtryDtls>`);
+
+const PENDING = entry(`
+  <Amt Ccy="BRL">20.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts><Cd>PDNG</Cd></Sts>
+  <BookgDt><Dt>2025-01-30</Dt></BookgDt><AddtlNtryInf>Tarifa</AddtlNtryInf>`);
+
+describe('parseCAMT053', () => {
+  it('reads the account, balances and entries of a statement', () => {
+    const [statement] = parseCAMT053(camt([SALARY, BATCH, PENDING]));
+    expect(statement).toMatchObject({
+      id: 'EXT-2025-01',
+      accountId: 'BR1800360305000010009795493C1',
+      currency: 'BRL',
+      openingBalance: { amount: -100, date: '2025-01-01' },
+      closingBalance: { amount: 400, date: '2025-01-31' },
+    });
+    expect(statement.entries).toEqual([
+      expect.objectContaining({
+        record: 1,
+        reference: 'REF-1',
+        bookingDate: '2025-01-05',
+        amount: '500',
+        currency: 'BRL',
+        status: 'BOOK',
+        counterparty: 'Empresa LTDA',
+        description: 'Salário janeiro',
+      }),
+      expect.objectContaining({ record: 2, reference: 'REF-2-1', amount: '-30', counterparty: 'Padaria' }),
+      expect.objectContaining({ record: 3, reference: 'REF-2-2', amount: '-50', counterparty: 'Farmácia' }),
+      expect.objectContaining({ record: 4, status: 'PDNG', amount: '-20', description: 'Tarifa' }),
+    ]);
+  });
+
+  it('rejects malformed XML and files without statements', () => {
+    expect(() => parseCAMT053('<Document><Stmt>')).toThrow('XML malformado');
+    expect(() => parseCAMT053('<Document />')).toThrow('Nenhum extrato encontrado');
+  });
+});
+
+describe('BankDataImporter.importFromCAMT053', () => {
+  it('reports the records that cannot be imported and leaves pending entries out', async () => {
+    const unreadable = entry(`
+      <Amt Ccy="BRL">abc</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts>BOOK</Sts>
+      <BookgDt><Dt>2025-01-20</Dt></BookgDt><AddtlNtryInf>Sem valor</AddtlNtryInf>`);
+    const file = new Blob([camt([SALARY, unreadable, PENDING])]);
+    const result = await new BankDataImporter().importFromCAMT053(file, 'a1', { BR1800360305000010009795493C1: 'a2' });
+
+    expect(result.success).toBe(false);
+    expect(result.transactions).toMatchObject([
+      { description: 'Empresa LTDA - Salário janeiro', amount: 500, type: 'income', account: 'a2', externalId: 'REF-1' },
+    ]);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatch(/^Registro 2: /);
+    expect(result.warnings).toContain('Registro 3: lançamento PDNG ainda não contabilizado ignorado');
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * ISO 20022 CAMT.053 (bank to customer statement) parser. Element names are matched
+ * without their namespace, so statements from any schema version are read the same way.
+ */
+
+export interface CAMTEntry {
+  record: number; // 1-based position across the file, for error messages
+  reference?: string; // Bank reference (AcctSvcrRef), falling back to the entry or end-to-end id
+  bookingDate: string; // yyyy-MM-dd, or the raw value when it cannot be read
+  valueDate?: string;
+  amount: string; // Signed: credits positive, debits negative; the raw value when unreadable
+  currency?: string;
+  status: string; // BOOK for booked entries; PDNG and INFO are not final
+  counterparty?: string;
+  description?: string;
+}
+
+export interface CAMTBalance {
+  amount: number; // Signed like entries
+  date: string;
+}
+
+export interface CAMTStatement {
+  id?: string;
+  accountId: string; // IBAN, or the proprietary account number
+  currency?: string;
+  openingBalance?: CAMTBalance;
+  closingBalance?: CAMTBalance;
+  entries: CAMTEntry[];
+}
+
+const childElements = (element: Element | undefined, name: string): Element[] => {
+  if (!element) return [];
+  return Array.from(element.children).filter(child => child.localName === name);
+};
+
+// Follows a path of child names, e.g. find(entry, 'BookgDt', 'Dt')
+const find = (element: Element | undefined, ...path: string[]): Element | undefined => {
+  return path.reduce<Element | undefined>((node, name) => childElements(node, name)[0], element);
+};
+
+const text = (element: Element | undefined, ...path: string[]): string | undefined => {
+  return find(element, ...path)?.textContent?.trim() || undefined;
+};
+
+// Dates come as <Dt>2024-01-31</Dt> or <DtTm>2024-01-31T10:00:00+01:00</DtTm>
+const readDate = (element: Element | undefined): string | undefined => {
+  const value = text(element, 'Dt') || text(element, 'DtTm');
+  if (!value) return undefined;
+  return /^\d{4}-\d{2}-\d{2}/.test(value) ? value.slice(0, 10) : value;
+};
+
+// The indicator gives the direction of the entry itself; a reversal of a debit is reported as CRDT
+const signedAmount = (amount: string | undefined, indicator: string | undefined): string => {
+  if (!amount || isNaN(Number(amount))) return amount || '';
+  const debit = indicator?.toUpperCase() === 'DBIT';
+  return String(debit ? -Math.abs(Number(amount)) : Math.abs(Number(amount)));
+};
+
+const readBalance = (statement: Element, codes: string[]): CAMTBalance | undefined => {
+  const balance = childElements(statement, 'Bal').find(node => {
+    const code = text(node, 'Tp', 'CdOrPrtry', 'Cd') || text(node, 'Tp', 'CdOrPrtry', 'Prtry');
+    return !!code && codes.includes(code.toUpperCase());
+  });
+  const amount = text(balance, 'Amt');
+  if (!balance || !amount || isNaN(Number(amount))) return undefined;
+  return {
+    amount: Number(signedAmount(amount, text(balance, 'CdtDbtInd'))),
+    date: readDate(find(balance, 'Dt')) || '',
+  };
+};
+
+// Debtor for credits, creditor for debits; newer versions nest the name under Pty
+const readCounterparty = (details: Element | undefined, debit: boolean): string | undefined => {
+  const party = find(details, 'RltdPties', debit ? 'Cdtr' : 'Dbtr');
+  return text(party, 'Nm') || text(party, 'Pty', 'Nm');
+};
+
+const readRemittance = (details: Element | undefined): string | undefined => {
+  const lines = childElements(find(details, 'RmtInf'), 'Ustrd')
+    .map(node => node.textContent?.trim())
+    .filter(Boolean);
+  return lines.length > 0 ? lines.join(' ') : text(details, 'AddtlTxInf');
+};
+
+/**
+ * Parses every statement of a CAMT.053 file. Batch entries with one amount per
+ * transaction detail are split into one record each.
+ */
+export const parseCAMT053 = (content: string): CAMTStatement[] => {
+  const document = new DOMParser().parseFromString(content, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Arquivo CAMT.053 inválido: XML malformado');
+  }
+
+  const statementNodes = Array.from(document.getElementsByTagNameNS('*', 'Stmt'));
+  if (statementNodes.length === 0) {
+    throw new Error('Nenhum extrato encontrado no arquivo CAMT.053');
+  }
+
+  let record = 0;
+
+  return statementNodes.map(statement => {
+    const account = find(statement, 'Acct');
+    const entries: CAMTEntry[] = [];
+
+    childElements(statement, 'Ntry').forEach(entry => {
+      const indicator = text(entry, 'CdtDbtInd');
+      const debit = indicator?.toUpperCase() === 'DBIT';
+      const details = childElements(find(entry, 'NtryDtls'), 'TxDtls');
+      const base = {
+        bookingDate: readDate(find(entry, 'BookgDt')) || '',
+        valueDate: readDate(find(entry, 'ValDt')),
+        currency: find(entry, 'Amt')?.getAttribute('Ccy') || undefined,
+        status: (text(entry, 'Sts', 'Cd') || text(entry, 'Sts') || 'BOOK').toUpperCase(),
+      };
+      const entryReference = text(entry, 'AcctSvcrRef') || text(entry, 'NtryRef');
+
+      const detailAmounts = details.map(detail => text(detail, 'Amt') || text(detail, 'AmtDtls', 'TxAmt', 'Amt'));
+      if (details.length > 1 && detailAmounts.every(Boolean)) {
+        details.forEach((detail, index) => {
+          entries.push({
+            ...base,
+            record: ++record,
+            reference: text(detail, 'Refs', 'AcctSvcrRef') || text(detail, 'Refs', 'EndToEndId') ||
+              (entryReference ? `${entryReference}-${index + 1}` : undefined),
+            amount: signedAmount(detailAmounts[index], text(detail, 'CdtDbtInd') || indicator),
+            counterparty: readCounterparty(detail, debit),
+            description: readRemittance(detail) || text(entry, 'AddtlNtryInf'),
+          });
+        });
+        return;
+      }
+
+      const detail = details[0];
+      entries.push({
+        ...base,
+        record: ++record,
+        reference: entryReference || text(detail, 'Refs', 'EndToEndId'),
+        amount: signedAmount(text(entry, 'Amt'), indicator),
+        counterparty: readCounterparty(detail, debit),
+        description: readRemittance(detail) || text(entry, 'AddtlNtryInf'),
+      });
+    });
+
+    return {
+      id: text(statement, 'Id'),
+      accountId: text(account, 'Id', 'IBAN') || text(account, 'Id', 'Othr', 'Id') || '',
+      currency: text(account, 'Ccy'),
+      openingBalance: readBalance(statement, ['OPBD', 'PRCD']),
+      closingBalance: readBalance(statement, ['CLBD']),
+      entries,
+    };
+  });
+};
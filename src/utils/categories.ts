@@ -0,0 +1,92 @@
+import { Category } from '@/types/financial';
+
+export interface CategoryNode {
+  category: Category;
+  children: Category[];
+}
+
+export const CATEGORY_ICONS = [
+  '💼', '💻', '📈', '💰', '🎁', '🏦',
+  '🍽️', '🛒', '☕', '🚗', '⛽', '🚌',
+  '🏠', '💡', '📱', '🎬', '🎮', '✈️',
+  '🏥', '💊', '📚', '🎓', '👕', '🐾',
+  '👶', '💇', '🏋️', '🧾', '🔧', '📦',
+];
+
+export const CATEGORY_COLORS = [
+  '#10B981', '#06B6D4', '#8B5CF6', '#F59E0B', '#EF4444',
+  '#84CC16', '#EC4899', '#14B8A6', '#F97316', '#6366F1',
+];
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Finds a category by id. Records created before categories were referenced by id
+ * (budgets, imports) carry the name instead, so that is matched as a fallback.
+ */
+export const findCategory = (categories: Category[], reference: string): Category | undefined => {
+  if (!reference) return undefined;
+  return categories.find(category => category.id === reference) ||
+    categories.find(category => normalizeName(category.name) === normalizeName(reference));
+};
+
+export const getRootCategory = (categories: Category[], reference: string): Category | undefined => {
+  const category = findCategory(categories, reference);
+  if (!category?.parentId) return category;
+  return categories.find(c => c.id === category.parentId) || category;
+};
+
+/**
+ * Display name, prefixed with the parent for subcategories ("Alimentação › Mercado")
+ */
+export const getCategoryLabel = (categories: Category[], reference: string): string => {
+  const category = findCategory(categories, reference);
+  if (!category) return reference || 'Sem categoria';
+  const parent = category.parentId ? categories.find(c => c.id === category.parentId) : undefined;
+  return parent ? `${parent.name} › ${category.name}` : category.name;
+};
+
+/**
+ * Ids of a category and its subcategories, for totals that roll subcategories up
+ */
+export const getCategoryFamilyIds = (categories: Category[], categoryId: string): string[] => {
+  return [categoryId, ...categories.filter(c => c.parentId === categoryId).map(c => c.id)];
+};
+
+/**
+ * Whether a transaction's category reference falls under the given category or one of its subcategories
+ */
+export const isInCategory = (categories: Category[], reference: string, categoryId: string): boolean => {
+  const category = findCategory(categories, reference);
+  if (!category) return reference === categoryId;
+  return category.id === categoryId || category.parentId === categoryId;
+};
+
+/**
+ * Top-level categories with their subcategories, alphabetically
+ */
+export const buildCategoryTree = (
+  categories: Category[],
+  options: { type?: Category['type']; includeArchived?: boolean } = {}
+): CategoryNode[] => {
+  const visible = categories.filter(category =>
+    (options.includeArchived || !category.archived) &&
+    (!options.type || category.type === options.type)
+  );
+  const byName = (a: Category, b: Category) => a.name.localeCompare(b.name, 'pt-BR');
+
+  return visible
+    .filter(category => !category.parentId || !visible.some(c => c.id === category.parentId))
+    .sort(byName)
+    .map(category => ({
+      category,
+      children: visible.filter(child => child.parentId === category.id).sort(byName),
+    }));
+};
+
+/**
+ * Rewrites a name-based reference to the matching category id; unknown references are kept
+ */
+export const normalizeCategoryReference = (categories: Category[], reference: string): string => {
+  return findCategory(categories, reference)?.id || reference;
+};
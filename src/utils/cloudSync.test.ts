@@ -0,0 +1,181 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FinancialCollection, StoredRecord } from '@/utils/storage';
+import { MemorySyncRemote, createMemorySyncRemote } from '@/utils/memorySyncRemote';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const USER_ID = 'user-1';
+
+const account = (id: string, name: string) => ({
+  id,
+  name,
+  type: 'checking',
+  openingBalance: 0,
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+});
+
+// Each test gets a new device: an empty database and fresh modules
+const openDevice = async () => {
+  const { getFinancialStorage } = await import('@/utils/storage');
+  const { CURRENT_SCHEMA_VERSION, listQuarantinedRecords } = await import('@/utils/migrations');
+  const cloudSync = await import('@/utils/cloudSync');
+  const syncQueue = await import('@/utils/syncQueue');
+  const storage = await getFinancialStorage();
+
+  // Writes from another device straight to the cloud
+  const pushElsewhere = (
+    remote: MemorySyncRemote,
+    collection: FinancialCollection,
+    record: StoredRecord,
+    baseVersion: number,
+    deleted = false
+  ) =>
+    remote.push(collection, [{
+      id: record.id,
+      data: deleted ? null : JSON.parse(JSON.stringify(record)),
+      deleted,
+      schema_version: CURRENT_SCHEMA_VERSION,
+      base_version: baseVersion,
+    }]);
+
+  const accountNames = async () =>
+    (((await storage.load('accounts')) || []) as { id: string; name: string }[])
+      .map(record => `${record.id}:${record.name}`)
+      .sort();
+
+  return { storage, pushElsewhere, accountNames, listQuarantinedRecords, ...cloudSync, ...syncQueue };
+};
+
+beforeEach(() => {
+  vi.resetModules();
+  globalThis.indexedDB = new IDBFactory();
+  localStorage.clear();
+});
+
+describe('syncWithRemote', () => {
+  it('pushes the local records and does not pull them back', async () => {
+    const { storage, linkSyncAccount, syncWithRemote, listSyncQueue } = await openDevice();
+    const remote = createMemorySyncRemote();
+    await storage.replace('accounts', [account('a1', 'Banco')]);
+
+    await linkSyncAccount(USER_ID, 'upload');
+    expect(await syncWithRemote(storage, remote, USER_ID)).toEqual({ pulled: 0, pushed: 1, conflicts: 0 });
+    expect(remote.rows('accounts')).toMatchObject([{ id: 'a1', version: 1, deleted: false, data: { name: 'Banco' } }]);
+    expect(await listSyncQueue()).toEqual([]);
+
+    expect(await syncWithRemote(storage, remote, USER_ID)).toEqual({ pulled: 0, pushed: 0, conflicts: 0 });
+  });
+
+  it('does not sync with an account the device is not linked to', async () => {
+    const { storage, linkSyncAccount, syncWithRemote } = await openDevice();
+    const remote = createMemorySyncRemote();
+    await linkSyncAccount(USER_ID, 'upload');
+
+    await expect(syncWithRemote(storage, remote, 'user-2')).rejects.toThrow('não está vinculado');
+    expect(remote.rows('accounts')).toEqual([]);
+  });
+
+  it('pulls records and deletions from other devices', async () => {
+    const { storage, pushElsewhere, accountNames, linkSyncAccount, syncWithRemote } = await openDevice();
+    const remote = createMemorySyncRemote();
+    await storage.replace('accounts', [account('local', 'Deste dispositivo')]);
+    await pushElsewhere(remote, 'accounts', account('a1', 'Banco'), 0);
+
+    await linkSyncAccount(USER_ID, 'discard');
+    expect(await syncWithRemote(storage, remote, USER_ID)).toEqual({ pulled: 1, pushed: 0, conflicts: 0 });
+    expect(await accountNames()).toEqual(['a1:Banco']);
+
+    await pushElsewhere(remote, 'accounts', account('a1', 'Banco'), 1, true);
+    expect(await syncWithRemote(storage, remote, USER_ID)).toEqual({ pulled: 1, pushed: 0, conflicts: 0 });
+    expect(await accountNames()).toEqual([]);
+  });
+
+  it('pulls a row that became visible after rows with a later time', async () => {
+    let now = new Date('2026-10-18T12:00:00.000Z');
+    const { storage, pushElsewhere, accountNames, linkSyncAccount, syncWithRemote } = await openDevice();
+    const remote = createMemorySyncRemote(() => now);
+    await pushElsewhere(remote, 'accounts', account('a1', 'Primeira'), 0);
+    await linkSyncAccount(USER_ID, 'discard');
+    await syncWithRemote(storage, remote, USER_ID);
+
+    // Timestamped before the last pull, committed after it
+    now = new Date('2026-10-18T11:59:00.000Z');
+    await pushElsewhere(remote, 'accounts', account('a2', 'Atrasada'), 0);
+
+    expect(await syncWithRemote(storage, remote, USER_ID)).toEqual({ pulled: 1, pushed: 0, conflicts: 0 });
+    expect(await accountNames()).toEqual(['a1:Primeira', 'a2:Atrasada']);
+  });
+
+  it('keeps the cloud version when a local change was based on an older one', async () => {
+    const { storage, pushElsewhere, accountNames, linkSyncAccount, syncWithRemote, listSyncQueue, listQuarantinedRecords } = await openDevice();
+    const remote = createMemorySyncRemote();
+    await storage.replace('accounts', [account('a1', 'Banco')]);
+    await linkSyncAccount(USER_ID, 'upload');
+    await syncWithRemote(storage, remote, USER_ID);
+
+    await pushElsewhere(remote, 'accounts', account('a1', 'Da nuvem'), 1);
+    await storage.applyChanges('accounts', { put: [account('a1', 'Local')], remove: [] });
+
+    expect(await syncWithRemote(storage, remote, USER_ID)).toEqual({ pulled: 1, pushed: 0, conflicts: 1 });
+    expect(await accountNames()).toEqual(['a1:Da nuvem']);
+    expect(remote.rows('accounts')).toMatchObject([{ id: 'a1', version: 2, data: { name: 'Da nuvem' } }]);
+    expect(listQuarantinedRecords()).toMatchObject([{ collection: 'accounts', record: { id: 'a1', name: 'Local' } }]);
+    expect(await listSyncQueue()).toEqual([]);
+  });
+
+  it('rejects a push based on an older version than the cloud one', async () => {
+    const { storage, pushElsewhere, accountNames, linkSyncAccount, syncWithRemote, listQuarantinedRecords } = await openDevice();
+    const remote = createMemorySyncRemote();
+    await storage.replace('accounts', [account('a1', 'Banco')]);
+    await linkSyncAccount(USER_ID, 'upload');
+    await syncWithRemote(storage, remote, USER_ID);
+
+    await pushElsewhere(remote, 'accounts', account('a1', 'Da nuvem'), 1);
+    await storage.applyChanges('accounts', { put: [account('a1', 'Local')], remove: [] });
+    // The other device's write is not visible yet when pulling
+    const lagging: MemorySyncRemote = { ...remote, pull: async () => [] };
+
+    expect(await syncWithRemote(storage, lagging, USER_ID)).toEqual({ pulled: 1, pushed: 0, conflicts: 1 });
+    expect(await accountNames()).toEqual(['a1:Da nuvem']);
+    expect(remote.rows('accounts')).toMatchObject([{ id: 'a1', version: 2, data: { name: 'Da nuvem' } }]);
+    expect(listQuarantinedRecords()).toMatchObject([{ record: { id: 'a1', name: 'Local' } }]);
+  });
+});
+
+describe('offline queue', () => {
+  it('queues changes only while the sync is on, once per record', async () => {
+    const { storage, linkSyncAccount, syncWithRemote, listSyncQueue } = await openDevice();
+    const remote = createMemorySyncRemote();
+    await storage.applyChanges('accounts', { put: [account('a1', 'Banco')], remove: [] });
+    expect(await listSyncQueue()).toEqual([]);
+
+    await linkSyncAccount(USER_ID, 'upload');
+    await syncWithRemote(storage, remote, USER_ID);
+    await storage.applyChanges('accounts', { put: [account('a1', 'Primeira edição')], remove: [] });
+    await storage.applyChanges('accounts', { put: [account('a1', 'Segunda edição')], remove: [] });
+
+    expect(await listSyncQueue()).toMatchObject([{ collection: 'accounts', id: 'a1' }]);
+    expect(await syncWithRemote(storage, remote, USER_ID)).toEqual({ pulled: 0, pushed: 1, conflicts: 0 });
+    expect(remote.rows('accounts')).toMatchObject([{ id: 'a1', version: 2, data: { name: 'Segunda edição' } }]);
+  });
+
+  it('sends what changed while the sync was off', async () => {
+    const { storage, linkSyncAccount, syncWithRemote, listSyncQueue, setSyncQueueActive } = await openDevice();
+    const remote = createMemorySyncRemote();
+    await storage.replace('accounts', [account('a1', 'Sem alteração'), account('a2', 'Alterada'), account('a3', 'Excluída')]);
+    await linkSyncAccount(USER_ID, 'upload');
+    await syncWithRemote(storage, remote, USER_ID);
+
+    await setSyncQueueActive(false);
+    await storage.applyChanges('accounts', { put: [account('a2', 'Alterada offline'), account('a4', 'Nova')], remove: ['a3'] });
+    expect(await listSyncQueue()).toEqual([]);
+
+    expect(await syncWithRemote(storage, remote, USER_ID)).toEqual({ pulled: 0, pushed: 3, conflicts: 0 });
+    const rows = new Map(remote.rows('accounts').map(row => [row.id, row]));
+    expect(rows.get('a1')).toMatchObject({ version: 1 });
+    expect(rows.get('a2')).toMatchObject({ version: 2, data: { name: 'Alterada offline' } });
+    expect(rows.get('a3')).toMatchObject({ version: 2, deleted: true, data: null });
+    expect(rows.get('a4')).toMatchObject({ version: 1, data: { name: 'Nova' } });
+  });
+});
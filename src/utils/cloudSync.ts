@@ -0,0 +1,491 @@
+/**
+ * Offline-first sync of the financial collections with Supabase. Local changes are
+ * queued (utils/syncQueue) and pushed when there is a connection; changes from other
+ * devices are pulled by their server `updated_at`. Every row has a version raised by
+ * the server on each write, and a change is pushed with the version it is based on
+ * (utils/syncVersions). When a record changed on both sides, the change that reached
+ * the server first wins and the other version goes to the quarantine, so it can still
+ * be recovered.
+ *
+ * The remote is an interface so the sync can run against a local Supabase (`supabase
+ * start` with the migrations in supabase/migrations) or any other stand-in.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { DEFAULT_CATEGORIES } from '@/types/financial';
+import {
+  CURRENT_SCHEMA_VERSION,
+  QuarantinedRecord,
+  migrateDataSet,
+  quarantineRecords,
+  validateDataSet,
+} from '@/utils/migrations';
+import {
+  FINANCIAL_COLLECTIONS,
+  FinancialCollection,
+  FinancialDataSet,
+  StoredRecord,
+  getFinancialStorage,
+  reviveDates,
+} from '@/utils/storage';
+import {
+  QueuedStorage,
+  SyncQueueEntry,
+  dequeueSyncEntries,
+  enqueueSyncChanges,
+  isSyncQueueActive,
+  listSyncQueue,
+  setSyncQueueActive,
+} from '@/utils/syncQueue';
+import {
+  SyncedVersion,
+  clearSyncedVersions,
+  hashRecord,
+  readSyncedVersions,
+  saveSyncedVersions,
+} from '@/utils/syncVersions';
+import { isSameRecord, publishExternalChanges } from '@/utils/tabSync';
+
+type SyncTable = keyof Database['public']['Tables'];
+
+export interface SyncRow {
+  id: string;
+  data: Json | null; // null for deleted records
+  deleted: boolean;
+  schema_version: number;
+  version: number; // Raised by the server on every write
+  updated_at: string; // Server time of the last write
+}
+
+export type SyncRowInput = Omit<SyncRow, 'version' | 'updated_at'> & {
+  base_version: number; // Version the change is based on; 0 when never pulled
+};
+
+export interface SyncPushResult {
+  applied: boolean;
+  row: SyncRow; // The stored row: the one written, or the newer one that rejected the write
+}
+
+export interface SyncRemote {
+  /** Rows written at or after `since`, oldest first; every row when `since` is null */
+  pull(collection: FinancialCollection, since: string | null): Promise<SyncRow[]>;
+  /** Writes each row unless the stored one moved past its `base_version` */
+  push(collection: FinancialCollection, rows: SyncRowInput[]): Promise<SyncPushResult[]>;
+}
+
+export interface SyncResult {
+  pulled: number;
+  pushed: number;
+  conflicts: number;
+}
+
+interface SyncState {
+  userId: string | null;
+  cursors: Partial<Record<FinancialCollection, string>>; // Last `updated_at` pulled
+  lastSyncAt: string | null;
+}
+
+export const SYNC_TABLES: Record<FinancialCollection, SyncTable> = {
+  accounts: 'accounts',
+  transactions: 'transactions',
+  creditCards: 'credit_cards',
+  categories: 'categories',
+  goals: 'goals',
+  goalContributions: 'goal_contributions',
+  budgets: 'budgets',
+};
+
+const SYNC_STATE_KEY = 'tijigui-mobills-sync-state';
+const SYNC_LOCK = 'tijigui-mobills-cloud-sync';
+
+// Dispatched on window after each sync, for the status shown in Settings
+export const SYNC_FINISHED_EVENT = 'tijigui-mobills-sync-finished';
+
+const PULL_PAGE_SIZE = 1000;
+const PUSH_BATCH_SIZE = 500;
+// Pulls start this long before the last row seen: `updated_at` is taken before the
+// write commits, so a slow write can become visible after rows with a later time
+const PULL_OVERLAP = 5 * 60 * 1000;
+
+const readSyncState = (): SyncState => {
+  try {
+    const stored = localStorage.getItem(SYNC_STATE_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch (error) {
+    console.error('Error reading sync state:', error);
+  }
+  return { userId: null, cursors: {}, lastSyncAt: null };
+};
+
+const writeSyncState = (state: SyncState) => {
+  localStorage.setItem(SYNC_STATE_KEY, JSON.stringify(state));
+};
+
+const assertSupportedLocalSchema = async (storage: QueuedStorage) => {
+  const localVersion = await storage.inner.getSchemaVersion();
+  if (localVersion && localVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error('Os dados locais são de uma versão mais nova do aplicativo. Atualize o aplicativo.');
+  }
+};
+
+// Empties every collection, with the default categories of a new install, and updates
+// every open tab
+const clearLocalData = async (storage: QueuedStorage) => {
+  for (const collection of FINANCIAL_COLLECTIONS) {
+    const previous = ((await storage.inner.load(collection)) || []) as StoredRecord[];
+    const records: StoredRecord[] = collection === 'categories' ? DEFAULT_CATEGORIES : [];
+    if (previous.length === 0 && records.length === 0) continue;
+    const ids = new Set(records.map(record => record.id));
+    await storage.inner.replace(collection, records);
+    publishExternalChanges({
+      collection,
+      put: records,
+      remove: previous.map(record => record.id).filter(id => !ids.has(id)),
+      base: Object.fromEntries(previous.map(record => [record.id, record])),
+    });
+  }
+};
+
+/**
+ * The account this device syncs with, or null before the first sync
+ */
+export const getSyncAccount = (): string | null => readSyncState().userId;
+
+/**
+ * Whether this device holds records of its own, apart from the categories every
+ * install starts with
+ */
+export const hasLocalData = async (): Promise<boolean> => {
+  const storage = await getFinancialStorage();
+  for (const collection of FINANCIAL_COLLECTIONS) {
+    if (collection === 'categories') continue;
+    if (((await storage.inner.load(collection)) || []).length > 0) return true;
+  }
+  return false;
+};
+
+/**
+ * Whether this device may hold changes the cloud does not have yet
+ */
+export const hasUnsyncedChanges = async (): Promise<boolean> =>
+  !isSyncQueueActive() || (await listSyncQueue()).length > 0;
+
+/**
+ * Makes the given account the one this device syncs with. With 'upload' the data on
+ * this device is sent to the account on the next sync; with 'discard' it is deleted
+ * and the device only gets the account's data.
+ */
+export const linkSyncAccount = async (userId: string, mode: 'upload' | 'discard') => {
+  const storage = await getFinancialStorage();
+  await assertSupportedLocalSchema(storage);
+  await setSyncQueueActive(false);
+  await clearSyncedVersions();
+  if (mode === 'discard') {
+    await clearLocalData(storage);
+    // Nothing left to upload, so the next sync only pulls
+    await setSyncQueueActive(true);
+  }
+  writeSyncState({ userId, cursors: {}, lastSyncAt: null });
+};
+
+/**
+ * For signing out: deletes the account's data from this device, changes not yet
+ * synced included, so the next account starts from an empty device
+ */
+export const unlinkSyncAccount = async () => {
+  const storage = await getFinancialStorage();
+  await assertSupportedLocalSchema(storage);
+  await setSyncQueueActive(false);
+  await clearSyncedVersions();
+  localStorage.removeItem(SYNC_STATE_KEY);
+  await clearLocalData(storage);
+};
+
+export const getCloudSyncStatus = async (): Promise<{ lastSyncAt: string | null; pending: number }> => ({
+  lastSyncAt: readSyncState().lastSyncAt,
+  pending: (await listSyncQueue()).length,
+});
+
+export const createSupabaseRemote = (client: SupabaseClient<Database>): SyncRemote => ({
+  async pull(collection, since) {
+    // Every sync table has the same columns
+    const table = SYNC_TABLES[collection] as 'transactions';
+    const rows: SyncRow[] = [];
+    for (let from = 0; ; from += PULL_PAGE_SIZE) {
+      let query = client.from(table).select('id, data, deleted, schema_version, version, updated_at');
+      if (since) query = query.gte('updated_at', since);
+      const { data, error } = await query
+        .order('updated_at')
+        .order('id')
+        .range(from, from + PULL_PAGE_SIZE - 1);
+      if (error) throw error;
+      rows.push(...data);
+      if (data.length < PULL_PAGE_SIZE) return rows;
+    }
+  },
+
+  async push(collection, rows) {
+    const saved: SyncPushResult[] = [];
+    for (let start = 0; start < rows.length; start += PUSH_BATCH_SIZE) {
+      const { data, error } = await client.rpc('push_sync_rows', {
+        p_table: SYNC_TABLES[collection],
+        p_rows: rows.slice(start, start + PUSH_BATCH_SIZE),
+      });
+      if (error) throw error;
+      saved.push(...data.map(({ applied, ...row }) => ({ applied, row })));
+    }
+    return saved;
+  },
+});
+
+const loadRecords = async (storage: QueuedStorage, collection: FinancialCollection) =>
+  new Map((((await storage.inner.load(collection)) || []) as StoredRecord[]).map(record => [record.id, record]));
+
+/**
+ * Pulled records brought up to the current schema and validated. Invalid ones are
+ * quarantined and left out.
+ */
+const readRemoteRecords = (
+  collection: FinancialCollection,
+  rows: SyncRow[],
+  quarantined: QuarantinedRecord[]
+): Map<string, StoredRecord> => {
+  const byVersion = new Map<number, unknown[]>();
+  rows.filter(row => !row.deleted && row.data).forEach(row => {
+    const records = byVersion.get(row.schema_version) || [];
+    records.push(row.data);
+    byVersion.set(row.schema_version, records);
+  });
+
+  const records = new Map<string, StoredRecord>();
+  byVersion.forEach((data, version) => {
+    const dataSet = { [collection]: reviveDates(collection, data) } as FinancialDataSet;
+    const validation = validateDataSet(migrateDataSet(dataSet, version));
+    quarantined.push(...validation.quarantined);
+    ((validation.data[collection] || []) as StoredRecord[]).forEach(record => records.set(record.id, record));
+  });
+  return records;
+};
+
+/**
+ * Writes rows newer than the synced versions over the local records. A local change
+ * still queued for one of them was based on an older version, so the cloud wins and
+ * the local version goes to the quarantine.
+ */
+const applyRemoteRows = async (
+  storage: QueuedStorage,
+  collection: FinancialCollection,
+  rows: SyncRow[],
+  versions: Map<string, SyncedVersion>,
+  result: SyncResult,
+  quarantined: QuarantinedRecord[]
+) => {
+  if (rows.length === 0) return;
+  if (rows.some(row => row.schema_version > CURRENT_SCHEMA_VERSION)) {
+    throw new Error('Os dados na nuvem são de uma versão mais nova do aplicativo. Atualize o aplicativo.');
+  }
+
+  const queue = new Map((await listSyncQueue(collection)).map(entry => [entry.id, entry]));
+  const local = await loadRecords(storage, collection);
+  const remoteRecords = readRemoteRecords(collection, rows, quarantined);
+  const quarantinedAt = new Date().toISOString();
+  const put: StoredRecord[] = [];
+  const remove: string[] = [];
+  const base: Record<string, StoredRecord | null> = {};
+  const resolved: SyncQueueEntry[] = [];
+  const synced = new Map<string, SyncedVersion>();
+
+  rows.forEach(row => {
+    const record = row.deleted ? null : remoteRecords.get(row.id);
+    if (record === undefined) {
+      // Quarantined above. The local version is kept, and replaces it when changed.
+      synced.set(row.id, { version: row.version, hash: versions.get(row.id)?.hash ?? null });
+      return;
+    }
+    const current = local.get(row.id) ?? null;
+    synced.set(row.id, { version: row.version, hash: hashRecord(record) });
+
+    const pending = queue.get(row.id);
+    if (pending) {
+      resolved.push(pending);
+      if (!isSameRecord(current, record)) {
+        result.conflicts++;
+        if (current) {
+          quarantined.push({ collection, record: current, reason: 'Conflito de sincronização: alteração local substituída por uma versão mais nova da nuvem', quarantinedAt });
+        }
+      }
+    }
+    if (isSameRecord(current, record)) return;
+
+    base[row.id] = current;
+    if (record) {
+      put.push(record);
+    } else {
+      remove.push(row.id);
+    }
+  });
+
+  if (put.length > 0 || remove.length > 0) {
+    await storage.inner.applyChanges(collection, { put, remove });
+    publishExternalChanges({ collection, put, remove, base });
+    result.pulled += put.length + remove.length;
+  }
+  await saveSyncedVersions(collection, synced);
+  synced.forEach((version, id) => versions.set(id, version));
+  await dequeueSyncEntries(resolved);
+};
+
+const pullCollection = async (
+  storage: QueuedStorage,
+  remote: SyncRemote,
+  collection: FinancialCollection,
+  versions: Map<string, SyncedVersion>,
+  state: SyncState,
+  result: SyncResult,
+  quarantined: QuarantinedRecord[]
+) => {
+  const cursor = state.cursors[collection];
+  const since = cursor ? new Date(new Date(cursor).getTime() - PULL_OVERLAP).toISOString() : null;
+  const rows = await remote.pull(collection, since);
+  if (rows.length === 0) return;
+
+  // Rows pulled before, or pushed from here, come back in the overlap and are skipped
+  const newer = rows.filter(row => row.version > (versions.get(row.id)?.version ?? 0));
+  await applyRemoteRows(storage, collection, newer, versions, result, quarantined);
+  state.cursors[collection] = rows[rows.length - 1].updated_at;
+};
+
+const pushCollection = async (
+  storage: QueuedStorage,
+  remote: SyncRemote,
+  collection: FinancialCollection,
+  versions: Map<string, SyncedVersion>,
+  result: SyncResult,
+  quarantined: QuarantinedRecord[]
+) => {
+  const entries = await listSyncQueue(collection);
+  if (entries.length === 0) return;
+
+  const local = await loadRecords(storage, collection);
+  // Records no longer stored were deleted, and are sent as tombstones. Records back to
+  // what was last synced, or created and deleted in between, have nothing to send.
+  const rows: SyncRowInput[] = entries
+    .filter(entry => hashRecord(local.get(entry.id)) !== (versions.get(entry.id)?.hash ?? null))
+    .map(entry => {
+      const record = local.get(entry.id);
+      return {
+        id: entry.id,
+        data: record ? (JSON.parse(JSON.stringify(record)) as Json) : null,
+        deleted: !record,
+        schema_version: CURRENT_SCHEMA_VERSION,
+        base_version: versions.get(entry.id)?.version ?? 0,
+      };
+    });
+
+  const saved = rows.length > 0 ? await remote.push(collection, rows) : [];
+  const synced = new Map<string, SyncedVersion>();
+  const rejected: SyncRow[] = [];
+  saved.forEach(({ applied, row }) => {
+    if (applied) {
+      synced.set(row.id, { version: row.version, hash: hashRecord(local.get(row.id)) });
+    } else {
+      rejected.push(row);
+    }
+  });
+  await saveSyncedVersions(collection, synced);
+  synced.forEach((version, id) => versions.set(id, version));
+  result.pushed += synced.size;
+
+  // Changes based on an older version than the cloud's lose to it
+  await applyRemoteRows(storage, collection, rejected, versions, result, quarantined);
+  await dequeueSyncEntries(entries);
+};
+
+/**
+ * Queues what changed while the sync was off: records that differ from the version
+ * last synced, or were never synced, and synced records deleted since
+ */
+const enqueueUnsyncedChanges = async (storage: QueuedStorage) => {
+  for (const collection of FINANCIAL_COLLECTIONS) {
+    const local = await loadRecords(storage, collection);
+    const versions = await readSyncedVersions(collection);
+    const ids = [...local.values()]
+      .filter(record => hashRecord(record) !== versions.get(record.id)?.hash)
+      .map(record => record.id);
+    versions.forEach((synced, id) => {
+      if (synced.hash && !local.has(id)) ids.push(id);
+    });
+    await enqueueSyncChanges(collection, ids);
+  }
+};
+
+/**
+ * Pulls then pushes every collection. The state is saved after each one, so an
+ * interrupted sync resumes where it stopped.
+ */
+export const syncWithRemote = async (
+  storage: QueuedStorage,
+  remote: SyncRemote,
+  userId: string
+): Promise<SyncResult> => {
+  await assertSupportedLocalSchema(storage);
+
+  const state = readSyncState();
+  if (state.userId !== userId) {
+    // Mixing the data of two accounts has to be the user's choice (linkSyncAccount)
+    throw new Error('Este dispositivo não está vinculado a esta conta. Ative a sincronização novamente.');
+  }
+  if (!isSyncQueueActive()) {
+    // Queueing starts first, so edits made during the scan are not missed
+    await setSyncQueueActive(true);
+    await enqueueUnsyncedChanges(storage);
+  }
+
+  const result: SyncResult = { pulled: 0, pushed: 0, conflicts: 0 };
+  const quarantined: QuarantinedRecord[] = [];
+  try {
+    for (const collection of FINANCIAL_COLLECTIONS) {
+      const versions = await readSyncedVersions(collection);
+      await pullCollection(storage, remote, collection, versions, state, result, quarantined);
+      await pushCollection(storage, remote, collection, versions, result, quarantined);
+      writeSyncState(state);
+    }
+    state.lastSyncAt = new Date().toISOString();
+    writeSyncState(state);
+    return result;
+  } finally {
+    quarantineRecords(quarantined);
+    window.dispatchEvent(new Event(SYNC_FINISHED_EVENT));
+  }
+};
+
+let running: Promise<SyncResult | null> | null = null;
+
+// One sync at a time, across tabs where the browser supports Web Locks
+const withSyncLock = (task: () => Promise<SyncResult>): Promise<SyncResult | null> => {
+  if (typeof navigator === 'undefined' || !navigator.locks) return task();
+  return navigator.locks.request(SYNC_LOCK, { ifAvailable: true }, lock => (lock ? task() : null));
+};
+
+/**
+ * Syncs the app's storage with the signed-in user's data in Supabase. Resolves to
+ * null when another tab is already syncing.
+ */
+export const runCloudSync = (): Promise<SyncResult | null> => {
+  if (!running) {
+    running = (async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error('Entre na sua conta para sincronizar');
+      }
+      const storage = await getFinancialStorage();
+      const remote = createSupabaseRemote(supabase);
+      return withSyncLock(() => syncWithRemote(storage, remote, session.user.id));
+    })().finally(() => {
+      running = null;
+    });
+  }
+  return running;
+};
@@ -0,0 +1,257 @@
+import { addDays, addMonths, endOfDay, format, getDaysInMonth } from 'date-fns';
+import { CreditCard, Transaction } from '@/types/financial';
+
+// Persisted card shape: the current balance is always derived from charges and payments
+export type StoredCreditCard = Omit<CreditCard, 'currentBalance'>;
+
+export interface StatementCharge {
+  transaction: Transaction;
+  amount: number; // Signed share billed on this statement (refunds are negative)
+  installment?: number; // 1-based installment number for split purchases
+}
+
+export interface CardStatement {
+  key: string; // 'yyyy-MM' of the closing month
+  cardId: string;
+  periodStart: Date;
+  closingDate: Date;
+  dueDate: Date;
+  charges: StatementCharge[];
+  total: number; // Charges minus refunds
+  paid: number;
+  remaining: number;
+  status: 'open' | 'closed' | 'paid';
+  overdue: boolean;
+}
+
+// Differences below half a cent are rounding noise
+const AMOUNT_TOLERANCE = 0.005;
+
+export const STATEMENT_STATUS_LABELS: Record<CardStatement['status'], string> = {
+  open: 'Aberta',
+  closed: 'Fechada',
+  paid: 'Paga',
+};
+
+// Billing days beyond the month length fall on its last day (closing on 31 -> Feb 28/29)
+const dayInMonth = (year: number, month: number, day: number): Date => {
+  return new Date(year, month, Math.min(day, getDaysInMonth(new Date(year, month, 1))));
+};
+
+export const isCardCharge = (transaction: Transaction, cardId?: string): boolean => {
+  return !!transaction.creditCard && transaction.type !== 'transfer' &&
+    (!cardId || transaction.creditCard === cardId);
+};
+
+export const isCardPayment = (transaction: Transaction, cardId?: string): boolean => {
+  return !!transaction.creditCard && transaction.type === 'transfer' &&
+    (!cardId || transaction.creditCard === cardId);
+};
+
+// Purchases add to the card debt, refunds (income on the card) reduce it
+const getChargeAmount = (transaction: Transaction): number => {
+  return transaction.type === 'income' ? -Math.abs(transaction.amount) : Math.abs(transaction.amount);
+};
+
+/**
+ * Statement a purchase belongs to: purchases up to the closing day close in the same
+ * month, later ones roll over to the next statement
+ */
+export const getStatementKey = (card: Pick<CreditCard, 'closingDate'>, date: Date): string => {
+  const purchaseDate = new Date(date);
+  const closing = dayInMonth(purchaseDate.getFullYear(), purchaseDate.getMonth(), card.closingDate);
+  const firstOfMonth = new Date(purchaseDate.getFullYear(), purchaseDate.getMonth(), 1);
+  const closingMonth = purchaseDate.getDate() <= closing.getDate() ? firstOfMonth : addMonths(firstOfMonth, 1);
+  return format(closingMonth, 'yyyy-MM');
+};
+
+// Statement key `offset` months after the given one
+const shiftStatementKey = (key: string, offset: number): string => {
+  const [year, month] = key.split('-').map(Number);
+  return format(addMonths(new Date(year, month - 1, 1), offset), 'yyyy-MM');
+};
+
+/**
+ * Splits a total into installments in whole cents; the rounding remainder goes to the first one
+ */
+export const getInstallmentAmounts = (total: number, count: number): number[] => {
+  const cents = Math.round(Math.abs(total) * 100);
+  const installments = Math.max(1, Math.floor(count || 1));
+  const base = Math.floor(cents / installments);
+  return Array.from({ length: installments }, (_, index) =>
+    (index === 0 ? cents - base * (installments - 1) : base) / 100
+  );
+};
+
+/**
+ * Statements a charge is billed on. Installment purchases (parcelamento) take one
+ * installment per statement, starting with the one the purchase date falls in.
+ */
+export const getChargeSchedule = (
+  card: Pick<CreditCard, 'closingDate'>,
+  transaction: Transaction
+): Array<{ key: string; amount: number; installment?: number }> => {
+  const firstKey = getStatementKey(card, transaction.date);
+  const sign = Math.sign(getChargeAmount(transaction)) || 1;
+
+  if ((transaction.installments || 1) <= 1) {
+    return [{ key: firstKey, amount: getChargeAmount(transaction) }];
+  }
+
+  return getInstallmentAmounts(transaction.amount, transaction.installments).map((amount, index) => ({
+    key: shiftStatementKey(firstKey, index),
+    amount: amount * sign,
+    installment: index + 1,
+  }));
+};
+
+export const getStatementDates = (
+  card: Pick<CreditCard, 'closingDate' | 'dueDate'>,
+  key: string
+): { periodStart: Date; closingDate: Date; dueDate: Date } => {
+  const [year, month] = key.split('-').map(Number);
+  const closingDate = dayInMonth(year, month - 1, card.closingDate);
+  const periodStart = addDays(dayInMonth(year, month - 2, card.closingDate), 1);
+  // A due day on or before the closing day can only be met in the following month
+  const dueMonthOffset = card.dueDate > card.closingDate ? 0 : 1;
+  const dueDate = dayInMonth(year, month - 1 + dueMonthOffset, card.dueDate);
+  return { periodStart, closingDate, dueDate };
+};
+
+/**
+ * Groups a card's charges into statements (faturas), newest first.
+ * The statement currently collecting purchases is always included.
+ */
+export const getCardStatements = (
+  card: StoredCreditCard,
+  transactions: Transaction[],
+  now: Date = new Date()
+): CardStatement[] => {
+  const currentKey = getStatementKey(card, now);
+  const chargesByKey = new Map<string, StatementCharge[]>([[currentKey, []]]);
+  const paidByKey = new Map<string, number>();
+
+  transactions.forEach(transaction => {
+    if (isCardCharge(transaction, card.id)) {
+      getChargeSchedule(card, transaction).forEach(({ key, amount, installment }) => {
+        chargesByKey.set(key, [...(chargesByKey.get(key) || []), { transaction, amount, installment }]);
+      });
+    } else if (isCardPayment(transaction, card.id) && transaction.statement) {
+      paidByKey.set(transaction.statement, (paidByKey.get(transaction.statement) || 0) + Math.abs(transaction.amount));
+      if (!chargesByKey.has(transaction.statement)) {
+        chargesByKey.set(transaction.statement, []);
+      }
+    }
+  });
+
+  return Array.from(chargesByKey.entries())
+    .map(([key, charges]) => {
+      const dates = getStatementDates(card, key);
+      const total = charges.reduce((sum, charge) => sum + charge.amount, 0);
+      const paid = paidByKey.get(key) || 0;
+      const remaining = Math.max(total - paid, 0);
+
+      let status: CardStatement['status'];
+      if (key >= currentKey) status = 'open';
+      else if (remaining < AMOUNT_TOLERANCE) status = 'paid';
+      else status = 'closed';
+
+      return {
+        key,
+        cardId: card.id,
+        ...dates,
+        charges: [...charges].sort((a, b) =>
+          new Date(b.transaction.date).getTime() - new Date(a.transaction.date).getTime()
+        ),
+        total,
+        paid,
+        remaining,
+        status,
+        overdue: status === 'closed' && endOfDay(dates.dueDate) < now,
+      };
+    })
+    .sort((a, b) => b.key.localeCompare(a.key));
+};
+
+/**
+ * Computes every card's outstanding debt: carried-over balance plus charges minus payments.
+ * Installment purchases count in full, so they hold the limit until their statements are paid.
+ */
+export const computeCardBalances = (
+  cards: StoredCreditCard[],
+  transactions: Transaction[]
+): Record<string, number> => {
+  const balances: Record<string, number> = {};
+  cards.forEach(card => {
+    balances[card.id] = card.openingBalance || 0;
+  });
+
+  transactions.forEach(transaction => {
+    if (!transaction.creditCard || !(transaction.creditCard in balances)) return;
+    balances[transaction.creditCard] += isCardPayment(transaction)
+      ? -Math.abs(transaction.amount)
+      : getChargeAmount(transaction);
+  });
+
+  return balances;
+};
+
+export interface InstallmentPurchase {
+  transaction: Transaction;
+  installments: Array<{ number: number; key: string; amount: number; dueDate: Date }>;
+  billedCount: number; // Installments already on a closed statement
+  remainingAmount: number; // Sum of installments not yet billed
+}
+
+/**
+ * Installment purchases of a card with the split of each one across statements
+ */
+export const getInstallmentPurchases = (
+  card: StoredCreditCard,
+  transactions: Transaction[],
+  now: Date = new Date()
+): InstallmentPurchase[] => {
+  const currentKey = getStatementKey(card, now);
+
+  return transactions
+    .filter(t => isCardCharge(t, card.id) && (t.installments || 1) > 1)
+    .map(transaction => {
+      const installments = getChargeSchedule(card, transaction).map(({ key, amount, installment }) => ({
+        number: installment!,
+        key,
+        amount,
+        dueDate: getStatementDates(card, key).dueDate,
+      }));
+      const pending = installments.filter(installment => installment.key >= currentKey);
+      return {
+        transaction,
+        installments,
+        billedCount: installments.length - pending.length,
+        remainingAmount: pending.reduce((sum, installment) => sum + installment.amount, 0),
+      };
+    })
+    .sort((a, b) => new Date(b.transaction.date).getTime() - new Date(a.transaction.date).getTime());
+};
+
+/**
+ * Part of the carried-over balance not yet settled by payments made outside a statement
+ */
+export const getOpeningBalanceRemaining = (card: StoredCreditCard, transactions: Transaction[]): number => {
+  const paid = transactions
+    .filter(t => isCardPayment(t, card.id) && !t.statement)
+    .reduce((sum, t) => sum + Math.abs(t.amount), 0);
+  return Math.max((card.openingBalance || 0) - paid, 0);
+};
+
+/**
+ * Brings a card from the old model (a typed-in `currentBalance`) to the derived one
+ */
+export const normalizeStoredCreditCard = (
+  card: Omit<StoredCreditCard, 'openingBalance'> & { openingBalance?: number; currentBalance?: number }
+): StoredCreditCard => {
+  const { currentBalance, ...rest } = card;
+  if (typeof rest.openingBalance === 'number') {
+    return rest as StoredCreditCard;
+  }
+  return { ...rest, openingBalance: Number(currentBalance) || 0 };
+};
@@ -1,7 +1,10 @@
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-import { Account, Transaction, CreditCard } from '@/types/financial';
+import { Account, Transaction, CreditCard, Category } from '@/types/financial';
 import { FinancialGoal, Budget } from '@/types/goals';
+import { BUDGET_PERIOD_LABELS, getBudgetStatus } from '@/utils/budgets';
+import { getCategoryLabel } from '@/utils/categories';
+import { getCategoryAllocations, getTransactionCategories, isSplitTransaction } from '@/utils/splits';
 
 export interface ExportData {
   accounts: Account[];
@@ -9,6 +12,7 @@ export interface ExportData {
   creditCards: CreditCard[];
   goals: FinancialGoal[];
   budgets: Budget[];
+  categories?: Category[];
   metadata: {
     exportDate: string;
     version: string;
@@ -46,7 +50,7 @@ const escapeCSV = (value: any): string => {
   return stringValue;
 };
 
-const arrayToCSV = (data: any[], headers: string[]): string => {
+export const arrayToCSV = (data: any[], headers: string[]): string => {
   const csvHeaders = headers.join(',');
   const csvRows = data.map(row => 
     headers.map(header => escapeCSV(row[header])).join(',')
@@ -67,20 +71,35 @@ export const exportTransactionsToCSV = (transactions: Transaction[]): string =>
     'Tipo',
     'Categoria',
     'Conta',
+    'Conta Destino',
+    'Cartão',
+    'Parcelas',
     'Recorrente',
+    'Divisão',
     'Tags'
   ];
 
-  const csvData = transactions.map(transaction => ({
-    'Data': format(transaction.date, 'dd/MM/yyyy', { locale: ptBR }),
-    'Descrição': transaction.description,
-    'Valor': transaction.amount.toFixed(2).replace('.', ','),
-    'Tipo': transaction.type === 'income' ? 'Receita' : 'Despesa',
-    'Categoria': transaction.category,
-    'Conta': transaction.account,
-    'Recorrente': transaction.recurring ? 'Sim' : 'Não',
-    'Tags': transaction.tags?.join('; ') || ''
-  }));
+  // Split transactions produce one row per category share, so the Valor column still sums to the totals
+  const csvData = transactions.flatMap(transaction => {
+    const splits = getCategoryAllocations(transaction);
+    const isSplit = isSplitTransaction(transaction);
+
+    return splits.map((split, index) => ({
+      'Data': format(transaction.date, 'dd/MM/yyyy', { locale: ptBR }),
+      'Descrição': transaction.description,
+      'Valor': split.amount.toFixed(2).replace('.', ','),
+      'Tipo': transaction.type === 'income' ? 'Receita' : 
+              transaction.type === 'expense' ? 'Despesa' : 'Transferência',
+      'Categoria': split.category,
+      'Conta': transaction.account,
+      'Conta Destino': transaction.toAccount || '',
+      'Cartão': transaction.creditCard || '',
+      'Parcelas': transaction.installments || '',
+      'Recorrente': transaction.recurring ? 'Sim' : 'Não',
+      'Divisão': isSplit ? `${index + 1}/${splits.length}` : '',
+      'Tags': Array.from(new Set([...(transaction.tags || []), ...(split.tags || [])])).join('; ')
+    }));
+  });
 
   return arrayToCSV(csvData, headers);
 };
@@ -162,10 +181,15 @@ export const exportGoalsToCSV = (goals: FinancialGoal[]): string => {
   return arrayToCSV(csvData, headers);
 };
 
-export const exportBudgetsToCSV = (budgets: Budget[]): string => {
+export const exportBudgetsToCSV = (
+  budgets: Budget[],
+  transactions: Transaction[],
+  categories: Category[] = []
+): string => {
   const headers = [
     'Categoria',
     'Limite',
+    'Disponível',
     'Gasto',
     'Restante',
     'Utilização (%)',
@@ -174,19 +198,17 @@ export const exportBudgetsToCSV = (budgets: Budget[]): string => {
   ];
 
   const csvData = budgets.map(budget => {
-    const remaining = budget.limit - budget.spent;
-    const usage = (budget.spent / budget.limit) * 100;
-    const isOverBudget = budget.spent > budget.limit;
+    const { available, spent, remaining, percentage } = getBudgetStatus(budget, transactions, categories);
     
     return {
-      'Categoria': budget.category,
+      'Categoria': getCategoryLabel(categories, budget.category),
       'Limite': budget.limit.toFixed(2).replace('.', ','),
-      'Gasto': budget.spent.toFixed(2).replace('.', ','),
+      'Disponível': available.toFixed(2).replace('.', ','),
+      'Gasto': spent.toFixed(2).replace('.', ','),
       'Restante': remaining.toFixed(2).replace('.', ','),
-      'Utilização (%)': usage.toFixed(1).replace('.', ','),
-      'Período': budget.period === 'monthly' ? 'Mensal' : 
-                   budget.period === 'weekly' ? 'Semanal' : 'Anual',
-      'Status': isOverBudget ? 'Excedido' : usage > 80 ? 'Atenção' : 'Normal'
+      'Utilização (%)': percentage.toFixed(1).replace('.', ','),
+      'Período': BUDGET_PERIOD_LABELS[budget.period],
+      'Status': remaining < 0 ? 'Excedido' : percentage > 80 ? 'Atenção' : 'Normal'
     };
   });
 
@@ -195,7 +217,10 @@ export const exportBudgetsToCSV = (budgets: Budget[]): string => {
 
 // Download File Utility
 export const downloadFile = (content: string, filename: string, contentType: string = 'text/plain') => {
-  const blob = new Blob([content], { type: contentType });
+  downloadBlob(new Blob([content], { type: contentType }), filename);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
@@ -225,7 +250,7 @@ export const exportData = (
 
   if (options.categories && options.categories.length > 0) {
     filteredData.transactions = filteredData.transactions.filter(
-      t => options.categories!.includes(t.category)
+      t => getTransactionCategories(t).some(category => options.categories!.includes(category))
     );
   }
 
@@ -268,7 +293,7 @@ export const exportData = (
       }
       
       if (options.includeBudgets !== false && filteredData.budgets.length > 0) {
-        const budgetsCSV = exportBudgetsToCSV(filteredData.budgets);
+        const budgetsCSV = exportBudgetsToCSV(filteredData.budgets, data.transactions, data.categories);
         downloadFile(budgetsCSV, `${baseFilename}_orcamentos.csv`, 'text/csv');
       }
       break;
@@ -278,8 +303,21 @@ export const exportData = (
   }
 };
 
-// Generate Summary Report
-export const generateSummaryReport = (data: ExportData): string => {
+export interface SummaryStats {
+  totalBalance: number;
+  totalIncome: number;
+  totalExpenses: number;
+  periodBalance: number;
+  totalGoals: number;
+  completedGoals: number;
+  averageGoalProgress: number;
+  overdueGoals: number;
+  activeBudgets: number;
+  exceededBudgets: number;
+}
+
+// Figures shared by the text and PDF reports
+export const getSummaryStats = (data: ExportData): SummaryStats => {
   const totalBalance = data.accounts.reduce((sum, acc) => sum + acc.balance, 0);
   const totalIncome = data.transactions
     .filter(t => t.type === 'income')
@@ -289,7 +327,7 @@ export const generateSummaryReport = (data: ExportData): string => {
     .reduce((sum, t) => sum + t.amount, 0);
   
   const completedGoals = data.goals.filter(g => g.currentAmount >= g.targetAmount).length;
-  const totalGoalProgress = data.goals.reduce((sum, goal) => {
+  const averageGoalProgress = data.goals.reduce((sum, goal) => {
     return sum + (goal.currentAmount / goal.targetAmount) * 100;
   }, 0) / (data.goals.length || 1);
 
@@ -297,32 +335,52 @@ export const generateSummaryReport = (data: ExportData): string => {
     new Date() > g.deadline && g.currentAmount < g.targetAmount
   ).length;
 
+  const budgetStatuses = data.budgets.map(budget => getBudgetStatus(budget, data.transactions, data.categories || []));
+
+  return {
+    totalBalance,
+    totalIncome,
+    totalExpenses,
+    periodBalance: totalIncome - totalExpenses,
+    totalGoals: data.goals.length,
+    completedGoals,
+    averageGoalProgress,
+    overdueGoals,
+    activeBudgets: budgetStatuses.filter(status => status.remaining >= 0).length,
+    exceededBudgets: budgetStatuses.filter(status => status.remaining < 0).length,
+  };
+};
+
+// Generate Summary Report
+export const generateSummaryReport = (data: ExportData): string => {
+  const stats = getSummaryStats(data);
+
   return `# Relatório Financeiro - Tijigui Mobills
 ## ${format(new Date(), 'dd/MM/yyyy', { locale: ptBR })}
 
 ## Resumo Geral
 
 ### Patrimônio
-- **Saldo Total**: R$ ${totalBalance.toFixed(2).replace('.', ',')}
+- **Saldo Total**: R$ ${stats.totalBalance.toFixed(2).replace('.', ',')}
 - **Total de Contas**: ${data.accounts.length}
 - **Total de Cartões**: ${data.creditCards.length}
 
 ### Movimentação
-- **Total de Receitas**: R$ ${totalIncome.toFixed(2).replace('.', ',')}
-- **Total de Despesas**: R$ ${totalExpenses.toFixed(2).replace('.', ',')}
-- **Saldo do Período**: R$ ${(totalIncome - totalExpenses).toFixed(2).replace('.', ',')}
+- **Total de Receitas**: R$ ${stats.totalIncome.toFixed(2).replace('.', ',')}
+- **Total de Despesas**: R$ ${stats.totalExpenses.toFixed(2).replace('.', ',')}
+- **Saldo do Período**: R$ ${stats.periodBalance.toFixed(2).replace('.', ',')}
 - **Total de Transações**: ${data.transactions.length}
 
 ### Metas Financeiras
-- **Total de Metas**: ${data.goals.length}
-- **Metas Concluídas**: ${completedGoals}
-- **Progresso Médio**: ${totalGoalProgress.toFixed(1).replace('.', ',')}%
-- **Metas em Atraso**: ${overdueGoals}
+- **Total de Metas**: ${stats.totalGoals}
+- **Metas Concluídas**: ${stats.completedGoals}
+- **Progresso Médio**: ${stats.averageGoalProgress.toFixed(1).replace('.', ',')}%
+- **Metas em Atraso**: ${stats.overdueGoals}
 
 ### Orçamentos
 - **Total de Orçamentos**: ${data.budgets.length}
-- **Orçamentos Ativos**: ${data.budgets.filter(b => b.spent < b.limit).length}
-- **Orçamentos Excedidos**: ${data.budgets.filter(b => b.spent > b.limit).length}
+- **Orçamentos Ativos**: ${stats.activeBudgets}
+- **Orçamentos Excedidos**: ${stats.exceededBudgets}
 
 ---
 *Relatório gerado automaticamente pelo Tijigui Mobills*
@@ -370,6 +428,8 @@ export default {
   exportBudgetsToCSV,
   exportData,
   downloadFile,
+  downloadBlob,
   generateSummaryReport,
+  getSummaryStats,
   createBackup,
 };
\ No newline at end of file
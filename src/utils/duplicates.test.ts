@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction } from '@/types/financial';
+import {
+  DUPLICATE_THRESHOLD,
+  buildMergeChanges,
+  findDuplicateCandidate,
+  getDefaultResolution,
+  scoreDuplicate,
+} from '@/utils/duplicates';
+
+const transaction = (id: string, changes: Partial<Transaction> = {}): Transaction => ({
+  id,
+  description: 'Padaria Pão Quente',
+  amount: 100,
+  type: 'expense',
+  category: '5',
+  account: 'a1',
+  date: new Date(2025, 1, 10),
+  recurring: false,
+  ...changes,
+});
+
+const existing = transaction('manual');
+const daysLater = (days: number) => new Date(2025, 1, 10 + days);
+
+describe('scoreDuplicate', () => {
+  it('scores amounts within a cent as equal and within 1% as close', () => {
+    expect(scoreDuplicate(transaction('i', { amount: 100.004 }), existing)?.scores.amount).toBe(1);
+    expect(scoreDuplicate(transaction('i', { amount: 101 }), existing)?.scores.amount).toBe(0.5);
+    expect(scoreDuplicate(transaction('i', { amount: 101.01 }), existing)).toBeNull();
+  });
+
+  it('only matches dates up to three days apart', () => {
+    expect(scoreDuplicate(transaction('i', { date: daysLater(3) }), existing)?.scores.date).toBeCloseTo(0.25);
+    expect(scoreDuplicate(transaction('i', { date: daysLater(-3) }), existing)?.scores.date).toBeCloseTo(0.25);
+    expect(scoreDuplicate(transaction('i', { date: daysLater(4) }), existing)).toBeNull();
+  });
+
+  it('ignores bank boilerplate in descriptions', () => {
+    const incoming = transaction('i', { description: 'COMPRA CARTAO DEB PADARIA PAO QUENTE 123456' });
+    expect(scoreDuplicate(incoming, existing)?.scores.description).toBe(1);
+  });
+
+  it('never matches another type or account, or a different bank id', () => {
+    expect(scoreDuplicate(transaction('i', { type: 'income' }), existing)).toBeNull();
+    expect(scoreDuplicate(transaction('i', { account: 'a2' }), existing)).toBeNull();
+    expect(scoreDuplicate(
+      transaction('i', { externalId: 'FIT-2' }),
+      transaction('imported', { externalId: 'FIT-1' })
+    )).toBeNull();
+    expect(scoreDuplicate(
+      transaction('i', { externalId: 'FIT-1', amount: 5, date: daysLater(10) }),
+      transaction('imported', { externalId: 'FIT-1' })
+    )).toMatchObject({ confidence: 1, exact: true });
+  });
+});
+
+describe('findDuplicateCandidate', () => {
+  it('offers matches from the duplicate threshold up', () => {
+    // 0.4 amount + 0.3 * 0.25 date + 0.3 description
+    const lowest = findDuplicateCandidate(transaction('i', { date: daysLater(3) }), [existing]);
+    expect(lowest?.confidence).toBeCloseTo(0.775);
+    expect(lowest!.confidence).toBeGreaterThanOrEqual(DUPLICATE_THRESHOLD);
+
+    // 0.4 amount + 0.3 date, nothing in common in the description
+    expect(scoreDuplicate(transaction('i', { description: 'XYZ' }), existing)?.confidence).toBeCloseTo(0.7);
+    expect(findDuplicateCandidate(transaction('i', { description: 'XYZ' }), [existing])).toBeNull();
+    // 0.5 * 0.4 amount + 0.3 * 0.75 date + 0.3 description
+    expect(findDuplicateCandidate(transaction('i', { amount: 101, date: daysLater(1) }), [existing])).toBeNull();
+  });
+
+  it('picks the best match and skips transactions already claimed', () => {
+    const sameDay = transaction('same-day');
+    const dayBefore = transaction('day-before', { date: daysLater(-1) });
+    const incoming = transaction('i');
+
+    expect(findDuplicateCandidate(incoming, [dayBefore, sameDay])?.existing.id).toBe('same-day');
+    expect(findDuplicateCandidate(incoming, [dayBefore, sameDay], new Set(['same-day']))?.existing.id).toBe('day-before');
+  });
+});
+
+describe('getDefaultResolution', () => {
+  it('merges manual entries from the merge threshold up and skips the rest', () => {
+    // 0.4 + 0.3 * 0.75 + 0.3 = 0.925
+    expect(getDefaultResolution(findDuplicateCandidate(transaction('i', { date: daysLater(1) }), [existing])!)).toBe('merge');
+    // 0.4 + 0.3 * 0.5 + 0.3 = 0.85
+    expect(getDefaultResolution(findDuplicateCandidate(transaction('i', { date: daysLater(2) }), [existing])!)).toBe('skip');
+    // Already imported from a bank file
+    const imported = transaction('imported', { externalId: 'FIT-1' });
+    expect(getDefaultResolution(findDuplicateCandidate(transaction('i'), [imported])!)).toBe('skip');
+  });
+});
+
+describe('buildMergeChanges', () => {
+  it('takes the bank date, amount and id and keeps the amount of a split transaction', () => {
+    const incoming = transaction('i', { amount: 100.004, date: daysLater(1), externalId: 'FIT-1', tags: ['importação'] });
+    expect(buildMergeChanges(scoreDuplicate(incoming, transaction('m', { tags: ['mercado'] }))!)).toEqual({
+      date: daysLater(1),
+      amount: 100.004,
+      externalId: 'FIT-1',
+      tags: ['mercado', 'importação'],
+    });
+
+    const split = transaction('m', {
+      splits: [{ category: '5', amount: 60 }, { category: '6', amount: 40 }],
+    });
+    expect(buildMergeChanges(scoreDuplicate(incoming, split)!).amount).toBe(100);
+  });
+});
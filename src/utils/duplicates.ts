@@ -0,0 +1,139 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { Transaction } from '@/types/financial';
+import { isSplitTransaction } from '@/utils/splits';
+import { calculateCharacterSimilarity, calculateSimilarity, normalizeText } from '@/utils/textSimilarity';
+
+export type DuplicateResolution = 'merge' | 'skip' | 'keep';
+
+// An imported transaction that may already exist, with how sure the match is
+export interface DuplicateCandidate {
+  incoming: Transaction;
+  existing: Transaction;
+  confidence: number; // 0 to 1
+  exact: boolean; // Same bank id (FITID): certainly the same transaction
+  scores: {
+    date: number;
+    amount: number;
+    description: number;
+  };
+}
+
+export const DUPLICATE_RESOLUTION_LABELS: Record<DuplicateResolution, string> = {
+  merge: 'Mesclar',
+  skip: 'Ignorar',
+  keep: 'Manter ambas',
+};
+
+// Candidates below this confidence are treated as different transactions
+export const DUPLICATE_THRESHOLD = 0.75;
+// Above this, a manual entry is merged with the bank record by default
+const MERGE_THRESHOLD = 0.9;
+// Banks may post a card purchase a few days after it was made
+const DATE_WINDOW_DAYS = 3;
+
+const SCORE_WEIGHTS = { amount: 0.4, date: 0.3, description: 0.3 };
+
+// Words banks add around the merchant name ("COMPRA CARTAO DEB PADARIA 1234")
+const NOISE_WORDS = new Set([
+  'compra', 'cartao', 'credito', 'debito', 'deb', 'cred', 'pag', 'pagamento', 'pagto',
+  'pix', 'ted', 'doc', 'transf', 'transferencia', 'enviado', 'enviada', 'recebido', 'recebida',
+  'em', 'de', 'no', 'na', 'do', 'da', 'com', 'para',
+]);
+
+const cleanDescription = (description: string): string => {
+  return normalizeText(description)
+    .split(' ')
+    // Long numbers are authorization codes, card digits and dates
+    .filter(word => !NOISE_WORDS.has(word) && !/^\d{3,}$/.test(word))
+    .join(' ');
+};
+
+/**
+ * How alike two descriptions are, from 0 to 1: the better of word overlap and
+ * character similarity, after dropping bank boilerplate
+ */
+export const getDescriptionSimilarity = (description1: string, description2: string): number => {
+  const clean1 = cleanDescription(description1);
+  const clean2 = cleanDescription(description2);
+  if (!clean1 || !clean2) return 0;
+  if (clean1.includes(clean2) || clean2.includes(clean1)) return 1;
+  return Math.max(calculateSimilarity(clean1, clean2), calculateCharacterSimilarity(clean1, clean2));
+};
+
+/**
+ * Scores a possible match; null when the amounts, dates, type or account rule it out
+ */
+export const scoreDuplicate = (incoming: Transaction, existing: Transaction): DuplicateCandidate | null => {
+  if (incoming.type !== existing.type || incoming.account !== existing.account) return null;
+
+  if (incoming.externalId && existing.externalId) {
+    // Both came from bank files: their ids decide
+    if (incoming.externalId !== existing.externalId) return null;
+    return {
+      incoming,
+      existing,
+      confidence: 1,
+      exact: true,
+      scores: { date: 1, amount: 1, description: 1 },
+    };
+  }
+
+  const amountDifference = Math.abs(Math.abs(incoming.amount) - Math.abs(existing.amount));
+  const amount = amountDifference < 0.005 ? 1 : amountDifference <= Math.abs(existing.amount) * 0.01 ? 0.5 : 0;
+  if (amount === 0) return null;
+
+  const days = Math.abs(differenceInCalendarDays(new Date(incoming.date), new Date(existing.date)));
+  if (days > DATE_WINDOW_DAYS) return null;
+  const date = 1 - days / (DATE_WINDOW_DAYS + 1);
+
+  const description = getDescriptionSimilarity(incoming.description, existing.description);
+  const confidence = amount * SCORE_WEIGHTS.amount + date * SCORE_WEIGHTS.date + description * SCORE_WEIGHTS.description;
+
+  return { incoming, existing, confidence, exact: false, scores: { date, amount, description } };
+};
+
+/**
+ * Best match for an imported transaction among existing ones, if confident enough.
+ * Transactions already claimed by another imported row are not offered again.
+ */
+export const findDuplicateCandidate = (
+  incoming: Transaction,
+  existingTransactions: Transaction[],
+  claimed: Set<string> = new Set()
+): DuplicateCandidate | null => {
+  let best: DuplicateCandidate | null = null;
+  for (const existing of existingTransactions) {
+    if (claimed.has(existing.id)) continue;
+    const candidate = scoreDuplicate(incoming, existing);
+    if (candidate && candidate.confidence >= DUPLICATE_THRESHOLD && (!best || candidate.confidence > best.confidence)) {
+      best = candidate;
+    }
+  }
+  return best;
+};
+
+/**
+ * Suggested handling: exact and already-imported matches are skipped, confident
+ * matches with a manual entry are merged, the rest are skipped for review
+ */
+export const getDefaultResolution = (candidate: DuplicateCandidate): DuplicateResolution => {
+  if (candidate.exact || candidate.existing.externalId) return 'skip';
+  return candidate.confidence >= MERGE_THRESHOLD ? 'merge' : 'skip';
+};
+
+/**
+ * Changes that fold an imported transaction into the existing one it duplicates.
+ * The user's description, category and splits stay; the bank's date, amount and id win.
+ */
+export const buildMergeChanges = (candidate: DuplicateCandidate): Partial<Omit<Transaction, 'id'>> => {
+  const { incoming, existing } = candidate;
+  const tags = Array.from(new Set([...(existing.tags || []), ...(incoming.tags || [])]));
+
+  return {
+    date: incoming.date,
+    // Changing the amount would unbalance the splits
+    amount: isSplitTransaction(existing) ? existing.amount : incoming.amount,
+    externalId: incoming.externalId || existing.externalId,
+    tags,
+  };
+};
@@ -3,8 +3,24 @@
  * Uses browser's native Web Crypto API for security
  */
 
+export const PBKDF2_ITERATIONS = 100000;
+
+// Iteration counts accepted from files; a crafted count would freeze the tab in PBKDF2
+export const MIN_PBKDF2_ITERATIONS = 100000;
+export const MAX_PBKDF2_ITERATIONS = 10000000;
+
+export const isValidIterationCount = (iterations: unknown): iterations is number =>
+  typeof iterations === 'number' &&
+  Number.isInteger(iterations) &&
+  iterations >= MIN_PBKDF2_ITERATIONS &&
+  iterations <= MAX_PBKDF2_ITERATIONS;
+
 // Generate a key from password using PBKDF2
-const generateKey = async (password: string, salt: Uint8Array): Promise<CryptoKey> => {
+const generateKey = async (
+  password: string,
+  salt: Uint8Array,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<CryptoKey> => {
   const encoder = new TextEncoder();
   const keyMaterial = await crypto.subtle.importKey(
     'raw',
@@ -18,7 +34,7 @@ const generateKey = async (password: string, salt: Uint8Array): Promise<CryptoKe
     {
       name: 'PBKDF2',
       salt,
-      iterations: 100000,
+      iterations,
       hash: 'SHA-256',
     },
     keyMaterial,
@@ -146,6 +162,65 @@ export const decryptData = async <T>(encryptedData: string, password?: string):
   }
 };
 
+export interface PassphraseCiphertext {
+  salt: string;
+  iv: string;
+  iterations: number;
+  data: string;
+}
+
+/**
+ * Encrypts text with a user passphrase. Unlike encryptData there is no default key
+ * and no plaintext fallback: failures are thrown.
+ */
+export const encryptWithPassphrase = async (
+  plaintext: string,
+  passphrase: string
+): Promise<PassphraseCiphertext> => {
+  if (!passphrase) {
+    throw new Error('Uma senha é necessária para criptografar');
+  }
+
+  const salt = generateSalt();
+  const iv = generateIV();
+  const key = await generateKey(passphrase, salt);
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  return {
+    salt: arrayBufferToBase64(salt),
+    iv: arrayBufferToBase64(iv),
+    iterations: PBKDF2_ITERATIONS,
+    data: arrayBufferToBase64(encrypted),
+  };
+};
+
+/**
+ * Reverses encryptWithPassphrase. AES-GCM rejects both a wrong passphrase and
+ * tampered data, in which case the crypto error is thrown as is.
+ */
+export const decryptWithPassphrase = async (
+  ciphertext: PassphraseCiphertext,
+  passphrase: string
+): Promise<string> => {
+  if (!isValidIterationCount(ciphertext.iterations)) {
+    throw new Error(`Número de iterações fora do intervalo aceito: ${ciphertext.iterations}`);
+  }
+  const salt = new Uint8Array(base64ToArrayBuffer(ciphertext.salt));
+  const iv = new Uint8Array(base64ToArrayBuffer(ciphertext.iv));
+  const key = await generateKey(passphrase, salt, ciphertext.iterations);
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    base64ToArrayBuffer(ciphertext.data)
+  );
+
+  return new TextDecoder().decode(decrypted);
+};
+
 // Check if Web Crypto API is available
 export const isCryptoAvailable = (): boolean => {
   return typeof crypto !== 'undefined' && 
@@ -0,0 +1,127 @@
+import { addMonths, differenceInCalendarMonths, format, startOfMonth } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { FinancialGoal, GoalContribution } from '@/types/goals';
+
+// Persisted goal shape: progress is always derived from the contribution ledger.
+// Goals saved before the ledger existed still carry a typed-in current amount.
+export type StoredGoal = Omit<FinancialGoal, 'currentAmount' | 'completed'> & {
+  currentAmount?: number;
+  completed?: boolean;
+};
+
+export interface GoalHistoryPoint {
+  month: string;
+  contributed: number;
+  withdrawn: number;
+  balance: number; // Accumulated amount at the end of the month
+}
+
+export const GOAL_CONTRIBUTION_LABELS: Record<GoalContribution['type'], string> = {
+  contribution: 'Aporte',
+  withdrawal: 'Resgate',
+};
+
+export const getSignedAmount = (contribution: GoalContribution): number => {
+  const amount = Math.abs(contribution.amount);
+  return contribution.type === 'withdrawal' ? -amount : amount;
+};
+
+/**
+ * Accumulated amount per goal id: contributions minus withdrawals
+ */
+export const computeGoalBalances = (contributions: GoalContribution[]): Record<string, number> => {
+  return contributions.reduce<Record<string, number>>((balances, contribution) => {
+    balances[contribution.goalId] = (balances[contribution.goalId] || 0) + getSignedAmount(contribution);
+    return balances;
+  }, {});
+};
+
+export const getGoalContributions = (goalId: string, contributions: GoalContribution[]): GoalContribution[] => {
+  return contributions
+    .filter(contribution => contribution.goalId === goalId)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+};
+
+/**
+ * Month-by-month contributions, withdrawals and accumulated balance, from the
+ * first contribution (or goal creation) up to the current month
+ */
+export const getGoalHistory = (
+  goal: Pick<FinancialGoal, 'id' | 'createdAt'>,
+  contributions: GoalContribution[],
+  now: Date = new Date()
+): GoalHistoryPoint[] => {
+  const entries = getGoalContributions(goal.id, contributions);
+  const firstDate = entries.length > 0 && new Date(entries[0].date) < new Date(goal.createdAt)
+    ? new Date(entries[0].date)
+    : new Date(goal.createdAt);
+
+  const history: GoalHistoryPoint[] = [];
+  let balance = 0;
+  for (let month = startOfMonth(firstDate); month <= now; month = addMonths(month, 1)) {
+    const next = addMonths(month, 1);
+    const inMonth = entries.filter(entry => {
+      const date = new Date(entry.date);
+      return date >= month && date < next;
+    });
+    const contributed = inMonth
+      .filter(entry => entry.type === 'contribution')
+      .reduce((sum, entry) => sum + Math.abs(entry.amount), 0);
+    const withdrawn = inMonth
+      .filter(entry => entry.type === 'withdrawal')
+      .reduce((sum, entry) => sum + Math.abs(entry.amount), 0);
+    balance += contributed - withdrawn;
+
+    history.push({
+      month: format(month, 'MMM yy', { locale: ptBR }),
+      contributed,
+      withdrawn,
+      balance,
+    });
+  }
+
+  return history;
+};
+
+/**
+ * Average net amount saved per month over the last months of the ledger
+ */
+export const getAverageMonthlyContribution = (
+  goal: Pick<FinancialGoal, 'id' | 'createdAt'>,
+  contributions: GoalContribution[],
+  months: number = 6,
+  now: Date = new Date()
+): number => {
+  const recent = getGoalHistory(goal, contributions, now).slice(-months);
+  if (recent.length === 0) return 0;
+  const net = recent.reduce((sum, point) => sum + point.contributed - point.withdrawn, 0);
+  return net / recent.length;
+};
+
+/**
+ * Monthly amount still needed to reach the target by the deadline, counting the current month
+ */
+export const getRequiredMonthlyPace = (
+  goal: Pick<FinancialGoal, 'targetAmount' | 'deadline'>,
+  currentAmount: number,
+  now: Date = new Date()
+): number => {
+  const remaining = Math.max(goal.targetAmount - currentAmount, 0);
+  const monthsLeft = differenceInCalendarMonths(new Date(goal.deadline), now) + 1;
+  return monthsLeft > 0 ? remaining / monthsLeft : remaining;
+};
+
+/**
+ * Opening ledger entry for a goal saved with a typed-in current amount
+ */
+export const buildOpeningContribution = (goal: StoredGoal, id: string): GoalContribution | null => {
+  if (!goal.currentAmount || goal.currentAmount <= 0) return null;
+  return {
+    id,
+    goalId: goal.id,
+    type: 'contribution',
+    amount: goal.currentAmount,
+    date: new Date(goal.createdAt),
+    note: 'Saldo inicial',
+  };
+};
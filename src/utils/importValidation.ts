@@ -0,0 +1,370 @@
+/**
+ * Validation of imported data against the form schemas in src/schemas/financial.ts.
+ * Each record is accepted as is, accepted after repairs that do not change its meaning
+ * (ids, numbers written as text, default colors), or rejected with the reasons, and
+ * everything is collected into a report for the user.
+ */
+
+import { z } from 'zod';
+import { Category } from '@/types/financial';
+import {
+  AccountSchema,
+  BudgetSchema,
+  CategorySchema,
+  CreditCardSchema,
+  GoalContributionSchema,
+  GoalSchema,
+  TransactionSchema,
+} from '@/schemas/financial';
+import { parseImportAmount } from '@/utils/bankImport';
+import { findCategory } from '@/utils/categories';
+import { COLLECTION_DATE_FIELDS, FinancialCollection, FinancialDataSet, StoredRecord } from '@/utils/storage';
+
+export type ImportMode = 'merge' | 'replace';
+
+export type ImportRecordStatus = 'accepted' | 'fixed' | 'rejected' | 'skipped' | 'conflict';
+
+export interface ImportRecordIssue {
+  collection: FinancialCollection;
+  label: string; // Name or description shown to the user
+  status: Exclude<ImportRecordStatus, 'accepted'>;
+  messages: string[];
+}
+
+export type ImportCollectionTotals = Record<ImportRecordStatus, number>;
+
+export interface ImportReport {
+  mode: ImportMode;
+  schemaVersion: number;
+  totals: Partial<Record<FinancialCollection, ImportCollectionTotals>>;
+  issues: ImportRecordIssue[];
+}
+
+// Ids already in the app, used to resolve references
+export type ExistingIds = Record<FinancialCollection, Set<string>>;
+
+// Records already in the app, as stored; when merging, imported records with the same id
+// are compared with them
+export type ExistingRecords = Record<FinancialCollection, StoredRecord[]>;
+
+type RawRecord = Record<string, unknown>;
+
+export const IMPORT_COLLECTION_LABELS: Record<FinancialCollection, string> = {
+  accounts: 'Contas',
+  transactions: 'Transações',
+  creditCards: 'Cartões',
+  categories: 'Categorias',
+  goals: 'Metas',
+  goalContributions: 'Movimentações de metas',
+  budgets: 'Orçamentos',
+};
+
+export const IMPORT_STATUS_LABELS: Record<ImportRecordStatus, string> = {
+  accepted: 'Aceito',
+  fixed: 'Corrigido',
+  rejected: 'Rejeitado',
+  skipped: 'Ignorado',
+  conflict: 'Conflito',
+};
+
+// Collections are validated in this order so references point at records already checked
+const COLLECTION_ORDER: FinancialCollection[] = [
+  'categories', 'accounts', 'creditCards', 'transactions', 'goals', 'goalContributions', 'budgets',
+];
+
+const RECORD_SCHEMAS: Record<FinancialCollection, z.ZodTypeAny> = {
+  accounts: AccountSchema,
+  transactions: TransactionSchema,
+  creditCards: CreditCardSchema,
+  categories: CategorySchema,
+  goals: GoalSchema,
+  goalContributions: GoalContributionSchema,
+  budgets: BudgetSchema,
+};
+
+// Form rules about new input that old records legitimately break (past deadlines, future
+// scheduled transactions) and derived fields that are not stored
+const IGNORED_FIELDS: Partial<Record<FinancialCollection, string[]>> = {
+  transactions: ['date'],
+  goals: ['deadline', 'currentAmount'],
+};
+
+// Derived values exports include but stored records do not
+const DERIVED_FIELDS: Partial<Record<FinancialCollection, string[]>> = {
+  accounts: ['balance'],
+  creditCards: ['currentBalance'],
+  goals: ['currentAmount', 'completed'],
+  budgets: ['spent'],
+};
+
+const NUMBER_FIELDS: Partial<Record<FinancialCollection, string[]>> = {
+  accounts: ['openingBalance'],
+  transactions: ['amount'],
+  creditCards: ['limit', 'openingBalance', 'dueDate', 'closingDate'],
+  goals: ['targetAmount'],
+  goalContributions: ['amount'],
+  budgets: ['limit'],
+};
+
+const COLORED_COLLECTIONS: FinancialCollection[] = ['accounts', 'creditCards', 'categories', 'goals', 'budgets'];
+const DEFAULT_COLOR = '#3B82F6';
+
+const generateId = (): string => {
+  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+};
+
+const getLabel = (record: RawRecord): string => {
+  const label = record.description ?? record.name ?? record.title ?? record.note ?? record.id;
+  return label ? String(label) : 'Registro sem identificação';
+};
+
+/**
+ * Repairs that keep the record's meaning. Returns the messages describing what changed.
+ */
+const repairRecord = (collection: FinancialCollection, record: RawRecord, seenIds: Set<string>): string[] => {
+  const fixes: string[] = [];
+
+  if (typeof record.id === 'number') {
+    record.id = String(record.id);
+  }
+  if (typeof record.id !== 'string' || !record.id) {
+    record.id = generateId();
+    fixes.push('Identificador ausente: um novo foi gerado');
+  } else if (seenIds.has(record.id)) {
+    record.id = generateId();
+    fixes.push('Identificador repetido no arquivo: um novo foi gerado');
+  }
+  seenIds.add(record.id as string);
+
+  DERIVED_FIELDS[collection]?.forEach(field => delete record[field]);
+
+  NUMBER_FIELDS[collection]?.forEach(field => {
+    const value = record[field];
+    if (typeof value === 'string' && value.trim()) {
+      const parsed = parseImportAmount(value);
+      if (!isNaN(parsed)) {
+        record[field] = parsed;
+        fixes.push(`Campo "${field}" convertido de texto para número`);
+      }
+    }
+  });
+
+  COLLECTION_DATE_FIELDS[collection]?.forEach(field => {
+    const value = record[field];
+    if (typeof value === 'string' || typeof value === 'number') {
+      record[field] = new Date(value);
+    }
+  });
+
+  if (collection === 'transactions' && typeof record.amount === 'number' && record.amount < 0) {
+    record.amount = Math.abs(record.amount);
+    fixes.push('Valor negativo convertido para positivo; o tipo indica a direção');
+  }
+  if (COLORED_COLLECTIONS.includes(collection) &&
+    (typeof record.color !== 'string' || !/^#[0-9A-F]{6}$/i.test(record.color))) {
+    record.color = DEFAULT_COLOR;
+    fixes.push('Cor inválida substituída pela cor padrão');
+  }
+  if ((collection === 'accounts' || collection === 'goals') &&
+    !(record.createdAt instanceof Date && !isNaN(record.createdAt.getTime()))) {
+    record.createdAt = new Date();
+    fixes.push('Data de criação ausente: usada a data de hoje');
+  }
+  if (collection === 'categories' && !record.icon) {
+    record.icon = '📁';
+    fixes.push('Ícone ausente: usado o ícone padrão');
+  }
+
+  return fixes;
+};
+
+const getSchemaErrors = (collection: FinancialCollection, record: RawRecord): string[] => {
+  const result = RECORD_SCHEMAS[collection].safeParse(record);
+  if (result.success) return [];
+  const ignored = IGNORED_FIELDS[collection] || [];
+  return result.error.issues
+    .filter(issue => !ignored.includes(String(issue.path[0])))
+    // The repo's schemas have Portuguese messages; zod's own defaults are in English
+    .map(issue => issue.message.startsWith('Invalid') ? `Campo "${issue.path.join('.')}" inválido` : issue.message);
+};
+
+/**
+ * Checks ids pointing at other records. Category names are resolved to ids, as the
+ * importers do; missing accounts, cards, goals or transactions reject the record.
+ */
+const checkReferences = (
+  collection: FinancialCollection,
+  record: RawRecord,
+  known: ExistingIds,
+  categories: Category[],
+  fixes: string[]
+): string[] => {
+  const errors: string[] = [];
+  const resolveCategory = (reference: string, field: string) => {
+    if (!reference || known.categories.has(reference)) return reference;
+    const category = findCategory(categories, reference);
+    if (category) {
+      fixes.push(`Categoria "${reference}" em "${field}" associada pelo nome`);
+      return category.id;
+    }
+    return reference;
+  };
+
+  if (collection === 'transactions') {
+    if (record.account && !known.accounts.has(record.account as string)) {
+      errors.push(`Conta "${record.account}" não encontrada`);
+    }
+    if (record.toAccount && !known.accounts.has(record.toAccount as string)) {
+      errors.push(`Conta de destino "${record.toAccount}" não encontrada`);
+    }
+    if (record.creditCard && !known.creditCards.has(record.creditCard as string)) {
+      errors.push(`Cartão "${record.creditCard}" não encontrado`);
+    }
+    record.category = resolveCategory(record.category as string, 'categoria');
+    if (Array.isArray(record.splits)) {
+      record.splits = record.splits.map(split => ({
+        ...split,
+        category: resolveCategory(split?.category, 'divisão'),
+      }));
+    }
+  }
+
+  if (collection === 'goalContributions') {
+    if (!known.goals.has(record.goalId as string)) {
+      errors.push(`Meta "${record.goalId}" não encontrada`);
+    }
+    if (record.transactionId && !known.transactions.has(record.transactionId as string)) {
+      errors.push(`Transação "${record.transactionId}" não encontrada`);
+    }
+  }
+
+  if (collection === 'budgets') {
+    record.category = resolveCategory(record.category as string, 'categoria');
+    if (!known.categories.has(record.category as string)) {
+      errors.push(`Categoria "${record.category}" não encontrada`);
+    }
+  }
+
+  return errors;
+};
+
+// Exports and stored records list their fields in different orders
+const normalizeForComparison = (value: unknown): unknown => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? String(value) : value.toISOString();
+  if (Array.isArray(value)) return value.map(normalizeForComparison);
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .filter(key => (value as RawRecord)[key] !== undefined)
+      .sort()
+      .map(key => [key, normalizeForComparison((value as RawRecord)[key])]);
+  }
+  return value;
+};
+
+const isSameContent = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(normalizeForComparison(a)) === JSON.stringify(normalizeForComparison(b));
+
+const emptyTotals = (): ImportCollectionTotals => ({ accepted: 0, fixed: 0, rejected: 0, skipped: 0, conflict: 0 });
+
+/**
+ * Validates every collection in the (already migrated) import. In merge mode, records
+ * whose id already exists keep the app's version: identical ones are skipped and
+ * different ones reported as conflicts. In replace mode the imported collections stand
+ * alone, so only their own records count for references.
+ */
+export const validateImport = (
+  data: FinancialDataSet,
+  existingRecords: ExistingRecords,
+  existingCategories: Category[],
+  mode: ImportMode,
+  schemaVersion: number
+): { data: FinancialDataSet; report: ImportReport } => {
+  const report: ImportReport = { mode, schemaVersion, totals: {}, issues: [] };
+  const existing = Object.fromEntries(
+    COLLECTION_ORDER.map(collection => [
+      collection,
+      new Map(existingRecords[collection].map(record => [record.id, record])),
+    ])
+  ) as Record<FinancialCollection, Map<string, StoredRecord>>;
+  const valid: Partial<Record<FinancialCollection, RawRecord[]>> = {};
+
+  // References may point at records already in the app unless that collection is replaced
+  const known = Object.fromEntries(
+    COLLECTION_ORDER.map(collection => [
+      collection,
+      new Set(mode === 'replace' && data[collection] ? [] : existing[collection].keys()),
+    ])
+  ) as ExistingIds;
+  let categories = mode === 'replace' && data.categories ? [] : existingCategories;
+
+  COLLECTION_ORDER.forEach(collection => {
+    const records: unknown[] | undefined = data[collection];
+    if (!records) return;
+
+    const totals = emptyTotals();
+    const seenIds = new Set<string>();
+    valid[collection] = [];
+
+    records.forEach(raw => {
+      if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        totals.rejected++;
+        report.issues.push({
+          collection,
+          label: 'Registro inválido',
+          status: 'rejected',
+          messages: ['O registro não é um objeto'],
+        });
+        return;
+      }
+
+      const record: RawRecord = { ...(raw as RawRecord) };
+      const originalId = record.id;
+      const current = mode === 'merge' && typeof originalId === 'string' ? existing[collection].get(originalId) : undefined;
+      if (current) {
+        // Compared as it would be stored, after the same repairs and category lookups
+        repairRecord(collection, record, new Set());
+        checkReferences(collection, record, known, categories, []);
+        seenIds.add(originalId as string);
+        const same = isSameContent(record, current);
+        totals[same ? 'skipped' : 'conflict']++;
+        report.issues.push({
+          collection,
+          label: getLabel(record),
+          status: same ? 'skipped' : 'conflict',
+          messages: [same
+            ? 'Já existe um registro igual'
+            : 'Já existe um registro com o mesmo identificador e dados diferentes; a versão atual foi mantida'],
+        });
+        return;
+      }
+
+      const fixes = repairRecord(collection, record, seenIds);
+      const errors = [
+        ...getSchemaErrors(collection, record),
+        ...checkReferences(collection, record, known, categories, fixes),
+      ];
+
+      if (errors.length > 0) {
+        totals.rejected++;
+        report.issues.push({ collection, label: getLabel(record), status: 'rejected', messages: errors });
+        return;
+      }
+
+      known[collection].add(record.id as string);
+      valid[collection].push(record);
+      if (fixes.length > 0) {
+        totals.fixed++;
+        report.issues.push({ collection, label: getLabel(record), status: 'fixed', messages: fixes });
+      } else {
+        totals.accepted++;
+      }
+    });
+
+    if (collection === 'categories') {
+      categories = [...categories, ...(valid.categories as unknown as Category[])];
+    }
+    report.totals[collection] = totals;
+  });
+
+  return { data: valid as unknown as FinancialDataSet, report };
+};
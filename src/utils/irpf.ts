@@ -0,0 +1,313 @@
+/**
+ * Helper for the Brazilian income-tax declaration (IRPF). It groups a calendar year's
+ * transactions into the declaration's sections; it does not compute the tax due.
+ */
+
+import { endOfDay, format } from 'date-fns';
+import { Account, Category, Transaction } from '@/types/financial';
+import { arrayToCSV } from '@/utils/dataExport';
+import { getRootCategory } from '@/utils/categories';
+import { getAccountBalanceAt } from '@/utils/ledger';
+import { getCategoryAllocations } from '@/utils/splits';
+import { normalizeText } from '@/utils/textSimilarity';
+
+export type IRPFIncomeKind = 'taxable' | 'exempt' | 'exclusive';
+export type IRPFDeductionKind = 'health' | 'education' | 'pension';
+
+type IRPFClassification =
+  | { section: 'income'; kind: IRPFIncomeKind }
+  | { section: 'investment' }
+  | { section: 'deduction'; kind: IRPFDeductionKind }
+  | { section: 'ignore' };
+
+export interface IRPFIncomeSource {
+  source: string; // Payer, taken from the transaction description
+  category: string;
+  kind: IRPFIncomeKind;
+  amount: number;
+  count: number;
+}
+
+export interface IRPFInvestmentIncome {
+  accountId: string;
+  account: string;
+  kind: Exclude<IRPFIncomeKind, 'taxable'>;
+  amount: number;
+}
+
+export interface IRPFDeduction {
+  kind: IRPFDeductionKind;
+  provider: string;
+  amount: number;
+  count: number;
+}
+
+export interface IRPFAsset {
+  accountId: string;
+  name: string;
+  bank: string;
+  code: string; // Suggested "grupo.código" of Bens e Direitos
+  description: string;
+  previousBalance: number; // Dec 31 of the year before
+  currentBalance: number; // Dec 31 of the report year
+}
+
+export interface IRPFReport {
+  year: number; // Ano-calendário; the declaration is filed the year after
+  income: IRPFIncomeSource[];
+  investmentIncome: IRPFInvestmentIncome[];
+  deductions: IRPFDeduction[];
+  assets: IRPFAsset[];
+  totals: {
+    taxableIncome: number;
+    exemptIncome: number;
+    exclusiveIncome: number;
+    health: number;
+    education: number; // Capped at the per-person limit
+    pension: number; // Capped at 12% of taxable income
+  };
+}
+
+export const IRPF_INCOME_KIND_LABELS: Record<IRPFIncomeKind, string> = {
+  taxable: 'Tributável',
+  exempt: 'Isento',
+  exclusive: 'Tributação exclusiva',
+};
+
+export const IRPF_DEDUCTION_LABELS: Record<IRPFDeductionKind, string> = {
+  health: 'Saúde',
+  education: 'Educação',
+  pension: 'Previdência privada (PGBL)',
+};
+
+// Annual education deduction per person (dependents have their own limit)
+export const EDUCATION_DEDUCTION_LIMIT = 3561.5;
+// PGBL contributions deduct up to this share of taxable income
+export const PENSION_DEDUCTION_RATE = 0.12;
+
+// How the default categories map to the declaration, by their fixed ids; user categories
+// fall back to their root
+const DEFAULT_CATEGORY_RULES: Record<string, IRPFClassification> = {
+  '1': { section: 'income', kind: 'taxable' }, // Salário
+  '2': { section: 'income', kind: 'taxable' }, // Freelance (carnê-leão)
+  '3': { section: 'investment' }, // Investimentos
+  '8': { section: 'deduction', kind: 'health' }, // Saúde
+};
+
+// Categories users commonly create for the remaining deductions, matched by name
+const CATEGORY_NAME_RULES: Record<string, IRPFClassification> = {
+  saude: { section: 'deduction', kind: 'health' },
+  educacao: { section: 'deduction', kind: 'education' },
+  previdencia: { section: 'deduction', kind: 'pension' },
+};
+
+// Tags override the category, e.g. a "Moradia" bill tagged "educacao" or a bonus tagged "isento"
+const TAG_RULES: Record<string, IRPFClassification> = {
+  saude: { section: 'deduction', kind: 'health' },
+  educacao: { section: 'deduction', kind: 'education' },
+  previdencia: { section: 'deduction', kind: 'pension' },
+  pgbl: { section: 'deduction', kind: 'pension' },
+  tributavel: { section: 'income', kind: 'taxable' },
+  isento: { section: 'income', kind: 'exempt' },
+  exclusiva: { section: 'income', kind: 'exclusive' },
+  'nao declarar': { section: 'ignore' },
+};
+
+// Suggested Bens e Direitos group and code per account type
+const ASSET_CODES: Record<Account['type'], { code: string; description: string }> = {
+  checking: { code: '06.01', description: 'Depósito em conta corrente ou conta pagamento' },
+  savings: { code: '04.01', description: 'Depósito em conta poupança' },
+  investment: { code: '04.02', description: 'Títulos públicos e privados sujeitos à tributação' },
+};
+
+// "irpf-saude", "IRPF: Educação" and "saúde" all name the same tag
+const normalizeTag = (tag: string) => normalizeText(tag).replace(/^irpf\s*/, '');
+
+const classify = (
+  transaction: Transaction,
+  category: string,
+  tags: string[],
+  categories: Category[]
+): IRPFClassification => {
+  const tagRule = tags.map(tag => TAG_RULES[normalizeTag(tag)]).find(Boolean);
+  if (tagRule) {
+    // Income tags only apply to income, deduction tags only to expenses
+    const applies = tagRule.section === 'ignore' ||
+      (tagRule.section === 'deduction') === (transaction.type === 'expense');
+    if (applies) return tagRule;
+  }
+
+  const root = getRootCategory(categories, category);
+  const rule = (root && DEFAULT_CATEGORY_RULES[root.id]) ||
+    (root && CATEGORY_NAME_RULES[normalizeText(root.name)]);
+  if (rule && (rule.section === 'deduction') === (transaction.type === 'expense')) return rule;
+
+  // Other income still has to be declared; it is listed as taxable for the user to review
+  return transaction.type === 'income' ? { section: 'income', kind: 'taxable' } : { section: 'ignore' };
+};
+
+const MONTH_NAMES = /\b(janeiro|fevereiro|mar[cç]o|abril|maio|junho|julho|agosto|setembro|outubro|novembro|dezembro)\b/gi;
+
+// "Salário Janeiro/2024" and "Salário 02/2024" come from the same payer
+const getSourceName = (description: string): string => {
+  const name = description
+    .replace(MONTH_NAMES, ' ')
+    .replace(/\d[\d/.-]*/g, ' ')
+    // Separators left dangling by the removed dates
+    .replace(/(\s[-/|:]+)+\s/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s\-/|:]+|[\s\-/|:]+$/g, '');
+  return name || description.trim();
+};
+
+const groupKey = (...parts: string[]) => parts.map(part => normalizeText(part)).join('|');
+
+/**
+ * Builds the IRPF helper report for a calendar year
+ */
+export const buildIRPFReport = (
+  year: number,
+  transactions: Transaction[],
+  accounts: Account[],
+  categories: Category[]
+): IRPFReport => {
+  // Card refunds give back an expense; they are not income
+  const yearTransactions = transactions.filter(t =>
+    new Date(t.date).getFullYear() === year &&
+    t.type !== 'transfer' &&
+    !(t.type === 'income' && t.creditCard)
+  );
+  const accountsById = new Map(accounts.map(account => [account.id, account]));
+
+  const income = new Map<string, IRPFIncomeSource>();
+  const investments = new Map<string, IRPFInvestmentIncome>();
+  const deductions = new Map<string, IRPFDeduction>();
+
+  yearTransactions.forEach(transaction => {
+    getCategoryAllocations(transaction).forEach(split => {
+      const tags = Array.from(new Set([...(transaction.tags || []), ...(split.tags || [])]));
+      const rule = classify(transaction, split.category, tags, categories);
+      const categoryName = getRootCategory(categories, split.category)?.name || 'Sem categoria';
+      const source = getSourceName(transaction.description) || categoryName;
+
+      if (rule.section === 'income') {
+        const key = groupKey(rule.kind, categoryName, source);
+        const entry = income.get(key) || { source, category: categoryName, kind: rule.kind, amount: 0, count: 0 };
+        entry.amount += split.amount;
+        entry.count += 1;
+        income.set(key, entry);
+      } else if (rule.section === 'investment') {
+        const account = accountsById.get(transaction.account);
+        // Savings (poupança) yields are exempt; other investments are taxed at source
+        const kind = account?.type === 'savings' ? 'exempt' : 'exclusive';
+        const key = `${transaction.account}|${kind}`;
+        const entry = investments.get(key) ||
+          { accountId: transaction.account, account: account?.name || transaction.account, kind, amount: 0 };
+        entry.amount += split.amount;
+        investments.set(key, entry);
+      } else if (rule.section === 'deduction') {
+        const key = groupKey(rule.kind, source);
+        const entry = deductions.get(key) || { kind: rule.kind, provider: source, amount: 0, count: 0 };
+        entry.amount += split.amount;
+        entry.count += 1;
+        deductions.set(key, entry);
+      }
+    });
+  });
+
+  const previousYearEnd = endOfDay(new Date(year - 1, 11, 31));
+  const yearEnd = endOfDay(new Date(year, 11, 31));
+  // An account opened after the date did not exist yet, whatever its opening balance
+  const getBalanceAt = (account: Account, date: Date) =>
+    account.createdAt && new Date(account.createdAt) > date ? 0 : getAccountBalanceAt(account, transactions, date);
+  const assets = accounts.map(account => ({
+    accountId: account.id,
+    name: account.name,
+    bank: account.bank,
+    ...ASSET_CODES[account.type],
+    previousBalance: getBalanceAt(account, previousYearEnd),
+    currentBalance: getBalanceAt(account, yearEnd),
+  }));
+
+  const byAmount = <T extends { amount: number }>(a: T, b: T) => b.amount - a.amount;
+  const incomeList = Array.from(income.values()).sort(byAmount);
+  const investmentList = Array.from(investments.values()).sort(byAmount);
+  const deductionList = Array.from(deductions.values()).sort(byAmount);
+  const sum = (items: { amount: number }[]) => items.reduce((total, item) => total + item.amount, 0);
+
+  const taxableIncome = sum(incomeList.filter(item => item.kind === 'taxable'));
+  const deductionTotal = (kind: IRPFDeductionKind) => sum(deductionList.filter(item => item.kind === kind));
+
+  return {
+    year,
+    income: incomeList,
+    investmentIncome: investmentList,
+    deductions: deductionList,
+    assets,
+    totals: {
+      taxableIncome,
+      exemptIncome: sum(incomeList.filter(item => item.kind === 'exempt')) +
+        sum(investmentList.filter(item => item.kind === 'exempt')),
+      exclusiveIncome: sum(incomeList.filter(item => item.kind === 'exclusive')) +
+        sum(investmentList.filter(item => item.kind === 'exclusive')),
+      health: deductionTotal('health'),
+      education: Math.min(deductionTotal('education'), EDUCATION_DEDUCTION_LIMIT),
+      pension: Math.min(deductionTotal('pension'), taxableIncome * PENSION_DEDUCTION_RATE),
+    },
+  };
+};
+
+const formatAmount = (amount: number) => amount.toFixed(2).replace('.', ',');
+
+/**
+ * One CSV with a block per declaration section, separated by blank lines
+ */
+export const exportIRPFReportToCSV = (report: IRPFReport): string => {
+  const blocks = [
+    arrayToCSV(
+      report.income.map(item => ({
+        'Seção': 'Rendimentos',
+        'Fonte': item.source,
+        'Categoria': item.category,
+        'Tipo': IRPF_INCOME_KIND_LABELS[item.kind],
+        'Lançamentos': item.count,
+        'Valor': formatAmount(item.amount),
+      })),
+      ['Seção', 'Fonte', 'Categoria', 'Tipo', 'Lançamentos', 'Valor']
+    ),
+    arrayToCSV(
+      report.investmentIncome.map(item => ({
+        'Seção': 'Rendimentos de aplicações',
+        'Conta': item.account,
+        'Tipo': IRPF_INCOME_KIND_LABELS[item.kind],
+        'Valor': formatAmount(item.amount),
+      })),
+      ['Seção', 'Conta', 'Tipo', 'Valor']
+    ),
+    arrayToCSV(
+      report.deductions.map(item => ({
+        'Seção': 'Pagamentos dedutíveis',
+        'Tipo': IRPF_DEDUCTION_LABELS[item.kind],
+        'Prestador': item.provider,
+        'Lançamentos': item.count,
+        'Valor': formatAmount(item.amount),
+      })),
+      ['Seção', 'Tipo', 'Prestador', 'Lançamentos', 'Valor']
+    ),
+    arrayToCSV(
+      report.assets.map(asset => ({
+        'Seção': 'Bens e Direitos',
+        'Código': asset.code,
+        'Discriminação': `${asset.description} - ${asset.bank} - ${asset.name}`,
+        [`Situação em 31/12/${report.year - 1}`]: formatAmount(asset.previousBalance),
+        [`Situação em 31/12/${report.year}`]: formatAmount(asset.currentBalance),
+      })),
+      ['Seção', 'Código', 'Discriminação', `Situação em 31/12/${report.year - 1}`, `Situação em 31/12/${report.year}`]
+    ),
+  ];
+
+  return blocks.join('\n\n');
+};
+
+export const getIRPFFilename = (report: IRPFReport, extension: 'csv' | 'pdf') =>
+  `irpf-${report.year + 1}_ano-calendario-${report.year}_${format(new Date(), 'yyyy-MM-dd')}.${extension}`;
@@ -0,0 +1,119 @@
+import { Account, Transaction } from '@/types/financial';
+
+// Persisted account shape: the balance is always derived from the ledger
+export type StoredAccount = Omit<Account, 'balance'>;
+
+export interface BalanceDiscrepancy {
+  account: Account;
+  storedBalance: number;
+  ledgerBalance: number;
+  difference: number;
+}
+
+// Differences below half a cent are rounding noise, not discrepancies
+const BALANCE_TOLERANCE = 0.005;
+
+/**
+ * Balance change per account id caused by a transaction.
+ * Use direction -1 to get the deltas that revert it.
+ */
+export const getBalanceDeltas = (
+  transaction: Omit<Transaction, 'id'>,
+  direction: 1 | -1 = 1
+): Record<string, number> => {
+  const amount = Math.abs(transaction.amount) * direction;
+
+  if (transaction.type === 'transfer') {
+    const deltas: Record<string, number> = { [transaction.account]: -amount };
+    if (transaction.toAccount) {
+      deltas[transaction.toAccount] = (deltas[transaction.toAccount] || 0) + amount;
+    }
+    return deltas;
+  }
+
+  // Card purchases only move account money once the statement is paid
+  if (transaction.creditCard) {
+    return {};
+  }
+
+  return { [transaction.account]: transaction.type === 'income' ? amount : -amount };
+};
+
+/**
+ * Computes every account balance as its opening balance plus the net effect
+ * of the transactions that reference it
+ */
+export const computeAccountBalances = (
+  accounts: StoredAccount[],
+  transactions: Transaction[]
+): Record<string, number> => {
+  const balances: Record<string, number> = {};
+  accounts.forEach(account => {
+    balances[account.id] = account.openingBalance || 0;
+  });
+
+  transactions.forEach(transaction => {
+    Object.entries(getBalanceDeltas(transaction)).forEach(([accountId, delta]) => {
+      if (accountId in balances) {
+        balances[accountId] += delta;
+      }
+    });
+  });
+
+  return balances;
+};
+
+/**
+ * Ledger balance of one account at the end of a given moment, e.g. to compare with
+ * the balance a bank statement reports as of that date
+ */
+export const getAccountBalanceAt = (
+  account: StoredAccount,
+  transactions: Transaction[],
+  date: Date
+): number => {
+  return transactions
+    .filter(transaction => new Date(transaction.date) <= date)
+    .reduce((balance, transaction) => balance + (getBalanceDeltas(transaction)[account.id] || 0), account.openingBalance || 0);
+};
+
+/**
+ * Brings an account record from the old model (a mutable `balance`) to the ledger model.
+ * The old balance already included every transaction, so the opening balance is what
+ * it was before them; the old value is kept as the stored value to reconcile against.
+ */
+export const normalizeStoredAccount = (
+  account: Omit<StoredAccount, 'openingBalance'> & { openingBalance?: number; balance?: number },
+  transactions: Omit<Transaction, 'id'>[] = []
+): StoredAccount => {
+  const { balance, ...rest } = account;
+  if (typeof rest.openingBalance === 'number') {
+    return rest as StoredAccount;
+  }
+
+  const legacyBalance = Number(balance) || 0;
+  const transactionTotal = transactions.reduce((total, transaction) => {
+    const delta = getBalanceDeltas(transaction)[account.id];
+    return Number.isFinite(delta) ? total + delta : total;
+  }, 0);
+  return {
+    ...rest,
+    openingBalance: legacyBalance - transactionTotal,
+    storedBalance: legacyBalance,
+  };
+};
+
+/**
+ * Lists accounts whose stored balance disagrees with the ledger
+ */
+export const findBalanceDiscrepancies = (accounts: Account[]): BalanceDiscrepancy[] => {
+  return accounts
+    .filter(account => typeof account.storedBalance === 'number')
+    .map(account => ({
+      account,
+      storedBalance: account.storedBalance!,
+      ledgerBalance: account.balance,
+      difference: account.storedBalance! - account.balance,
+    }))
+    .filter(discrepancy => Math.abs(discrepancy.difference) >= BALANCE_TOLERANCE);
+};
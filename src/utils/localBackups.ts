@@ -0,0 +1,289 @@
+/**
+ * Snapshots of the financial data kept in the browser, for the automatic backup
+ * scheduler and the restore list in Settings. They live in IndexedDB next to the data,
+ * or in localStorage when IndexedDB is unavailable. Each snapshot stores every
+ * collection as JSON under its localStorage key, the format used before IndexedDB, so
+ * older snapshots restore the same way.
+ */
+
+import { addDays, addMonths, addWeeks } from 'date-fns';
+import type { AppSettings } from '@/hooks/useSettings';
+import { hashData } from '@/utils/encryption';
+import { CURRENT_SCHEMA_VERSION, getSchemaVersion } from '@/utils/migrations';
+import {
+  BACKUPS_STORE,
+  BACKUP_PAYLOADS_STORE,
+  COLLECTION_KEYS,
+  FINANCIAL_COLLECTIONS,
+  READ_ONLY_MESSAGE,
+  SCHEMA_VERSION_KEY,
+  getFinancialStorage,
+  isIndexedDBAvailable,
+  openFinancialDatabase,
+  promisifyRequest,
+  reviveDates,
+  transactionDone,
+} from '@/utils/storage';
+
+export type BackupTrigger = 'auto' | 'manual';
+
+export interface LocalBackupInfo {
+  id: string;
+  createdAt: string;
+  trigger: BackupTrigger;
+  size: number; // Bytes of the stored snapshot
+  checksum: string; // SHA-256 of the snapshot, checked before restoring
+  keys: string[]; // Storage keys the snapshot holds
+  transactionCount: number;
+}
+
+export interface LocalBackupOptions {
+  trigger: BackupTrigger;
+  includeCategories: boolean;
+  includeSettings: boolean;
+  maxBackups: number;
+}
+
+interface BackupStore {
+  list(): Promise<LocalBackupInfo[]>;
+  read(id: string): Promise<string | undefined>;
+  write(info: LocalBackupInfo, payload: string): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+const BACKUP_INDEX_KEY = 'tijigui-mobills-backups';
+const BACKUP_KEY_PREFIX = 'tijigui-mobills-backup:';
+
+const SETTINGS_KEY = 'tijigui-mobills-settings';
+
+const FREQUENCY_STEP: Record<AppSettings['backup']['backupFrequency'], (date: Date) => Date> = {
+  daily: date => addDays(date, 1),
+  weekly: date => addWeeks(date, 1),
+  monthly: date => addMonths(date, 1),
+};
+
+const readLegacyIndex = (): LocalBackupInfo[] => {
+  try {
+    const stored = localStorage.getItem(BACKUP_INDEX_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading backup list:', error);
+    return [];
+  }
+};
+
+const localStorageBackups: BackupStore = {
+  async list() {
+    return readLegacyIndex();
+  },
+  async read(id) {
+    return localStorage.getItem(BACKUP_KEY_PREFIX + id) ?? undefined;
+  },
+  async write(info, payload) {
+    localStorage.setItem(BACKUP_KEY_PREFIX + info.id, payload);
+    localStorage.setItem(BACKUP_INDEX_KEY, JSON.stringify([info, ...readLegacyIndex()]));
+  },
+  async remove(id) {
+    localStorage.removeItem(BACKUP_KEY_PREFIX + id);
+    localStorage.setItem(BACKUP_INDEX_KEY, JSON.stringify(readLegacyIndex().filter(backup => backup.id !== id)));
+  },
+};
+
+const createIndexedDBBackups = (db: IDBDatabase): BackupStore => ({
+  list() {
+    return promisifyRequest(db.transaction(BACKUPS_STORE, 'readonly').objectStore(BACKUPS_STORE).getAll());
+  },
+  read(id) {
+    const store = db.transaction(BACKUP_PAYLOADS_STORE, 'readonly').objectStore(BACKUP_PAYLOADS_STORE);
+    return promisifyRequest<string | undefined>(store.get(id));
+  },
+  async write(info, payload) {
+    const transaction = db.transaction([BACKUPS_STORE, BACKUP_PAYLOADS_STORE], 'readwrite');
+    transaction.objectStore(BACKUP_PAYLOADS_STORE).put(payload, info.id);
+    transaction.objectStore(BACKUPS_STORE).put(info);
+    await transactionDone(transaction);
+  },
+  async remove(id) {
+    const transaction = db.transaction([BACKUPS_STORE, BACKUP_PAYLOADS_STORE], 'readwrite');
+    transaction.objectStore(BACKUP_PAYLOADS_STORE).delete(id);
+    transaction.objectStore(BACKUPS_STORE).delete(id);
+    await transactionDone(transaction);
+  },
+});
+
+// Backups taken before they moved to IndexedDB are carried over once
+const moveLegacyBackups = async (store: BackupStore) => {
+  for (const info of readLegacyIndex()) {
+    try {
+      const payload = await localStorageBackups.read(info.id);
+      if (payload !== undefined) await store.write(info, payload);
+      await localStorageBackups.remove(info.id);
+    } catch (error) {
+      // Left in localStorage and tried again on the next start
+      console.error('Error moving backup to IndexedDB:', error);
+    }
+  }
+  if (readLegacyIndex().length === 0) localStorage.removeItem(BACKUP_INDEX_KEY);
+};
+
+let backupStorePromise: Promise<BackupStore> | null = null;
+
+const getBackupStore = (): Promise<BackupStore> => {
+  if (!backupStorePromise) {
+    backupStorePromise = (async () => {
+      if (!isIndexedDBAvailable()) return localStorageBackups;
+      try {
+        const store = createIndexedDBBackups(await openFinancialDatabase());
+        await moveLegacyBackups(store);
+        return store;
+      } catch (error) {
+        console.error('IndexedDB unavailable for backups, using localStorage:', error);
+        return localStorageBackups;
+      }
+    })();
+  }
+  return backupStorePromise;
+};
+
+/**
+ * Backups newest first
+ */
+export const listLocalBackups = async (): Promise<LocalBackupInfo[]> => {
+  try {
+    const backups = await (await getBackupStore()).list();
+    return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  } catch (error) {
+    console.error('Error reading backup list:', error);
+    return [];
+  }
+};
+
+export const deleteLocalBackup = async (id: string) => {
+  await (await getBackupStore()).remove(id);
+};
+
+/**
+ * Removes the oldest backups beyond the limit
+ */
+export const pruneLocalBackups = async (maxBackups: number) => {
+  for (const backup of (await listLocalBackups()).slice(Math.max(maxBackups, 1))) {
+    await deleteLocalBackup(backup.id);
+  }
+};
+
+export const isBackupDue = (
+  frequency: AppSettings['backup']['backupFrequency'],
+  lastBackup: LocalBackupInfo | undefined,
+  now: Date = new Date()
+): boolean => {
+  if (!lastBackup) return true;
+  return now >= FREQUENCY_STEP[frequency](new Date(lastBackup.createdAt));
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+
+/**
+ * Snapshots the current data into browser storage and rotates old backups. When the
+ * storage is full, the oldest backups make room for the new one.
+ */
+export const createLocalBackup = async (options: LocalBackupOptions): Promise<LocalBackupInfo> => {
+  const storage = await getFinancialStorage();
+  const data: Record<string, string> = {};
+  for (const collection of FINANCIAL_COLLECTIONS) {
+    if (collection === 'categories' && !options.includeCategories) continue;
+    const records = await storage.load(collection);
+    if (records) data[COLLECTION_KEYS[collection]] = JSON.stringify(records);
+  }
+  const version = await storage.getSchemaVersion();
+  if (version) data[SCHEMA_VERSION_KEY] = String(version);
+  const settings = localStorage.getItem(SETTINGS_KEY);
+  if (options.includeSettings && settings !== null) data[SETTINGS_KEY] = settings;
+
+  const payload = JSON.stringify(data);
+  const createdAt = new Date().toISOString();
+  const info: LocalBackupInfo = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt,
+    trigger: options.trigger,
+    size: new TextEncoder().encode(payload).length,
+    checksum: await hashData(payload),
+    keys: Object.keys(data),
+    transactionCount: data['financial-transactions'] ? JSON.parse(data['financial-transactions']).length : 0,
+  };
+
+  const store = await getBackupStore();
+  for (;;) {
+    try {
+      await store.write(info, payload);
+      break;
+    } catch (error) {
+      const oldest = (await listLocalBackups()).pop();
+      if (!isQuotaError(error) || !oldest) throw error;
+      await deleteLocalBackup(oldest.id);
+    }
+  }
+
+  await pruneLocalBackups(options.maxBackups);
+  return info;
+};
+
+const readPayload = async (id: string): Promise<string> => {
+  const payload = await (await getBackupStore()).read(id);
+  if (payload === undefined) {
+    throw new Error('Backup não encontrado');
+  }
+  return payload;
+};
+
+/**
+ * Whether the stored snapshot still matches the checksum taken when it was created
+ */
+export const verifyLocalBackup = async (backup: LocalBackupInfo): Promise<boolean> => {
+  try {
+    return (await hashData(await readPayload(backup.id))) === backup.checksum;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * What a restore keeps from the current data, because the snapshot was taken with
+ * categories or settings left out
+ */
+export const getKeptByRestore = (backup: LocalBackupInfo): string[] => [
+  ...(backup.keys.includes(COLLECTION_KEYS.categories) ? [] : ['categorias']),
+  ...(backup.keys.includes(SETTINGS_KEY) ? [] : ['configurações']),
+];
+
+/**
+ * Writes a snapshot back over the current data after checking its checksum. Other
+ * collections the snapshot does not hold had no records when it was taken, so they
+ * are emptied; categories and settings left out are kept (see getKeptByRestore).
+ */
+export const restoreLocalBackup = async (backup: LocalBackupInfo): Promise<void> => {
+  const payload = await readPayload(backup.id);
+  if ((await hashData(payload)) !== backup.checksum) {
+    throw new Error('Backup corrompido: o checksum não confere');
+  }
+
+  const data: Record<string, string> = JSON.parse(payload);
+  const storage = await getFinancialStorage();
+  // The same check that makes the FinancialProvider read-only: data saved by a newer
+  // version of the app is never overwritten
+  if (getSchemaVersion(await storage.getSchemaVersion()) > CURRENT_SCHEMA_VERSION) {
+    throw new Error(READ_ONLY_MESSAGE);
+  }
+
+  for (const collection of FINANCIAL_COLLECTIONS) {
+    const value = data[COLLECTION_KEYS[collection]];
+    if (value !== undefined) {
+      await storage.replace(collection, reviveDates(collection, JSON.parse(value)));
+    } else if (collection !== 'categories') {
+      await storage.replace(collection, []);
+    }
+  }
+  if (data[SETTINGS_KEY] !== undefined) localStorage.setItem(SETTINGS_KEY, data[SETTINGS_KEY]);
+  // Without a version the snapshot predates the versioned schema; migrate it on the next load
+  await storage.setSchemaVersion(data[SCHEMA_VERSION_KEY] ? Number(data[SCHEMA_VERSION_KEY]) : null);
+};
@@ -0,0 +1,63 @@
+/**
+ * In-memory stand-in for the Supabase sync tables, following the same rules as the
+ * migrations in supabase/migrations: each write raises the row's version and sets its
+ * `updated_at`, and a write based on an older version than the stored one is rejected.
+ * Used by the tests, and usable to try the sync without a Supabase project.
+ */
+
+import type { SyncPushResult, SyncRemote, SyncRow } from '@/utils/cloudSync';
+import type { FinancialCollection } from '@/utils/storage';
+
+export interface MemorySyncRemote extends SyncRemote {
+  /** Stored rows of a collection, tombstones included */
+  rows(collection: FinancialCollection): SyncRow[];
+}
+
+// Rows go through JSON like they do through jsonb, so callers never share objects
+const copyRow = (row: SyncRow): SyncRow => JSON.parse(JSON.stringify(row));
+
+/**
+ * @param now - Clock for `updated_at`; a clock set back stands for a write that
+ * commits after later ones
+ */
+export const createMemorySyncRemote = (now: () => Date = () => new Date()): MemorySyncRemote => {
+  const tables = new Map<FinancialCollection, Map<string, SyncRow>>();
+  const getTable = (collection: FinancialCollection) => {
+    const table = tables.get(collection) ?? new Map<string, SyncRow>();
+    tables.set(collection, table);
+    return table;
+  };
+
+  return {
+    async pull(collection, since) {
+      return [...getTable(collection).values()]
+        .filter(row => !since || new Date(row.updated_at) >= new Date(since))
+        .sort((a, b) => a.updated_at.localeCompare(b.updated_at) || a.id.localeCompare(b.id))
+        .map(copyRow);
+    },
+
+    async push(collection, rows) {
+      const table = getTable(collection);
+      return rows.map((input): SyncPushResult => {
+        const stored = table.get(input.id);
+        if (stored && stored.version !== input.base_version) {
+          return { applied: false, row: copyRow(stored) };
+        }
+        const row = copyRow({
+          id: input.id,
+          data: input.data,
+          deleted: input.deleted,
+          schema_version: input.schema_version,
+          version: (stored?.version ?? 0) + 1,
+          updated_at: now().toISOString(),
+        });
+        table.set(row.id, row);
+        return { applied: true, row: copyRow(row) };
+      });
+    },
+
+    rows(collection) {
+      return [...getTable(collection).values()].map(copyRow);
+    },
+  };
+};
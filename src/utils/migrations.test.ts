@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { Account } from '@/types/financial';
+import { StoredAccount, computeAccountBalances, findBalanceDiscrepancies } from '@/utils/ledger';
+import {
+  CURRENT_SCHEMA_VERSION,
+  LEGACY_SCHEMA_VERSION,
+  getSchemaVersion,
+  migrateDataSet,
+  validateDataSet,
+} from '@/utils/migrations';
+import { FinancialDataSet } from '@/utils/storage';
+
+// Data as the app saved it before the schema was versioned
+const legacyData = (data: Record<string, unknown[]>) => data as unknown as FinancialDataSet;
+
+describe('migrateDataSet', () => {
+  it('keeps the balance of a legacy account with transactions', () => {
+    const migrated = migrateDataSet(legacyData({
+      accounts: [
+        { id: 'a1', name: 'Corrente', type: 'checking', balance: 1150, createdAt: '2025-01-01T00:00:00.000Z' },
+        { id: 'a2', name: 'Poupança', type: 'savings', balance: 300, createdAt: '2025-01-01T00:00:00.000Z' },
+      ],
+      transactions: [
+        { id: 't1', description: 'Salário', amount: 200, type: 'income', category: '1', account: 'a1', date: '2025-02-05T00:00:00.000Z' },
+        { id: 't2', description: 'Mercado', amount: 50, type: 'expense', category: '5', account: 'a1', date: '2025-02-06T00:00:00.000Z' },
+      ],
+    }), LEGACY_SCHEMA_VERSION);
+
+    const { data, quarantined } = validateDataSet(migrated);
+    expect(quarantined).toEqual([]);
+    const accounts = data.accounts as StoredAccount[];
+    expect(accounts).toMatchObject([
+      { id: 'a1', openingBalance: 1000, storedBalance: 1150 },
+      { id: 'a2', openingBalance: 300, storedBalance: 300 },
+    ]);
+
+    const balances = computeAccountBalances(accounts, data.transactions || []);
+    expect(balances).toEqual({ a1: 1150, a2: 300 });
+    const withBalances: Account[] = accounts.map(account => ({ ...account, balance: balances[account.id] }));
+    expect(findBalanceDiscrepancies(withBalances)).toEqual([]);
+  });
+
+  it('v2 drops the stored spending of budgets', () => {
+    const { budgets } = migrateDataSet(legacyData({
+      budgets: [{ id: 'b1', category: '4', limit: 500, spent: 320, period: 'monthly' }],
+    }), 1);
+    expect(budgets).toEqual([{ id: 'b1', category: '4', limit: 500, period: 'monthly' }]);
+  });
+
+  it('v3 moves the amount saved for a goal into an opening contribution', () => {
+    const { goals, goalContributions } = migrateDataSet(legacyData({
+      goals: [
+        { id: 'g1', title: 'Viagem', targetAmount: 5000, currentAmount: 1200, completed: false, deadline: '2026-01-01', createdAt: '2025-01-01T00:00:00.000Z' },
+        { id: 'g2', title: 'Carro', targetAmount: 30000, currentAmount: 0, completed: false, deadline: '2027-01-01', createdAt: '2025-01-01T00:00:00.000Z' },
+      ],
+    }), 2);
+    expect(goals).toEqual([
+      { id: 'g1', title: 'Viagem', targetAmount: 5000, deadline: '2026-01-01', createdAt: '2025-01-01T00:00:00.000Z' },
+      { id: 'g2', title: 'Carro', targetAmount: 30000, deadline: '2027-01-01', createdAt: '2025-01-01T00:00:00.000Z' },
+    ]);
+    expect(goalContributions).toEqual([
+      expect.objectContaining({ goalId: 'g1', type: 'contribution', amount: 1200, date: new Date('2025-01-01T00:00:00.000Z') }),
+    ]);
+  });
+
+  it('v4 leaves accounts that already have an opening balance untouched', () => {
+    const migrated = { id: 'a1', name: 'Corrente', type: 'checking', openingBalance: 10, createdAt: '2025-01-01T00:00:00.000Z' };
+    const { accounts } = migrateDataSet(legacyData({ accounts: [migrated] }), 3);
+    expect(accounts).toEqual([migrated]);
+  });
+
+  it('v5 turns the current balance of a card into its opening balance', () => {
+    const { creditCards } = migrateDataSet(legacyData({
+      creditCards: [{ id: 'c1', name: 'Cartão', limit: 3000, currentBalance: 450, dueDate: 10, closingDate: 3 }],
+    }), 4);
+    expect(creditCards).toEqual([{ id: 'c1', name: 'Cartão', limit: 3000, openingBalance: 450, dueDate: 10, closingDate: 3 }]);
+  });
+
+  it('v6 references categories by id, including in splits and budgets', () => {
+    const { transactions, budgets } = migrateDataSet(legacyData({
+      transactions: [
+        { id: 't1', description: 'Mercado', amount: 80, type: 'expense', category: 'alimentação', account: 'a1', date: '2025-02-06' },
+        {
+          id: 't2', description: 'Posto e lanche', amount: 100, type: 'expense', category: 'Transporte', account: 'a1', date: '2025-02-07',
+          splits: [{ category: 'Transporte', amount: 70 }, { category: 'Alimentação', amount: 30 }],
+        },
+        { id: 't3', description: 'Sem categoria conhecida', amount: 5, type: 'expense', category: 'Pets', account: 'a1', date: '2025-02-08' },
+      ],
+      budgets: [{ id: 'b1', category: 'Alimentação', limit: 500, period: 'monthly' }],
+    }), 5);
+    expect(transactions).toMatchObject([
+      { id: 't1', category: '4' },
+      { id: 't2', category: '5', splits: [{ category: '5', amount: 70 }, { category: '4', amount: 30 }] },
+      { id: 't3', category: 'Pets' },
+    ]);
+    expect(budgets).toEqual([{ id: 'b1', category: '4', limit: 500, period: 'monthly' }]);
+  });
+
+  it('v7 turns off the recurring flag of transactions without a rule', () => {
+    const { transactions } = migrateDataSet(legacyData({
+      transactions: [
+        { id: 't1', description: 'Aluguel', amount: 1500, type: 'expense', category: '6', account: 'a1', date: '2025-02-05', recurring: true },
+        {
+          id: 't2', description: 'Academia', amount: 90, type: 'expense', category: '7', account: 'a1', date: '2025-02-05',
+          recurring: true, recurrence: { frequency: 'monthly', interval: 1 },
+        },
+      ],
+    }), 6);
+    expect(transactions).toMatchObject([{ id: 't1', recurring: false }, { id: 't2', recurring: true }]);
+  });
+
+  it('brings legacy data to the current version and quarantines what still does not fit', () => {
+    const migrated = migrateDataSet(legacyData({
+      accounts: [
+        { id: 'a1', name: 'Corrente', type: 'checking', balance: 100, createdAt: '2025-01-01T00:00:00.000Z' },
+        'não é um registro',
+      ],
+      transactions: [{ id: 't1', description: 'Sem valor', type: 'expense', category: '4', account: 'a1', date: '2025-02-05' }],
+    }), getSchemaVersion('1.0'));
+
+    const { data, quarantined } = validateDataSet(migrated);
+    expect(data.accounts).toMatchObject([{ id: 'a1', openingBalance: 100 }]);
+    expect(data.transactions).toEqual([]);
+    expect(quarantined.map(entry => entry.collection)).toEqual(['accounts', 'transactions']);
+  });
+
+  it('refuses data saved by a newer version', () => {
+    expect(() => migrateDataSet(legacyData({}), CURRENT_SCHEMA_VERSION + 1)).toThrow('versão mais nova');
+  });
+});
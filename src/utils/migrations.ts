@@ -0,0 +1,309 @@
+/**
+ * Versioned schema for the stored financial data. Data saved by older versions is
+ * brought forward by an ordered list of migrations, both on load and on import, and
+ * records that still do not match the stored schema are moved to a quarantine instead
+ * of reaching the FinancialProvider. The quarantine itself stays in localStorage.
+ */
+
+import { z } from 'zod';
+import { DEFAULT_CATEGORIES } from '@/types/financial';
+import { GoalContribution } from '@/types/goals';
+import {
+  StoredAccountSchema,
+  StoredBudgetSchema,
+  StoredCategorySchema,
+  StoredCreditCardSchema,
+  StoredGoalContributionSchema,
+  StoredGoalSchema,
+  StoredTransactionSchema,
+} from '@/schemas/financial';
+import { normalizeStoredAccount } from '@/utils/ledger';
+import { normalizeStoredCreditCard } from '@/utils/creditCard';
+import { buildOpeningContribution } from '@/utils/goals';
+import { findCategory, normalizeCategoryReference } from '@/utils/categories';
+import { getTransactionCategories, mapTransactionCategories } from '@/utils/splits';
+import {
+  COLLECTION_KEYS,
+  FINANCIAL_COLLECTIONS,
+  FinancialCollection,
+  FinancialDataSet,
+  FinancialStorage,
+  LocalStorageBackend,
+} from '@/utils/storage';
+
+export interface Migration {
+  version: number; // Schema version the data is at after this migration
+  description: string;
+  migrate: (data: FinancialDataSet) => FinancialDataSet;
+}
+
+export interface QuarantinedRecord {
+  collection: FinancialCollection;
+  record: unknown;
+  reason: string;
+  quarantinedAt: string;
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  quarantined: number;
+  readOnly: boolean; // Saved by a newer version of the app, so it must not be written
+}
+
+export const QUARANTINE_KEY = 'financial-quarantine';
+
+// Data saved before the schema was versioned
+export const LEGACY_SCHEMA_VERSION = 1;
+
+const RECORD_SCHEMAS: Record<FinancialCollection, z.ZodTypeAny> = {
+  accounts: StoredAccountSchema,
+  transactions: StoredTransactionSchema,
+  creditCards: StoredCreditCardSchema,
+  categories: StoredCategorySchema,
+  goals: StoredGoalSchema,
+  goalContributions: StoredGoalContributionSchema,
+  budgets: StoredBudgetSchema,
+};
+
+const generateId = (): string => {
+  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+};
+
+/**
+ * Ordered by version. Never edit a released migration: add a new one instead, so
+ * data already migrated is not changed twice.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Budget spending is derived from transactions',
+    migrate: data => ({
+      ...data,
+      budgets: data.budgets?.map(({ spent, ...budget }) => budget),
+    }),
+  },
+  {
+    version: 3,
+    description: 'Goal amounts move into a contribution ledger',
+    migrate: data => {
+      if (!data.goals) return data;
+      const openingEntries = data.goals
+        .filter(goal => 'currentAmount' in goal)
+        .map(goal => buildOpeningContribution(goal, generateId()))
+        .filter((entry): entry is GoalContribution => entry !== null);
+      return {
+        ...data,
+        goals: data.goals.map(({ currentAmount, completed, ...goal }) => goal),
+        goalContributions: [...(data.goalContributions || []), ...openingEntries],
+      };
+    },
+  },
+  {
+    version: 4,
+    description: 'Account balances are derived from an opening balance and the ledger',
+    // Records that have an opening balance, even malformed, are left for validation
+    migrate: data => ({
+      ...data,
+      accounts: data.accounts?.map(account =>
+        'openingBalance' in account ? account : normalizeStoredAccount(account, data.transactions || [])
+      ),
+    }),
+  },
+  {
+    version: 5,
+    description: 'Card balances are derived from an opening balance and the charges',
+    migrate: data => ({
+      ...data,
+      creditCards: data.creditCards?.map(card => 'openingBalance' in card ? card : normalizeStoredCreditCard(card)),
+    }),
+  },
+  {
+    version: 6,
+    description: 'Transactions and budgets reference categories by id instead of name',
+    migrate: data => {
+      const categories = data.categories || DEFAULT_CATEGORIES;
+      const toId = (reference: string) =>
+        reference && !categories.some(c => c.id === reference) && findCategory(categories, reference)
+          ? normalizeCategoryReference(categories, reference)
+          : reference;
+      return {
+        ...data,
+        transactions: data.transactions?.map(t =>
+          getTransactionCategories(t).some(reference => toId(reference) !== reference)
+            ? mapTransactionCategories(t, toId)
+            : t
+        ),
+        budgets: data.budgets?.map(b => ({ ...b, category: toId(b.category) })),
+      };
+    },
+  },
+  {
+    version: 7,
+    description: 'Transactions flagged as recurring without a recurrence rule become plain records',
+    // Older versions never generated occurrences from the flag alone, so no series is assumed
+    migrate: data => ({
+      ...data,
+      transactions: data.transactions?.map(t =>
+        t.recurring && !t.recurrence && !t.recurrenceParentId ? { ...t, recurring: false } : t
+      ),
+    }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Reads the version from stored data or an export. Exports used to carry the
+ * string '1.0', which predates the versioned schema.
+ */
+export const getSchemaVersion = (version: unknown): number => {
+  return typeof version === 'number' && Number.isInteger(version) && version > 0
+    ? version
+    : LEGACY_SCHEMA_VERSION;
+};
+
+const isRecord = (value: unknown): boolean =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+export const migrateDataSet = (data: FinancialDataSet, fromVersion: number): FinancialDataSet => {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Os dados são de uma versão mais nova do aplicativo (esquema v${fromVersion}). Atualize o aplicativo.`
+    );
+  }
+
+  // Entries that are not objects would break the migrations; they are carried over
+  // untouched for validation to reject
+  const records: Partial<Record<FinancialCollection, unknown[]>> = {};
+  const malformed: Partial<Record<FinancialCollection, unknown[]>> = {};
+  (Object.keys(data) as FinancialCollection[]).forEach(collection => {
+    const entries: unknown[] | undefined = data[collection];
+    if (!entries) return;
+    records[collection] = entries.filter(isRecord);
+    malformed[collection] = entries.filter(entry => !isRecord(entry));
+  });
+
+  const migrated: Partial<Record<FinancialCollection, unknown[]>> = MIGRATIONS
+    .filter(migration => migration.version > fromVersion)
+    .reduce((result, migration) => migration.migrate(result), records as FinancialDataSet);
+  (Object.keys(malformed) as FinancialCollection[]).forEach(collection => {
+    migrated[collection] = [...(migrated[collection] || []), ...malformed[collection]];
+  });
+  return migrated as FinancialDataSet;
+};
+
+const describeIssues = (error: z.ZodError): string =>
+  error.issues.map(issue => `${issue.path.join('.') || 'registro'}: ${issue.message}`).join('; ');
+
+/**
+ * Splits each collection into the records that match the stored schema and the ones
+ * to quarantine. Valid records are kept exactly as they were.
+ */
+export const validateDataSet = (data: FinancialDataSet): { data: FinancialDataSet; quarantined: QuarantinedRecord[] } => {
+  const quarantinedAt = new Date().toISOString();
+  const quarantined: QuarantinedRecord[] = [];
+  const valid: Partial<Record<FinancialCollection, unknown[]>> = {};
+
+  (Object.keys(data) as FinancialCollection[]).forEach(collection => {
+    const records: unknown[] | undefined = data[collection];
+    if (!records) return;
+    valid[collection] = records.filter(record => {
+      const result = RECORD_SCHEMAS[collection].safeParse(record);
+      if (!result.success) {
+        quarantined.push({ collection, record, reason: describeIssues(result.error), quarantinedAt });
+      }
+      return result.success;
+    });
+  });
+
+  return { data: valid as FinancialDataSet, quarantined };
+};
+
+export const listQuarantinedRecords = (): QuarantinedRecord[] => {
+  try {
+    const stored = localStorage.getItem(QUARANTINE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading quarantined records:', error);
+    return [];
+  }
+};
+
+export const quarantineRecords = (records: QuarantinedRecord[]) => {
+  if (records.length === 0) return;
+  console.warn(`Quarantined ${records.length} record(s):`, records);
+  localStorage.setItem(QUARANTINE_KEY, JSON.stringify([...listQuarantinedRecords(), ...records]));
+};
+
+export const clearQuarantine = () => {
+  localStorage.removeItem(QUARANTINE_KEY);
+};
+
+/**
+ * Loads the stored data and brings it up to the current schema, writing back what
+ * changed. Data still in localStorage from older versions is moved into the given
+ * storage on the way. Runs once, before the FinancialProvider renders.
+ */
+export const runStoredMigrations = async (
+  storage: FinancialStorage
+): Promise<MigrationResult & { data: FinancialDataSet }> => {
+  const legacy = new LocalStorageBackend();
+  const source: FinancialStorage = storage.kind !== 'localstorage' && legacy.hasData() ? legacy : storage;
+  const quarantinedAt = new Date().toISOString();
+  const quarantined: QuarantinedRecord[] = [];
+  const unreadable: FinancialCollection[] = [];
+  const stored: Partial<Record<FinancialCollection, unknown[]>> = {};
+
+  for (const collection of FINANCIAL_COLLECTIONS) {
+    try {
+      const records = await source.load(collection);
+      if (records) stored[collection] = records;
+    } catch (error) {
+      // Unreadable collections are set aside whole, so the app can start without them
+      const record = source === legacy ? localStorage.getItem(COLLECTION_KEYS[collection]) : null;
+      quarantined.push({ collection, record, reason: 'Dados ilegíveis', quarantinedAt });
+      unreadable.push(collection);
+      console.error(`Error reading "${collection}":`, error);
+    }
+  }
+
+  const data = stored as FinancialDataSet;
+  const hasData = Object.keys(data).length > 0 || quarantined.length > 0;
+  const storedVersion = await source.getSchemaVersion();
+  const fromVersion = storedVersion
+    ? getSchemaVersion(storedVersion)
+    : hasData ? LEGACY_SCHEMA_VERSION : CURRENT_SCHEMA_VERSION;
+
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    // Saved by a newer version of the app; shown as is and never written back, not even
+    // to set aside what this version cannot read
+    console.warn(`Stored data uses schema v${fromVersion}, newer than v${CURRENT_SCHEMA_VERSION}`);
+    return { fromVersion, toVersion: fromVersion, quarantined: 0, readOnly: true, data };
+  }
+  if (source === legacy) unreadable.forEach(collection => legacy.remove(collection));
+
+  const validation = validateDataSet(migrateDataSet(data, fromVersion));
+  quarantined.push(...validation.quarantined);
+
+  if (source !== storage || fromVersion < CURRENT_SCHEMA_VERSION || validation.quarantined.length > 0) {
+    for (const collection of Object.keys(validation.data) as FinancialCollection[]) {
+      await storage.replace(collection, validation.data[collection]);
+    }
+  }
+  if (source !== storage) {
+    // Only once everything is in the new storage
+    FINANCIAL_COLLECTIONS.forEach(collection => legacy.remove(collection));
+    await legacy.setSchemaVersion(null);
+  }
+
+  quarantineRecords(quarantined);
+  await storage.setSchemaVersion(CURRENT_SCHEMA_VERSION);
+  return {
+    fromVersion,
+    toVersion: CURRENT_SCHEMA_VERSION,
+    quarantined: quarantined.length,
+    readOnly: false,
+    data: validation.data,
+  };
+};
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { decodeOFX, parseOFX, parseOFXAmount, parseOFXDate } from '@/utils/ofx';
+
+const SGML = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+CHARSET:1252
+
+<OFX>
+<SIGNONMSGSRSV1><SONRS><STATUS><CODE>0<SEVERITY>INFO</STATUS></SONRS></SIGNONMSGSRSV1>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>BRL
+<BANKACCTFROM><BANKID>0341<BRANCHID>1234<ACCTID>56789-0<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20250201000000[-3:BRT]
+<DTEND>20250228000000[-3:BRT]
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250205120000[-3:BRT]<TRNAMT>-12,50<FITID>A1<MEMO>Padaria P&amp;Q</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20250210<TRNAMT>100.00<FITID>A2</FITID><NAME>PIX Recebido</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL><BALAMT>87.50<DTASOF>20250228000000[-3:BRT]</LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>
+`;
+
+const XML = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE"?>
+<OFX>
+  <BANKMSGSRSV1><STMTTRNRS><STMTRS>
+    <CURDEF>BRL</CURDEF>
+    <BANKACCTFROM><BANKID>0341</BANKID><BRANCHID>1234</BRANCHID><ACCTID>56789-0</ACCTID><ACCTTYPE>CHECKING</ACCTTYPE></BANKACCTFROM>
+    <BANKTRANLIST>
+      <DTSTART>20250201000000[-3:BRT]</DTSTART>
+      <DTEND>20250228000000[-3:BRT]</DTEND>
+      <STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20250205120000[-3:BRT]</DTPOSTED><TRNAMT>-12,50</TRNAMT><FITID>A1</FITID><MEMO>Padaria P&amp;Q</MEMO></STMTTRN>
+      <STMTTRN><TRNTYPE>CREDIT</TRNTYPE><DTPOSTED>20250210</DTPOSTED><TRNAMT>100.00</TRNAMT><FITID>A2</FITID><NAME>PIX Recebido</NAME></STMTTRN>
+    </BANKTRANLIST>
+    <LEDGERBAL><BALAMT>87.50</BALAMT><DTASOF>20250228000000[-3:BRT]</DTASOF></LEDGERBAL>
+  </STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>
+`;
+
+describe('parseOFX', () => {
+  it('reads the same statement from OFX 1.x SGML and OFX 2.x XML', () => {
+    const sgml = parseOFX(SGML);
+    const xml = parseOFX(XML);
+
+    expect(sgml.version).toBe(1);
+    expect(sgml.header).toMatchObject({ VERSION: '102', CHARSET: '1252' });
+    expect(xml.version).toBe(2);
+    expect(xml.header).toMatchObject({ VERSION: '220' });
+    expect(xml.statements).toEqual(sgml.statements);
+
+    const [statement] = sgml.statements;
+    expect(statement).toMatchObject({
+      kind: 'bank',
+      currency: 'BRL',
+      account: { bankId: '0341', branchId: '1234', accountId: '56789-0', accountType: 'CHECKING' },
+      ledgerBalance: { amount: 87.5, asOf: new Date('2025-02-28T03:00:00.000Z') },
+    });
+    expect(statement.transactions).toEqual([
+      {
+        type: 'DEBIT',
+        datePosted: new Date('2025-02-05T15:00:00.000Z'),
+        amount: -12.5,
+        fitId: 'A1',
+        memo: 'Padaria P&Q',
+        name: undefined,
+        checkNumber: undefined,
+        refNumber: undefined,
+      },
+      {
+        type: 'CREDIT',
+        datePosted: new Date(2025, 1, 10),
+        amount: 100,
+        fitId: 'A2',
+        name: 'PIX Recebido',
+        memo: undefined,
+        checkNumber: undefined,
+        refNumber: undefined,
+      },
+    ]);
+  });
+
+  it('reads credit card statements', () => {
+    const content = SGML
+      .replace('<BANKMSGSRSV1><STMTTRNRS><STMTRS>', '<CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>')
+      .replace('</STMTRS></STMTTRNRS></BANKMSGSRSV1>', '</CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1>')
+      .replace(/<BANKACCTFROM>.*<\/BANKACCTFROM>/, '<CCACCTFROM><ACCTID>4111</CCACCTFROM>');
+
+    const [statement] = parseOFX(content).statements;
+    expect(statement.kind).toBe('creditCard');
+    expect(statement.account).toEqual({ accountId: '4111', bankId: undefined, branchId: undefined, accountType: undefined });
+    expect(statement.transactions).toHaveLength(2);
+  });
+
+  it('reports the error status of a file without statements', () => {
+    const content = 'OFXHEADER:100\n\n<OFX><SIGNONMSGSRSV1><SONRS><STATUS><CODE>15500<SEVERITY>ERROR<MESSAGE>Senha inválida</STATUS></SONRS></SIGNONMSGSRSV1></OFX>';
+    expect(() => parseOFX(content)).toThrow('Erro no arquivo OFX: Senha inválida');
+    expect(() => parseOFX('OFXHEADER:100')).toThrow('elemento <OFX> não encontrado');
+  });
+});
+
+describe('parseOFXDate', () => {
+  it('applies offsets in hours, with minutes after a colon or a dot', () => {
+    expect(parseOFXDate('20250131120000.000[-3:BRT]')).toEqual(new Date('2025-01-31T15:00:00.000Z'));
+    expect(parseOFXDate('20250131120000[+5.30:IST]')).toEqual(new Date('2025-01-31T06:30:00.000Z'));
+    expect(parseOFXDate('20250131')).toEqual(new Date(2025, 0, 31));
+    expect(() => parseOFXDate('31/01/2025')).toThrow('Data OFX inválida');
+  });
+});
+
+describe('parseOFXAmount', () => {
+  it('accepts a decimal comma', () => {
+    expect(parseOFXAmount('-1234,56')).toBe(-1234.56);
+    expect(parseOFXAmount('1,234.56')).toBe(1234.56);
+    expect(() => parseOFXAmount('')).toThrow('Valor OFX inválido');
+  });
+});
+
+describe('decodeOFX', () => {
+  it('uses the charset declared in the SGML header', () => {
+    const bytes = new Uint8Array([...new TextEncoder().encode('CHARSET:1252\n<OFX><MEMO>S'), 0xe3, 0x6f]);
+    expect(decodeOFX(bytes.buffer)).toBe('CHARSET:1252\n<OFX><MEMO>São');
+  });
+});
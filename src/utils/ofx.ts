@@ -0,0 +1,307 @@
+/**
+ * OFX/QFX statement parser. Handles OFX 1.x (SGML, leaf elements without closing tags)
+ * and OFX 2.x (XML), with any number of bank and credit card statements per file.
+ */
+
+export interface OFXNode {
+  name: string;
+  value?: string; // Set on leaf elements
+  children: OFXNode[];
+}
+
+export interface OFXTransaction {
+  type: string; // TRNTYPE: CREDIT, DEBIT, PAYMENT, XFER...
+  datePosted: Date;
+  amount: number; // Signed: positive credits the account, negative debits it
+  fitId: string; // Financial institution id, unique per account
+  name?: string;
+  memo?: string;
+  checkNumber?: string;
+  refNumber?: string;
+}
+
+export interface OFXBalance {
+  amount: number;
+  asOf: Date;
+}
+
+export interface OFXAccount {
+  bankId?: string;
+  branchId?: string;
+  accountId: string;
+  accountType?: string; // CHECKING, SAVINGS, MONEYMRKT, CREDITLINE; absent on card statements
+}
+
+export interface OFXStatement {
+  kind: 'bank' | 'creditCard';
+  currency: string;
+  account: OFXAccount;
+  startDate?: Date;
+  endDate?: Date;
+  transactions: OFXTransaction[];
+  ledgerBalance?: OFXBalance;
+  availableBalance?: OFXBalance;
+}
+
+export interface OFXDocument {
+  version: 1 | 2;
+  header: Record<string, string>;
+  statements: OFXStatement[];
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+const decodeEntities = (text: string): string => {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return isNaN(code) ? match : String.fromCharCode(code);
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+};
+
+/**
+ * Reads the header: "KEY:VALUE" lines in OFX 1.x, attributes of the <?OFX ...?>
+ * processing instruction in OFX 2.x
+ */
+const parseHeader = (content: string, bodyStart: number): Record<string, string> => {
+  const headerText = content.slice(0, bodyStart);
+  const header: Record<string, string> = {};
+
+  const instruction = headerText.match(/<\?OFX([^?]*)\?>/i);
+  if (instruction) {
+    for (const [, key, value] of instruction[1].matchAll(/([A-Z]+)\s*=\s*"([^"]*)"/gi)) {
+      header[key.toUpperCase()] = value;
+    }
+    return header;
+  }
+
+  headerText.split(/\r?\n/).forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      header[line.slice(0, separator).trim().toUpperCase()] = line.slice(separator + 1).trim();
+    }
+  });
+  return header;
+};
+
+/**
+ * Builds the element tree. In SGML a leaf is an element followed by text and is usually
+ * not closed; an aggregate is only closed by its own end tag, which also closes any
+ * leaves or aggregates left open inside it.
+ */
+export const parseOFXTree = (body: string): OFXNode => {
+  const root: OFXNode = { name: '#root', children: [] };
+  const stack: OFXNode[] = [root];
+  let lastLeaf: OFXNode | null = null;
+
+  const tagPattern = /<(\/?)([A-Za-z0-9_.]+)[^>]*?(\/?)>([^<]*)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(body)) !== null) {
+    const [, closing, rawName, selfClosing, rawText] = match;
+    const name = rawName.toUpperCase();
+    const text = rawText.trim();
+    const parent = stack[stack.length - 1];
+
+    if (closing) {
+      // XML closes leaves explicitly; SGML may too. Either way the leaf is already complete.
+      if (lastLeaf && lastLeaf.name === name && parent.name !== name) {
+        lastLeaf = null;
+        continue;
+      }
+      const index = stack.map(node => node.name).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+      lastLeaf = null;
+      continue;
+    }
+
+    const node: OFXNode = { name, children: [] };
+    parent.children.push(node);
+
+    if (selfClosing) {
+      node.value = '';
+      lastLeaf = null;
+    } else if (text) {
+      node.value = decodeEntities(text);
+      lastLeaf = node;
+    } else {
+      stack.push(node);
+      lastLeaf = null;
+    }
+  }
+
+  return root;
+};
+
+const findChild = (node: OFXNode | undefined, name: string): OFXNode | undefined => {
+  return node?.children.find(child => child.name === name);
+};
+
+const findAll = (node: OFXNode, name: string): OFXNode[] => {
+  const found: OFXNode[] = [];
+  node.children.forEach(child => {
+    if (child.name === name) found.push(child);
+    else found.push(...findAll(child, name));
+  });
+  return found;
+};
+
+const getValue = (node: OFXNode | undefined, name: string): string | undefined => {
+  // Empty aggregates come from XML leaves written as <NAME></NAME>
+  const child = findChild(node, name);
+  if (!child) return undefined;
+  return child.value ?? (child.children.length === 0 ? '' : undefined);
+};
+
+/**
+ * Parses OFX datetimes: YYYYMMDD[HHMMSS[.XXX]][[offset[:TZ]]], e.g. 20240131120000.000[-3:BRT].
+ * Values without an offset are read as local time, which is what most banks mean in practice.
+ */
+export const parseOFXDate = (value: string): Date => {
+  const match = value.trim().match(
+    /^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(?:(\d{2})(?:\.(\d{1,3}))?)?)?\s*(?:\[\s*([+-]?\d+(?:[.:]\d+)?)\s*(?::[^\]]*)?\])?/
+  );
+  if (!match) {
+    throw new Error(`Data OFX inválida: ${value}`);
+  }
+
+  const [, year, month, day, hours = '0', minutes = '0', seconds = '0', millis = '0', offset] = match;
+  const parts = [
+    Number(year), Number(month) - 1, Number(day),
+    Number(hours), Number(minutes), Number(seconds), Number(millis.padEnd(3, '0')),
+  ] as const;
+
+  if (offset === undefined) {
+    const date = new Date(...parts);
+    if (isNaN(date.getTime())) throw new Error(`Data OFX inválida: ${value}`);
+    return date;
+  }
+
+  // Offsets are in hours and may carry minutes as a fraction (+5.30) or after a colon
+  const [offsetHours, offsetFraction = '0'] = offset.split(/[.:]/);
+  const sign = offset.trim().startsWith('-') ? -1 : 1;
+  const offsetMinutes = Math.abs(Number(offsetHours)) * 60 + Number(offsetFraction.padEnd(2, '0').slice(0, 2));
+  return new Date(Date.UTC(...parts) - sign * offsetMinutes * 60 * 1000);
+};
+
+/**
+ * Parses OFX amounts; some Brazilian banks write a decimal comma
+ */
+export const parseOFXAmount = (value: string): number => {
+  let normalized = value.trim().replace(/\s/g, '');
+  if (normalized.includes(',') && !normalized.includes('.')) {
+    normalized = normalized.replace(',', '.');
+  } else {
+    normalized = normalized.replace(/,/g, '');
+  }
+  const amount = Number(normalized);
+  if (normalized === '' || isNaN(amount)) {
+    throw new Error(`Valor OFX inválido: ${value}`);
+  }
+  return amount;
+};
+
+const parseBalance = (node: OFXNode | undefined): OFXBalance | undefined => {
+  const amount = getValue(node, 'BALAMT');
+  const asOf = getValue(node, 'DTASOF');
+  if (!amount || !asOf) return undefined;
+  return { amount: parseOFXAmount(amount), asOf: parseOFXDate(asOf) };
+};
+
+const parseTransaction = (node: OFXNode): OFXTransaction => {
+  const datePosted = getValue(node, 'DTPOSTED');
+  const amount = getValue(node, 'TRNAMT');
+  if (!datePosted || !amount) {
+    throw new Error('Transação OFX sem DTPOSTED ou TRNAMT');
+  }
+
+  const fitId = getValue(node, 'FITID');
+  return {
+    type: (getValue(node, 'TRNTYPE') || 'OTHER').toUpperCase(),
+    datePosted: parseOFXDate(datePosted),
+    amount: parseOFXAmount(amount),
+    // FITID is required by the spec; a few exporters omit it, so fall back to a stable fingerprint
+    fitId: fitId || `${datePosted}:${amount}:${getValue(node, 'NAME') || getValue(node, 'MEMO') || ''}`,
+    name: getValue(node, 'NAME') || getValue(findChild(node, 'PAYEE'), 'NAME') || undefined,
+    memo: getValue(node, 'MEMO') || undefined,
+    checkNumber: getValue(node, 'CHECKNUM') || undefined,
+    refNumber: getValue(node, 'REFNUM') || undefined,
+  };
+};
+
+const parseStatement = (node: OFXNode, kind: OFXStatement['kind']): OFXStatement => {
+  const accountNode = findChild(node, kind === 'bank' ? 'BANKACCTFROM' : 'CCACCTFROM');
+  const transactionList = findChild(node, 'BANKTRANLIST');
+  const startDate = getValue(transactionList, 'DTSTART');
+  const endDate = getValue(transactionList, 'DTEND');
+
+  return {
+    kind,
+    currency: (getValue(node, 'CURDEF') || 'BRL').toUpperCase(),
+    account: {
+      bankId: getValue(accountNode, 'BANKID') || undefined,
+      branchId: getValue(accountNode, 'BRANCHID') || undefined,
+      accountId: getValue(accountNode, 'ACCTID') || '',
+      accountType: getValue(accountNode, 'ACCTTYPE') || undefined,
+    },
+    startDate: startDate ? parseOFXDate(startDate) : undefined,
+    endDate: endDate ? parseOFXDate(endDate) : undefined,
+    transactions: transactionList
+      ? transactionList.children.filter(child => child.name === 'STMTTRN').map(parseTransaction)
+      : [],
+    ledgerBalance: parseBalance(findChild(node, 'LEDGERBAL')),
+    availableBalance: parseBalance(findChild(node, 'AVAILBAL')),
+  };
+};
+
+/**
+ * Parses an OFX/QFX file into its statements
+ */
+export const parseOFX = (content: string): OFXDocument => {
+  const bodyStart = content.search(/<OFX[\s>]/i);
+  if (bodyStart < 0) {
+    throw new Error('Arquivo OFX inválido: elemento <OFX> não encontrado');
+  }
+
+  const header = parseHeader(content, bodyStart);
+  const version = Number(header.VERSION || 0) >= 200 || /<\?xml/i.test(content.slice(0, bodyStart)) ? 2 : 1;
+  const tree = parseOFXTree(content.slice(bodyStart));
+
+  const statements = [
+    ...findAll(tree, 'STMTRS').map(node => parseStatement(node, 'bank')),
+    ...findAll(tree, 'CCSTMTRS').map(node => parseStatement(node, 'creditCard')),
+  ];
+
+  const status = findAll(tree, 'STATUS')
+    .find(node => getValue(node, 'SEVERITY')?.toUpperCase() === 'ERROR');
+  if (statements.length === 0) {
+    const message = status ? getValue(status, 'MESSAGE') || getValue(status, 'CODE') : undefined;
+    throw new Error(message ? `Erro no arquivo OFX: ${message}` : 'Nenhum extrato encontrado no arquivo OFX');
+  }
+
+  return { version, header, statements };
+};
+
+/**
+ * Decodes the raw file using the charset declared in the header (OFX 1.x files from
+ * Brazilian banks are usually Windows-1252)
+ */
+export const decodeOFX = (buffer: ArrayBuffer): string => {
+  const preview = new TextDecoder('ascii').decode(buffer.slice(0, 1024));
+  const charset = preview.match(/CHARSET:\s*([\w-]+)/i)?.[1] || preview.match(/encoding="([\w-]+)"/i)?.[1];
+
+  let label = 'utf-8';
+  if (charset && /^(1252|windows-1252|cp1252)$/i.test(charset)) label = 'windows-1252';
+  else if (charset && /^(8859-1|iso-8859-1|latin1)$/i.test(charset)) label = 'iso-8859-1';
+
+  return new TextDecoder(label).decode(buffer);
+};
@@ -0,0 +1,542 @@
+import type { jsPDF } from 'jspdf';
+import { endOfMonth, endOfYear, format, isSameDay, startOfMonth, startOfYear } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { formatCurrency } from '@/lib/utils';
+import { downloadBlob, ExportData, getSummaryStats } from '@/utils/dataExport';
+import { getCategoryLabel } from '@/utils/categories';
+import {
+  EDUCATION_DEDUCTION_LIMIT,
+  getIRPFFilename,
+  IRPF_DEDUCTION_LABELS,
+  IRPF_INCOME_KIND_LABELS,
+  IRPFReport,
+} from '@/utils/irpf';
+import { ChartSlice, getAccountBalanceDistribution, getCategoryBreakdown, getMonthlyTrends, MonthlyTrend } from '@/utils/reportData';
+
+export type ReportSection = 'summary' | 'categories' | 'charts' | 'accounts' | 'transactions';
+
+export const REPORT_SECTION_LABELS: Record<ReportSection, string> = {
+  summary: 'Resumo geral',
+  categories: 'Gastos e receitas por categoria',
+  charts: 'Gráficos',
+  accounts: 'Saldos das contas',
+  transactions: 'Lista de transações',
+};
+
+export const REPORT_SECTIONS = Object.keys(REPORT_SECTION_LABELS) as ReportSection[];
+
+export interface PDFReportOptions {
+  period: { from: Date; to: Date } | null; // null covers every transaction
+  sections: ReportSection[];
+}
+
+type RGB = [number, number, number];
+type AutoTableDocument = jsPDF & { lastAutoTable?: { finalY: number } };
+
+const PAGE_MARGIN = 14;
+const COLORS: Record<'income' | 'expense' | 'primary' | 'muted' | 'text', RGB> = {
+  income: [34, 197, 94],
+  expense: [239, 68, 68],
+  primary: [37, 99, 235],
+  muted: [115, 115, 115],
+  text: [23, 23, 23],
+};
+const FALLBACK_COLOR: RGB = [136, 132, 216];
+// Categories past this count are grouped as "Outras" in the pie chart
+const MAX_PIE_SLICES = 8;
+
+const TRANSACTION_TYPE_LABELS = {
+  income: 'Receita',
+  expense: 'Despesa',
+  transfer: 'Transferência',
+};
+
+const ACCOUNT_TYPE_LABELS = {
+  checking: 'Conta Corrente',
+  savings: 'Poupança',
+  investment: 'Investimento',
+};
+
+const toRGB = (color: string): RGB => {
+  const match = color.trim().match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!match) return FALLBACK_COLOR;
+  return [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)];
+};
+
+export type ReportPeriodKind = 'all' | 'monthly' | 'annual' | 'custom';
+
+/**
+ * A period covering exactly one calendar month or year gets a monthly or annual report
+ */
+export const getReportPeriodKind = (period: PDFReportOptions['period']): ReportPeriodKind => {
+  if (!period) return 'all';
+  const { from, to } = period;
+  if (isSameDay(from, startOfMonth(from)) && isSameDay(to, endOfMonth(from))) return 'monthly';
+  if (isSameDay(from, startOfYear(from)) && isSameDay(to, endOfYear(from))) return 'annual';
+  return 'custom';
+};
+
+const getReportTitle = (period: PDFReportOptions['period']): { title: string; subtitle: string } => {
+  switch (getReportPeriodKind(period)) {
+    case 'all':
+      return { title: 'Relatório Financeiro', subtitle: 'Todas as transações' };
+    case 'monthly': {
+      const month = format(period.from, "MMMM 'de' yyyy", { locale: ptBR });
+      return { title: 'Relatório Mensal', subtitle: month.charAt(0).toUpperCase() + month.slice(1) };
+    }
+    case 'annual':
+      return { title: 'Relatório Anual', subtitle: format(period.from, 'yyyy') };
+    default:
+      return {
+        title: 'Relatório Financeiro',
+        subtitle: `${format(period.from, 'dd/MM/yyyy')} a ${format(period.to, 'dd/MM/yyyy')}`,
+      };
+  }
+};
+
+// Where the next block may start; adds a page when the block would not fit
+const ensureSpace = (doc: jsPDF, y: number, height: number): number => {
+  if (y + height <= doc.internal.pageSize.getHeight() - PAGE_MARGIN) return y;
+  doc.addPage();
+  return PAGE_MARGIN;
+};
+
+const drawSectionTitle = (doc: jsPDF, title: string, y: number): number => {
+  const top = ensureSpace(doc, y, 20);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(13);
+  doc.setTextColor(...COLORS.text);
+  doc.text(title, PAGE_MARGIN, top + 6);
+  doc.setDrawColor(...COLORS.primary);
+  doc.setLineWidth(0.5);
+  doc.line(PAGE_MARGIN, top + 8, doc.internal.pageSize.getWidth() - PAGE_MARGIN, top + 8);
+  doc.setFont('helvetica', 'normal');
+  return top + 12;
+};
+
+const tableEnd = (doc: jsPDF, fallback: number): number => {
+  return ((doc as AutoTableDocument).lastAutoTable?.finalY ?? fallback) + 8;
+};
+
+const drawChartTitle = (doc: jsPDF, title: string, x: number, y: number) => {
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.setTextColor(...COLORS.text);
+  doc.text(title, x, y);
+  doc.setFont('helvetica', 'normal');
+};
+
+const drawLegend = (doc: jsPDF, items: { label: string; color: RGB }[], x: number, y: number, lineHeight = 5) => {
+  doc.setFontSize(8);
+  items.forEach((item, index) => {
+    doc.setFillColor(...item.color);
+    doc.rect(x, y + index * lineHeight - 2.5, 3, 3, 'F');
+    doc.setTextColor(...COLORS.text);
+    doc.text(item.label, x + 5, y + index * lineHeight);
+  });
+};
+
+// Draws gridlines with their values; returns the mapping from a value to its y
+const drawValueAxis = (doc: jsPDF, x: number, y: number, width: number, height: number, min: number, max: number) => {
+  const range = max - min || 1;
+  const toY = (value: number) => y + height - ((value - min) / range) * height;
+
+  doc.setFontSize(7);
+  doc.setLineWidth(0.1);
+  for (let step = 0; step <= 4; step++) {
+    const value = min + (range * step) / 4;
+    doc.setDrawColor(220, 220, 220);
+    doc.line(x, toY(value), x + width, toY(value));
+    doc.setTextColor(...COLORS.muted);
+    doc.text(formatCurrency(value), x - 1, toY(value) + 1, { align: 'right' });
+  }
+  if (min < 0 && max > 0) {
+    doc.setDrawColor(...COLORS.muted);
+    doc.line(x, toY(0), x + width, toY(0));
+  }
+  return toY;
+};
+
+const drawTrendChart = (doc: jsPDF, trends: MonthlyTrend[], x: number, y: number, width: number, height: number) => {
+  const series: { key: keyof Omit<MonthlyTrend, 'month'>; label: string; color: RGB }[] = [
+    { key: 'receitas', label: 'Receitas', color: COLORS.income },
+    { key: 'despesas', label: 'Despesas', color: COLORS.expense },
+    { key: 'saldo', label: 'Saldo', color: COLORS.primary },
+  ];
+  const values = trends.flatMap(trend => series.map(item => trend[item.key]));
+  const toY = drawValueAxis(doc, x, y, width, height, Math.min(0, ...values), Math.max(0, ...values));
+  const step = trends.length > 1 ? width / (trends.length - 1) : 0;
+  const toX = (index: number) => (trends.length > 1 ? x + index * step : x + width / 2);
+
+  doc.setFontSize(7);
+  doc.setTextColor(...COLORS.muted);
+  // Label every month while they fit, otherwise every few
+  const labelEvery = Math.max(1, Math.ceil(trends.length / 12));
+  trends.forEach((trend, index) => {
+    if (index % labelEvery === 0) doc.text(trend.month, toX(index), y + height + 4, { align: 'center' });
+  });
+
+  series.forEach(item => {
+    doc.setDrawColor(...item.color);
+    doc.setFillColor(...item.color);
+    doc.setLineWidth(0.6);
+    trends.forEach((trend, index) => {
+      if (index > 0) {
+        doc.line(toX(index - 1), toY(trends[index - 1][item.key]), toX(index), toY(trend[item.key]));
+      }
+      doc.circle(toX(index), toY(trend[item.key]), 0.8, 'F');
+    });
+  });
+
+  drawLegend(doc, series, x, y + height + 10);
+  doc.setLineWidth(0.2);
+};
+
+const drawPieChart = (doc: jsPDF, slices: ChartSlice[], x: number, y: number, radius: number) => {
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+  const centerX = x + radius;
+  const centerY = y + radius;
+  let angle = -Math.PI / 2;
+
+  slices.forEach(slice => {
+    const sweep = (slice.value / total) * Math.PI * 2;
+    // Arcs are drawn as fans of thin triangles, fine enough to look round
+    const segments = Math.max(2, Math.ceil(sweep / (Math.PI / 45)));
+    doc.setFillColor(...toRGB(slice.color));
+    for (let index = 0; index < segments; index++) {
+      const start = angle + (sweep * index) / segments;
+      const end = angle + (sweep * (index + 1)) / segments;
+      doc.triangle(
+        centerX, centerY,
+        centerX + radius * Math.cos(start), centerY + radius * Math.sin(start),
+        centerX + radius * Math.cos(end), centerY + radius * Math.sin(end),
+        'F'
+      );
+    }
+    angle += sweep;
+  });
+
+  drawLegend(
+    doc,
+    slices.map(slice => ({
+      label: `${slice.name}: ${formatCurrency(slice.value)} (${((slice.value / total) * 100).toFixed(0)}%)`,
+      color: toRGB(slice.color),
+    })),
+    x + radius * 2 + 8,
+    y + 4
+  );
+};
+
+const drawBarChart = (doc: jsPDF, bars: ChartSlice[], x: number, y: number, width: number, height: number) => {
+  const toY = drawValueAxis(doc, x, y, width, height, 0, Math.max(...bars.map(bar => bar.value), 0));
+  const slot = width / bars.length;
+  const barWidth = Math.min(slot * 0.6, 20);
+
+  bars.forEach((bar, index) => {
+    const barX = x + index * slot + (slot - barWidth) / 2;
+    doc.setFillColor(...toRGB(bar.color));
+    doc.rect(barX, toY(bar.value), barWidth, toY(0) - toY(bar.value), 'F');
+    doc.setFontSize(7);
+    doc.setTextColor(...COLORS.muted);
+    const label = doc.splitTextToSize(bar.name, slot - 1)[0];
+    doc.text(label, barX + barWidth / 2, y + height + 4, { align: 'center' });
+  });
+};
+
+const drawPageFooters = (doc: jsPDF) => {
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(...COLORS.muted);
+    const footerY = doc.internal.pageSize.getHeight() - 8;
+    doc.text('Tijigui Mobills', PAGE_MARGIN, footerY);
+    doc.text(`Página ${page} de ${pageCount}`, doc.internal.pageSize.getWidth() - PAGE_MARGIN, footerY, { align: 'right' });
+  }
+};
+
+const drawReportHeader = (doc: jsPDF, title: string, subtitle: string): number => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.setTextColor(...COLORS.text);
+  doc.text(`${title} - Tijigui Mobills`, PAGE_MARGIN, 20);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.setTextColor(...COLORS.muted);
+  doc.text(subtitle, PAGE_MARGIN, 27);
+  doc.setFontSize(8);
+  doc.text(`Gerado em ${format(new Date(), "dd/MM/yyyy 'às' HH:mm")}`, pageWidth - PAGE_MARGIN, 27, { align: 'right' });
+  return 36;
+};
+
+const TABLE_DEFAULTS = {
+  margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+  styles: { font: 'helvetica', fontSize: 9, cellPadding: 2 },
+  headStyles: { fillColor: COLORS.primary },
+};
+
+const TOTAL_STYLES = { fillColor: [240, 240, 240] as RGB, textColor: COLORS.text };
+
+const loadPDFLibraries = async () => {
+  const [{ jsPDF }, { default: autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+  return { doc: new jsPDF({ unit: 'mm', format: 'a4' }), autoTable };
+};
+
+const groupSmallSlices = (slices: ChartSlice[]): ChartSlice[] => {
+  if (slices.length <= MAX_PIE_SLICES) return slices;
+  const others = slices.slice(MAX_PIE_SLICES - 1).reduce((sum, slice) => sum + slice.value, 0);
+  return [...slices.slice(0, MAX_PIE_SLICES - 1), { name: 'Outras', value: others, color: '#A3A3A3' }];
+};
+
+/**
+ * Builds the PDF report for the data already filtered to the period. jsPDF is loaded
+ * on demand so it stays out of the main bundle.
+ */
+export const generatePDFReport = async (data: ExportData, options: PDFReportOptions): Promise<Blob> => {
+  const { doc, autoTable } = await loadPDFLibraries();
+  const contentWidth = doc.internal.pageSize.getWidth() - PAGE_MARGIN * 2;
+  const categories = data.categories || [];
+  const sections = new Set(options.sections);
+  const { title, subtitle } = getReportTitle(options.period);
+  let y = drawReportHeader(doc, title, subtitle);
+
+  if (sections.has('summary')) {
+    const stats = getSummaryStats(data);
+    y = drawSectionTitle(doc, 'Resumo Geral', y);
+    autoTable(doc, {
+      ...TABLE_DEFAULTS,
+      startY: y,
+      theme: 'plain',
+      columnStyles: { 1: { halign: 'right', fontStyle: 'bold' } },
+      body: [
+        ['Receitas do período', formatCurrency(stats.totalIncome)],
+        ['Despesas do período', formatCurrency(stats.totalExpenses)],
+        ['Saldo do período', formatCurrency(stats.periodBalance)],
+        ['Taxa de poupança', `${(stats.totalIncome > 0 ? (stats.periodBalance / stats.totalIncome) * 100 : 0).toFixed(1).replace('.', ',')}%`],
+        ['Transações', String(data.transactions.length)],
+        ['Saldo total das contas', formatCurrency(stats.totalBalance)],
+        ['Metas concluídas', `${stats.completedGoals} de ${stats.totalGoals}`],
+        ['Orçamentos excedidos', `${stats.exceededBudgets} de ${data.budgets.length}`],
+      ],
+      didParseCell: cell => {
+        if (cell.section === 'body' && cell.column.index === 1 && cell.row.index === 2) {
+          cell.cell.styles.textColor = stats.periodBalance >= 0 ? COLORS.income : COLORS.expense;
+        }
+      },
+    });
+    y = tableEnd(doc, y);
+  }
+
+  if (sections.has('categories')) {
+    y = drawSectionTitle(doc, 'Por Categoria', y);
+    (['expense', 'income'] as const).forEach(type => {
+      const breakdown = getCategoryBreakdown(data.transactions, categories, type);
+      if (breakdown.length === 0) return;
+      const total = breakdown.reduce((sum, item) => sum + item.value, 0);
+
+      autoTable(doc, {
+        ...TABLE_DEFAULTS,
+        startY: ensureSpace(doc, y, 30),
+        head: [[type === 'expense' ? 'Despesas por categoria' : 'Receitas por categoria', 'Valor', '%']],
+        body: breakdown.map(item => [
+          item.name,
+          formatCurrency(item.value),
+          `${((item.value / total) * 100).toFixed(1).replace('.', ',')}%`,
+        ]),
+        foot: [['Total', formatCurrency(total), '100%']],
+        footStyles: TOTAL_STYLES,
+        columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right', cellWidth: 20 } },
+      });
+      y = tableEnd(doc, y);
+    });
+  }
+
+  if (sections.has('charts')) {
+    y = drawSectionTitle(doc, 'Gráficos', y);
+
+    const trends = getMonthlyTrends(data.transactions);
+    if (trends.length > 0) {
+      y = ensureSpace(doc, y, 80);
+      drawChartTitle(doc, 'Tendências Mensais', PAGE_MARGIN, y + 4);
+      drawTrendChart(doc, trends, PAGE_MARGIN + 22, y + 10, contentWidth - 24, 50);
+      y += 82;
+    }
+
+    const expenses = groupSmallSlices(getCategoryBreakdown(data.transactions, categories, 'expense'));
+    if (expenses.length > 0) {
+      y = ensureSpace(doc, y, 65);
+      drawChartTitle(doc, 'Gastos por Categoria', PAGE_MARGIN, y + 4);
+      drawPieChart(doc, expenses, PAGE_MARGIN, y + 10, 25);
+      y += 65;
+    }
+
+    const balances = getAccountBalanceDistribution(data.accounts).filter(account => account.value > 0);
+    if (balances.length > 0) {
+      y = ensureSpace(doc, y, 70);
+      drawChartTitle(doc, 'Distribuição de Saldos por Conta', PAGE_MARGIN, y + 4);
+      drawBarChart(doc, balances, PAGE_MARGIN + 22, y + 10, contentWidth - 24, 45);
+      y += 70;
+    }
+  }
+
+  if (sections.has('accounts') && data.accounts.length > 0) {
+    y = drawSectionTitle(doc, 'Saldos das Contas', y);
+    const total = data.accounts.reduce((sum, account) => sum + account.balance, 0);
+    autoTable(doc, {
+      ...TABLE_DEFAULTS,
+      startY: y,
+      head: [['Conta', 'Banco', 'Tipo', options.period ? `Saldo em ${format(options.period.to, 'dd/MM/yyyy')}` : 'Saldo']],
+      body: data.accounts.map(account => [
+        account.name,
+        account.bank,
+        ACCOUNT_TYPE_LABELS[account.type],
+        formatCurrency(account.balance),
+      ]),
+      foot: [['Total', '', '', formatCurrency(total)]],
+      footStyles: TOTAL_STYLES,
+      columnStyles: { 3: { halign: 'right' } },
+    });
+    y = tableEnd(doc, y);
+  }
+
+  if (sections.has('transactions') && data.transactions.length > 0) {
+    y = drawSectionTitle(doc, 'Transações', y);
+    const accountNames = new Map(data.accounts.map(account => [account.id, account.name]));
+    const sorted = [...data.transactions].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    autoTable(doc, {
+      ...TABLE_DEFAULTS,
+      startY: y,
+      styles: { ...TABLE_DEFAULTS.styles, fontSize: 8 },
+      head: [['Data', 'Descrição', 'Categoria', 'Conta', 'Tipo', 'Valor']],
+      body: sorted.map(transaction => [
+        format(new Date(transaction.date), 'dd/MM/yyyy'),
+        transaction.description,
+        transaction.type === 'transfer' ? '-' : getCategoryLabel(categories, transaction.category),
+        accountNames.get(transaction.account) || transaction.account,
+        TRANSACTION_TYPE_LABELS[transaction.type],
+        formatCurrency(transaction.type === 'expense' ? -transaction.amount : transaction.amount),
+      ]),
+      columnStyles: { 0: { cellWidth: 20 }, 5: { halign: 'right', cellWidth: 28 } },
+      didParseCell: cell => {
+        if (cell.section !== 'body' || cell.column.index !== 5) return;
+        const type = sorted[cell.row.index].type;
+        if (type !== 'transfer') cell.cell.styles.textColor = type === 'income' ? COLORS.income : COLORS.expense;
+      },
+    });
+  }
+
+  drawPageFooters(doc);
+  return doc.output('blob');
+};
+
+/**
+ * Generates the report and downloads it, named after its period
+ */
+export const downloadPDFReport = async (data: ExportData, options: PDFReportOptions): Promise<void> => {
+  const blob = await generatePDFReport(data, options);
+  const { period } = options;
+  const suffix = {
+    all: () => 'completo',
+    monthly: () => format(period.from, 'yyyy-MM'),
+    annual: () => format(period.from, 'yyyy'),
+    custom: () => `${format(period.from, 'yyyy-MM-dd')}_${format(period.to, 'yyyy-MM-dd')}`,
+  }[getReportPeriodKind(period)]();
+
+  downloadBlob(blob, `relatorio-financeiro_${suffix}.pdf`);
+};
+
+/**
+ * IRPF helper report: one table per declaration section
+ */
+export const downloadIRPFReportPDF = async (report: IRPFReport): Promise<void> => {
+  const { doc, autoTable } = await loadPDFLibraries();
+  let y = drawReportHeader(
+    doc,
+    `IRPF ${report.year + 1}`,
+    `Ano-calendário ${report.year} - valores de apoio para conferência, não substituem o programa da Receita`
+  );
+
+  y = drawSectionTitle(doc, 'Resumo', y);
+  autoTable(doc, {
+    ...TABLE_DEFAULTS,
+    startY: y,
+    theme: 'plain',
+    columnStyles: { 1: { halign: 'right', fontStyle: 'bold' } },
+    body: [
+      ['Rendimentos tributáveis', formatCurrency(report.totals.taxableIncome)],
+      ['Rendimentos isentos', formatCurrency(report.totals.exemptIncome)],
+      ['Rendimentos com tributação exclusiva', formatCurrency(report.totals.exclusiveIncome)],
+      ['Despesas médicas', formatCurrency(report.totals.health)],
+      [`Despesas com instrução (limite ${formatCurrency(EDUCATION_DEDUCTION_LIMIT)})`, formatCurrency(report.totals.education)],
+      ['Previdência privada (até 12% dos tributáveis)', formatCurrency(report.totals.pension)],
+    ],
+  });
+  y = tableEnd(doc, y);
+
+  const sections: { title: string; head: string[]; body: string[][]; total?: number }[] = [
+    {
+      title: 'Rendimentos por Fonte',
+      head: ['Fonte', 'Categoria', 'Tipo', 'Lançamentos', 'Valor'],
+      body: report.income.map(item => [
+        item.source, item.category, IRPF_INCOME_KIND_LABELS[item.kind], String(item.count), formatCurrency(item.amount),
+      ]),
+    },
+    {
+      title: 'Rendimentos de Aplicações Financeiras',
+      head: ['Conta', 'Tipo', 'Valor'],
+      body: report.investmentIncome.map(item => [item.account, IRPF_INCOME_KIND_LABELS[item.kind], formatCurrency(item.amount)]),
+    },
+    {
+      title: 'Pagamentos Dedutíveis',
+      head: ['Tipo', 'Prestador', 'Lançamentos', 'Valor'],
+      body: report.deductions.map(item => [
+        IRPF_DEDUCTION_LABELS[item.kind], item.provider, String(item.count), formatCurrency(item.amount),
+      ]),
+    },
+  ];
+
+  sections.forEach(section => {
+    y = drawSectionTitle(doc, section.title, y);
+    if (section.body.length === 0) {
+      doc.setFontSize(9);
+      doc.setTextColor(...COLORS.muted);
+      doc.text('Nenhum lançamento no ano.', PAGE_MARGIN, y + 4);
+      y += 12;
+      return;
+    }
+    autoTable(doc, {
+      ...TABLE_DEFAULTS,
+      startY: y,
+      head: [section.head],
+      body: section.body,
+      columnStyles: { [section.head.length - 1]: { halign: 'right' } },
+    });
+    y = tableEnd(doc, y);
+  });
+
+  y = drawSectionTitle(doc, 'Bens e Direitos', y);
+  autoTable(doc, {
+    ...TABLE_DEFAULTS,
+    startY: y,
+    head: [['Código', 'Discriminação', `31/12/${report.year - 1}`, `31/12/${report.year}`]],
+    body: report.assets.map(asset => [
+      asset.code,
+      `${asset.description} - ${asset.bank} - ${asset.name}`,
+      formatCurrency(asset.previousBalance),
+      formatCurrency(asset.currentBalance),
+    ]),
+    foot: [[
+      '',
+      'Total',
+      formatCurrency(report.assets.reduce((sum, asset) => sum + asset.previousBalance, 0)),
+      formatCurrency(report.assets.reduce((sum, asset) => sum + asset.currentBalance, 0)),
+    ]],
+    footStyles: TOTAL_STYLES,
+    columnStyles: { 0: { cellWidth: 16 }, 2: { halign: 'right' }, 3: { halign: 'right' } },
+  });
+
+  drawPageFooters(doc);
+  downloadBlob(doc.output('blob'), getIRPFFilename(report, 'pdf'));
+};
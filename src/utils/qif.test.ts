@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { BankDataImporter } from '@/utils/bankImport';
+import { detectQIFDateOrder, parseQIF, parseQIFDate } from '@/utils/qif';
+
+const QIF = `!Account
+NConta Corrente
+TBank
+^
+!Type:Bank
+D25/01/2025
+T-1.234,56
+PSupermercado
+MCompras do mês
+LAlimentação:Mercado/Casa
+^
+D31/01'25
+T2500.00
+PSalário
+^
+D05/02/2025
+T-300,00
+PPoupança
+L[Poupança]
+^
+!Type:Invst
+D25/01/2025
+NBuy
+^
+`;
+
+describe('parseQIF', () => {
+  it('reads register records with their account, category and transfer', () => {
+    const document = parseQIF(QIF);
+    expect(document.skippedSections).toEqual(['Invst']);
+    expect(document.transactions).toEqual([
+      expect.objectContaining({
+        record: 1,
+        section: 'Bank',
+        account: 'Conta Corrente',
+        date: '2025-01-25',
+        amount: '-1234.56',
+        payee: 'Supermercado',
+        memo: 'Compras do mês',
+        category: 'Mercado',
+        transferAccount: undefined,
+      }),
+      expect.objectContaining({ record: 2, date: '2025-01-31', amount: '2500' }),
+      expect.objectContaining({ record: 3, amount: '-300', category: undefined, transferAccount: 'Poupança' }),
+    ]);
+  });
+
+  it('keeps unreadable fields as written', () => {
+    const [transaction] = parseQIF('!Type:Bank\nD31/02/2025\nTabc\n^\n').transactions;
+    expect(transaction).toMatchObject({ date: '31/02/2025', amount: 'abc' });
+  });
+
+  it('rejects files without a !Type header', () => {
+    expect(() => parseQIF('D25/01/2025\nT-10\n^')).toThrow('cabeçalho !Type não encontrado');
+  });
+});
+
+describe('detectQIFDateOrder', () => {
+  it('follows the first date that is not ambiguous and falls back to month first', () => {
+    expect(detectQIFDateOrder(['01/02/2025', '25/01/2025'])).toBe('DMY');
+    expect(detectQIFDateOrder(['01/02/2025', '01/25/2025'])).toBe('MDY');
+    expect(detectQIFDateOrder(['01/02/2025', '2025-01-25'])).toBe('MDY');
+  });
+});
+
+describe('parseQIFDate', () => {
+  it('reads two-digit years and Quicken apostrophes', () => {
+    expect(parseQIFDate("1/15'05", 'MDY')).toBe('2005-01-15');
+    expect(parseQIFDate('15/1/99', 'DMY')).toBe('1999-01-15');
+    expect(parseQIFDate('2025.01.15', 'DMY')).toBe('2025-01-15');
+    expect(parseQIFDate('02/30/2025', 'MDY')).toBeNull();
+  });
+});
+
+describe('BankDataImporter.importFromQIF', () => {
+  it('reports the records that cannot be imported and keeps the others', async () => {
+    const file = new Blob(['!Type:Bank\nD25/01/2025\nT-50,00\nPFarmácia\n^\nD31/02/2025\nT-10,00\nPPadaria\n^\n']);
+    const result = await new BankDataImporter().importFromQIF(file, 'a1', {}, 'DMY');
+
+    expect(result.success).toBe(false);
+    expect(result.imported).toBe(1);
+    expect(result.transactions).toMatchObject([{ description: 'Farmácia', amount: 50, type: 'expense', account: 'a1' }]);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatch(/^Registro 2: /);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * QIF (Quicken Interchange Format) parser for bank, cash and credit card registers.
+ * Records are lines prefixed with a field code and end with "^".
+ */
+
+// QIF has no fixed date order: Quicken writes month first, most non-US tools day first
+export type QIFDateOrder = 'MDY' | 'DMY';
+
+export interface QIFTransaction {
+  record: number; // 1-based position in the file, for error messages
+  section: string; // The !Type header the record belongs to, e.g. "Bank" or "CCard"
+  account?: string; // Set when the file lists several accounts with !Account
+  date: string; // yyyy-MM-dd, or the raw value when it cannot be read
+  amount: string; // Signed, normalized to a dot decimal; the raw value when unreadable
+  payee?: string;
+  memo?: string;
+  number?: string;
+  category?: string;
+  transferAccount?: string; // "[Account]" in the category field
+  cleared?: string;
+}
+
+export interface QIFDocument {
+  transactions: QIFTransaction[];
+  skippedSections: string[]; // Sections that do not hold register transactions (investments, lists)
+}
+
+const REGISTER_SECTIONS = ['bank', 'cash', 'ccard', 'oth a', 'oth l'];
+
+const splitDate = (value: string): [string, string, string, boolean] | null => {
+  // 1/15'24 marks years from 2000 with an apostrophe
+  const match = value.trim().match(/^(\d{1,4})\s*[/.-]\s*(\d{1,2})\s*([/.'-])\s*(\d{1,4})$/);
+  if (!match) return null;
+  return [match[1], match[2], match[4], match[3] === "'"];
+};
+
+/**
+ * Picks the date order from the dates themselves: any first part above 12 means day first,
+ * any second part above 12 means month first. Ambiguous files follow Quicken (month first).
+ */
+export const detectQIFDateOrder = (dates: string[]): QIFDateOrder => {
+  for (const date of dates) {
+    const parts = splitDate(date);
+    if (!parts || parts[0].length === 4) continue;
+    if (Number(parts[0]) > 12) return 'DMY';
+    if (Number(parts[1]) > 12) return 'MDY';
+  }
+  return 'MDY';
+};
+
+/**
+ * Normalizes a QIF date to yyyy-MM-dd; returns null when it cannot be read
+ */
+export const parseQIFDate = (value: string, order: QIFDateOrder): string | null => {
+  const parts = splitDate(value);
+  if (!parts) return null;
+
+  const [first, second, third, apostrophe] = parts;
+  let year: number;
+  let month: number;
+  let day: number;
+
+  if (first.length === 4) {
+    [year, month, day] = [Number(first), Number(second), Number(third)];
+  } else {
+    [month, day] = order === 'MDY' ? [Number(first), Number(second)] : [Number(second), Number(first)];
+    year = Number(third);
+    if (third.length <= 2) {
+      year += apostrophe || year < 50 ? 2000 : 1900;
+    }
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+const normalizeAmount = (value: string): string => {
+  const cleaned = value.trim().replace(/[^\d,.-]/g, '');
+  // The last separator written is the decimal one: 1,234.56 or 1.234,56
+  const decimalComma = cleaned.lastIndexOf(',') > cleaned.lastIndexOf('.');
+  const normalized = decimalComma
+    ? cleaned.replace(/\./g, '').replace(',', '.')
+    : cleaned.replace(/,/g, '');
+  return normalized === '' || isNaN(Number(normalized)) ? value.trim() : String(Number(normalized));
+};
+
+/**
+ * Parses the register transactions of a QIF file. Records are kept even when a field
+ * cannot be read, so the import can report them individually.
+ */
+export const parseQIF = (content: string, dateOrder?: QIFDateOrder): QIFDocument => {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  if (!lines.some(line => /^!(Type|Account)/i.test(line.trim()))) {
+    throw new Error('Arquivo QIF inválido: cabeçalho !Type não encontrado');
+  }
+
+  type RawRecord = Record<string, string> & { section: string; account?: string };
+  const records: RawRecord[] = [];
+  const skippedSections = new Set<string>();
+
+  let section = '';
+  let account: string | undefined;
+  let inAccountBlock = false;
+  let pendingAccount: string | undefined;
+  let current: Record<string, string> = {};
+
+  lines.forEach(rawLine => {
+    const line = rawLine.trimEnd();
+    if (!line.trim()) return;
+
+    if (line.startsWith('!')) {
+      const header = line.slice(1).trim();
+      if (/^account$/i.test(header)) {
+        inAccountBlock = true;
+        pendingAccount = undefined;
+      } else if (/^type:/i.test(header)) {
+        section = header.slice(5).trim();
+        inAccountBlock = false;
+        if (!REGISTER_SECTIONS.includes(section.toLowerCase())) skippedSections.add(section);
+      }
+      // !Option and !Clear lines only toggle Quicken behaviour
+      current = {};
+      return;
+    }
+
+    const code = line[0];
+    const value = line.slice(1).trim();
+
+    if (inAccountBlock) {
+      if (code === 'N') pendingAccount = value;
+      if (code === '^') {
+        account = pendingAccount;
+        inAccountBlock = false;
+      }
+      return;
+    }
+
+    if (code === '^') {
+      if (REGISTER_SECTIONS.includes(section.toLowerCase()) && Object.keys(current).length > 0) {
+        records.push({ ...current, section, account });
+      }
+      current = {};
+      return;
+    }
+
+    // Split lines (S, E, $, %) repeat; only the first split category is kept as a fallback
+    if (code === 'A' && current.A) {
+      current.A = `${current.A}, ${value}`;
+    } else if (!(code in current)) {
+      current[code] = value;
+    }
+  });
+
+  const order = dateOrder ?? detectQIFDateOrder(records.map(record => record.D || ''));
+
+  const transactions = records.map((record, index): QIFTransaction => {
+    const categoryField = record.L || record.S || '';
+    const transferAccount = categoryField.match(/^\[(.*)\]/)?.[1];
+    // "Food:Groceries/Vacation" is category Food, subcategory Groceries, class Vacation
+    const category = transferAccount ? undefined : categoryField.split('/')[0].split(':').pop()?.trim();
+
+    return {
+      record: index + 1,
+      section: record.section,
+      account: record.account,
+      date: record.D ? parseQIFDate(record.D, order) ?? record.D : '',
+      amount: record.T || record.U ? normalizeAmount(record.T || record.U) : '',
+      payee: record.P || undefined,
+      memo: record.M || record.E || undefined,
+      number: record.N || undefined,
+      category: category || undefined,
+      transferAccount,
+      cleared: record.C || undefined,
+    };
+  });
+
+  return { transactions, skippedSections: Array.from(skippedSections) };
+};
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { RecurrenceRule, Transaction } from '@/types/financial';
+import {
+  buildOccurrenceTransaction,
+  getDueOccurrences,
+  getOccurrenceDate,
+  getOccurrenceId,
+  getUpcomingOccurrences,
+} from '@/utils/recurrence';
+
+const template = (recurrence: RecurrenceRule, date: Date, changes: Partial<Transaction> = {}): Transaction => ({
+  id: 'rent',
+  description: 'Aluguel',
+  amount: 1500,
+  type: 'expense',
+  category: '3',
+  account: 'a1',
+  date,
+  recurring: true,
+  recurrence,
+  ...changes,
+});
+
+const monthly: RecurrenceRule = { frequency: 'monthly', interval: 1 };
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date, 9, 0);
+
+describe('getOccurrenceDate', () => {
+  it('keeps month-end series on the last day of shorter months without drifting', () => {
+    const start = day(2024, 1, 31);
+    expect([1, 2, 3, 4].map(index => getOccurrenceDate(start, monthly, index))).toEqual([
+      day(2024, 2, 29),
+      day(2024, 3, 31),
+      day(2024, 4, 30),
+      day(2024, 5, 31),
+    ]);
+  });
+
+  it('uses the day of month of the rule and moves Feb 29 to Feb 28 in common years', () => {
+    expect(getOccurrenceDate(day(2025, 1, 10), { ...monthly, dayOfMonth: 30 }, 1)).toEqual(day(2025, 2, 28));
+    expect(getOccurrenceDate(day(2024, 2, 29), { frequency: 'yearly', interval: 1 }, 1)).toEqual(day(2025, 2, 28));
+    expect(getOccurrenceDate(day(2024, 2, 29), { frequency: 'yearly', interval: 1 }, 4)).toEqual(day(2028, 2, 29));
+  });
+
+  it('steps daily and weekly series by the interval', () => {
+    expect(getOccurrenceDate(day(2025, 1, 30), { frequency: 'daily', interval: 2 }, 1)).toEqual(day(2025, 2, 1));
+    expect(getOccurrenceDate(day(2025, 1, 30), { frequency: 'weekly', interval: 2 }, 2)).toEqual(day(2025, 2, 27));
+  });
+});
+
+describe('getDueOccurrences', () => {
+  it('lists the month-end occurrences due up to the end of today', () => {
+    const series = template(monthly, day(2025, 1, 31));
+    const due = getDueOccurrences([series], new Date(2025, 3, 30, 8, 0));
+    expect(due.map(occurrence => [occurrence.index, occurrence.date])).toEqual([
+      [1, day(2025, 2, 28)],
+      [2, day(2025, 3, 31)],
+      [3, day(2025, 4, 30)],
+    ]);
+  });
+
+  it('skips occurrences already generated and stops at the count or end date', () => {
+    const now = day(2025, 6, 30);
+    expect(getDueOccurrences([template({ ...monthly, lastGeneratedIndex: 3 }, day(2025, 1, 31))], now)
+      .map(occurrence => occurrence.index)).toEqual([4, 5]);
+    expect(getDueOccurrences([template({ ...monthly, count: 3 }, day(2025, 1, 31))], now)
+      .map(occurrence => occurrence.index)).toEqual([1, 2]);
+    expect(getDueOccurrences([template({ ...monthly, endDate: day(2025, 3, 31) }, day(2025, 1, 31))], now)
+      .map(occurrence => occurrence.index)).toEqual([1, 2]);
+  });
+
+  it('falls back to the occurrences in the list when the rule has no index yet', () => {
+    const series = template(monthly, day(2025, 1, 31));
+    const generated = { ...buildOccurrenceTransaction({ template: series, index: 1, date: day(2025, 2, 28) }), id: 'x' };
+    expect(getDueOccurrences([series, generated], day(2025, 3, 31)).map(occurrence => occurrence.index)).toEqual([2]);
+  });
+
+  it('never generates occurrences from the recurring flag alone', () => {
+    const legacy = template(monthly, day(2025, 1, 31), { recurrence: undefined });
+    expect(getDueOccurrences([legacy], day(2025, 6, 30))).toEqual([]);
+  });
+});
+
+describe('getUpcomingOccurrences', () => {
+  it('lists only the occurrences after today, soonest first', () => {
+    const rent = template(monthly, day(2025, 1, 31));
+    const gym = template({ frequency: 'weekly', interval: 1 }, day(2025, 3, 20), { id: 'gym' });
+    const upcoming = getUpcomingOccurrences([rent, gym], 14, day(2025, 3, 25));
+    expect(upcoming.map(occurrence => [occurrence.template.id, occurrence.date])).toEqual([
+      ['gym', day(2025, 3, 27)],
+      ['rent', day(2025, 3, 31)],
+      ['gym', day(2025, 4, 3)],
+    ]);
+  });
+});
+
+describe('getOccurrenceId', () => {
+  it('derives the same id for the same occurrence, whoever generates it', () => {
+    const series = template(monthly, day(2025, 1, 31));
+    const [first] = getDueOccurrences([series], day(2025, 2, 28));
+    const [again] = getDueOccurrences([structuredClone(series)], day(2025, 3, 1));
+
+    expect(getOccurrenceId(first)).toBe('rent-occurrence-1');
+    expect(getOccurrenceId(again)).toBe(getOccurrenceId(first));
+    expect(getOccurrenceId({ ...first, index: 2 })).not.toBe(getOccurrenceId(first));
+  });
+});
+
+describe('buildOccurrenceTransaction', () => {
+  it('links the occurrence to its series without repeating the rule', () => {
+    const series = template(monthly, day(2025, 1, 31));
+    const transaction = buildOccurrenceTransaction({ template: series, index: 1, date: day(2025, 2, 28) });
+    expect(transaction).toMatchObject({
+      description: 'Aluguel',
+      date: day(2025, 2, 28),
+      recurring: false,
+      recurrenceParentId: 'rent',
+      recurrenceIndex: 1,
+    });
+    expect(transaction).not.toHaveProperty('recurrence');
+    expect(transaction).not.toHaveProperty('id');
+  });
+});
@@ -0,0 +1,140 @@
+import { addDays, addMonths, addWeeks, addYears, endOfDay, getDaysInMonth } from 'date-fns';
+import { RecurrenceRule, Transaction } from '@/types/financial';
+
+export interface RecurringOccurrence {
+  template: Transaction;
+  index: number; // 0 is the original transaction
+  date: Date;
+}
+
+// Safety net against runaway series (e.g. a daily rule started decades ago)
+const MAX_OCCURRENCES_PER_SERIES = 1000;
+
+export const RECURRENCE_FREQUENCY_LABELS: Record<RecurrenceRule['frequency'], string> = {
+  daily: 'Diária',
+  weekly: 'Semanal',
+  monthly: 'Mensal',
+  yearly: 'Anual',
+};
+
+/**
+ * Returns the recurrence rule of a series template. Only an explicit rule makes a
+ * series: the legacy `recurring` flag alone never generates occurrences.
+ */
+export const getRecurrenceRule = (transaction: Transaction): RecurrenceRule | undefined => {
+  if (transaction.recurrenceParentId) return undefined;
+  return transaction.recurrence;
+};
+
+// Moves to the given day, falling back to the last day of shorter months (31 -> Feb 28/29)
+const withDayOfMonth = (date: Date, day: number): Date => {
+  const clampedDay = Math.min(day, getDaysInMonth(date));
+  return new Date(date.getFullYear(), date.getMonth(), clampedDay, date.getHours(), date.getMinutes());
+};
+
+/**
+ * Date of the nth occurrence of a series. Month-based rules are computed from the
+ * start month rather than chained, so a 31st is not dragged to the 28th forever.
+ */
+export const getOccurrenceDate = (start: Date, rule: RecurrenceRule, index: number): Date => {
+  const startDate = new Date(start);
+  const step = Math.max(1, Math.floor(rule.interval || 1)) * index;
+  const day = rule.dayOfMonth || startDate.getDate();
+  const firstOfMonth = new Date(
+    startDate.getFullYear(), startDate.getMonth(), 1, startDate.getHours(), startDate.getMinutes()
+  );
+
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(startDate, step);
+    case 'weekly':
+      return addWeeks(startDate, step);
+    case 'yearly':
+      return withDayOfMonth(addYears(firstOfMonth, step), day);
+    default:
+      return withDayOfMonth(addMonths(firstOfMonth, step), day);
+  }
+};
+
+// Occurrences are materialized in order, so everything up to this index already exists
+const getLastGeneratedIndex = (template: Transaction, rule: RecurrenceRule, transactions: Transaction[]): number => {
+  if (typeof rule.lastGeneratedIndex === 'number') return rule.lastGeneratedIndex;
+  return transactions
+    .filter(t => t.recurrenceParentId === template.id)
+    .reduce((max, t) => Math.max(max, t.recurrenceIndex || 0), 0);
+};
+
+const listOccurrences = (
+  template: Transaction,
+  rule: RecurrenceRule,
+  afterIndex: number,
+  until: Date
+): RecurringOccurrence[] => {
+  const occurrences: RecurringOccurrence[] = [];
+  const endDate = rule.endDate ? endOfDay(new Date(rule.endDate)) : null;
+
+  for (let index = afterIndex + 1; occurrences.length < MAX_OCCURRENCES_PER_SERIES; index++) {
+    if (rule.count && index >= rule.count) break;
+    const date = getOccurrenceDate(template.date, rule, index);
+    if (endDate && date > endDate) break;
+    if (date > until) break;
+    occurrences.push({ template, index, date });
+  }
+
+  return occurrences;
+};
+
+/**
+ * Occurrences that are due (dated today or earlier) but were not materialized yet
+ */
+export const getDueOccurrences = (transactions: Transaction[], now: Date = new Date()): RecurringOccurrence[] => {
+  const until = endOfDay(now);
+
+  return transactions.flatMap(template => {
+    const rule = getRecurrenceRule(template);
+    if (!rule) return [];
+    return listOccurrences(template, rule, getLastGeneratedIndex(template, rule, transactions), until);
+  });
+};
+
+/**
+ * Occurrences scheduled after today within the next `days` days, soonest first
+ */
+export const getUpcomingOccurrences = (
+  transactions: Transaction[],
+  days: number = 30,
+  now: Date = new Date()
+): RecurringOccurrence[] => {
+  const today = endOfDay(now);
+  const until = endOfDay(addDays(now, days));
+
+  return transactions
+    .flatMap(template => {
+      const rule = getRecurrenceRule(template);
+      if (!rule) return [];
+      return listOccurrences(template, rule, getLastGeneratedIndex(template, rule, transactions), until)
+        .filter(occurrence => occurrence.date > today);
+    })
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+/**
+ * Id of an occurrence, derived from its series and position, so tabs or devices that
+ * materialize the same occurrence write the same record instead of duplicates
+ */
+export const getOccurrenceId = (occurrence: RecurringOccurrence): string =>
+  `${occurrence.template.id}-occurrence-${occurrence.index}`;
+
+/**
+ * Builds the transaction for an occurrence; it links back to the series but does not repeat itself
+ */
+export const buildOccurrenceTransaction = (occurrence: RecurringOccurrence): Omit<Transaction, 'id'> => {
+  const { id, recurrence, ...template } = occurrence.template;
+  return {
+    ...template,
+    date: occurrence.date,
+    recurring: false,
+    recurrenceParentId: id,
+    recurrenceIndex: occurrence.index,
+  };
+};
@@ -0,0 +1,93 @@
+import { format } from 'date-fns';
+import { Account, Category, Transaction } from '@/types/financial';
+import { getRootCategory } from '@/utils/categories';
+import { getCategoryAllocations } from '@/utils/splits';
+
+export interface MonthlyTrend {
+  month: string;
+  receitas: number;
+  despesas: number;
+  saldo: number;
+}
+
+export interface ChartSlice {
+  name: string;
+  value: number;
+  color: string;
+}
+
+/**
+ * Income, expenses and net result per month, oldest first
+ */
+export const getMonthlyTrends = (transactions: Transaction[]): MonthlyTrend[] => {
+  const monthlyData = new Map<string, { month: string; income: number; expense: number }>();
+
+  transactions.forEach(transaction => {
+    const date = new Date(transaction.date);
+    const key = format(date, 'yyyy-MM');
+
+    if (!monthlyData.has(key)) {
+      monthlyData.set(key, {
+        month: date.toLocaleDateString('pt-BR', { year: 'numeric', month: 'short' }),
+        income: 0,
+        expense: 0,
+      });
+    }
+
+    const month = monthlyData.get(key)!;
+    if (transaction.type === 'income') {
+      month.income += transaction.amount;
+    } else if (transaction.type === 'expense') {
+      month.expense += transaction.amount;
+    }
+  });
+
+  return Array.from(monthlyData.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, data]) => ({
+      month: data.month,
+      receitas: data.income,
+      despesas: data.expense,
+      saldo: data.income - data.expense,
+    }));
+};
+
+/**
+ * Totals per top-level category, largest first. Subcategories roll up into their
+ * root; without a type, income and expenses are added together.
+ */
+export const getCategoryBreakdown = (
+  transactions: Transaction[],
+  categories: Category[],
+  type?: 'income' | 'expense'
+): ChartSlice[] => {
+  const categoryData: { [key: string]: number } = {};
+
+  transactions
+    .filter(t => t.type !== 'transfer' && (!type || t.type === type))
+    .forEach(transaction => {
+      getCategoryAllocations(transaction).forEach(split => {
+        const key = getRootCategory(categories, split.category)?.id || split.category;
+        categoryData[key] = (categoryData[key] || 0) + split.amount;
+      });
+    });
+
+  return Object.entries(categoryData)
+    .map(([category, amount]) => {
+      const categoryInfo = categories.find(c => c.id === category);
+      return {
+        name: categoryInfo?.name || category,
+        value: amount,
+        color: categoryInfo?.color || '#8884d8'
+      };
+    })
+    .sort((a, b) => b.value - a.value);
+};
+
+export const getAccountBalanceDistribution = (accounts: Account[]): ChartSlice[] => {
+  return accounts.map(account => ({
+    name: account.name,
+    value: Math.max(account.balance, 0),
+    color: account.color
+  }));
+};
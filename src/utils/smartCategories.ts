@@ -1,4 +1,7 @@
 import { Transaction, Category } from '@/types/financial';
+import { findCategory, isInCategory } from '@/utils/categories';
+import { getCategoryAmount, getTransactionCategories } from '@/utils/splits';
+import { calculateSimilarity, normalizeText } from '@/utils/textSimilarity';
 
 // Machine Learning-inspired category rules
 interface CategoryRule {
@@ -217,7 +220,28 @@ export class SmartCategoryManager {
   ) {
     this.transactions = transactions;
     this.categories = categories;
-    this.rules = [...CATEGORY_RULES, ...customRules].sort((a, b) => a.priority - b.priority);
+    this.rules = [...this.buildStoreRules(), ...CATEGORY_RULES, ...customRules]
+      .sort((a, b) => a.priority - b.priority);
+  }
+
+  // User categories match on their own name; subcategories are the most specific match
+  private buildStoreRules(): CategoryRule[] {
+    return this.categories
+      .filter(category => !category.archived)
+      .map(category => ({
+        id: `category-${category.id}`,
+        keywords: [category.name],
+        category: category.id,
+        confidence: 0.85,
+        type: category.type,
+        priority: category.parentId ? 0 : 1,
+      }));
+  }
+
+  // Rule and fallback results name categories; map them onto the user's store when it has them
+  private resolveCategory(reference: string): string {
+    const category = findCategory(this.categories, reference);
+    return category && !category.archived ? category.id : reference;
   }
 
   // Auto-categorize a single transaction
@@ -226,7 +250,16 @@ export class SmartCategoryManager {
     confidence: number;
     reason: string;
   } {
-    const description = this.normalizeText(transaction.description);
+    const result = this.matchTransaction(transaction);
+    return { ...result, category: this.resolveCategory(result.category) };
+  }
+
+  private matchTransaction(transaction: Transaction): {
+    category: string;
+    confidence: number;
+    reason: string;
+  } {
+    const description = normalizeText(transaction.description);
     
     // Try to match against rules
     for (const rule of this.rules) {
@@ -238,14 +271,14 @@ export class SmartCategoryManager {
       let matchReason = '';
       
       // Check keywords
-      if (rule.keywords.some(keyword => description.includes(this.normalizeText(keyword)))) {
+      if (rule.keywords.some(keyword => description.includes(normalizeText(keyword)))) {
         match = true;
         matchReason = 'palavra-chave correspondente';
       }
       
       // Check negative keywords
       if (match && rule.negativeKeywords) {
-        if (rule.negativeKeywords.some(keyword => description.includes(this.normalizeText(keyword)))) {
+        if (rule.negativeKeywords.some(keyword => description.includes(normalizeText(keyword)))) {
           match = false;
         }
       }
@@ -277,13 +310,13 @@ export class SmartCategoryManager {
     confidence: number;
     reason: string;
   } {
-    const description = this.normalizeText(transaction.description);
+    const description = normalizeText(transaction.description);
     
     // Find similar transactions
     const similarTransactions = this.transactions.filter(t => 
       t.id !== transaction.id &&
       t.type === transaction.type &&
-      this.calculateSimilarity(description, this.normalizeText(t.description)) > 0.6
+      calculateSimilarity(description, normalizeText(t.description)) > 0.6
     );
     
     if (similarTransactions.length > 0) {
@@ -417,10 +450,13 @@ export class SmartCategoryManager {
 
   // Get category analytics
   getCategoryAnalytics(category: string, months: number = 12): CategoryAnalytics {
-    const categoryTransactions = this.transactions.filter(t => 
-      t.category === category &&
-      t.date >= new Date(Date.now() - months * 30 * 24 * 60 * 60 * 1000)
-    );
+    // Split transactions only contribute their share in this category
+    const categoryTransactions = this.transactions
+      .filter(t => 
+        getTransactionCategories(t).some(reference => isInCategory(this.categories, reference, category)) &&
+        t.date >= new Date(Date.now() - months * 30 * 24 * 60 * 60 * 1000)
+      )
+      .map(t => ({ ...t, amount: getCategoryAmount(this.categories, t, category) }));
     
     const totalAmount = categoryTransactions.reduce((sum, t) => sum + t.amount, 0);
     const averageAmount = categoryTransactions.length > 0 ? totalAmount / categoryTransactions.length : 0;
@@ -494,9 +530,9 @@ export class SmartCategoryManager {
       const similarTransactions = this.transactions.filter(t => 
         !processed.has(t.id) &&
         t.type === transaction.type &&
-        this.calculateSimilarity(
-          this.normalizeText(transaction.description),
-          this.normalizeText(t.description)
+        calculateSimilarity(
+          normalizeText(transaction.description),
+          normalizeText(t.description)
         ) > 0.7
       );
       
@@ -509,32 +545,10 @@ export class SmartCategoryManager {
     return groups;
   }
 
-  // Calculate text similarity
-  private calculateSimilarity(text1: string, text2: string): number {
-    const words1 = text1.split(' ');
-    const words2 = text2.split(' ');
-    
-    const intersection = words1.filter(word => words2.includes(word));
-    const union = [...new Set([...words1, ...words2])];
-    
-    return intersection.length / union.length;
-  }
-
-  // Normalize text for comparison
-  private normalizeText(text: string): string {
-    return text
-      .toLowerCase()
-      .normalize('NFD')
-      .replace(/[\u0300-\u036f]/g, '') // Remove accents
-      .replace(/[^a-z0-9\s]/g, ' ') // Remove special characters
-      .replace(/\s+/g, ' ') // Normalize spaces
-      .trim();
-  }
-
   // Extract merchant name from description
   private extractMerchantName(description: string): string {
     // Simple merchant name extraction
-    const normalized = this.normalizeText(description);
+    const normalized = normalizeText(description);
     const words = normalized.split(' ');
     
     // Return first 2-3 meaningful words
@@ -0,0 +1,64 @@
+import { Category, Transaction, TransactionSplit } from '@/types/financial';
+import { isInCategory } from '@/utils/categories';
+
+// Split sums within half a cent of the total are rounding noise
+const SPLIT_TOLERANCE = 0.005;
+
+export const isSplitTransaction = (transaction: Pick<Transaction, 'splits'>): boolean => {
+  return !!transaction.splits && transaction.splits.length > 0;
+};
+
+/**
+ * Category shares of a transaction: its splits, or the whole amount in its single category
+ */
+export const getCategoryAllocations = (
+  transaction: Pick<Transaction, 'amount' | 'category' | 'tags' | 'splits'>
+): TransactionSplit[] => {
+  if (isSplitTransaction(transaction)) {
+    return transaction.splits!.map(split => ({ ...split, amount: Math.abs(split.amount) }));
+  }
+  return [{ category: transaction.category, amount: Math.abs(transaction.amount), tags: transaction.tags }];
+};
+
+export const getSplitsTotal = (splits: Pick<TransactionSplit, 'amount'>[]): number => {
+  return splits.reduce((sum, split) => sum + Math.abs(split.amount), 0);
+};
+
+export const isSplitBalanced = (amount: number, splits: Pick<TransactionSplit, 'amount'>[]): boolean => {
+  return Math.abs(getSplitsTotal(splits) - Math.abs(amount)) < SPLIT_TOLERANCE;
+};
+
+/**
+ * Part of a transaction attributed to a category (subcategories included)
+ */
+export const getCategoryAmount = (
+  categories: Category[],
+  transaction: Pick<Transaction, 'amount' | 'category' | 'tags' | 'splits'>,
+  categoryId: string
+): number => {
+  return getCategoryAllocations(transaction)
+    .filter(split => isInCategory(categories, split.category, categoryId))
+    .reduce((sum, split) => sum + split.amount, 0);
+};
+
+/**
+ * Every category reference a transaction uses, including the ones in its splits
+ */
+export const getTransactionCategories = (transaction: Pick<Transaction, 'category' | 'splits'>): string[] => {
+  const references = [transaction.category, ...(transaction.splits || []).map(split => split.category)];
+  return Array.from(new Set(references.filter(Boolean)));
+};
+
+/**
+ * Rewrites the category references of a transaction and its splits
+ */
+export const mapTransactionCategories = (
+  transaction: Transaction,
+  mapCategory: (reference: string) => string
+): Transaction => {
+  return {
+    ...transaction,
+    category: mapCategory(transaction.category),
+    splits: transaction.splits?.map(split => ({ ...split, category: mapCategory(split.category) })),
+  };
+};
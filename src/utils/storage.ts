@@ -0,0 +1,366 @@
+/**
+ * Persistence of the financial collections. IndexedDB is used when the browser has it,
+ * storing each record separately, so a change writes only what changed; localStorage is
+ * the fallback and the format older versions used. Moving that data over happens with
+ * the schema migrations, in utils/migrations.
+ */
+
+import { Category, Transaction } from '@/types/financial';
+import { Budget, GoalContribution } from '@/types/goals';
+import type { StoredAccount } from '@/utils/ledger';
+import type { StoredCreditCard } from '@/utils/creditCard';
+import type { StoredGoal } from '@/utils/goals';
+import { QueuedStorage } from '@/utils/syncQueue';
+
+export type FinancialCollection =
+  | 'accounts'
+  | 'transactions'
+  | 'creditCards'
+  | 'categories'
+  | 'goals'
+  | 'goalContributions'
+  | 'budgets';
+
+// Records as persisted. Collections never saved stay undefined.
+export interface FinancialDataSet {
+  accounts?: StoredAccount[];
+  transactions?: Transaction[];
+  creditCards?: StoredCreditCard[];
+  categories?: Category[];
+  goals?: StoredGoal[];
+  goalContributions?: GoalContribution[];
+  budgets?: (Budget & { spent?: number })[];
+}
+
+export interface StoredRecord {
+  id: string;
+}
+
+export interface CollectionChanges {
+  put: StoredRecord[];
+  remove: string[];
+}
+
+export interface FinancialStorage {
+  readonly kind: 'indexeddb' | 'localstorage';
+  /** All records of a collection, with dates revived; undefined if it was never saved */
+  load(collection: FinancialCollection): Promise<unknown[] | undefined>;
+  /** Writes the given records and deletes the given ids, leaving the rest untouched */
+  applyChanges(collection: FinancialCollection, changes: CollectionChanges): Promise<void>;
+  replace(collection: FinancialCollection, records: unknown[]): Promise<void>;
+  getSchemaVersion(): Promise<number | null>;
+  setSchemaVersion(version: number | null): Promise<void>;
+}
+
+export const FINANCIAL_COLLECTIONS: FinancialCollection[] = [
+  'accounts', 'transactions', 'creditCards', 'categories', 'goals', 'goalContributions', 'budgets',
+];
+
+// localStorage keys, also used to name collections in backups
+export const COLLECTION_KEYS: Record<FinancialCollection, string> = {
+  accounts: 'financial-accounts',
+  transactions: 'financial-transactions',
+  creditCards: 'financial-credit-cards',
+  categories: 'financial-categories',
+  goals: 'financial-goals',
+  goalContributions: 'financial-goal-contributions',
+  budgets: 'financial-budgets',
+};
+
+export const SCHEMA_VERSION_KEY = 'financial-schema-version';
+
+export const COLLECTION_DATE_FIELDS: Partial<Record<FinancialCollection, string[]>> = {
+  accounts: ['createdAt'],
+  transactions: ['date'],
+  goals: ['deadline', 'createdAt'],
+  goalContributions: ['date'],
+  budgets: ['createdAt'],
+};
+
+/**
+ * Turns date strings from JSON back into Date objects. Anything that is not a record
+ * is returned as is, for validation to deal with.
+ */
+export const reviveDates = (collection: FinancialCollection, records: unknown[]): unknown[] => {
+  const fields = COLLECTION_DATE_FIELDS[collection];
+  if (!fields) return records;
+  return records.map(record => {
+    if (!record || typeof record !== 'object') return record;
+    const revived = { ...(record as Record<string, unknown>) };
+    fields.forEach(field => {
+      if (typeof revived[field] === 'string' || typeof revived[field] === 'number') {
+        revived[field] = new Date(revived[field] as string);
+      }
+    });
+    return revived;
+  });
+};
+
+/**
+ * One JSON array per collection. Every change rewrites the whole array, which is what
+ * IndexedDB avoids; this stays as the fallback and for reading data of older versions.
+ */
+export class LocalStorageBackend implements FinancialStorage {
+  readonly kind = 'localstorage' as const;
+
+  async load(collection: FinancialCollection): Promise<unknown[] | undefined> {
+    const stored = localStorage.getItem(COLLECTION_KEYS[collection]);
+    if (stored === null) return undefined;
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) {
+      throw new Error(`"${COLLECTION_KEYS[collection]}" não contém uma lista`);
+    }
+    return reviveDates(collection, parsed);
+  }
+
+  async applyChanges(collection: FinancialCollection, changes: CollectionChanges): Promise<void> {
+    const current = ((await this.load(collection)) || []) as StoredRecord[];
+    const updates = new Map(changes.put.map(record => [record.id, record]));
+    const removed = new Set(changes.remove);
+    const next = current
+      .filter(record => !removed.has(record.id))
+      .map(record => updates.get(record.id) ?? record);
+    const existing = new Set(current.map(record => record.id));
+    changes.put.forEach(record => {
+      if (!existing.has(record.id)) next.push(record);
+    });
+    await this.replace(collection, next);
+  }
+
+  async replace(collection: FinancialCollection, records: unknown[]): Promise<void> {
+    localStorage.setItem(COLLECTION_KEYS[collection], JSON.stringify(records));
+  }
+
+  async getSchemaVersion(): Promise<number | null> {
+    const stored = localStorage.getItem(SCHEMA_VERSION_KEY);
+    return stored ? Number(stored) : null;
+  }
+
+  async setSchemaVersion(version: number | null): Promise<void> {
+    if (version) {
+      localStorage.setItem(SCHEMA_VERSION_KEY, String(version));
+    } else {
+      localStorage.removeItem(SCHEMA_VERSION_KEY);
+    }
+  }
+
+  /** Whether any collection is still stored here */
+  hasData(): boolean {
+    return FINANCIAL_COLLECTIONS.some(collection => localStorage.getItem(COLLECTION_KEYS[collection]) !== null);
+  }
+
+  remove(collection: FinancialCollection) {
+    localStorage.removeItem(COLLECTION_KEYS[collection]);
+  }
+}
+
+export const READ_ONLY_MESSAGE =
+  'Os dados foram salvos por uma versão mais nova do aplicativo. Atualize o aplicativo para fazer alterações.';
+
+/**
+ * Storage whose data was saved by a newer version of the app. It can be read, but
+ * every write is refused, so this version never overwrites what it does not understand.
+ */
+export class ReadOnlyStorage implements FinancialStorage {
+  readonly inner: FinancialStorage;
+
+  constructor(inner: FinancialStorage) {
+    this.inner = inner;
+  }
+
+  get kind() {
+    return this.inner.kind;
+  }
+
+  load(collection: FinancialCollection): Promise<unknown[] | undefined> {
+    return this.inner.load(collection);
+  }
+
+  async applyChanges(): Promise<void> {
+    throw new Error(READ_ONLY_MESSAGE);
+  }
+
+  async replace(): Promise<void> {
+    throw new Error(READ_ONLY_MESSAGE);
+  }
+
+  getSchemaVersion(): Promise<number | null> {
+    return this.inner.getSchemaVersion();
+  }
+
+  async setSchemaVersion(): Promise<void> {
+    throw new Error(READ_ONLY_MESSAGE);
+  }
+}
+
+const DB_NAME = 'tijigui-mobills';
+const DB_VERSION = 5;
+const META_STORE = 'meta';
+
+// Local backups (utils/localBackups): their details, and the snapshots kept apart so
+// listing the backups does not read every snapshot
+export const BACKUPS_STORE = 'backups';
+export const BACKUP_PAYLOADS_STORE = 'backupPayloads';
+// Changes waiting for the cloud sync (utils/syncQueue) and the cloud version of each
+// synced record (utils/syncVersions), keyed by collection and id
+export const SYNC_QUEUE_STORE = 'syncQueue';
+export const SYNC_VERSIONS_STORE = 'syncVersions';
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transação do IndexedDB cancelada'));
+  });
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * The app's IndexedDB database, opened once and created or upgraded as needed
+ */
+export const openFinancialDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      FINANCIAL_COLLECTIONS.forEach(collection => {
+        if (!db.objectStoreNames.contains(collection)) {
+          db.createObjectStore(collection, { keyPath: 'id' });
+          return;
+        }
+        // Version 1 kept indexes nothing read; they only slowed down every write
+        const store = request.transaction!.objectStore(collection);
+        Array.from(store.indexNames).forEach(name => store.deleteIndex(name));
+      });
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+      if (!db.objectStoreNames.contains(BACKUPS_STORE)) {
+        db.createObjectStore(BACKUPS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(BACKUP_PAYLOADS_STORE)) {
+        db.createObjectStore(BACKUP_PAYLOADS_STORE);
+      }
+      if (!db.objectStoreNames.contains(SYNC_QUEUE_STORE)) {
+        db.createObjectStore(SYNC_QUEUE_STORE);
+      }
+      if (!db.objectStoreNames.contains(SYNC_VERSIONS_STORE)) {
+        db.createObjectStore(SYNC_VERSIONS_STORE);
+      }
+    };
+    databasePromise = promisifyRequest(request).catch(error => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+};
+
+// A collection counts as saved once written, so an empty one is told apart from a new install
+const savedKey = (collection: FinancialCollection) => `saved:${collection}`;
+
+export class IndexedDBStorage implements FinancialStorage {
+  readonly kind = 'indexeddb' as const;
+
+  private db: IDBDatabase;
+
+  private constructor(db: IDBDatabase) {
+    this.db = db;
+  }
+
+  static async open(): Promise<IndexedDBStorage> {
+    return new IndexedDBStorage(await openFinancialDatabase());
+  }
+
+  async load(collection: FinancialCollection): Promise<unknown[] | undefined> {
+    const transaction = this.db.transaction([collection, META_STORE], 'readonly');
+    const [saved, records] = await Promise.all([
+      promisifyRequest(transaction.objectStore(META_STORE).get(savedKey(collection))),
+      promisifyRequest(transaction.objectStore(collection).getAll()),
+    ]);
+    return saved ? records : undefined;
+  }
+
+  async applyChanges(collection: FinancialCollection, changes: CollectionChanges): Promise<void> {
+    const transaction = this.db.transaction([collection, META_STORE], 'readwrite');
+    const store = transaction.objectStore(collection);
+    changes.remove.forEach(id => store.delete(id));
+    changes.put.forEach(record => store.put(record));
+    transaction.objectStore(META_STORE).put(true, savedKey(collection));
+    await transactionDone(transaction);
+  }
+
+  async replace(collection: FinancialCollection, records: unknown[]): Promise<void> {
+    const transaction = this.db.transaction([collection, META_STORE], 'readwrite');
+    const store = transaction.objectStore(collection);
+    store.clear();
+    records.forEach(record => store.put(record));
+    transaction.objectStore(META_STORE).put(true, savedKey(collection));
+    await transactionDone(transaction);
+  }
+
+  async getSchemaVersion(): Promise<number | null> {
+    const store = this.db.transaction(META_STORE, 'readonly').objectStore(META_STORE);
+    const version = await promisifyRequest(store.get(SCHEMA_VERSION_KEY));
+    return typeof version === 'number' ? version : null;
+  }
+
+  async setSchemaVersion(version: number | null): Promise<void> {
+    const transaction = this.db.transaction(META_STORE, 'readwrite');
+    if (version) {
+      transaction.objectStore(META_STORE).put(version, SCHEMA_VERSION_KEY);
+    } else {
+      transaction.objectStore(META_STORE).delete(SCHEMA_VERSION_KEY);
+    }
+    await transactionDone(transaction);
+  }
+}
+
+export const isIndexedDBAvailable = (): boolean => {
+  try {
+    return typeof indexedDB !== 'undefined' && indexedDB !== null;
+  } catch {
+    return false;
+  }
+};
+
+const openBackend = async (): Promise<FinancialStorage> => {
+  if (!isIndexedDBAvailable()) return new LocalStorageBackend();
+  try {
+    return await IndexedDBStorage.open();
+  } catch (error) {
+    console.error('IndexedDB unavailable, using localStorage:', error);
+    return new LocalStorageBackend();
+  }
+};
+
+let storagePromise: Promise<QueuedStorage> | null = null;
+
+/**
+ * The storage shared by the app, opened once. Writes are queued for the cloud sync
+ * while it is on.
+ */
+export const getFinancialStorage = (): Promise<QueuedStorage> => {
+  if (!storagePromise) {
+    storagePromise = openBackend().then(backend => new QueuedStorage(backend));
+  }
+  return storagePromise;
+};
+
+/**
+ * Every collection of the given storage, for backups
+ */
+export const loadDataSet = async (storage: FinancialStorage): Promise<FinancialDataSet> => {
+  const data: Partial<Record<FinancialCollection, unknown[]>> = {};
+  for (const collection of FINANCIAL_COLLECTIONS) {
+    const records = await storage.load(collection);
+    if (records) data[collection] = records;
+  }
+  return data as FinancialDataSet;
+};
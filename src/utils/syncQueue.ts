@@ -0,0 +1,230 @@
+/**
+ * Queue of local changes waiting for the cloud sync. Only which records changed is
+ * queued, not their contents: the sync reads the current version from storage when
+ * it pushes, so several edits to a record while offline become a single upload.
+ *
+ * Changes are only queued while the sync is on; the sync queues whatever changed in
+ * the meantime when it starts again. The queue lives in IndexedDB next to the data,
+ * one entry per record, or in localStorage when IndexedDB is unavailable.
+ */
+
+import {
+  CollectionChanges,
+  FinancialCollection,
+  FinancialStorage,
+  SYNC_QUEUE_STORE,
+  StoredRecord,
+  isIndexedDBAvailable,
+  openFinancialDatabase,
+  promisifyRequest,
+  transactionDone,
+} from '@/utils/storage';
+
+export interface SyncQueueEntry {
+  collection: FinancialCollection;
+  id: string;
+  queuedAt: string;
+}
+
+interface QueueStore {
+  list(): Promise<SyncQueueEntry[]>;
+  add(entries: SyncQueueEntry[]): Promise<void>;
+  /** Entries queued again since they were read are kept */
+  remove(entries: SyncQueueEntry[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const SYNC_QUEUE_KEY = 'tijigui-mobills-sync-queue';
+const SYNC_QUEUE_ACTIVE_KEY = 'tijigui-mobills-sync-queue-active';
+
+// Dispatched on window whenever changes are queued, so the sync can run soon after
+export const SYNC_QUEUED_EVENT = 'tijigui-mobills-sync-queued';
+
+const entryKey = (collection: FinancialCollection, id: string) => `${collection}:${id}`;
+
+const readLocalQueue = (): Record<string, SyncQueueEntry> => {
+  try {
+    const stored = localStorage.getItem(SYNC_QUEUE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error reading sync queue:', error);
+    return {};
+  }
+};
+
+const writeLocalQueue = (queue: Record<string, SyncQueueEntry>) => {
+  localStorage.setItem(SYNC_QUEUE_KEY, JSON.stringify(queue));
+};
+
+const localStorageQueue: QueueStore = {
+  async list() {
+    return Object.values(readLocalQueue());
+  },
+  async add(entries) {
+    const queue = readLocalQueue();
+    entries.forEach(entry => {
+      queue[entryKey(entry.collection, entry.id)] = entry;
+    });
+    writeLocalQueue(queue);
+  },
+  async remove(entries) {
+    const queue = readLocalQueue();
+    entries.forEach(entry => {
+      const key = entryKey(entry.collection, entry.id);
+      if (queue[key]?.queuedAt === entry.queuedAt) delete queue[key];
+    });
+    writeLocalQueue(queue);
+  },
+  async clear() {
+    localStorage.removeItem(SYNC_QUEUE_KEY);
+  },
+};
+
+const createIndexedDBQueue = (db: IDBDatabase): QueueStore => ({
+  list() {
+    return promisifyRequest(db.transaction(SYNC_QUEUE_STORE, 'readonly').objectStore(SYNC_QUEUE_STORE).getAll());
+  },
+  async add(entries) {
+    const transaction = db.transaction(SYNC_QUEUE_STORE, 'readwrite');
+    const store = transaction.objectStore(SYNC_QUEUE_STORE);
+    entries.forEach(entry => store.put(entry, entryKey(entry.collection, entry.id)));
+    await transactionDone(transaction);
+  },
+  async remove(entries) {
+    const transaction = db.transaction(SYNC_QUEUE_STORE, 'readwrite');
+    const store = transaction.objectStore(SYNC_QUEUE_STORE);
+    entries.forEach(entry => {
+      const key = entryKey(entry.collection, entry.id);
+      const request = store.get(key);
+      request.onsuccess = () => {
+        if (request.result?.queuedAt === entry.queuedAt) store.delete(key);
+      };
+    });
+    await transactionDone(transaction);
+  },
+  async clear() {
+    const transaction = db.transaction(SYNC_QUEUE_STORE, 'readwrite');
+    transaction.objectStore(SYNC_QUEUE_STORE).clear();
+    await transactionDone(transaction);
+  },
+});
+
+let queueStorePromise: Promise<QueueStore> | null = null;
+
+const getQueueStore = (): Promise<QueueStore> => {
+  if (!queueStorePromise) {
+    queueStorePromise = (async () => {
+      if (!isIndexedDBAvailable()) return localStorageQueue;
+      try {
+        return createIndexedDBQueue(await openFinancialDatabase());
+      } catch (error) {
+        console.error('IndexedDB unavailable for the sync queue, using localStorage:', error);
+        return localStorageQueue;
+      }
+    })();
+  }
+  return queueStorePromise;
+};
+
+/**
+ * Whether local changes are being queued. Kept in localStorage, so every tab sees it.
+ */
+export const isSyncQueueActive = (): boolean => localStorage.getItem(SYNC_QUEUE_ACTIVE_KEY) === 'true';
+
+/**
+ * Starts or stops queueing. Stopping drops the queue: the sync looks for what changed
+ * when it starts again.
+ */
+export const setSyncQueueActive = async (active: boolean) => {
+  if (active) {
+    localStorage.setItem(SYNC_QUEUE_ACTIVE_KEY, 'true');
+    return;
+  }
+  localStorage.removeItem(SYNC_QUEUE_ACTIVE_KEY);
+  await clearSyncQueue();
+};
+
+export const listSyncQueue = async (collection?: FinancialCollection): Promise<SyncQueueEntry[]> => {
+  const entries = await (await getQueueStore()).list();
+  return collection ? entries.filter(entry => entry.collection === collection) : entries;
+};
+
+export const enqueueSyncChanges = async (collection: FinancialCollection, ids: string[]) => {
+  if (ids.length === 0) return;
+  const queuedAt = new Date().toISOString();
+  await (await getQueueStore()).add(ids.map(id => ({ collection, id, queuedAt })));
+  window.dispatchEvent(new Event(SYNC_QUEUED_EVENT));
+};
+
+/**
+ * Removes entries once handled. Entries queued again in the meantime stay.
+ */
+export const dequeueSyncEntries = async (entries: SyncQueueEntry[]) => {
+  if (entries.length === 0) return;
+  await (await getQueueStore()).remove(entries);
+};
+
+export const clearSyncQueue = async () => {
+  await (await getQueueStore()).clear();
+  window.dispatchEvent(new Event(SYNC_QUEUED_EVENT));
+};
+
+/**
+ * Storage that queues writes for the cloud sync while it is on. Changes pulled from the
+ * cloud are written to `inner` directly, so they are not sent back.
+ */
+export class QueuedStorage implements FinancialStorage {
+  readonly inner: FinancialStorage;
+
+  constructor(inner: FinancialStorage) {
+    this.inner = inner;
+  }
+
+  get kind() {
+    return this.inner.kind;
+  }
+
+  load(collection: FinancialCollection): Promise<unknown[] | undefined> {
+    return this.inner.load(collection);
+  }
+
+  async applyChanges(collection: FinancialCollection, changes: CollectionChanges): Promise<void> {
+    await this.inner.applyChanges(collection, changes);
+    await this.enqueue(collection, [...changes.put.map(record => record.id), ...changes.remove]);
+  }
+
+  async replace(collection: FinancialCollection, records: unknown[]): Promise<void> {
+    if (!isSyncQueueActive()) {
+      await this.inner.replace(collection, records);
+      return;
+    }
+    // Records left out are deletions, and have to reach the cloud as well
+    const previous = ((await this.inner.load(collection)) || []) as StoredRecord[];
+    await this.inner.replace(collection, records);
+    const ids = new Set([
+      ...previous.map(record => record.id),
+      ...(records as StoredRecord[]).map(record => record?.id),
+    ]);
+    await this.enqueue(collection, [...ids].filter(id => typeof id === 'string'));
+  }
+
+  getSchemaVersion(): Promise<number | null> {
+    return this.inner.getSchemaVersion();
+  }
+
+  setSchemaVersion(version: number | null): Promise<void> {
+    return this.inner.setSchemaVersion(version);
+  }
+
+  // The data is already saved here, so a failure is not reported as a failed save.
+  // Queueing stops instead, and the next sync looks for what changed.
+  private async enqueue(collection: FinancialCollection, ids: string[]) {
+    if (!isSyncQueueActive()) return;
+    try {
+      await enqueueSyncChanges(collection, ids);
+    } catch (error) {
+      console.error('Error queueing changes for the cloud sync:', error);
+      localStorage.removeItem(SYNC_QUEUE_ACTIVE_KEY);
+    }
+  }
+}
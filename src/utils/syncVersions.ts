@@ -0,0 +1,131 @@
+/**
+ * What this device last synced of each record: the version the cloud gave it, sent back
+ * with the next change so the server can reject changes based on an older version, and
+ * a hash of the contents, to find what changed while the sync was off. Kept in IndexedDB
+ * next to the data, or in localStorage when IndexedDB is unavailable.
+ */
+
+import {
+  FinancialCollection,
+  SYNC_VERSIONS_STORE,
+  StoredRecord,
+  isIndexedDBAvailable,
+  openFinancialDatabase,
+  promisifyRequest,
+  transactionDone,
+} from '@/utils/storage';
+
+export interface SyncedVersion {
+  version: number;
+  hash: string | null; // null for deleted records
+}
+
+interface VersionStore {
+  list(collection: FinancialCollection): Promise<Map<string, SyncedVersion>>;
+  write(collection: FinancialCollection, versions: Map<string, SyncedVersion>): Promise<void>;
+  clear(): Promise<void>;
+}
+
+interface StoredVersion extends SyncedVersion {
+  id: string;
+}
+
+const SYNC_VERSIONS_KEY = 'tijigui-mobills-sync-versions';
+
+const versionKey = (collection: FinancialCollection, id: string) => `${collection}:${id}`;
+
+type LocalVersions = Partial<Record<FinancialCollection, Record<string, SyncedVersion>>>;
+
+const readLocalVersions = (): LocalVersions => {
+  try {
+    const stored = localStorage.getItem(SYNC_VERSIONS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error reading sync versions:', error);
+    return {};
+  }
+};
+
+const localStorageVersions: VersionStore = {
+  async list(collection) {
+    return new Map(Object.entries(readLocalVersions()[collection] || {}));
+  },
+  async write(collection, versions) {
+    const stored = readLocalVersions();
+    stored[collection] = { ...stored[collection], ...Object.fromEntries(versions) };
+    localStorage.setItem(SYNC_VERSIONS_KEY, JSON.stringify(stored));
+  },
+  async clear() {
+    localStorage.removeItem(SYNC_VERSIONS_KEY);
+  },
+};
+
+const createIndexedDBVersions = (db: IDBDatabase): VersionStore => ({
+  async list(collection) {
+    const store = db.transaction(SYNC_VERSIONS_STORE, 'readonly').objectStore(SYNC_VERSIONS_STORE);
+    const range = IDBKeyRange.bound(versionKey(collection, ''), versionKey(collection, '\uffff'));
+    const stored = await promisifyRequest<StoredVersion[]>(store.getAll(range));
+    return new Map(stored.map(({ id, version, hash }) => [id, { version, hash }]));
+  },
+  async write(collection, versions) {
+    const transaction = db.transaction(SYNC_VERSIONS_STORE, 'readwrite');
+    const store = transaction.objectStore(SYNC_VERSIONS_STORE);
+    versions.forEach((synced, id) => store.put({ id, ...synced }, versionKey(collection, id)));
+    await transactionDone(transaction);
+  },
+  async clear() {
+    const transaction = db.transaction(SYNC_VERSIONS_STORE, 'readwrite');
+    transaction.objectStore(SYNC_VERSIONS_STORE).clear();
+    await transactionDone(transaction);
+  },
+});
+
+let versionStorePromise: Promise<VersionStore> | null = null;
+
+const getVersionStore = (): Promise<VersionStore> => {
+  if (!versionStorePromise) {
+    versionStorePromise = (async () => {
+      if (!isIndexedDBAvailable()) return localStorageVersions;
+      try {
+        return createIndexedDBVersions(await openFinancialDatabase());
+      } catch (error) {
+        console.error('IndexedDB unavailable for the sync versions, using localStorage:', error);
+        return localStorageVersions;
+      }
+    })();
+  }
+  return versionStorePromise;
+};
+
+/**
+ * Hash of a record's contents (cyrb53). Only compared with hashes taken on this device.
+ */
+export const hashRecord = (record: StoredRecord | null | undefined): string | null => {
+  if (!record) return null;
+  const text = JSON.stringify(record);
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+export const readSyncedVersions = async (collection: FinancialCollection): Promise<Map<string, SyncedVersion>> =>
+  (await getVersionStore()).list(collection);
+
+export const saveSyncedVersions = async (collection: FinancialCollection, versions: Map<string, SyncedVersion>) => {
+  if (versions.size === 0) return;
+  await (await getVersionStore()).write(collection, versions);
+};
+
+/**
+ * Forgets every synced version, when the device is linked to another account or none
+ */
+export const clearSyncedVersions = async () => {
+  await (await getVersionStore()).clear();
+};
@@ -0,0 +1,116 @@
+/**
+ * Propagation of saved changes between tabs of the app. Each change carries the
+ * records as the writing tab saw them before the edit, so a tab that changed the
+ * same records in the meantime can tell it is a conflict instead of overwriting.
+ * BroadcastChannel is used where available, storage events otherwise.
+ */
+
+import { CollectionChanges, FinancialCollection, StoredRecord, reviveDates } from '@/utils/storage';
+
+export interface TabChangeMessage extends CollectionChanges {
+  tabId: string;
+  collection: FinancialCollection;
+  base: Record<string, StoredRecord | null>; // Previous version of each changed record; null if it is new
+}
+
+type TabChangeListener = (message: TabChangeMessage) => void;
+
+const CHANNEL_NAME = 'tijigui-mobills-sync';
+const STORAGE_EVENT_KEY = 'tijigui-mobills-sync';
+
+export const TAB_ID = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const listeners = new Set<TabChangeListener>();
+let channel: BroadcastChannel | null = null;
+let connected = false;
+
+const deliver = (message: TabChangeMessage) => {
+  listeners.forEach(listener => {
+    try {
+      listener(message);
+    } catch (error) {
+      console.error('Error applying change from another tab:', error);
+    }
+  });
+};
+
+// Messages sent through localStorage lose their dates on the way
+const reviveMessage = (message: TabChangeMessage): TabChangeMessage => ({
+  ...message,
+  put: reviveDates(message.collection, message.put) as StoredRecord[],
+  base: Object.fromEntries(
+    Object.entries(message.base).map(([id, record]) => [
+      id,
+      record ? (reviveDates(message.collection, [record])[0] as StoredRecord) : null,
+    ])
+  ),
+});
+
+const notify = (message: TabChangeMessage) => {
+  if (message.tabId !== TAB_ID) deliver(message);
+};
+
+const handleStorageEvent = (event: StorageEvent) => {
+  if (event.key !== STORAGE_EVENT_KEY || !event.newValue) return;
+  try {
+    notify(reviveMessage(JSON.parse(event.newValue)));
+  } catch (error) {
+    console.error('Error reading change from another tab:', error);
+  }
+};
+
+const connect = () => {
+  if (connected) return;
+  connected = true;
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<TabChangeMessage>) => notify(event.data);
+  } else {
+    window.addEventListener('storage', handleStorageEvent);
+  }
+};
+
+export const broadcastChanges = (message: Omit<TabChangeMessage, 'tabId'>) => {
+  connect();
+  const full: TabChangeMessage = { ...message, tabId: TAB_ID };
+  try {
+    if (channel) {
+      channel.postMessage(full);
+    } else {
+      // The key only carries the event; other tabs read it from the event itself
+      localStorage.setItem(STORAGE_EVENT_KEY, JSON.stringify(full));
+      localStorage.removeItem(STORAGE_EVENT_KEY);
+    }
+  } catch (error) {
+    console.error('Error notifying other tabs:', error);
+  }
+};
+
+/**
+ * For changes saved from outside the app state, like the cloud sync: every tab,
+ * this one included, applies them.
+ */
+export const publishExternalChanges = (message: Omit<TabChangeMessage, 'tabId'>) => {
+  deliver({ ...message, tabId: TAB_ID });
+  broadcastChanges(message);
+};
+
+/**
+ * Calls the listener with changes saved by other tabs. Returns the unsubscribe function.
+ */
+export const subscribeToTabChanges = (listener: TabChangeListener): (() => void) => {
+  connect();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Whether two versions of a record hold the same data
+ */
+export const isSameRecord = (a: StoredRecord | null | undefined, b: StoredRecord | null | undefined): boolean => {
+  if (a === b) return true;
+  if (!a || !b) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+};
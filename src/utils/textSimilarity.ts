@@ -0,0 +1,49 @@
+/**
+ * Text comparison helpers shared by category suggestions and duplicate detection
+ */
+
+// Lowercase without accents, punctuation or repeated spaces
+export const normalizeText = (text: string): string => {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remove accents
+    .replace(/[^a-z0-9\s]/g, ' ') // Remove special characters
+    .replace(/\s+/g, ' ') // Normalize spaces
+    .trim();
+};
+
+// Share of words two normalized texts have in common (Jaccard index)
+export const calculateSimilarity = (text1: string, text2: string): number => {
+  const words1 = text1.split(' ');
+  const words2 = text2.split(' ');
+  
+  const intersection = words1.filter(word => words2.includes(word));
+  const union = [...new Set([...words1, ...words2])];
+  
+  return intersection.length / union.length;
+};
+
+const bigrams = (text: string): string[] => {
+  const compact = text.replace(/\s/g, '');
+  return Array.from({ length: Math.max(compact.length - 1, 0) }, (_, i) => compact.slice(i, i + 2));
+};
+
+// Dice coefficient over character pairs; tolerant of abbreviations and typos ("SUPERMERC" vs "supermercado")
+export const calculateCharacterSimilarity = (text1: string, text2: string): number => {
+  const pairs1 = bigrams(text1);
+  const pairs2 = bigrams(text2);
+  if (pairs1.length === 0 || pairs2.length === 0) return text1 === text2 ? 1 : 0;
+
+  const remaining = [...pairs2];
+  let matches = 0;
+  pairs1.forEach(pair => {
+    const index = remaining.indexOf(pair);
+    if (index >= 0) {
+      matches++;
+      remaining.splice(index, 1);
+    }
+  });
+
+  return (2 * matches) / (pairs1.length + pairs2.length);
+};
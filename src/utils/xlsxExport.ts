@@ -0,0 +1,349 @@
+import type { Workbook, Worksheet } from 'exceljs';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import type { AppSettings } from '@/hooks/useSettings';
+import { Transaction } from '@/types/financial';
+import { downloadBlob, ExportData, ExportOptions } from '@/utils/dataExport';
+import { BUDGET_PERIOD_LABELS, getBudgetStatus } from '@/utils/budgets';
+import { getCategoryLabel } from '@/utils/categories';
+import { getCategoryAllocations, isSplitTransaction } from '@/utils/splits';
+
+export interface XLSXExportOptions extends Pick<ExportOptions,
+  'includeAccounts' | 'includeTransactions' | 'includeCreditCards' | 'includeGoals' | 'includeBudgets'
+> {
+  dateFormat: AppSettings['dateFormat'];
+  numberFormat: AppSettings['numberFormat'];
+  currencySymbol: string;
+  budgetTransactions?: Transaction[]; // Full ledger for budget status when data.transactions is filtered
+}
+
+type ColumnKind = 'text' | 'date' | 'currency' | 'percent' | 'integer';
+
+interface SheetColumn {
+  header: string;
+  kind: ColumnKind;
+  width?: number;
+}
+
+const TRANSACTION_TYPE_LABELS = {
+  income: 'Receita',
+  expense: 'Despesa',
+  transfer: 'Transferência',
+};
+
+const ACCOUNT_TYPE_LABELS = {
+  checking: 'Conta Corrente',
+  savings: 'Poupança',
+  investment: 'Investimento',
+};
+
+const HEADER_FILL = 'FF2563EB';
+const TOTAL_FILL = 'FFF0F0F0';
+
+/**
+ * Excel format codes always use "," for thousands and "." for decimals; Excel shows
+ * them with the viewer's separators. The locale decides where the symbol goes.
+ */
+const getCurrencyFormat = (numberFormat: AppSettings['numberFormat'], symbol: string): string => {
+  const quoted = `"${symbol.replace(/"/g, '')}"`;
+  switch (numberFormat) {
+    case 'es-ES':
+      return `#,##0.00 ${quoted};-#,##0.00 ${quoted}`;
+    case 'en-US':
+      return `${quoted}#,##0.00;-${quoted}#,##0.00`;
+    default:
+      return `${quoted} #,##0.00;-${quoted} #,##0.00`;
+  }
+};
+
+// Settings use date-fns tokens (dd/MM/yyyy); Excel wants lowercase months
+const getDateFormat = (dateFormat: AppSettings['dateFormat']): string => dateFormat.toLowerCase();
+
+// ExcelJS stores dates as UTC serials; pinning the calendar day to UTC keeps it in every time zone
+const toExcelDate = (date: Date | string): Date => {
+  const value = new Date(date);
+  return new Date(Date.UTC(value.getFullYear(), value.getMonth(), value.getDate()));
+};
+
+const addSheet = (
+  workbook: Workbook,
+  name: string,
+  columns: SheetColumn[],
+  rows: unknown[][],
+  options: XLSXExportOptions
+): Worksheet => {
+  const sheet = workbook.addWorksheet(name, { views: [{ state: 'frozen', ySplit: 1 }] });
+  const numberFormats: Record<ColumnKind, string | undefined> = {
+    text: undefined,
+    date: getDateFormat(options.dateFormat),
+    currency: getCurrencyFormat(options.numberFormat, options.currencySymbol),
+    percent: '0.0%',
+    integer: '0',
+  };
+
+  sheet.columns = columns.map(column => ({
+    header: column.header,
+    width: column.width ?? (column.kind === 'text' ? 20 : 14),
+    style: numberFormats[column.kind] ? { numFmt: numberFormats[column.kind] } : {},
+  }));
+  rows.forEach(row => sheet.addRow(row));
+
+  const header = sheet.getRow(1);
+  header.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: HEADER_FILL } };
+  if (rows.length > 0) {
+    sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: columns.length } };
+  }
+  return sheet;
+};
+
+// Column letter for a 1-based index, for formulas
+const columnLetter = (index: number): string => {
+  let letter = '';
+  for (let n = index; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+};
+
+/**
+ * Monthly totals per category, income first, with totals and the net result per month
+ */
+const addSummarySheet = (workbook: Workbook, data: ExportData, options: XLSXExportOptions) => {
+  const categories = data.categories || [];
+  const totals = new Map<string, { type: 'income' | 'expense'; months: Map<string, number> }>();
+  const monthKeys = new Set<string>();
+
+  data.transactions.forEach(transaction => {
+    if (transaction.type === 'transfer') return;
+    const month = format(new Date(transaction.date), 'yyyy-MM');
+    monthKeys.add(month);
+
+    getCategoryAllocations(transaction).forEach(split => {
+      const key = `${transaction.type}:${split.category}`;
+      if (!totals.has(key)) totals.set(key, { type: transaction.type as 'income' | 'expense', months: new Map() });
+      const months = totals.get(key)!.months;
+      months.set(month, (months.get(month) || 0) + split.amount);
+    });
+  });
+
+  const months = Array.from(monthKeys).sort();
+  const rows = Array.from(totals.entries())
+    .map(([key, total]) => ({
+      label: getCategoryLabel(categories, key.slice(key.indexOf(':') + 1)),
+      ...total,
+    }))
+    .sort((a, b) => a.type === b.type ? a.label.localeCompare(b.label, 'pt-BR') : a.type === 'income' ? -1 : 1);
+
+  const firstMonthColumn = 3;
+  const totalColumn = columnLetter(firstMonthColumn + months.length);
+  const sumRow = (row: number) => months.length > 0
+    ? { formula: `SUM(${columnLetter(firstMonthColumn)}${row}:${columnLetter(firstMonthColumn + months.length - 1)}${row})` }
+    : 0;
+
+  const sheet = addSheet(
+    workbook,
+    'Resumo',
+    [
+      { header: 'Categoria', kind: 'text', width: 30 },
+      { header: 'Tipo', kind: 'text', width: 12 },
+      ...months.map(month => ({
+        header: format(new Date(`${month}-01T00:00:00`), 'MMM yyyy', { locale: ptBR }),
+        kind: 'currency' as const,
+      })),
+      { header: 'Total', kind: 'currency' },
+    ],
+    rows.map((row, index) => [
+      row.label,
+      TRANSACTION_TYPE_LABELS[row.type],
+      ...months.map(month => row.months.get(month) || 0),
+      sumRow(index + 2),
+    ]),
+    options
+  );
+
+  // Totals use SUMIF on the type column so they stay right if the user edits a value
+  const lastDataRow = rows.length + 1;
+  const sumByType = (label: string, column: string) =>
+    rows.length > 0 ? { formula: `SUMIF($B$2:$B$${lastDataRow},"${label}",${column}2:${column}${lastDataRow})` } : 0;
+  const incomeRow = sheet.addRow([
+    'Total de Receitas', '',
+    ...months.map((_, index) => sumByType(TRANSACTION_TYPE_LABELS.income, columnLetter(firstMonthColumn + index))),
+    sumByType(TRANSACTION_TYPE_LABELS.income, totalColumn),
+  ]);
+  const expenseRow = sheet.addRow([
+    'Total de Despesas', '',
+    ...months.map((_, index) => sumByType(TRANSACTION_TYPE_LABELS.expense, columnLetter(firstMonthColumn + index))),
+    sumByType(TRANSACTION_TYPE_LABELS.expense, totalColumn),
+  ]);
+  const balanceRow = sheet.addRow([
+    'Saldo', '',
+    ...[...months, 'total'].map((_, index) => {
+      const column = columnLetter(firstMonthColumn + index);
+      return { formula: `${column}${incomeRow.number}-${column}${expenseRow.number}` };
+    }),
+  ]);
+
+  [incomeRow, expenseRow, balanceRow].forEach(row => {
+    row.font = { bold: true };
+    row.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: TOTAL_FILL } };
+  });
+};
+
+/**
+ * Builds one workbook with a summary and one sheet per entity, with real date and
+ * currency cells. ExcelJS is loaded on demand so it stays out of the main bundle.
+ */
+export const generateXLSXWorkbook = async (data: ExportData, options: XLSXExportOptions): Promise<Blob> => {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'Tijigui Mobills';
+  workbook.created = new Date();
+  // Formulas are written without cached results; have Excel compute them when opening
+  workbook.calcProperties.fullCalcOnLoad = true;
+
+  const categories = data.categories || [];
+  const accountNames = new Map(data.accounts.map(account => [account.id, account.name]));
+  const cardNames = new Map(data.creditCards.map(card => [card.id, card.name]));
+
+  if (options.includeTransactions !== false && data.transactions.length > 0) {
+    addSummarySheet(workbook, data, options);
+
+    // Split transactions produce one row per category share, so the Valor column still sums to the totals
+    const rows = [...data.transactions]
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+      .flatMap(transaction => {
+        const splits = getCategoryAllocations(transaction);
+        const isSplit = isSplitTransaction(transaction);
+
+        return splits.map((split, index) => [
+          toExcelDate(transaction.date),
+          transaction.description,
+          split.amount,
+          TRANSACTION_TYPE_LABELS[transaction.type],
+          transaction.type === 'transfer' ? '' : getCategoryLabel(categories, split.category),
+          accountNames.get(transaction.account) || transaction.account,
+          transaction.toAccount ? accountNames.get(transaction.toAccount) || transaction.toAccount : '',
+          transaction.creditCard ? cardNames.get(transaction.creditCard) || transaction.creditCard : '',
+          transaction.installments || null,
+          transaction.recurring ? 'Sim' : 'Não',
+          isSplit ? `${index + 1}/${splits.length}` : '',
+          Array.from(new Set([...(transaction.tags || []), ...(split.tags || [])])).join('; '),
+        ]);
+      });
+
+    addSheet(workbook, 'Transações', [
+      { header: 'Data', kind: 'date', width: 12 },
+      { header: 'Descrição', kind: 'text', width: 40 },
+      { header: 'Valor', kind: 'currency' },
+      { header: 'Tipo', kind: 'text', width: 14 },
+      { header: 'Categoria', kind: 'text', width: 28 },
+      { header: 'Conta', kind: 'text' },
+      { header: 'Conta Destino', kind: 'text' },
+      { header: 'Cartão', kind: 'text' },
+      { header: 'Parcelas', kind: 'integer', width: 10 },
+      { header: 'Recorrente', kind: 'text', width: 12 },
+      { header: 'Divisão', kind: 'text', width: 10 },
+      { header: 'Tags', kind: 'text', width: 24 },
+    ], rows, options);
+  }
+
+  if (options.includeAccounts !== false && data.accounts.length > 0) {
+    addSheet(workbook, 'Contas', [
+      { header: 'Nome', kind: 'text', width: 24 },
+      { header: 'Banco', kind: 'text' },
+      { header: 'Tipo', kind: 'text', width: 16 },
+      { header: 'Saldo', kind: 'currency', width: 16 },
+      { header: 'Data de Criação', kind: 'date', width: 16 },
+    ], data.accounts.map(account => [
+      account.name,
+      account.bank,
+      ACCOUNT_TYPE_LABELS[account.type],
+      account.balance,
+      toExcelDate(account.createdAt),
+    ]), options);
+  }
+
+  if (options.includeCreditCards !== false && data.creditCards.length > 0) {
+    addSheet(workbook, 'Cartões', [
+      { header: 'Nome', kind: 'text', width: 24 },
+      { header: 'Banco', kind: 'text' },
+      { header: 'Limite', kind: 'currency', width: 16 },
+      { header: 'Saldo Atual', kind: 'currency', width: 16 },
+      { header: 'Vencimento', kind: 'integer', width: 12 },
+      { header: 'Fechamento', kind: 'integer', width: 12 },
+      { header: 'Utilização', kind: 'percent', width: 12 },
+    ], data.creditCards.map(card => [
+      card.name,
+      card.bank,
+      card.limit,
+      card.currentBalance,
+      card.dueDate,
+      card.closingDate,
+      card.limit > 0 ? card.currentBalance / card.limit : 0,
+    ]), options);
+  }
+
+  if (options.includeGoals !== false && data.goals.length > 0) {
+    addSheet(workbook, 'Metas', [
+      { header: 'Título', kind: 'text', width: 24 },
+      { header: 'Descrição', kind: 'text', width: 30 },
+      { header: 'Meta', kind: 'currency', width: 16 },
+      { header: 'Atual', kind: 'currency', width: 16 },
+      { header: 'Progresso', kind: 'percent', width: 12 },
+      { header: 'Prazo', kind: 'date', width: 12 },
+      { header: 'Categoria', kind: 'text', width: 14 },
+      { header: 'Status', kind: 'text', width: 14 },
+    ], data.goals.map(goal => {
+      const isCompleted = goal.currentAmount >= goal.targetAmount;
+      const isOverdue = new Date() > goal.deadline;
+      return [
+        goal.title,
+        goal.description || '',
+        goal.targetAmount,
+        goal.currentAmount,
+        goal.targetAmount > 0 ? goal.currentAmount / goal.targetAmount : 0,
+        toExcelDate(goal.deadline),
+        goal.category,
+        isCompleted ? 'Concluída' : isOverdue ? 'Atrasada' : 'Em andamento',
+      ];
+    }), options);
+  }
+
+  if (options.includeBudgets !== false && data.budgets.length > 0) {
+    addSheet(workbook, 'Orçamentos', [
+      { header: 'Categoria', kind: 'text', width: 28 },
+      { header: 'Limite', kind: 'currency', width: 16 },
+      { header: 'Disponível', kind: 'currency', width: 16 },
+      { header: 'Gasto', kind: 'currency', width: 16 },
+      { header: 'Restante', kind: 'currency', width: 16 },
+      { header: 'Utilização', kind: 'percent', width: 12 },
+      { header: 'Período', kind: 'text', width: 12 },
+      { header: 'Status', kind: 'text', width: 12 },
+    ], data.budgets.map(budget => {
+      const { available, spent, remaining, percentage } = getBudgetStatus(budget, options.budgetTransactions || data.transactions, categories);
+      return [
+        getCategoryLabel(categories, budget.category),
+        budget.limit,
+        available,
+        spent,
+        remaining,
+        percentage / 100,
+        BUDGET_PERIOD_LABELS[budget.period],
+        remaining < 0 ? 'Excedido' : percentage > 80 ? 'Atenção' : 'Normal',
+      ];
+    }), options);
+  }
+
+  if (workbook.worksheets.length === 0) {
+    throw new Error('Nenhum dado para exportar');
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+export const downloadXLSXWorkbook = async (data: ExportData, options: XLSXExportOptions): Promise<void> => {
+  const blob = await generateXLSXWorkbook(data, options);
+  downloadBlob(blob, `tijigui-mobills_${format(new Date(), 'yyyy-MM-dd_HH-mm-ss')}.xlsx`);
+};
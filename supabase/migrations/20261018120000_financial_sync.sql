@@ -0,0 +1,77 @@
+-- Cloud copies of the financial collections, one table per collection. Each row holds
+-- the record as the app stores it; the app migrates and validates it on the way in.
+-- Deleted records stay as tombstones so other devices can pull the deletion.
+
+create or replace function public.set_sync_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- Server clock, so pulls by updated_at do not depend on the devices' clocks
+  new.updated_at = clock_timestamp();
+  return new;
+end;
+$$;
+
+do $$
+declare
+  table_name text;
+begin
+  foreach table_name in array array[
+    'accounts',
+    'transactions',
+    'credit_cards',
+    'categories',
+    'goals',
+    'goal_contributions',
+    'budgets'
+  ]
+  loop
+    execute format($table$
+      create table if not exists public.%1$I (
+        user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+        id text not null,
+        data jsonb,
+        deleted boolean not null default false,
+        schema_version integer not null,
+        updated_at timestamptz not null default clock_timestamp(),
+        primary key (user_id, id)
+      )
+    $table$, table_name);
+
+    execute format(
+      'create index if not exists %1$I on public.%2$I (user_id, updated_at)',
+      table_name || '_user_updated_at_idx', table_name
+    );
+
+    execute format(
+      'create trigger %1$I before insert or update on public.%2$I
+         for each row execute function public.set_sync_updated_at()',
+      table_name || '_set_updated_at', table_name
+    );
+
+    execute format('alter table public.%I enable row level security', table_name);
+
+    execute format(
+      'create policy "Users read their own rows" on public.%I
+         for select to authenticated using (auth.uid() = user_id)',
+      table_name
+    );
+    execute format(
+      'create policy "Users insert their own rows" on public.%I
+         for insert to authenticated with check (auth.uid() = user_id)',
+      table_name
+    );
+    execute format(
+      'create policy "Users update their own rows" on public.%I
+         for update to authenticated using (auth.uid() = user_id) with check (auth.uid() = user_id)',
+      table_name
+    );
+    execute format(
+      'create policy "Users delete their own rows" on public.%I
+         for delete to authenticated using (auth.uid() = user_id)',
+      table_name
+    );
+  end loop;
+end;
+$$;
@@ -0,0 +1,95 @@
+-- Version of each row, raised by the server on every write. Devices send back the
+-- version their change is based on, and a write based on an older version is
+-- rejected instead of replacing a change it never saw.
+
+create or replace function public.set_sync_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'UPDATE' then
+    new.version = old.version + 1;
+  else
+    new.version = 1;
+  end if;
+  -- Server clock, so pulls by updated_at do not depend on the devices' clocks
+  new.updated_at = clock_timestamp();
+  return new;
+end;
+$$;
+
+do $$
+declare
+  table_name text;
+begin
+  foreach table_name in array array[
+    'accounts',
+    'transactions',
+    'credit_cards',
+    'categories',
+    'goals',
+    'goal_contributions',
+    'budgets'
+  ]
+  loop
+    execute format('alter table public.%I add column if not exists version bigint not null default 1', table_name);
+
+    execute format('drop trigger if exists %1$I on public.%2$I', table_name || '_set_updated_at', table_name);
+    execute format(
+      'create trigger %1$I before insert or update on public.%2$I
+         for each row execute function public.set_sync_version()',
+      table_name || '_set_version', table_name
+    );
+  end loop;
+end;
+$$;
+
+drop function if exists public.set_sync_updated_at();
+
+-- Writes each row of p_rows ({ id, data, deleted, schema_version, base_version }) unless
+-- the stored row moved past base_version (0 for a row the device never pulled). Returns
+-- the stored row for each one, and whether the write was applied.
+create or replace function public.push_sync_rows(p_table text, p_rows jsonb)
+returns table (
+  id text,
+  applied boolean,
+  data jsonb,
+  deleted boolean,
+  schema_version integer,
+  version bigint,
+  updated_at timestamptz
+)
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  sync_row jsonb;
+begin
+  if p_table not in ('accounts', 'transactions', 'credit_cards', 'categories', 'goals', 'goal_contributions', 'budgets') then
+    raise exception 'Unknown sync table: %', p_table;
+  end if;
+
+  for sync_row in select value from jsonb_array_elements(p_rows)
+  loop
+    return query execute format($query$
+      with saved as (
+        insert into public.%1$I as t (id, data, deleted, schema_version)
+        values ($1->>'id', $1->'data', ($1->>'deleted')::boolean, ($1->>'schema_version')::integer)
+        on conflict (user_id, id) do update
+          set data = excluded.data, deleted = excluded.deleted, schema_version = excluded.schema_version
+          where t.version = ($1->>'base_version')::bigint
+        returning t.id, t.data, t.deleted, t.schema_version, t.version, t.updated_at
+      )
+      select s.id, true, s.data, s.deleted, s.schema_version, s.version, s.updated_at
+      from saved s
+      union all
+      select t.id, false, t.data, t.deleted, t.schema_version, t.version, t.updated_at
+      from public.%1$I t
+      where t.user_id = auth.uid() and t.id = $1->>'id' and not exists (select 1 from saved)
+    $query$, p_table) using sync_row;
+  end loop;
+end;
+$$;
+
+grant execute on function public.push_sync_rows(text, jsonb) to authenticated;